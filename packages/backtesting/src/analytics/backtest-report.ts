@@ -0,0 +1,181 @@
+/**
+ * Backtest report generation
+ * Derives calendar returns, drawdown periods and rolling Sharpe ratios from an equity curve.
+ */
+
+import {
+  BacktestReport,
+  BacktestReportOptions,
+  BacktestResult,
+  CalendarYearReturns,
+  DrawdownReportEntry,
+  EquityCurvePoint,
+  RollingSharpeSeries
+} from '@jware-trader8/types';
+import { calculateDrawdownPeriods, calculateSharpeRatio } from '@jware-trader8/utils';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const TRADING_DAYS_PER_YEAR = 252;
+const DEFAULT_TOP_DRAWDOWNS = 5;
+const DEFAULT_ROLLING_WINDOWS = [30, 90];
+
+/**
+ * Backtest report generator implementation
+ */
+export class BacktestReportGenerator {
+  /**
+   * Generate a report from a backtest result
+   */
+  generate(result: BacktestResult, options: BacktestReportOptions = {}): BacktestReport {
+    const topDrawdowns = options.topDrawdowns ?? DEFAULT_TOP_DRAWDOWNS;
+    const rollingWindows = options.rollingWindows ?? DEFAULT_ROLLING_WINDOWS;
+
+    if (!Number.isInteger(topDrawdowns) || topDrawdowns < 0) {
+      throw new Error('topDrawdowns must be a non-negative integer');
+    }
+    if (rollingWindows.some(window => !Number.isInteger(window) || window <= 0)) {
+      throw new Error('Rolling windows must be positive whole days');
+    }
+
+    const equityCurve = result.equityCurve;
+    const initialValue = result.config?.portfolio?.initialCash ?? equityCurve[0]?.totalValue ?? 0;
+
+    return {
+      calendarReturns: this.calculateCalendarReturns(equityCurve, initialValue),
+      drawdowns: this.calculateDrawdowns(equityCurve, topDrawdowns),
+      rollingSharpe: rollingWindows.map(window => this.calculateRollingSharpe(equityCurve, window))
+    };
+  }
+
+  /**
+   * Month-by-year returns, each month measured from the previous month's close
+   * The first month is measured from the initial portfolio value.
+   */
+  calculateCalendarReturns(equityCurve: EquityCurvePoint[], initialValue: number): CalendarYearReturns[] {
+    const years = new Map<number, CalendarYearReturns>();
+    let monthStartValue = initialValue;
+    let yearStartValue = initialValue;
+
+    for (let i = 0; i < equityCurve.length; i++) {
+      const point = equityCurve[i];
+      const next = equityCurve[i + 1];
+      const year = point.timestamp.getUTCFullYear();
+      const month = point.timestamp.getUTCMonth();
+
+      let row = years.get(year);
+      if (!row) {
+        row = { year, months: new Array(12).fill(null), total: 0 };
+        years.set(year, row);
+      }
+
+      // Close the month on its last point
+      const monthEnds = !next || next.timestamp.getUTCMonth() !== month || next.timestamp.getUTCFullYear() !== year;
+      if (monthEnds) {
+        row.months[month] = this.periodReturn(monthStartValue, point.totalValue);
+        monthStartValue = point.totalValue;
+      }
+
+      const yearEnds = !next || next.timestamp.getUTCFullYear() !== year;
+      if (yearEnds) {
+        row.total = this.periodReturn(yearStartValue, point.totalValue);
+        yearStartValue = point.totalValue;
+      }
+    }
+
+    return Array.from(years.values());
+  }
+
+  /**
+   * Deepest drawdown periods with dates, deepest first
+   */
+  calculateDrawdowns(equityCurve: EquityCurvePoint[], limit: number = DEFAULT_TOP_DRAWDOWNS): DrawdownReportEntry[] {
+    if (equityCurve.length === 0) {
+      return [];
+    }
+
+    const lastPoint = equityCurve[equityCurve.length - 1];
+
+    return calculateDrawdownPeriods(equityCurve.map(point => point.totalValue))
+      .sort((a, b) => b.depth - a.depth)
+      .slice(0, limit)
+      .map(period => {
+        const start = equityCurve[period.peakIndex].timestamp;
+        const recovery = period.recoveryIndex !== null ? equityCurve[period.recoveryIndex].timestamp : null;
+        const end = recovery || lastPoint.timestamp;
+        return {
+          start,
+          trough: equityCurve[period.troughIndex].timestamp,
+          recovery,
+          depth: period.depth,
+          length: (end.getTime() - start.getTime()) / MS_PER_DAY
+        };
+      });
+  }
+
+  /**
+   * Annualized Sharpe ratio of daily returns over a trailing window of calendar days
+   * Points start once the backtest has run for a full window.
+   */
+  calculateRollingSharpe(equityCurve: EquityCurvePoint[], windowDays: number): RollingSharpeSeries {
+    const dailyCloses = this.getDailyCloses(equityCurve);
+    const points: RollingSharpeSeries['points'] = [];
+
+    if (dailyCloses.length === 0) {
+      return { windowDays, points };
+    }
+
+    const firstTime = dailyCloses[0].timestamp.getTime();
+    const windowMs = windowDays * MS_PER_DAY;
+
+    for (let i = 1; i < dailyCloses.length; i++) {
+      const time = dailyCloses[i].timestamp.getTime();
+      if (time - firstTime < windowMs) {
+        continue;
+      }
+
+      const returns: number[] = [];
+      for (let j = i; j > 0 && dailyCloses[j].timestamp.getTime() > time - windowMs; j--) {
+        const prevValue = dailyCloses[j - 1].totalValue;
+        if (prevValue > 0) {
+          returns.push((dailyCloses[j].totalValue - prevValue) / prevValue);
+        }
+      }
+
+      const sharpeRatio = returns.length > 1
+        ? calculateSharpeRatio(returns) * Math.sqrt(TRADING_DAYS_PER_YEAR)
+        : null;
+
+      points.push({
+        timestamp: dailyCloses[i].timestamp,
+        sharpeRatio: sharpeRatio !== null && isFinite(sharpeRatio) ? sharpeRatio : null
+      });
+    }
+
+    return { windowDays, points };
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private getDailyCloses(equityCurve: EquityCurvePoint[]): EquityCurvePoint[] {
+    const closes: EquityCurvePoint[] = [];
+    let lastDay: string | null = null;
+
+    for (const point of equityCurve) {
+      const day = point.timestamp.toISOString().split('T')[0];
+      if (day === lastDay) {
+        closes[closes.length - 1] = point;
+      } else {
+        closes.push(point);
+        lastDay = day;
+      }
+    }
+
+    return closes;
+  }
+
+  private periodReturn(startValue: number, endValue: number): number {
+    return startValue > 0 ? (endValue - startValue) / startValue : 0;
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Monte Carlo robustness analysis
+ * Reorders or resamples a backtest's closed trades to show how much of its result
+ * depends on the particular sequence the market happened to produce.
+ */
+
+import {
+  BacktestResult,
+  MonteCarloDistribution,
+  MonteCarloEquityBand,
+  MonteCarloOptions,
+  MonteCarloResult,
+  Trade
+} from '@jware-trader8/types';
+import {
+  calculateMaxDrawdown,
+  calculateMean,
+  calculatePercentile,
+  calculateStandardDeviation,
+  createSeededRandom
+} from '@jware-trader8/utils';
+
+const DEFAULT_ITERATIONS = 1000;
+const DEFAULT_RUIN_THRESHOLD = 0.5;
+const DEFAULT_PERCENTILES = [0.05, 0.25, 0.5, 0.75, 0.95];
+const Z_95 = 1.96;
+// Simulations whose paths are kept for the equity bands; memory grows with this times the trade count
+const MAX_BAND_PATHS = 10000;
+
+/**
+ * Monte Carlo simulator implementation
+ */
+export class MonteCarloSimulator {
+  /**
+   * Simulate alternative trade sequences from a backtest result
+   * Each trade is replayed as a return on the equity it was taken with, so
+   * reordered sequences compound the way the original did.
+   */
+  simulate(result: BacktestResult, options: MonteCarloOptions = {}): MonteCarloResult {
+    const iterations = options.iterations ?? DEFAULT_ITERATIONS;
+    const method = options.method ?? 'shuffle';
+    const skipRate = options.skipRate ?? 0;
+    const ruinThreshold = options.ruinThreshold ?? DEFAULT_RUIN_THRESHOLD;
+    const percentiles = options.percentiles ?? DEFAULT_PERCENTILES;
+
+    this.validateOptions(iterations, method, skipRate, ruinThreshold, percentiles);
+
+    const initialCapital = result.config?.portfolio?.initialCash ?? result.equityCurve[0]?.totalValue ?? 0;
+    if (!(initialCapital > 0)) {
+      throw new Error('Backtest initial capital must be greater than 0');
+    }
+
+    const trades = this.getClosedTrades(result.trades);
+    if (trades.length === 0) {
+      throw new Error('Backtest has no closed trades to resample');
+    }
+
+    const returns = this.calculateTradeReturns(trades, initialCapital);
+    const tradeCount = returns.length - Math.round(returns.length * skipRate);
+    if (tradeCount < 1) {
+      throw new Error('skipRate leaves no trades to simulate');
+    }
+
+    const random = createSeededRandom(options.seed ?? Date.now());
+    const ruinLevel = initialCapital * (1 - ruinThreshold);
+    const finalEquities: number[] = [];
+    const maxDrawdowns: number[] = [];
+    // Equity after trade j of simulation i lives at [j * bandPaths + i]; simulations are
+    // independent, so the first bandPaths of them are a random sample of all paths
+    const bandPaths = Math.min(iterations, MAX_BAND_PATHS);
+    const paths = new Float64Array((tradeCount + 1) * bandPaths);
+    let ruined = 0;
+
+    for (let i = 0; i < iterations; i++) {
+      const sequence = method === 'shuffle'
+        ? this.shuffle(returns, tradeCount, random)
+        : this.bootstrap(returns, tradeCount, random);
+
+      let equity = initialCapital;
+      let peak = initialCapital;
+      let maxDrawdown = 0;
+      let isRuined = false;
+      const keepPath = i < bandPaths;
+      if (keepPath) {
+        paths[i] = equity;
+      }
+
+      for (let j = 0; j < sequence.length; j++) {
+        equity *= 1 + sequence[j];
+        peak = Math.max(peak, equity);
+        maxDrawdown = Math.max(maxDrawdown, peak > 0 ? (peak - equity) / peak : 0);
+        isRuined = isRuined || equity <= ruinLevel;
+        if (keepPath) {
+          paths[(j + 1) * bandPaths + i] = equity;
+        }
+      }
+
+      finalEquities.push(equity);
+      maxDrawdowns.push(maxDrawdown);
+      if (isRuined) {
+        ruined++;
+      }
+    }
+
+    const originalEquity = [initialCapital];
+    for (const trade of trades) {
+      originalEquity.push(originalEquity[originalEquity.length - 1] + (trade.pnl as number));
+    }
+
+    return {
+      iterations,
+      method,
+      tradeCount,
+      initialCapital,
+      finalEquity: this.describe(finalEquities, percentiles),
+      maxDrawdown: this.describe(maxDrawdowns, percentiles),
+      riskOfRuin: ruined / iterations,
+      riskOfRuinInterval: this.wilsonInterval(ruined, iterations),
+      equityBands: this.calculateEquityBands(paths, bandPaths, tradeCount, percentiles),
+      original: {
+        finalEquity: originalEquity[originalEquity.length - 1],
+        maxDrawdown: calculateMaxDrawdown(originalEquity)
+      }
+    };
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private validateOptions(
+    iterations: number,
+    method: string,
+    skipRate: number,
+    ruinThreshold: number,
+    percentiles: number[]
+  ): void {
+    if (!Number.isInteger(iterations) || iterations < 1) {
+      throw new Error('iterations must be a positive integer');
+    }
+    if (method !== 'shuffle' && method !== 'bootstrap') {
+      throw new Error(`Unknown resampling method: ${method}`);
+    }
+    if (skipRate < 0 || skipRate >= 1) {
+      throw new Error('skipRate must be at least 0 and less than 1');
+    }
+    if (ruinThreshold <= 0 || ruinThreshold > 1) {
+      throw new Error('ruinThreshold must be greater than 0 and at most 1');
+    }
+    if (percentiles.length === 0 || percentiles.some(p => p < 0 || p > 1)) {
+      throw new Error('Percentiles must be fractions between 0 and 1');
+    }
+  }
+
+  private getClosedTrades(trades: Trade[]): Trade[] {
+    return trades
+      .filter(trade => trade.status === 'CLOSED' && typeof trade.pnl === 'number')
+      .sort((a, b) => (a.exitTime?.getTime() ?? 0) - (b.exitTime?.getTime() ?? 0));
+  }
+
+  /**
+   * Each trade's P&L as a return on the equity before it closed
+   */
+  private calculateTradeReturns(trades: Trade[], initialCapital: number): number[] {
+    const returns: number[] = [];
+    let equity = initialCapital;
+
+    for (const trade of trades) {
+      const pnl = trade.pnl as number;
+      returns.push(equity > 0 ? pnl / equity : 0);
+      equity += pnl;
+    }
+
+    return returns;
+  }
+
+  // Partial Fisher-Yates: a random subset of the trades in random order
+  private shuffle(returns: number[], count: number, random: () => number): number[] {
+    const pool = [...returns];
+    for (let i = 0; i < count; i++) {
+      const j = i + Math.floor(random() * (pool.length - i));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    return pool.slice(0, count);
+  }
+
+  private bootstrap(returns: number[], count: number, random: () => number): number[] {
+    return Array.from({ length: count }, () => returns[Math.floor(random() * returns.length)]);
+  }
+
+  private describe(values: number[], percentiles: number[]): MonteCarloDistribution {
+    return {
+      mean: calculateMean(values),
+      standardDeviation: calculateStandardDeviation(values),
+      min: values.reduce((min, value) => Math.min(min, value), Infinity),
+      max: values.reduce((max, value) => Math.max(max, value), -Infinity),
+      percentiles: percentiles.map(percentile => ({
+        percentile,
+        value: calculatePercentile(values, percentile)
+      }))
+    };
+  }
+
+  private calculateEquityBands(
+    paths: Float64Array,
+    pathCount: number,
+    tradeCount: number,
+    percentiles: number[]
+  ): MonteCarloEquityBand[] {
+    const bands: MonteCarloEquityBand[] = [];
+    for (let trade = 0; trade <= tradeCount; trade++) {
+      const values = Array.from(paths.subarray(trade * pathCount, (trade + 1) * pathCount));
+      bands.push({ trade, values: percentiles.map(percentile => calculatePercentile(values, percentile)) });
+    }
+    return bands;
+  }
+
+  /**
+   * Wilson score interval, which stays inside 0-1 when ruin is rare or certain
+   */
+  private wilsonInterval(successes: number, trials: number): { lower: number; upper: number } {
+    const p = successes / trials;
+    const z2 = Z_95 * Z_95;
+    const denominator = 1 + z2 / trials;
+    const center = (p + z2 / (2 * trials)) / denominator;
+    const margin = (Z_95 * Math.sqrt(p * (1 - p) / trials + z2 / (4 * trials * trials))) / denominator;
+
+    return {
+      lower: Math.max(0, center - margin),
+      upper: Math.min(1, center + margin)
+    };
+  }
+}
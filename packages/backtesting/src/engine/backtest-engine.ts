@@ -9,22 +9,58 @@ import {
   BacktestResult, 
   PerformanceMetrics,
   EquityCurvePoint,
+  BenchmarkCurvePoint,
+  BenchmarkResult,
   OHLCV,
   Trade,
-  PortfolioSnapshot
+  TradeSignal,
+  MultiSymbolData,
+  StrategyFactory,
+  SymbolPerformance
 } from '@jware-trader8/types';
 import { Portfolio } from '../models/portfolio';
-import { Logger, calculateSharpeRatio, calculateMaxDrawdown, calculateWinRate, calculateProfitFactor } from '@jware-trader8/utils';
+import { FillModel, SimulatedOrder } from '../execution/fill-model';
+import {
+  Logger,
+  calculateSharpeRatio,
+  calculateMaxDrawdown,
+  calculateWinRate,
+  calculateProfitFactor,
+  calculateAlpha,
+  calculateBeta,
+  calculateCorrelation,
+  calculateTrackingError,
+  calculateInformationRatio,
+  calculateCaptureRatios,
+  calculateSortinoRatio,
+  calculateCalmarRatio,
+  calculateOmegaRatio,
+  calculateUlcerIndex,
+  calculateTailRatio,
+  calculateValueAtRisk,
+  calculateConditionalValueAtRisk,
+  calculateDrawdownPeriods,
+  calculateExpectancy,
+  calculateSystemQualityNumber,
+  calculateMaxConsecutive,
+  calculateExposure,
+  calculateMean
+} from '@jware-trader8/utils';
 import Decimal from 'decimal.js';
 
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
 /**
  * Backtesting engine implementation
  */
 export class BacktestEngine implements IBacktestEngine {
   private logger: Logger;
 
-  constructor() {
-    this.logger = new Logger({
+  /**
+   * @param logger - Logger for run progress; defaults to console output at info level
+   */
+  constructor(logger?: Logger) {
+    this.logger = logger || new Logger({
       level: 'info',
       console: true,
       format: 'text'
@@ -33,17 +69,28 @@ export class BacktestEngine implements IBacktestEngine {
 
   /**
    * Run backtest with strategy and historical data
+   * Accepts a single series or bars keyed by symbol; bars of all symbols are
+   * processed in timestamp order against a shared portfolio.
    */
   async runBacktest(
-    strategy: any,
-    historicalData: OHLCV[],
+    strategy: any | StrategyFactory,
+    historicalData: OHLCV[] | MultiSymbolData,
     config: BacktestExecutionConfig
   ): Promise<BacktestResult> {
     const startTime = Date.now();
-    
+    const dataBySymbol = this.normalizeData(strategy, historicalData);
+    const symbols = Object.keys(dataBySymbol);
+    const dataPoints = symbols.reduce((total, symbol) => total + dataBySymbol[symbol].length, 0);
+
+    // Each symbol gets its own strategy state, reset so repeated backtests are independent
+    const strategies = this.createSymbolStrategies(strategy, symbols);
+    const firstStrategy = strategies.values().next().value;
+    const strategyName = firstStrategy?.config?.name || 'Unknown';
+
     this.logger.info('Starting backtest', {
-      strategy: strategy.config?.name || 'Unknown',
-      dataPoints: historicalData.length,
+      strategy: strategyName,
+      symbols,
+      dataPoints,
       startDate: config.startDate,
       endDate: config.endDate,
       initialCapital: config.portfolio.initialCash
@@ -52,78 +99,73 @@ export class BacktestEngine implements IBacktestEngine {
     try {
       // Initialize portfolio
       const portfolio = new Portfolio(config.portfolio);
+      const fillModel = new FillModel(config.fillModel, config.portfolio.slippageRate);
+      const pendingOrders = new Map<string, SimulatedOrder>();
       const trades: Trade[] = [];
       const equityCurve: EquityCurvePoint[] = [];
+      const currentPrices = new Map<string, number>();
+      const barCounts = new Map<string, number>(symbols.map(symbol => [symbol, 0]));
+      let lastTimestamp: Date | null = null;
       
       // Track running metrics
       let peak = config.portfolio.initialCash;
       
-      // Process each data point
-      for (let i = 0; i < historicalData.length; i++) {
-        const dataPoint = historicalData[i];
-        
-        // Skip data outside the configured range
-        if (dataPoint.timestamp < config.startDate || dataPoint.timestamp > config.endDate) {
-          continue;
-        }
-
+      // Process each timestamp across all symbols
+      for (const { timestamp, bars } of this.alignBars(dataBySymbol, config)) {
         try {
-          // Create current prices map for portfolio valuation
-          const symbol = strategy.config?.parameters?.symbol || 'UNKNOWN';
-          const currentPrices = new Map([[symbol, dataPoint.close]]);
+          // Prices carry forward for symbols without a bar at this timestamp
+          for (const [symbol, bar] of bars) {
+            currentPrices.set(symbol, bar.close);
+          }
+          portfolio.updateMarketPrices(currentPrices);
+          portfolio.accrueBorrowFees(currentPrices, timestamp);
+          lastTimestamp = timestamp;
           
           // Apply risk management first
           if (config.portfolio.riskManagement) {
-            const riskTrades = portfolio.applyRiskManagement(currentPrices, dataPoint.timestamp);
-            trades.push(...riskTrades);
+            const riskTrades = portfolio.applyRiskManagement(currentPrices, timestamp);
+            riskTrades.forEach(trade => this.recordTrade(trades, trade));
           }
 
-          // Execute strategy if we have a strategy engine
-          if (strategy && typeof strategy.executeStrategy === 'function') {
-            const signals = await strategy.executeStrategy(strategy, dataPoint);
-            
-            // Process signals
+          for (const [symbol, bar] of bars) {
+            barCounts.set(symbol, barCounts.get(symbol)! + 1);
+
+            // Orders from earlier bars get the first chance to fill
+            const pendingOrder = pendingOrders.get(symbol);
+            if (pendingOrder) {
+              this.executeOrder(pendingOrder, bar, false, fillModel, portfolio, trades);
+              if (pendingOrder.quantity <= 0) {
+                pendingOrders.delete(symbol);
+              }
+            }
+
+            // Execute strategy if we have a strategy engine
+            const symbolStrategy = strategies.get(symbol);
+            if (!symbolStrategy || typeof symbolStrategy.executeStrategy !== 'function') {
+              continue;
+            }
+
+            const signals = await symbolStrategy.executeStrategy(symbolStrategy, bar);
             for (const signal of signals) {
-              if (signal.type === 'BUY') {
-                const quantity = this.calculatePositionSize(
-                  signal.price, 
-                  portfolio.getTotalValue(currentPrices),
-                  config.portfolio
-                );
-                
-                if (portfolio.canBuy(signal.symbol, signal.price, quantity)) {
-                  const trade = portfolio.openPosition(
-                    signal.symbol, 
-                    signal.price, 
-                    quantity, 
-                    dataPoint.timestamp
-                  );
-                  trade.entryReason = signal.reason;
-                  trade.strategyName = signal.strategyName;
-                  trades.push(trade);
-                }
-              } else if (signal.type === 'SELL') {
-                if (portfolio.hasPosition(signal.symbol)) {
-                  const trade = portfolio.closePosition(
-                    signal.symbol, 
-                    signal.price, 
-                    dataPoint.timestamp
-                  );
-                  trade.exitReason = signal.reason;
-                  
-                  // Update the existing trade record
-                  const existingTrade = trades.find(t => t.id === trade.id);
-                  if (existingTrade) {
-                    Object.assign(existingTrade, trade);
-                  }
-                }
+              // A new signal replaces any order still working for the symbol
+              pendingOrders.delete(symbol);
+
+              const order = this.createOrder(signal, symbol, portfolio, currentPrices, config);
+              if (!order) {
+                continue;
+              }
+              if (fillModel.fillsOnSignalBar(order)) {
+                this.executeOrder(order, bar, true, fillModel, portfolio, trades);
+              }
+              if (order.quantity > 0) {
+                pendingOrders.set(symbol, order);
               }
             }
           }
 
           // Record equity curve point
           const totalValue = portfolio.getTotalValue(currentPrices);
-          const snapshot = portfolio.getSnapshot(currentPrices, dataPoint.timestamp);
+          const snapshot = portfolio.getSnapshot(currentPrices, timestamp);
           
           // Update peak for drawdown calculation
           if (totalValue > peak) {
@@ -133,7 +175,7 @@ export class BacktestEngine implements IBacktestEngine {
           const drawdown = peak > 0 ? (peak - totalValue) / peak : 0;
 
           const equityPoint: EquityCurvePoint = {
-            timestamp: dataPoint.timestamp,
+            timestamp,
             totalValue,
             cash: snapshot.cash,
             positionsValue: totalValue - snapshot.cash,
@@ -146,52 +188,57 @@ export class BacktestEngine implements IBacktestEngine {
 
         } catch (error) {
           this.logger.error('Error processing data point', {
-            timestamp: dataPoint.timestamp,
+            timestamp,
             error: error instanceof Error ? error.message : 'Unknown error'
           });
           // Continue processing other points
         }
       }
 
-      // Close any remaining open positions at final price
-      const finalDataPoint = historicalData[historicalData.length - 1];
-      const symbol = strategy.config?.parameters?.symbol || 'UNKNOWN';
-      const finalPrices = new Map([[symbol, finalDataPoint.close]]);
-      
+      // Close any remaining open positions at each symbol's final price
+      const finalTimestamp = lastTimestamp || config.endDate;
       for (const [symbol] of portfolio.getPositions()) {
-        if (portfolio.hasPosition(symbol)) {
-          const trade = portfolio.closePosition(symbol, finalDataPoint.close, finalDataPoint.timestamp);
-          trade.exitReason = 'End of backtest';
-          
-          const existingTrade = trades.find(t => t.id === trade.id);
-          if (existingTrade) {
-            Object.assign(existingTrade, trade);
-          }
-        }
+        const trade = portfolio.closePosition(symbol, currentPrices.get(symbol)!, finalTimestamp);
+        trade.exitReason = 'End of backtest';
+        this.recordTrade(trades, trade);
       }
 
       // Get final portfolio snapshot
-      const finalSnapshot = portfolio.getSnapshot(finalPrices, finalDataPoint.timestamp);
+      const finalSnapshot = portfolio.getSnapshot(currentPrices, finalTimestamp);
+      const closedTrades = trades.filter(t => t.status === 'CLOSED');
+
+      const benchmark = config.benchmarkData && config.benchmarkData.length > 0 && equityCurve.length > 0
+        ? this.buildBenchmark(config.benchmark || 'BENCHMARK', config.benchmarkData, equityCurve, config.portfolio.initialCash)
+        : undefined;
 
       // Calculate performance metrics
       const summary = this.calculatePerformanceMetrics(
-        trades.filter(t => t.status === 'CLOSED'),
+        closedTrades,
         equityCurve,
-        config.portfolio.initialCash
+        config.portfolio.initialCash,
+        benchmark?.equityCurve
+      );
+
+      const symbolBreakdown = symbols.map(symbol =>
+        this.calculateSymbolPerformance(symbol, closedTrades, barCounts.get(symbol)!)
       );
 
       const executionTime = Date.now() - startTime;
 
       const result: BacktestResult = {
         summary,
-        trades: trades.filter(t => t.status === 'CLOSED'),
+        trades: closedTrades,
         equityCurve,
         finalPortfolio: finalSnapshot,
+        symbolBreakdown,
+        fillModel: fillModel.getConfig(),
+        benchmark,
         config,
         metadata: {
-          strategyName: strategy.config?.name || 'Unknown',
+          strategyName,
           executionTime,
-          dataPoints: historicalData.length,
+          dataPoints,
+          symbols,
           startDate: config.startDate,
           endDate: config.endDate
         }
@@ -218,11 +265,13 @@ export class BacktestEngine implements IBacktestEngine {
 
   /**
    * Calculate performance metrics from trades and equity curve
+   * Benchmark-relative metrics are added when an aligned benchmark curve is given.
    */
   calculatePerformanceMetrics(
     trades: Trade[],
     equityCurve: EquityCurvePoint[],
-    initialValue: number
+    initialValue: number,
+    benchmarkCurve?: BenchmarkCurvePoint[]
   ): PerformanceMetrics {
     if (equityCurve.length === 0) {
       return this.getEmptyMetrics();
@@ -242,7 +291,7 @@ export class BacktestEngine implements IBacktestEngine {
     // Calculate time period for annualized return
     const startDate = equityCurve[0].timestamp;
     const endDate = equityCurve[equityCurve.length - 1].timestamp;
-    const daysElapsed = (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24);
+    const daysElapsed = (endDate.getTime() - startDate.getTime()) / MS_PER_DAY;
     const yearsElapsed = daysElapsed / 365.25;
     
     const annualizedReturn = yearsElapsed > 0 ? 
@@ -271,6 +320,18 @@ export class BacktestEngine implements IBacktestEngine {
     const volatility = dailyReturns.length > 1 ? 
       this.calculateStandardDeviation(dailyReturns) * Math.sqrt(252) : 0;
 
+    // Risk-adjusted and tail metrics use the same per-point returns as the Sharpe ratio
+    const hasReturns = returns.length > 1;
+    const { longestDrawdownDuration, longestRecoveryTime } = this.calculateDrawdownDurations(equityCurve);
+    const consecutive = calculateMaxConsecutive(pnlValues);
+    const holdingPeriods = trades
+      .filter(t => t.exitTime)
+      .map(t => (t.exitTime!.getTime() - t.entryTime.getTime()) / MS_PER_DAY);
+
+    const benchmarkMetrics = benchmarkCurve && benchmarkCurve.length === equityCurve.length
+      ? this.calculateBenchmarkMetrics(equityCurve, benchmarkCurve, yearsElapsed)
+      : {};
+
     return {
       totalReturn,
       annualizedReturn,
@@ -286,7 +347,23 @@ export class BacktestEngine implements IBacktestEngine {
       worstTrade,
       averageWin,
       averageLoss,
-      volatility
+      volatility,
+      sortinoRatio: hasReturns ? calculateSortinoRatio(returns) : 0,
+      calmarRatio: calculateCalmarRatio(annualizedReturn, maxDrawdown),
+      omegaRatio: hasReturns ? calculateOmegaRatio(returns) : 1,
+      ulcerIndex: calculateUlcerIndex(equityValues),
+      tailRatio: hasReturns ? calculateTailRatio(returns) : 1,
+      valueAtRisk: hasReturns ? calculateValueAtRisk(returns) : 0,
+      conditionalValueAtRisk: hasReturns ? calculateConditionalValueAtRisk(returns) : 0,
+      longestDrawdownDuration,
+      longestRecoveryTime,
+      expectancy: calculateExpectancy(pnlValues),
+      systemQualityNumber: calculateSystemQualityNumber(pnlValues),
+      maxConsecutiveWins: consecutive.wins,
+      maxConsecutiveLosses: consecutive.losses,
+      averageHoldingPeriod: holdingPeriods.length > 0 ? calculateMean(holdingPeriods) : 0,
+      exposure: calculateExposure(equityCurve.map(point => point.positionsValue)),
+      ...benchmarkMetrics
     };
   }
 
@@ -294,6 +371,198 @@ export class BacktestEngine implements IBacktestEngine {
    * Private helper methods
    */
 
+  private normalizeData(strategy: any, historicalData: OHLCV[] | MultiSymbolData): MultiSymbolData {
+    if (!Array.isArray(historicalData)) {
+      return historicalData;
+    }
+    const symbol = (typeof strategy !== 'function' && strategy?.config?.parameters?.symbol) || 'UNKNOWN';
+    return { [symbol]: historicalData };
+  }
+
+  private createSymbolStrategies(strategy: any | StrategyFactory, symbols: string[]): Map<string, any> {
+    if (typeof strategy !== 'function' && symbols.length > 1) {
+      throw new Error('Multi-symbol backtests require a strategy factory so each symbol keeps its own state');
+    }
+
+    const strategies = new Map<string, any>();
+    for (const symbol of symbols) {
+      const symbolStrategy = typeof strategy === 'function' ? strategy(symbol) : strategy;
+      if (symbolStrategy && typeof symbolStrategy.resetStrategy === 'function') {
+        symbolStrategy.resetStrategy(symbolStrategy);
+      }
+      strategies.set(symbol, symbolStrategy);
+    }
+    return strategies;
+  }
+
+  /**
+   * Group in-range bars of all symbols by timestamp, in chronological order
+   */
+  private alignBars(
+    dataBySymbol: MultiSymbolData,
+    config: BacktestExecutionConfig
+  ): Array<{ timestamp: Date; bars: Map<string, OHLCV> }> {
+    const slices = new Map<number, { timestamp: Date; bars: Map<string, OHLCV> }>();
+
+    for (const [symbol, data] of Object.entries(dataBySymbol)) {
+      for (const dataPoint of data) {
+        // Skip data outside the configured range
+        if (dataPoint.timestamp < config.startDate || dataPoint.timestamp > config.endDate) {
+          continue;
+        }
+
+        const time = dataPoint.timestamp.getTime();
+        if (!slices.has(time)) {
+          slices.set(time, { timestamp: dataPoint.timestamp, bars: new Map() });
+        }
+        slices.get(time)!.bars.set(symbol, dataPoint);
+      }
+    }
+
+    return Array.from(slices.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, slice]) => slice);
+  }
+
+  /**
+   * Turn a signal into an order, or null when there is nothing to trade
+   */
+  private createOrder(
+    signal: TradeSignal,
+    symbol: string,
+    portfolio: Portfolio,
+    currentPrices: Map<string, number>,
+    config: BacktestExecutionConfig
+  ): SimulatedOrder | null {
+    if (signal.type === 'HOLD') {
+      return null;
+    }
+
+    const type = signal.orderType || 'MARKET';
+    if ((type === 'LIMIT' && signal.limitPrice === undefined) ||
+        (type === 'STOP' && signal.stopPrice === undefined) ||
+        type === 'STOP_LIMIT' || type === 'TRAILING_STOP') {
+      this.logger.warn('Ignoring signal with unsupported order settings', {
+        symbol,
+        orderType: type,
+        reason: signal.reason
+      });
+      return null;
+    }
+
+    let quantity: number;
+    if (signal.type === 'BUY' || signal.type === 'SHORT') {
+      quantity = this.calculatePositionSize(
+        signal.price, 
+        portfolio.getTotalValue(currentPrices),
+        config.portfolio
+      );
+    } else {
+      // SELL exits longs and COVER exits shorts
+      const position = portfolio.getPositions().get(symbol);
+      if (!position || position.side !== (signal.type === 'SELL' ? 'LONG' : 'SHORT')) {
+        return null;
+      }
+      quantity = Math.abs(position.quantity);
+    }
+
+    return {
+      symbol,
+      action: signal.type,
+      side: signal.type === 'BUY' || signal.type === 'COVER' ? 'BUY' : 'SELL',
+      type,
+      quantity,
+      limitPrice: signal.limitPrice,
+      stopPrice: signal.stopPrice,
+      signal
+    };
+  }
+
+  /**
+   * Fill as much of an order as the bar allows, reducing its remaining quantity
+   * Orders that can no longer be filled are cancelled by zeroing their quantity.
+   */
+  private executeOrder(
+    order: SimulatedOrder,
+    bar: OHLCV,
+    onSignalBar: boolean,
+    fillModel: FillModel,
+    portfolio: Portfolio,
+    trades: Trade[]
+  ): void {
+    const fill = fillModel.fill(order, bar, onSignalBar);
+    if (!fill) {
+      return;
+    }
+
+    if (order.action === 'BUY' || order.action === 'SHORT') {
+      const isShort = order.action === 'SHORT';
+      const canOpen = (quantity: number) => isShort ?
+        portfolio.canShort(order.symbol, fill.price, quantity) :
+        portfolio.canBuy(order.symbol, fill.price, quantity);
+
+      let quantity = fill.quantity;
+      if (!canOpen(quantity)) {
+        // Keep the order's notional value when the fill price moved above the signal price
+        quantity = quantity * Math.min(1, order.signal.price / fill.price);
+        if (!canOpen(quantity)) {
+          order.quantity = 0;
+          return;
+        }
+      }
+
+      const trade = isShort ?
+        portfolio.openShortPosition(order.symbol, fill.price, quantity, bar.timestamp) :
+        portfolio.openPosition(order.symbol, fill.price, quantity, bar.timestamp);
+      trade.entryReason = order.signal.reason;
+      trade.strategyName = order.signal.strategyName;
+      this.recordTrade(trades, trade);
+    } else {
+      const position = portfolio.getPositions().get(order.symbol);
+      if (!position || position.side !== (order.action === 'SELL' ? 'LONG' : 'SHORT')) {
+        order.quantity = 0;
+        return;
+      }
+      const trade = portfolio.closePosition(order.symbol, fill.price, bar.timestamp, fill.quantity);
+      trade.exitReason = order.signal.reason;
+      this.recordTrade(trades, trade);
+    }
+
+    order.quantity = new Decimal(order.quantity).sub(fill.quantity).toNumber();
+  }
+
+  /**
+   * Add a trade, or update the existing record when a position is closed
+   */
+  private recordTrade(trades: Trade[], trade: Trade): void {
+    const existingTrade = trades.find(t => t.id === trade.id);
+    if (existingTrade) {
+      Object.assign(existingTrade, trade);
+    } else {
+      trades.push(trade);
+    }
+  }
+
+  private calculateSymbolPerformance(symbol: string, trades: Trade[], dataPoints: number): SymbolPerformance {
+    const symbolTrades = trades.filter(t => t.symbol === symbol);
+    const pnlValues = symbolTrades.map(t => t.pnl || 0);
+    const totalPnL = pnlValues.reduce((sum, pnl) => sum + pnl, 0);
+
+    return {
+      symbol,
+      dataPoints,
+      totalTrades: symbolTrades.length,
+      winningTrades: pnlValues.filter(pnl => pnl > 0).length,
+      losingTrades: pnlValues.filter(pnl => pnl < 0).length,
+      winRate: calculateWinRate(pnlValues),
+      totalPnL,
+      totalCommission: symbolTrades.reduce((sum, t) => sum + t.commission, 0),
+      averageTradeReturn: pnlValues.length > 0 ? totalPnL / pnlValues.length : 0,
+      bestTrade: pnlValues.length > 0 ? Math.max(...pnlValues) : 0,
+      worstTrade: pnlValues.length > 0 ? Math.min(...pnlValues) : 0
+    };
+  }
+
   private calculatePositionSize(
     price: number, 
     portfolioValue: number, 
@@ -320,6 +589,106 @@ export class BacktestEngine implements IBacktestEngine {
     return returns;
   }
 
+  /**
+   * Buy-and-hold benchmark valued at each equity curve timestamp
+   * Uses the latest benchmark close at or before each point; points before the
+   * first benchmark bar are held at the initial value.
+   */
+  private buildBenchmark(
+    symbol: string,
+    benchmarkData: OHLCV[],
+    equityCurve: EquityCurvePoint[],
+    initialValue: number
+  ): BenchmarkResult {
+    const bars = [...benchmarkData].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const prices: Array<number | null> = [];
+    let index = -1;
+
+    for (const point of equityCurve) {
+      while (index + 1 < bars.length && bars[index + 1].timestamp.getTime() <= point.timestamp.getTime()) {
+        index++;
+      }
+      prices.push(index >= 0 ? bars[index].close : null);
+    }
+
+    const basePrice = prices.find(price => price !== null) ?? bars[0].close;
+    const curve = equityCurve.map((point, i) => {
+      const price = prices[i] ?? basePrice;
+      return {
+        timestamp: point.timestamp,
+        price,
+        totalValue: new Decimal(initialValue).times(price).dividedBy(basePrice).toNumber()
+      };
+    });
+
+    const finalValue = curve[curve.length - 1].totalValue;
+    return {
+      symbol,
+      equityCurve: curve,
+      totalReturn: (finalValue - initialValue) / initialValue
+    };
+  }
+
+  private calculateBenchmarkMetrics(
+    equityCurve: EquityCurvePoint[],
+    benchmarkCurve: BenchmarkCurvePoint[],
+    yearsElapsed: number
+  ): Partial<PerformanceMetrics> {
+    const returns: number[] = [];
+    const benchmarkReturns: number[] = [];
+
+    for (let i = 1; i < equityCurve.length; i++) {
+      const prevValue = equityCurve[i - 1].totalValue;
+      const prevBenchmark = benchmarkCurve[i - 1].totalValue;
+      if (prevValue > 0 && prevBenchmark > 0) {
+        returns.push((equityCurve[i].totalValue - prevValue) / prevValue);
+        benchmarkReturns.push((benchmarkCurve[i].totalValue - prevBenchmark) / prevBenchmark);
+      }
+    }
+
+    if (returns.length < 2) {
+      return {};
+    }
+
+    // Annualize with the observed sampling frequency of the equity curve
+    const periodsPerYear = yearsElapsed > 0 ? returns.length / yearsElapsed : 252;
+    const { upCapture, downCapture } = calculateCaptureRatios(returns, benchmarkReturns);
+
+    return {
+      alpha: calculateAlpha(returns, benchmarkReturns) * periodsPerYear,
+      beta: calculateBeta(returns, benchmarkReturns),
+      correlation: calculateCorrelation(returns, benchmarkReturns),
+      trackingError: calculateTrackingError(returns, benchmarkReturns) * Math.sqrt(periodsPerYear),
+      informationRatio: calculateInformationRatio(returns, benchmarkReturns) * Math.sqrt(periodsPerYear),
+      upCapture,
+      downCapture
+    };
+  }
+
+  /**
+   * Longest drawdown and recovery durations in days
+   * A drawdown still open at the end of the curve lasts until the final point.
+   */
+  private calculateDrawdownDurations(
+    equityCurve: EquityCurvePoint[]
+  ): { longestDrawdownDuration: number; longestRecoveryTime: number } {
+    const daysBetween = (from: number, to: number) =>
+      (equityCurve[to].timestamp.getTime() - equityCurve[from].timestamp.getTime()) / MS_PER_DAY;
+    const lastIndex = equityCurve.length - 1;
+
+    let longestDrawdownDuration = 0;
+    let longestRecoveryTime = 0;
+    for (const period of calculateDrawdownPeriods(equityCurve.map(point => point.totalValue))) {
+      const endIndex = period.recoveryIndex ?? lastIndex;
+      longestDrawdownDuration = Math.max(longestDrawdownDuration, daysBetween(period.peakIndex, endIndex));
+      if (period.recoveryIndex !== null) {
+        longestRecoveryTime = Math.max(longestRecoveryTime, daysBetween(period.troughIndex, period.recoveryIndex));
+      }
+    }
+
+    return { longestDrawdownDuration, longestRecoveryTime };
+  }
+
   private calculateDailyReturns(equityCurve: EquityCurvePoint[]): number[] {
     const dailyReturns: number[] = [];
     let lastDayValue: number | null = null;
@@ -366,7 +735,22 @@ export class BacktestEngine implements IBacktestEngine {
       worstTrade: 0,
       averageWin: 0,
       averageLoss: 0,
-      volatility: 0
+      volatility: 0,
+      sortinoRatio: 0,
+      calmarRatio: 0,
+      omegaRatio: 1,
+      ulcerIndex: 0,
+      tailRatio: 1,
+      valueAtRisk: 0,
+      conditionalValueAtRisk: 0,
+      longestDrawdownDuration: 0,
+      longestRecoveryTime: 0,
+      expectancy: 0,
+      systemQualityNumber: 0,
+      maxConsecutiveWins: 0,
+      maxConsecutiveLosses: 0,
+      averageHoldingPeriod: 0,
+      exposure: 0
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,35 @@
+/**
+ * Adapter from a compiled strategy to the object the backtest engine runs
+ */
+
+import { IStrategyEngine } from '@jware-trader8/core';
+import { CompiledStrategy, OHLCV, StrategyConfig, TradeSignal } from '@jware-trader8/types';
+
+/**
+ * Strategy as the backtest engine calls it: signals per bar and a reset before each symbol's run
+ */
+export interface RunnableStrategy {
+  config: StrategyConfig;
+  executeStrategy(strategy: unknown, bar: OHLCV): Promise<TradeSignal[]>;
+  resetStrategy(strategy: unknown): void;
+}
+
+/**
+ * Run a compiled strategy through its engine
+ * @param resettable - Whether the engine's reset may clear state, false to keep indicators warmed up beforehand
+ */
+export function createRunnableStrategy(
+  strategyEngine: Pick<IStrategyEngine, 'executeStrategy' | 'resetStrategy'>,
+  compiled: CompiledStrategy,
+  resettable: boolean = true
+): RunnableStrategy {
+  return {
+    config: compiled.config,
+    executeStrategy: (_strategy, bar) => strategyEngine.executeStrategy(compiled, bar),
+    resetStrategy: () => {
+      if (resettable) {
+        strategyEngine.resetStrategy(compiled);
+      }
+    }
+  };
+}
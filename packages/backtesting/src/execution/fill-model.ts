@@ -0,0 +1,171 @@
+/**
+ * Order fill simulation for backtesting
+ * Decides whether and at what price a simulated order fills within a bar.
+ */
+
+import {
+  FillModelConfig,
+  FillTiming,
+  OHLCV,
+  OrderSide,
+  OrderType,
+  SignalType,
+  SlippageModelConfig,
+  TradeSignal
+} from '@jware-trader8/types';
+
+/**
+ * Order waiting to be filled by the backtest engine
+ */
+export interface SimulatedOrder {
+  symbol: string;
+  /** Position action the order carries out */
+  action: Exclude<SignalType, 'HOLD'>;
+  side: OrderSide;
+  type: OrderType;
+  /** Quantity still to be filled */
+  quantity: number;
+  limitPrice?: number;
+  stopPrice?: number;
+  /** Signal the order was created from */
+  signal: TradeSignal;
+}
+
+/**
+ * Result of filling (part of) an order within a bar
+ */
+export interface OrderFill {
+  price: number;
+  quantity: number;
+}
+
+/**
+ * Fill model implementation
+ */
+export class FillModel {
+  private timing: FillTiming;
+  private slippage: SlippageModelConfig;
+  private maxVolumeParticipation?: number;
+
+  /**
+   * @param config - Fill settings; missing fields use defaults
+   * @param defaultSlippageRate - Percentage slippage used when no slippage model is configured
+   */
+  constructor(config: FillModelConfig = {}, defaultSlippageRate: number = 0) {
+    this.timing = config.timing || 'SIGNAL_CLOSE';
+    this.slippage = config.slippage || (defaultSlippageRate > 0
+      ? { type: 'PERCENT', amount: defaultSlippageRate }
+      : { type: 'NONE', amount: 0 });
+    this.maxVolumeParticipation = config.maxVolumeParticipation;
+
+    if (this.slippage.amount < 0) {
+      throw new Error('Slippage amount cannot be negative');
+    }
+    const participation = this.maxVolumeParticipation;
+    if (participation !== undefined && (participation <= 0 || participation > 1)) {
+      throw new Error('maxVolumeParticipation must be greater than 0 and at most 1');
+    }
+  }
+
+  /**
+   * Get the resolved fill configuration
+   */
+  getConfig(): FillModelConfig {
+    const config: FillModelConfig = { timing: this.timing, slippage: { ...this.slippage } };
+    if (this.maxVolumeParticipation !== undefined) {
+      config.maxVolumeParticipation = this.maxVolumeParticipation;
+    }
+    return config;
+  }
+
+  /**
+   * Whether a new order can fill on the bar that produced its signal
+   * Only market orders filled at the signal close qualify; everything else waits for the next bar.
+   */
+  fillsOnSignalBar(order: SimulatedOrder): boolean {
+    return order.type === 'MARKET' && this.timing === 'SIGNAL_CLOSE';
+  }
+
+  /**
+   * Try to fill an order against a bar
+   * @param onSignalBar - True when the bar is the one that produced the signal
+   * @returns Fill, or null when the order does not fill in this bar
+   */
+  fill(order: SimulatedOrder, bar: OHLCV, onSignalBar: boolean): OrderFill | null {
+    const basePrice = this.getTriggerPrice(order, bar, onSignalBar);
+    if (basePrice === null) {
+      return null;
+    }
+
+    const quantity = this.capQuantity(order.quantity, bar);
+    if (quantity <= 0) {
+      return null;
+    }
+
+    // Limit orders fill at their limit or better, so slippage only affects market and stop fills
+    const price = order.type === 'LIMIT'
+      ? basePrice
+      : this.applySlippage(basePrice, order.side, quantity, bar);
+
+    return { price, quantity };
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private getTriggerPrice(order: SimulatedOrder, bar: OHLCV, onSignalBar: boolean): number | null {
+    const isBuy = order.side === 'BUY';
+
+    switch (order.type) {
+      case 'MARKET':
+        return onSignalBar ? order.signal.price : bar.open;
+
+      case 'LIMIT': {
+        const limit = order.limitPrice!;
+        if (isBuy) {
+          return bar.low <= limit ? Math.min(bar.open, limit) : null;
+        }
+        return bar.high >= limit ? Math.max(bar.open, limit) : null;
+      }
+
+      case 'STOP': {
+        // Gaps through the stop fill at the open
+        const stop = order.stopPrice!;
+        if (isBuy) {
+          return bar.high >= stop ? Math.max(bar.open, stop) : null;
+        }
+        return bar.low <= stop ? Math.min(bar.open, stop) : null;
+      }
+
+      default:
+        throw new Error(`Unsupported order type for backtesting: ${order.type}`);
+    }
+  }
+
+  private capQuantity(quantity: number, bar: OHLCV): number {
+    const participation = this.maxVolumeParticipation;
+    if (participation === undefined) {
+      return quantity;
+    }
+    return Math.min(quantity, bar.volume * participation);
+  }
+
+  private applySlippage(price: number, side: OrderSide, quantity: number, bar: OHLCV): number {
+    const offset = this.calculateSlippage(this.slippage, price, quantity, bar);
+    return side === 'BUY' ? price + offset : Math.max(0, price - offset);
+  }
+
+  private calculateSlippage(slippage: SlippageModelConfig, price: number, quantity: number, bar: OHLCV): number {
+    switch (slippage.type) {
+      case 'FIXED':
+        return slippage.amount;
+      case 'PERCENT':
+        return price * slippage.amount;
+      case 'VOLUME':
+        return bar.volume > 0 ? price * slippage.amount * (quantity / bar.volume) : 0;
+      default:
+        return 0;
+    }
+  }
+}
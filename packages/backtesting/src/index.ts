@@ -9,6 +9,18 @@ export { Portfolio } from './models/portfolio';
 
 // Export engine
 export { BacktestEngine } from './engine/backtest-engine';
+export { createRunnableStrategy } from './engine/runnable-strategy';
+export type { RunnableStrategy } from './engine/runnable-strategy';
 
-// Export analytics (to be implemented)
+// Export execution
+export { FillModel } from './execution/fill-model';
+export type { SimulatedOrder, OrderFill } from './execution/fill-model';
+
+// Export optimization
+export { StrategyOptimizer } from './optimization/strategy-optimizer';
+export type { OptimizationBacktestConfig } from './optimization/strategy-optimizer';
+
+// Export analytics
+export { BacktestReportGenerator } from './analytics/backtest-report';
+export { MonteCarloSimulator } from './analytics/monte-carlo';
 // export { PerformanceCalculator } from './analytics/performance-calculator';
\ No newline at end of file
@@ -8,12 +8,16 @@ import {
   PortfolioConfig, 
   PortfolioSnapshot, 
   Position, 
+  PositionSide,
   Trade, 
   TradeExecutionContext 
 } from '@jware-trader8/types';
 import { Logger, generateId } from '@jware-trader8/utils';
 import Decimal from 'decimal.js';
 
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365;
+
 /**
  * Portfolio implementation for backtesting
  */
@@ -24,6 +28,8 @@ export class Portfolio implements IPortfolio {
   private tradeHistory: Trade[];
   private logger: Logger;
   private realizedPnL: Decimal;
+  private marketPrices: Map<string, number>;
+  private borrowAccruedAt: Map<string, Date>;
 
   constructor(config: PortfolioConfig) {
     this.config = config;
@@ -36,11 +42,15 @@ export class Portfolio implements IPortfolio {
       format: 'text'
     });
     this.realizedPnL = new Decimal(0);
+    this.marketPrices = new Map();
+    this.borrowAccruedAt = new Map();
 
     this.logger.info('Portfolio initialized', {
       initialCash: config.initialCash,
       commissionRate: config.commissionRate,
-      maxPositionSize: config.maxPositionSize
+      maxPositionSize: config.maxPositionSize,
+      maxPositions: config.maxPositions,
+      shortSelling: config.shortSelling !== undefined
     });
   }
 
@@ -82,30 +92,72 @@ export class Portfolio implements IPortfolio {
     return this.cash.add(positionsValue).toNumber();
   }
 
+  /**
+   * Record the latest known prices used to value other positions in position limit checks
+   */
+  updateMarketPrices(currentPrices: Map<string, number>): void {
+    for (const [symbol, price] of currentPrices) {
+      this.marketPrices.set(symbol, price);
+    }
+  }
+
+  /**
+   * Cash not tied up by short positions
+   * Short sale proceeds cover the liability to buy back the shares, and margin is held on top.
+   */
+  getAvailableFunds(): number {
+    let reserved = new Decimal(0);
+    const marginRequirement = this.config.shortSelling?.marginRequirement || 0;
+
+    for (const [symbol, position] of this.positions) {
+      if (position.side === 'SHORT') {
+        const shortValue = new Decimal(position.quantity).abs().mul(this.getMarkPrice(symbol, position));
+        reserved = reserved.add(shortValue.mul(1 + marginRequirement));
+      }
+    }
+
+    return this.cash.sub(reserved).toNumber();
+  }
+
   /**
    * Check if can buy given symbol/quantity
    */
   canBuy(symbol: string, price: number, quantity: number): boolean {
+    // Short positions must be covered before buying long
+    if (this.positions.get(symbol)?.side === 'SHORT') {
+      return false;
+    }
+
     const orderValue = new Decimal(price).mul(quantity);
     const commission = this.calculateCommission(orderValue);
     const totalCost = orderValue.add(commission);
 
     // Check if sufficient cash
-    if (totalCost.gt(this.cash)) {
+    if (totalCost.gt(this.getAvailableFunds())) {
       return false;
     }
 
-    // Check position sizing limits
-    if (this.config.maxPositionSize) {
-      const currentValue = this.getTotalValue(new Map([[symbol, price]]));
-      const positionPercent = orderValue.div(currentValue);
-      
-      if (positionPercent.gt(this.config.maxPositionSize)) {
-        return false;
-      }
+    return this.withinPositionLimits(symbol, orderValue, price);
+  }
+
+  /**
+   * Check if can sell short given symbol/quantity
+   */
+  canShort(symbol: string, price: number, quantity: number): boolean {
+    if (!this.config.shortSelling || this.positions.get(symbol)?.side === 'LONG') {
+      return false;
     }
 
-    return true;
+    const orderValue = new Decimal(price).mul(quantity);
+    const commission = this.calculateCommission(orderValue);
+    const requiredMargin = orderValue.mul(this.config.shortSelling.marginRequirement).add(commission);
+
+    // Check if sufficient funds for margin
+    if (requiredMargin.gt(this.getAvailableFunds())) {
+      return false;
+    }
+
+    return this.withinPositionLimits(symbol, orderValue, price);
   }
 
   /**
@@ -125,113 +177,154 @@ export class Portfolio implements IPortfolio {
 
     const orderValue = new Decimal(price).mul(quantity);
     const commission = this.calculateCommission(orderValue);
-    const totalCost = orderValue.add(commission);
 
     // Deduct cash
-    this.cash = this.cash.sub(totalCost);
+    this.cash = this.cash.sub(orderValue.add(commission));
 
-    // Create or update position
-    if (this.positions.has(symbol)) {
-      const existingPosition = this.positions.get(symbol)!;
-      const existingValue = new Decimal(existingPosition.quantity).mul(existingPosition.averagePrice);
-      const newValue = orderValue;
-      const totalQuantity = new Decimal(existingPosition.quantity).add(quantity);
-      const averagePrice = existingValue.add(newValue).div(totalQuantity);
+    return this.addToPosition(symbol, 'LONG', price, quantity, commission, timestamp);
+  }
 
-      existingPosition.quantity = totalQuantity.toNumber();
-      existingPosition.averagePrice = averagePrice.toNumber();
-      existingPosition.updatedAt = timestamp;
-    } else {
-      const position: Position = {
-        symbol,
-        quantity,
-        averagePrice: price,
-        side: 'LONG',
-        entryTime: timestamp,
-        updatedAt: timestamp
-      };
-      this.positions.set(symbol, position);
+  /**
+   * Open or add to a short position
+   */
+  openShortPosition(symbol: string, price: number, quantity: number, timestamp: Date): Trade {
+    if (!this.canShort(symbol, price, quantity)) {
+      throw new Error(`Cannot short ${quantity} ${symbol} at ${price}: short selling disabled, insufficient margin or position limits`);
     }
 
-    // Create trade record
-    const trade: Trade = {
-      id: generateId(),
-      symbol,
-      side: 'BUY',
-      quantity,
-      entryPrice: price,
-      entryTime: timestamp,
-      commission: commission.toNumber(),
-      status: 'OPEN'
-    };
-
-    this.tradeHistory.push(trade);
+    const orderValue = new Decimal(price).mul(quantity);
+    const commission = this.calculateCommission(orderValue);
 
-    this.logger.info('Position opened', {
-      symbol,
-      quantity,
-      price,
-      commission: commission.toNumber(),
-      tradeId: trade.id
-    });
+    // Credit sale proceeds
+    this.cash = this.cash.add(orderValue.sub(commission));
 
-    return trade;
+    return this.addToPosition(symbol, 'SHORT', price, quantity, commission, timestamp);
   }
 
   /**
-   * Close an existing position
+   * Close an existing position, or part of it when quantity is given
+   * Long positions are sold and short positions are bought back. A partial
+   * close is split off the open trade as its own closed trade.
    */
-  closePosition(symbol: string, price: number, timestamp: Date): Trade {
+  closePosition(symbol: string, price: number, timestamp: Date, quantity?: number): Trade {
     const position = this.positions.get(symbol);
     if (!position) {
       throw new Error(`No position found for symbol ${symbol}`);
     }
 
-    const orderValue = new Decimal(position.quantity).mul(price);
+    // Find corresponding entry trade
+    const openTrade = this.findOpenTrade(symbol);
+    if (!openTrade) {
+      throw new Error(`No open trade found for symbol ${symbol}`);
+    }
+
+    const isShort = position.side === 'SHORT';
+    const positionQuantity = new Decimal(position.quantity).abs();
+    const closeQuantity = quantity === undefined ? 
+      positionQuantity : Decimal.min(quantity, positionQuantity);
+    const isFullClose = closeQuantity.gte(positionQuantity);
+
+    const orderValue = closeQuantity.mul(price);
     const commission = this.calculateCommission(orderValue);
-    const proceeds = orderValue.sub(commission);
 
-    // Add cash from sale
-    this.cash = this.cash.add(proceeds);
+    // Add cash from sale, or pay to buy back a short
+    this.cash = isShort ? 
+      this.cash.sub(orderValue.add(commission)) : 
+      this.cash.add(orderValue.sub(commission));
+
+    let closedTrade = openTrade;
+    if (!isFullClose) {
+      // Entry commission and borrow fees are shared pro rata between the closed and remaining parts
+      const fraction = closeQuantity.div(openTrade.quantity);
+      const entryCommission = new Decimal(openTrade.commission).mul(fraction);
+      const borrowFees = new Decimal(openTrade.borrowFees || 0).mul(fraction);
+      closedTrade = {
+        ...openTrade,
+        id: generateId(),
+        quantity: closeQuantity.toNumber(),
+        commission: entryCommission.toNumber()
+      };
+      this.tradeHistory.push(closedTrade);
 
-    // Find corresponding buy trade
-    const openTrade = this.tradeHistory
-      .filter(t => t.symbol === symbol && t.status === 'OPEN')
-      .pop();
+      openTrade.quantity = new Decimal(openTrade.quantity).sub(closeQuantity).toNumber();
+      openTrade.commission = new Decimal(openTrade.commission).sub(entryCommission).toNumber();
+      if (openTrade.borrowFees !== undefined) {
+        closedTrade.borrowFees = borrowFees.toNumber();
+        openTrade.borrowFees = new Decimal(openTrade.borrowFees).sub(borrowFees).toNumber();
+      }
 
-    if (!openTrade) {
-      throw new Error(`No open trade found for symbol ${symbol}`);
+      const remaining = positionQuantity.sub(closeQuantity);
+      position.quantity = (isShort ? remaining.neg() : remaining).toNumber();
+      position.updatedAt = timestamp;
     }
 
     // Calculate P&L
-    const entryValue = new Decimal(openTrade.quantity).mul(openTrade.entryPrice);
-    const exitValue = new Decimal(position.quantity).mul(price);
-    const totalCommissions = new Decimal(openTrade.commission).add(commission);
-    const pnl = exitValue.sub(entryValue).sub(totalCommissions);
+    const entryValue = closeQuantity.mul(closedTrade.entryPrice);
+    const exitValue = closeQuantity.mul(price);
+    const totalCommissions = new Decimal(closedTrade.commission).add(commission);
+    const pnl = (isShort ? entryValue.sub(exitValue) : exitValue.sub(entryValue))
+      .sub(totalCommissions)
+      .sub(closedTrade.borrowFees || 0);
 
     // Update trade record
-    openTrade.exitPrice = price;
-    openTrade.exitTime = timestamp;
-    openTrade.pnl = pnl.toNumber();
-    openTrade.status = 'CLOSED';
-    openTrade.commission = totalCommissions.toNumber();
+    closedTrade.exitPrice = price;
+    closedTrade.exitTime = timestamp;
+    closedTrade.pnl = pnl.toNumber();
+    closedTrade.status = 'CLOSED';
+    closedTrade.commission = totalCommissions.toNumber();
 
     // Update realized P&L
     this.realizedPnL = this.realizedPnL.add(pnl);
 
     // Remove position
-    this.positions.delete(symbol);
+    if (isFullClose) {
+      this.positions.delete(symbol);
+      this.borrowAccruedAt.delete(symbol);
+    }
 
-    this.logger.info('Position closed', {
+    this.logger.info(isFullClose ? 'Position closed' : 'Position partially closed', {
       symbol,
-      quantity: position.quantity,
-      entryPrice: openTrade.entryPrice,
+      side: position.side,
+      quantity: closeQuantity.toNumber(),
+      entryPrice: closedTrade.entryPrice,
       exitPrice: price,
       pnl: pnl.toNumber(),
-      tradeId: openTrade.id
+      tradeId: closedTrade.id
     });
 
-    return openTrade;
+    return closedTrade;
+  }
+
+  /**
+   * Charge borrow fees on short positions for the time since the last accrual
+   * @returns Total fees charged
+   */
+  accrueBorrowFees(currentPrices: Map<string, number>, timestamp: Date): number {
+    const borrowFeeRate = this.config.shortSelling?.borrowFeeRate || 0;
+    let totalFees = new Decimal(0);
+
+    for (const [symbol, position] of this.positions) {
+      if (position.side !== 'SHORT') continue;
+
+      const accruedAt = this.borrowAccruedAt.get(symbol) || position.entryTime;
+      const days = (timestamp.getTime() - accruedAt.getTime()) / MS_PER_DAY;
+      if (days <= 0) continue;
+
+      const price = currentPrices.get(symbol) ?? this.getMarkPrice(symbol, position);
+      const fee = new Decimal(position.quantity).abs().mul(price)
+        .mul(borrowFeeRate).div(DAYS_PER_YEAR).mul(days);
+
+      this.cash = this.cash.sub(fee);
+      this.borrowAccruedAt.set(symbol, timestamp);
+      totalFees = totalFees.add(fee);
+
+      const openTrade = this.findOpenTrade(symbol);
+      if (openTrade) {
+        openTrade.borrowFees = new Decimal(openTrade.borrowFees || 0).add(fee).toNumber();
+      }
+    }
+
+    return totalFees.toNumber();
   }
 
   /**
@@ -250,9 +343,11 @@ export class Portfolio implements IPortfolio {
       const currentPrice = currentPrices.get(symbol);
       if (!currentPrice) continue;
 
+      // Change in the position's favour, so shorts gain when the price falls
       const entryPrice = new Decimal(position.averagePrice);
       const currentPriceDecimal = new Decimal(currentPrice);
-      const priceChange = currentPriceDecimal.sub(entryPrice).div(entryPrice);
+      const priceChange = currentPriceDecimal.sub(entryPrice).div(entryPrice)
+        .mul(position.side === 'SHORT' ? -1 : 1);
 
       let shouldClose = false;
       let reason = '';
@@ -323,6 +418,117 @@ export class Portfolio implements IPortfolio {
     };
   }
 
+  /**
+   * Create or extend a position and its open trade
+   * Adding to a position extends its open trade so the round trip is reported once.
+   */
+  private addToPosition(
+    symbol: string,
+    side: PositionSide,
+    price: number,
+    quantity: number,
+    commission: Decimal,
+    timestamp: Date
+  ): Trade {
+    const existingPosition = this.positions.get(symbol);
+    const signedQuantity = side === 'SHORT' ? -quantity : quantity;
+
+    if (existingPosition) {
+      const existingQuantity = new Decimal(existingPosition.quantity).abs();
+      const existingValue = existingQuantity.mul(existingPosition.averagePrice);
+      const totalQuantity = existingQuantity.add(quantity);
+      const averagePrice = existingValue.add(new Decimal(price).mul(quantity)).div(totalQuantity);
+
+      existingPosition.quantity = new Decimal(existingPosition.quantity).add(signedQuantity).toNumber();
+      existingPosition.averagePrice = averagePrice.toNumber();
+      existingPosition.updatedAt = timestamp;
+    } else {
+      const position: Position = {
+        symbol,
+        quantity: signedQuantity,
+        averagePrice: price,
+        side,
+        entryTime: timestamp,
+        updatedAt: timestamp
+      };
+      this.positions.set(symbol, position);
+    }
+
+    let trade = this.findOpenTrade(symbol);
+    if (trade) {
+      const position = this.positions.get(symbol)!;
+      trade.quantity = Math.abs(position.quantity);
+      trade.entryPrice = position.averagePrice;
+      trade.commission = new Decimal(trade.commission).add(commission).toNumber();
+    } else {
+      // Create trade record
+      trade = {
+        id: generateId(),
+        symbol,
+        side: side === 'SHORT' ? 'SELL' : 'BUY',
+        quantity,
+        entryPrice: price,
+        entryTime: timestamp,
+        commission: commission.toNumber(),
+        status: 'OPEN'
+      };
+
+      this.tradeHistory.push(trade);
+    }
+
+    this.logger.info('Position opened', {
+      symbol,
+      side,
+      quantity,
+      price,
+      commission: commission.toNumber(),
+      tradeId: trade.id
+    });
+
+    return trade;
+  }
+
+  /**
+   * Check concurrent position and position size limits for a new order
+   */
+  private withinPositionLimits(symbol: string, orderValue: Decimal, price: number): boolean {
+    // Check concurrent position limit for new symbols
+    if (this.config.maxPositions !== undefined &&
+        !this.positions.has(symbol) &&
+        this.positions.size >= this.config.maxPositions) {
+      return false;
+    }
+
+    // Check position sizing limits
+    if (this.config.maxPositionSize) {
+      const prices = new Map(this.marketPrices).set(symbol, price);
+      const currentValue = this.getTotalValue(prices);
+      const positionPercent = orderValue.div(currentValue);
+      
+      if (positionPercent.gt(this.config.maxPositionSize)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Latest known price for a position, falling back to its entry price
+   */
+  private getMarkPrice(symbol: string, position: Position): number {
+    return this.marketPrices.get(symbol) ?? position.averagePrice;
+  }
+
+  /**
+   * Most recent open trade for a symbol
+   */
+  private findOpenTrade(symbol: string): Trade | undefined {
+    return this.tradeHistory
+      .filter(t => t.symbol === symbol && t.status === 'OPEN')
+      .pop();
+  }
+
   /**
    * Calculate commission for order value
    */
@@ -0,0 +1,520 @@
+/**
+ * Strategy parameter optimization
+ * Runs backtests over parameter ranges and ranks them by an objective metric,
+ * and re-optimizes on rolling or anchored windows for walk-forward analysis.
+ * Parameter values reach the strategy through {{ parameters.x }} templating.
+ */
+
+import {
+  IStrategyOptimizer,
+  OptimizationObjective,
+  OptimizationParams,
+  OptimizationResult,
+  OptimizationRun,
+  ParameterRange,
+  WalkForwardParams,
+  WalkForwardPeriod,
+  WalkForwardResult
+} from '@jware-trader8/core';
+import {
+  BacktestExecutionConfig,
+  BacktestResult,
+  EquityCurvePoint,
+  OHLCV,
+  PerformanceMetrics,
+  StrategyConfig
+} from '@jware-trader8/types';
+import { StrategyEngine } from '@jware-trader8/strategies';
+import { Logger, createSeededRandom, roundToDecimalPlaces } from '@jware-trader8/utils';
+import { BacktestEngine } from '../engine/backtest-engine';
+import { createRunnableStrategy } from '../engine/runnable-strategy';
+
+/**
+ * Backtest settings shared by all optimization runs; dates come from the data
+ */
+export type OptimizationBacktestConfig = Omit<BacktestExecutionConfig, 'startDate' | 'endDate'>;
+
+const OBJECTIVE_METRICS: Record<string, keyof PerformanceMetrics> = {
+  sharpe: 'sharpeRatio',
+  return: 'totalReturn',
+  profit_factor: 'profitFactor',
+  win_rate: 'winRate'
+};
+
+const MINIMIZED_METRICS = new Set<keyof PerformanceMetrics>([
+  'maxDrawdown',
+  'volatility',
+  'averageLoss',
+  'ulcerIndex',
+  'valueAtRisk',
+  'conditionalValueAtRisk',
+  'longestDrawdownDuration',
+  'longestRecoveryTime',
+  'maxConsecutiveLosses',
+  'trackingError',
+  'downCapture'
+]);
+
+const DEFAULT_TOP_RESULTS = 10;
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * In-sample and out-of-sample bars of one walk-forward step
+ */
+interface WalkForwardWindow {
+  training: OHLCV[];
+  testing: OHLCV[];
+}
+
+/**
+ * Strategy optimizer implementation
+ */
+export class StrategyOptimizer implements IStrategyOptimizer {
+  private backtestConfig: OptimizationBacktestConfig;
+  private strategyEngine: StrategyEngine;
+  private backtestEngine: BacktestEngine;
+  private logger: Logger;
+
+  /**
+   * @param backtestConfig - Portfolio and execution settings for every run
+   * @param strategyEngine - Engine used to compile each parameter set
+   * @param backtestEngine - Engine used to run backtests; defaults to one that only logs warnings
+   */
+  constructor(
+    backtestConfig: OptimizationBacktestConfig,
+    strategyEngine: StrategyEngine = new StrategyEngine(),
+    backtestEngine?: BacktestEngine
+  ) {
+    this.backtestConfig = backtestConfig;
+    this.strategyEngine = strategyEngine;
+    this.logger = new Logger({
+      level: 'info',
+      console: true,
+      format: 'text'
+    });
+    this.backtestEngine = backtestEngine || new BacktestEngine(new Logger({
+      level: 'warn',
+      console: true,
+      format: 'text'
+    }));
+  }
+
+  /**
+   * Optimize strategy parameters with grid or random search
+   * The tail of the data given by validationSplit is held out and only used to score the best run.
+   */
+  async optimize(
+    strategy: StrategyConfig,
+    marketData: OHLCV[],
+    optimizationParams: OptimizationParams
+  ): Promise<OptimizationResult> {
+    this.validateParams(optimizationParams);
+    if (marketData.length === 0) {
+      throw new Error('Market data is required for optimization');
+    }
+
+    const data = [...marketData].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const trainingCount = Math.floor(data.length * (1 - optimizationParams.validationSplit));
+    const trainingData = data.slice(0, trainingCount);
+    const validationData = data.slice(trainingCount);
+
+    if (trainingData.length === 0 || (optimizationParams.validationSplit > 0 && validationData.length === 0)) {
+      throw new Error('Not enough data for the requested validation split');
+    }
+
+    const candidates = this.generateCandidates(optimizationParams);
+    const objective = optimizationParams.objective;
+
+    this.logger.info('Optimization started', {
+      strategy: strategy.name,
+      method: optimizationParams.method || 'grid',
+      candidates: candidates.length
+    });
+
+    const runs: OptimizationRun[] = [];
+    for (let i = 0; i < candidates.length; i++) {
+      const parameters = candidates[i];
+      try {
+        const { summary: metrics } = await this.runBacktest(this.applyParameters(strategy, parameters), trainingData);
+        runs.push({ parameters, score: this.getObjectiveValue(metrics, objective), metrics });
+      } catch (error) {
+        this.logger.warn('Optimization run failed', {
+          parameters,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+      optimizationParams.onProgress?.(i + 1, candidates.length);
+    }
+
+    if (runs.length === 0) {
+      throw new Error('All optimization runs failed');
+    }
+
+    this.rankRuns(runs, objective);
+    const best = runs[0];
+
+    const validationScore = validationData.length > 0
+      ? this.getObjectiveValue(
+        (await this.runBacktest(this.applyParameters(strategy, best.parameters), validationData)).summary,
+        objective
+      )
+      : best.score;
+
+    this.logger.info('Optimization completed', {
+      strategy: strategy.name,
+      iterations: runs.length,
+      bestParameters: best.parameters,
+      bestScore: best.score,
+      validationScore
+    });
+
+    return {
+      bestParameters: best.parameters,
+      bestScore: best.score,
+      iterations: runs.length,
+      validationScore,
+      overfittingRisk: this.assessOverfitting(best.score, validationScore, objective, validationData.length > 0),
+      optimizedStrategy: this.applyParameters(strategy, best.parameters),
+      runs: runs.slice(0, optimizationParams.topResults ?? DEFAULT_TOP_RESULTS)
+    };
+  }
+
+  /**
+   * Run walk-forward analysis
+   * Parameters are optimized on each in-sample window and traded on the out-of-sample
+   * window that follows it; the out-of-sample runs are compounded into one equity curve.
+   */
+  async walkForwardAnalysis(
+    strategy: StrategyConfig,
+    marketData: OHLCV[],
+    params: WalkForwardParams
+  ): Promise<WalkForwardResult> {
+    this.validateWalkForwardParams(params);
+    if (marketData.length === 0) {
+      throw new Error('Market data is required for walk-forward analysis');
+    }
+
+    const data = [...marketData].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const windows = this.buildWindows(data, params);
+    if (windows.length === 0) {
+      throw new Error('Not enough data for one training and testing window');
+    }
+
+    const objective = params.optimization.objective;
+    const periods: WalkForwardPeriod[] = [];
+    const results: BacktestResult[] = [];
+    let parameters: Record<string, number> = {};
+
+    for (let i = 0; i < windows.length; i++) {
+      const { training, testing } = windows[i];
+      const reoptimized = i % params.reoptimizeFrequency === 0;
+
+      let inSamplePerformance: PerformanceMetrics;
+      if (reoptimized) {
+        const optimization = await this.optimize(strategy, training, {
+          ...params.optimization,
+          validationSplit: 0
+        });
+        parameters = optimization.bestParameters;
+        inSamplePerformance = optimization.runs[0].metrics;
+      } else {
+        inSamplePerformance = (await this.runBacktest(this.applyParameters(strategy, parameters), training)).summary;
+      }
+
+      // Training bars prime the indicators so the first out-of-sample bars can trade
+      const result = await this.runBacktest(this.applyParameters(strategy, parameters), testing, training);
+      results.push(result);
+
+      periods.push({
+        trainingStartDate: training[0].timestamp,
+        trainingEndDate: training[training.length - 1].timestamp,
+        startDate: testing[0].timestamp,
+        endDate: testing[testing.length - 1].timestamp,
+        parameters,
+        reoptimized,
+        inSamplePerformance,
+        inSampleScore: this.getObjectiveValue(inSamplePerformance, objective),
+        performance: result.summary,
+        outOfSampleScore: this.getObjectiveValue(result.summary, objective),
+        trades: result.trades.length
+      });
+
+      params.onProgress?.(i + 1, windows.length);
+    }
+
+    const initialCash = this.backtestConfig.portfolio.initialCash;
+    const equityCurve = this.stitchEquityCurves(results.map(result => result.equityCurve), initialCash);
+    const overallMetrics = this.backtestEngine.calculatePerformanceMetrics(
+      results.flatMap(result => result.trades),
+      equityCurve,
+      initialCash
+    );
+
+    const inSampleReturn = this.mean(periods.map(period => period.inSamplePerformance.annualizedReturn));
+    const outOfSampleReturn = this.mean(periods.map(period => period.performance.annualizedReturn));
+    const efficiency = inSampleReturn > 0 ? outOfSampleReturn / inSampleReturn : 0;
+    const consistency = periods.filter(period => period.performance.totalReturn > 0).length / periods.length;
+    const robustness = periods.filter(period =>
+      this.retainedRatio(period.inSampleScore, period.outOfSampleScore, objective) >= 0.5
+    ).length / periods.length;
+
+    this.logger.info('Walk-forward analysis completed', {
+      strategy: strategy.name,
+      periods: periods.length,
+      totalReturn: overallMetrics.totalReturn,
+      efficiency,
+      consistency,
+      robustness
+    });
+
+    return {
+      periods,
+      overallMetrics,
+      equityCurve,
+      efficiency,
+      consistency,
+      robustness
+    };
+  }
+
+  /**
+   * Copy a strategy configuration with parameter values applied
+   */
+  applyParameters(strategy: StrategyConfig, parameters: Record<string, number>): StrategyConfig {
+    const config: StrategyConfig = JSON.parse(JSON.stringify(strategy));
+    config.parameters = { ...config.parameters, ...parameters };
+    return config;
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private validateParams(params: OptimizationParams): void {
+    const names = Object.keys(params.parameters || {});
+    if (names.length === 0) {
+      throw new Error('At least one parameter range is required');
+    }
+
+    for (const name of names) {
+      const range = params.parameters[name];
+      if (!(range.step > 0)) {
+        throw new Error(`Parameter "${name}" step must be greater than 0`);
+      }
+      if (range.max < range.min) {
+        throw new Error(`Parameter "${name}" max must be greater than or equal to min`);
+      }
+    }
+
+    if (!Number.isInteger(params.maxIterations) || params.maxIterations < 1) {
+      throw new Error('maxIterations must be a positive integer');
+    }
+    if (params.validationSplit < 0 || params.validationSplit >= 1) {
+      throw new Error('validationSplit must be at least 0 and less than 1');
+    }
+  }
+
+  private validateWalkForwardParams(params: WalkForwardParams): void {
+    const { trainingPeriod, testingPeriod, stepSize, reoptimizeFrequency } = params;
+    if (!(trainingPeriod > 0) || !(testingPeriod > 0) || !(stepSize > 0)) {
+      throw new Error('Training period, testing period and step size must be greater than 0');
+    }
+    if (stepSize < testingPeriod) {
+      throw new Error('stepSize must be at least testingPeriod so out-of-sample windows do not overlap');
+    }
+    if (!Number.isInteger(reoptimizeFrequency) || reoptimizeFrequency < 1) {
+      throw new Error('reoptimizeFrequency must be a positive integer');
+    }
+    this.validateParams({ ...params.optimization, validationSplit: 0 });
+  }
+
+  private buildWindows(data: OHLCV[], params: WalkForwardParams): WalkForwardWindow[] {
+    const first = data[0].timestamp.getTime();
+    const last = data[data.length - 1].timestamp.getTime();
+    const windows: WalkForwardWindow[] = [];
+
+    for (let step = 0; ; step++) {
+      const testStart = first + (params.trainingPeriod + step * params.stepSize) * MS_PER_DAY;
+      if (testStart > last) {
+        break;
+      }
+
+      const testEnd = testStart + params.testingPeriod * MS_PER_DAY;
+      const trainStart = params.anchored ? first : testStart - params.trainingPeriod * MS_PER_DAY;
+      const training = data.filter(bar => bar.timestamp.getTime() >= trainStart && bar.timestamp.getTime() < testStart);
+      const testing = data.filter(bar => bar.timestamp.getTime() >= testStart && bar.timestamp.getTime() < testEnd);
+
+      if (training.length > 0 && testing.length > 0) {
+        windows.push({ training, testing });
+      }
+    }
+
+    return windows;
+  }
+
+  /**
+   * Chain curves that each start from the initial cash so every window trades the
+   * previous window's ending equity
+   */
+  private stitchEquityCurves(curves: EquityCurvePoint[][], initialCash: number): EquityCurvePoint[] {
+    const stitched: EquityCurvePoint[] = [];
+    let carry = initialCash;
+    let peak = initialCash;
+
+    for (const curve of curves) {
+      if (curve.length === 0) {
+        continue;
+      }
+
+      const scale = carry / initialCash;
+      for (const point of curve) {
+        const totalValue = point.totalValue * scale;
+        peak = Math.max(peak, totalValue);
+        stitched.push({
+          ...point,
+          totalValue,
+          cash: point.cash * scale,
+          positionsValue: point.positionsValue * scale,
+          unrealizedPnL: point.unrealizedPnL * scale,
+          // Earlier windows end flat, so their whole gain is realized
+          realizedPnL: carry - initialCash + point.realizedPnL * scale,
+          drawdown: peak > 0 ? (peak - totalValue) / peak : 0
+        });
+      }
+      carry = stitched[stitched.length - 1].totalValue;
+    }
+
+    return stitched;
+  }
+
+  private mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  }
+
+  private generateCandidates(params: OptimizationParams): Array<Record<string, number>> {
+    const names = Object.keys(params.parameters);
+    const values = names.map(name => this.expandRange(params.parameters[name]));
+    const gridSize = values.reduce((size, list) => size * list.length, 1);
+    const method = params.method || 'grid';
+
+    if (method === 'grid' && gridSize > params.maxIterations) {
+      throw new Error(
+        `Grid has ${gridSize} combinations, more than maxIterations (${params.maxIterations}); ` +
+        'narrow the ranges or use random search'
+      );
+    }
+
+    if (method === 'grid' || params.maxIterations >= gridSize) {
+      return this.combineGrid(names, values);
+    }
+
+    // Random search samples unique points of the grid
+    const random = createSeededRandom(params.seed ?? Date.now());
+    const seen = new Set<string>();
+    const candidates: Array<Record<string, number>> = [];
+
+    while (candidates.length < params.maxIterations) {
+      const indices = values.map(list => Math.floor(random() * list.length));
+      const key = indices.join(',');
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      const candidate: Record<string, number> = {};
+      names.forEach((name, i) => {
+        candidate[name] = values[i][indices[i]];
+      });
+      candidates.push(candidate);
+    }
+
+    return candidates;
+  }
+
+  private expandRange(range: ParameterRange): number[] {
+    const decimals = Math.max(this.countDecimals(range.min), this.countDecimals(range.step));
+    // Tolerance keeps ranges like 0.1..0.3 step 0.1 from losing their last value
+    const count = Math.floor((range.max - range.min) / range.step + 1e-9) + 1;
+    return Array.from({ length: count }, (_, i) => roundToDecimalPlaces(range.min + i * range.step, decimals));
+  }
+
+  private countDecimals(value: number): number {
+    const [, fraction = ''] = String(value).split('.');
+    return fraction.length;
+  }
+
+  private combineGrid(names: string[], values: number[][]): Array<Record<string, number>> {
+    let combinations: Array<Record<string, number>> = [{}];
+    names.forEach((name, i) => {
+      combinations = combinations.flatMap(combination =>
+        values[i].map(value => ({ ...combination, [name]: value }))
+      );
+    });
+    return combinations;
+  }
+
+  private async runBacktest(config: StrategyConfig, data: OHLCV[], warmup: OHLCV[] = []): Promise<BacktestResult> {
+    const compiled = this.strategyEngine.loadStrategy(config);
+
+    // Signals from warm-up bars are discarded; only indicator state carries into the run
+    for (const bar of warmup) {
+      await this.strategyEngine.executeStrategy(compiled, bar);
+    }
+
+    return this.backtestEngine.runBacktest(createRunnableStrategy(this.strategyEngine, compiled, warmup.length === 0), data, {
+      ...this.backtestConfig,
+      startDate: data[0].timestamp,
+      endDate: data[data.length - 1].timestamp
+    });
+  }
+
+  private getMetricKey(objective: OptimizationObjective): keyof PerformanceMetrics {
+    return OBJECTIVE_METRICS[objective] || (objective as keyof PerformanceMetrics);
+  }
+
+  private getObjectiveValue(metrics: PerformanceMetrics, objective: OptimizationObjective): number {
+    const value = metrics[this.getMetricKey(objective)];
+    if (typeof value !== 'number') {
+      throw new Error(`Objective "${objective}" is not reported by the backtest`);
+    }
+    return value;
+  }
+
+  private rankRuns(runs: OptimizationRun[], objective: OptimizationObjective): void {
+    const direction = MINIMIZED_METRICS.has(this.getMetricKey(objective)) ? -1 : 1;
+    const orient = (score: number) => isNaN(score) ? -Infinity : score * direction;
+    runs.sort((a, b) => {
+      const difference = orient(b.score) - orient(a.score);
+      return isNaN(difference) ? 0 : difference;
+    });
+  }
+
+  /**
+   * Compare in-sample and held-out scores; a large drop suggests curve fitting
+   */
+  private assessOverfitting(
+    bestScore: number,
+    validationScore: number,
+    objective: OptimizationObjective,
+    hasValidation: boolean
+  ): 'LOW' | 'MEDIUM' | 'HIGH' {
+    if (!hasValidation) {
+      return 'HIGH';
+    }
+
+    const retained = this.retainedRatio(bestScore, validationScore, objective);
+    if (retained >= 0.75) return 'LOW';
+    if (retained >= 0.4) return 'MEDIUM';
+    return 'HIGH';
+  }
+
+  /**
+   * Share of an in-sample score kept out of sample, oriented so 1 means no degradation
+   */
+  private retainedRatio(inSample: number, outOfSample: number, objective: OptimizationObjective): number {
+    if (MINIMIZED_METRICS.has(this.getMetricKey(objective))) {
+      return outOfSample <= 0 ? 1 : inSample / outOfSample;
+    }
+    return inSample <= 0 ? 0 : outOfSample / inSample;
+  }
+}
@@ -8,6 +8,7 @@ import {
   BacktestExecutionConfig, 
   OHLCV, 
   PortfolioConfig,
+  Trade,
   TradeSignal 
 } from '@jware-trader8/types';
 
@@ -249,6 +250,45 @@ describe('BacktestEngine', () => {
       }
     });
 
+    test('should calculate extended risk and trade metrics', () => {
+      const day = (n: number) => new Date(Date.UTC(2023, 0, n));
+      const equityCurve = [100, 110, 99, 121, 115].map((totalValue, i) => ({
+        timestamp: day(i + 1),
+        totalValue,
+        cash: totalValue,
+        positionsValue: i === 1 || i === 2 ? 50 : 0,
+        unrealizedPnL: 0,
+        realizedPnL: 0,
+        drawdown: 0
+      }));
+      const trades = [10, -5, -3, 8].map((pnl, i) => ({
+        id: `t${i}`,
+        symbol: 'BTCUSD',
+        side: 'BUY',
+        entryTime: day(1),
+        exitTime: day(i % 2 === 0 ? 2 : 3),
+        entryPrice: 100,
+        quantity: 1,
+        pnl,
+        status: 'CLOSED'
+      })) as unknown as Trade[];
+
+      const metrics = backtestEngine.calculatePerformanceMetrics(trades, equityCurve, 100);
+
+      // 110 -> 99 recovers at 121 two days after the peak, one day after the trough
+      expect(metrics.longestDrawdownDuration).toBe(2);
+      expect(metrics.longestRecoveryTime).toBe(1);
+      expect(metrics.exposure).toBeCloseTo(0.4, 10);
+      expect(metrics.maxConsecutiveWins).toBe(1);
+      expect(metrics.maxConsecutiveLosses).toBe(2);
+      expect(metrics.expectancy).toBeCloseTo(2.5, 10);
+      expect(metrics.averageHoldingPeriod).toBeCloseTo(1.5, 10);
+      expect(metrics.valueAtRisk).toBeGreaterThan(0);
+      expect(metrics.conditionalValueAtRisk).toBeGreaterThanOrEqual(metrics.valueAtRisk);
+      expect(metrics.sortinoRatio).toBeGreaterThan(metrics.sharpeRatio);
+      expect(metrics.calmarRatio).toBeCloseTo(metrics.annualizedReturn / metrics.maxDrawdown, 10);
+    });
+
     test('should calculate maximum drawdown correctly', async () => {
       const result = await backtestEngine.runBacktest(mockStrategy, historicalData, config);
 
@@ -339,6 +379,216 @@ describe('BacktestEngine', () => {
     });
   });
 
+  describe('Multi-Symbol', () => {
+    // Buys on the first bar and sells on the third bar seen by this instance
+    const createBarCountingStrategy = (symbol: string) => {
+      let bars = 0;
+      return {
+        config: { name: 'Bar Counter', parameters: { symbol } },
+        async executeStrategy(_strategy: any, marketData: OHLCV): Promise<TradeSignal[]> {
+          bars++;
+          const type = bars === 1 ? 'BUY' : bars === 3 ? 'SELL' : null;
+          return type ? [{
+            type,
+            symbol,
+            price: marketData.close,
+            timestamp: marketData.timestamp,
+            reason: `Bar ${bars}`,
+            strategyName: 'Bar Counter'
+          }] : [];
+        }
+      };
+    };
+
+    const createBars = (days: number[], closes: number[]): OHLCV[] =>
+      days.map((day, i) => ({
+        timestamp: new Date(Date.UTC(2023, 0, day)),
+        open: closes[i],
+        high: closes[i],
+        low: closes[i],
+        close: closes[i],
+        volume: 1000
+      }));
+
+    const basket = {
+      AAA: createBars([2, 3, 4, 5], [100, 110, 120, 130]),
+      BBB: createBars([3, 4, 5], [50, 40, 45]),
+      CCC: createBars([2, 4, 6], [10, 11, 12])
+    };
+
+    const basketConfig = (maxPositions?: number): BacktestExecutionConfig => ({
+      portfolio: { initialCash: 10000, commissionRate: 0, maxPositionSize: 0.25, maxPositions },
+      startDate: new Date('2023-01-01'),
+      endDate: new Date('2023-01-31'),
+      includeCosts: true
+    });
+
+    test('should align bars by timestamp with per-symbol strategy state', async () => {
+      const result = await backtestEngine.runBacktest(createBarCountingStrategy, basket, basketConfig());
+
+      expect(result.equityCurve.map(point => point.timestamp.getUTCDate())).toEqual([2, 3, 4, 5, 6]);
+      expect(result.metadata.symbols).toEqual(['AAA', 'BBB', 'CCC']);
+      expect(result.metadata.dataPoints).toBe(10);
+
+      // Each symbol sells on its own third bar
+      const exits = Object.fromEntries(result.trades.map(t => [t.symbol, t.exitTime!.getUTCDate()]));
+      expect(exits).toEqual({ AAA: 4, BBB: 5, CCC: 6 });
+    });
+
+    test('should share cash across symbols and report per-symbol breakdowns', async () => {
+      const result = await backtestEngine.runBacktest(createBarCountingStrategy, basket, basketConfig());
+      const breakdown = Object.fromEntries(result.symbolBreakdown.map(s => [s.symbol, s]));
+
+      // 25% of equity per entry: AAA 2500 @100 (+500), CCC 2500 @10 (+500),
+      // BBB 2562.5 @50 sized after AAA's day-3 gain (-256.25)
+      expect(breakdown.AAA).toEqual(expect.objectContaining({ dataPoints: 4, totalTrades: 1, totalPnL: 500 }));
+      expect(breakdown.BBB.totalPnL).toBeCloseTo(-256.25, 6);
+      expect(breakdown.CCC.totalPnL).toBeCloseTo(500, 6);
+      expect(breakdown.BBB.winRate).toBe(0);
+      expect(result.finalPortfolio.cash).toBeCloseTo(10743.75, 6);
+    });
+
+    test('should enforce max positions across the basket', async () => {
+      const result = await backtestEngine.runBacktest(createBarCountingStrategy, basket, basketConfig(1));
+
+      // AAA and CCC both signal on day 2; only the first fits, BBB arrives while AAA is open
+      expect(result.trades.map(t => t.symbol)).toEqual(['AAA']);
+    });
+
+    test('should require a strategy factory for multiple symbols', async () => {
+      await expect(backtestEngine.runBacktest(mockStrategy, basket, basketConfig()))
+        .rejects.toThrow('Multi-symbol backtests require a strategy factory');
+    });
+  });
+
+  describe('Short Selling', () => {
+    const createShortStrategy = () => {
+      let bars = 0;
+      return {
+        config: { name: 'Short Test', parameters: { symbol: 'ETHUSD' } },
+        async executeStrategy(_strategy: any, marketData: OHLCV): Promise<TradeSignal[]> {
+          bars++;
+          const type = bars === 1 ? 'SHORT' : bars === 3 ? 'COVER' : bars === 2 ? 'SELL' : null;
+          return type ? [{
+            type,
+            symbol: 'ETHUSD',
+            price: marketData.close,
+            timestamp: marketData.timestamp,
+            reason: type,
+            strategyName: 'Short Test'
+          }] : [];
+        }
+      };
+    };
+
+    const shortData: OHLCV[] = [100, 95, 80, 85].map((close, i) => ({
+      timestamp: new Date(Date.UTC(2023, 0, i + 2)),
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume: 1000
+    }));
+
+    const shortConfig = (shortSelling?: PortfolioConfig['shortSelling']): BacktestExecutionConfig => ({
+      portfolio: { initialCash: 10000, commissionRate: 0, maxPositionSize: 0.25, shortSelling },
+      startDate: new Date('2023-01-01'),
+      endDate: new Date('2023-01-31'),
+      includeCosts: true
+    });
+
+    test('should open and cover shorts from SHORT and COVER signals', async () => {
+      const result = await backtestEngine.runBacktest(createShortStrategy(), shortData, shortConfig({ marginRequirement: 0.5 }));
+
+      // SELL does not touch the short; COVER buys back 25 units at 80
+      expect(result.trades).toHaveLength(1);
+      expect(result.trades[0]).toEqual(expect.objectContaining({ side: 'SELL', entryPrice: 100, exitPrice: 80, pnl: 500 }));
+      expect(result.equityCurve[1].totalValue).toBe(10125);
+    });
+
+    test('should ignore SHORT signals when short selling is disabled', async () => {
+      const result = await backtestEngine.runBacktest(createShortStrategy(), shortData, shortConfig());
+
+      expect(result.trades).toHaveLength(0);
+    });
+  });
+
+  describe('Benchmark Comparison', () => {
+    const createBars = (closes: number[], startDay: number = 2): OHLCV[] => closes.map((close, i) => ({
+      timestamp: new Date(Date.UTC(2023, 0, i + startDay)),
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume: 1000
+    }));
+
+    const createBuyAndHoldStrategy = () => {
+      let bought = false;
+      return {
+        config: { name: 'Buy And Hold', parameters: { symbol: 'SPY' } },
+        async executeStrategy(_strategy: any, marketData: OHLCV): Promise<TradeSignal[]> {
+          if (bought) return [];
+          bought = true;
+          return [{
+            type: 'BUY',
+            symbol: 'SPY',
+            price: marketData.close,
+            timestamp: marketData.timestamp,
+            reason: 'Enter',
+            strategyName: 'Buy And Hold'
+          }];
+        }
+      };
+    };
+
+    const benchmarkConfig = (benchmarkData?: OHLCV[]): BacktestExecutionConfig => ({
+      portfolio: { initialCash: 10000, commissionRate: 0, maxPositionSize: 1 },
+      startDate: new Date('2023-01-01'),
+      endDate: new Date('2023-01-31'),
+      benchmark: 'SPY',
+      benchmarkData,
+      includeCosts: true
+    });
+
+    const closes = [100, 110, 99, 120, 108, 115];
+
+    test('should align a buy-and-hold benchmark curve to the equity curve', async () => {
+      const result = await backtestEngine.runBacktest(createBuyAndHoldStrategy(), createBars(closes), benchmarkConfig(createBars(closes)));
+
+      expect(result.benchmark!.symbol).toBe('SPY');
+      expect(result.benchmark!.equityCurve.map(point => point.totalValue)).toEqual(
+        result.equityCurve.map(point => point.totalValue)
+      );
+      expect(result.benchmark!.totalReturn).toBeCloseTo(0.15, 10);
+
+      // Fully invested in the benchmark itself: no active risk
+      expect(result.summary.beta).toBeCloseTo(1, 10);
+      expect(result.summary.correlation).toBeCloseTo(1, 10);
+      expect(result.summary.alpha).toBeCloseTo(0, 10);
+      expect(result.summary.trackingError).toBeCloseTo(0, 10);
+      expect(result.summary.upCapture).toBeCloseTo(1, 10);
+      expect(result.summary.downCapture).toBeCloseTo(1, 10);
+    });
+
+    test('should carry the latest benchmark close across missing bars', async () => {
+      // Benchmark starts a day late and skips the fourth day
+      const benchmarkData = createBars([50, 45, 60, 54, 57], 3).filter((_bar, i) => i !== 1);
+
+      const result = await backtestEngine.runBacktest(createBuyAndHoldStrategy(), createBars(closes), benchmarkConfig(benchmarkData));
+
+      expect(result.benchmark!.equityCurve.map(point => point.totalValue)).toEqual([10000, 10000, 10000, 12000, 10800, 11400]);
+      expect(result.benchmark!.equityCurve[2].price).toBe(50);
+    });
+
+    test('should omit benchmark metrics without benchmark data', async () => {
+      const result = await backtestEngine.runBacktest(createBuyAndHoldStrategy(), createBars(closes), benchmarkConfig());
+
+      expect(result.benchmark).toBeUndefined();
+      expect(result.summary.beta).toBeUndefined();
+    });
+  });
+
   // Helper functions for generating test data
   function generateSampleData(): OHLCV[] {
     const data: OHLCV[] = [];
@@ -0,0 +1,122 @@
+/**
+ * BacktestReportGenerator tests
+ */
+
+import { BacktestReportGenerator } from '../src/analytics/backtest-report';
+import { BacktestResult, EquityCurvePoint } from '@jware-trader8/types';
+
+describe('BacktestReportGenerator', () => {
+  const createPoint = (date: string, totalValue: number): EquityCurvePoint => ({
+    timestamp: new Date(date),
+    totalValue,
+    cash: totalValue,
+    positionsValue: 0,
+    unrealizedPnL: 0,
+    realizedPnL: 0,
+    drawdown: 0
+  });
+
+  const createResult = (equityCurve: EquityCurvePoint[]): BacktestResult => ({
+    equityCurve,
+    config: {
+      portfolio: { initialCash: 10000, commissionRate: 0 },
+      startDate: equityCurve[0].timestamp,
+      endDate: equityCurve[equityCurve.length - 1].timestamp,
+      includeCosts: true
+    }
+  } as BacktestResult);
+
+  let generator: BacktestReportGenerator;
+
+  beforeEach(() => {
+    generator = new BacktestReportGenerator();
+  });
+
+  describe('Calendar Returns', () => {
+    test('should compound month-end values into monthly and yearly returns', () => {
+      const report = generator.generate(createResult([
+        createPoint('2023-11-15T00:00:00Z', 10500),
+        createPoint('2023-11-30T00:00:00Z', 11000),
+        createPoint('2023-12-29T00:00:00Z', 9900),
+        createPoint('2024-01-31T00:00:00Z', 10890)
+      ]));
+
+      expect(report.calendarReturns).toHaveLength(2);
+
+      const [year2023, year2024] = report.calendarReturns;
+      expect(year2023.year).toBe(2023);
+      expect(year2023.months.slice(0, 10).every(month => month === null)).toBe(true);
+      expect(year2023.months[10]).toBeCloseTo(0.1, 10);
+      expect(year2023.months[11]).toBeCloseTo(-0.1, 10);
+      expect(year2023.total).toBeCloseTo(-0.01, 10);
+      expect(year2024.months[0]).toBeCloseTo(0.1, 10);
+      expect(year2024.total).toBeCloseTo(0.1, 10);
+    });
+  });
+
+  describe('Drawdowns', () => {
+    test('should rank drawdown periods by depth with dates and lengths', () => {
+      const report = generator.generate(createResult([
+        createPoint('2023-01-01T00:00:00Z', 10000),
+        createPoint('2023-01-02T00:00:00Z', 9500),
+        createPoint('2023-01-03T00:00:00Z', 10100),
+        createPoint('2023-01-05T00:00:00Z', 8080),
+        createPoint('2023-01-10T00:00:00Z', 9000)
+      ]), { topDrawdowns: 1 });
+
+      expect(report.drawdowns).toEqual([{
+        start: new Date('2023-01-03T00:00:00Z'),
+        trough: new Date('2023-01-05T00:00:00Z'),
+        recovery: null,
+        depth: expect.closeTo(0.2, 10),
+        length: 7
+      }]);
+    });
+  });
+
+  describe('Rolling Sharpe', () => {
+    test('should start once the window is filled and annualize daily returns', () => {
+      const values = [100, 101, 100, 102, 101, 103];
+      const equityCurve = values.map((value, i) =>
+        createPoint(new Date(Date.UTC(2023, 0, i + 1)).toISOString(), value)
+      );
+
+      const series = generator.calculateRollingSharpe(equityCurve, 3);
+
+      expect(series.windowDays).toBe(3);
+      expect(series.points.map(point => point.timestamp.getUTCDate())).toEqual([4, 5, 6]);
+
+      // Window ending Jan 4 holds the returns of Jan 2-4
+      const returns = [0.01, 100 / 101 - 1, 0.02];
+      const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+      const sd = Math.sqrt(returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / returns.length);
+      expect(series.points[0].sharpeRatio).toBeCloseTo(mean / sd * Math.sqrt(252), 10);
+    });
+
+    test('should use the last value of each day and skip undefined ratios', () => {
+      const equityCurve = [
+        createPoint('2023-01-01T10:00:00Z', 100),
+        createPoint('2023-01-01T16:00:00Z', 100),
+        createPoint('2023-01-02T16:00:00Z', 100),
+        createPoint('2023-01-03T16:00:00Z', 100)
+      ];
+
+      const series = generator.calculateRollingSharpe(equityCurve, 2);
+
+      expect(series.points).toEqual([{ timestamp: new Date('2023-01-03T16:00:00Z'), sharpeRatio: 0 }]);
+    });
+
+    test('should default to 30 and 90 day windows', () => {
+      const report = generator.generate(createResult([createPoint('2023-01-01T00:00:00Z', 10000)]));
+
+      expect(report.rollingSharpe.map(series => series.windowDays)).toEqual([30, 90]);
+    });
+  });
+
+  test('should reject invalid options', () => {
+    const result = createResult([createPoint('2023-01-01T00:00:00Z', 10000)]);
+
+    expect(() => generator.generate(result, { topDrawdowns: -1 })).toThrow('topDrawdowns');
+    expect(() => generator.generate(result, { rollingWindows: [0] })).toThrow('Rolling windows');
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * FillModel and order fill simulation tests
+ */
+
+import { FillModel, SimulatedOrder } from '../src/execution/fill-model';
+import { BacktestEngine } from '../src/engine/backtest-engine';
+import { BacktestExecutionConfig, FillModelConfig, OHLCV, TradeSignal } from '@jware-trader8/types';
+
+describe('FillModel', () => {
+  const bar: OHLCV = {
+    timestamp: new Date('2023-01-02'),
+    open: 100,
+    high: 105,
+    low: 95,
+    close: 102,
+    volume: 1000
+  };
+
+  const createOrder = (overrides: Partial<SimulatedOrder>): SimulatedOrder => ({
+    symbol: 'BTCUSD',
+    action: 'BUY',
+    side: 'BUY',
+    type: 'MARKET',
+    quantity: 10,
+    signal: {
+      type: 'BUY',
+      symbol: 'BTCUSD',
+      price: 101,
+      timestamp: new Date('2023-01-01'),
+      reason: 'Test',
+      strategyName: 'Test'
+    },
+    ...overrides
+  });
+
+  describe('Configuration', () => {
+    test('should resolve defaults and fall back to the portfolio slippage rate', () => {
+      expect(new FillModel().getConfig()).toEqual({ timing: 'SIGNAL_CLOSE', slippage: { type: 'NONE', amount: 0 } });
+      expect(new FillModel({}, 0.001).getConfig().slippage).toEqual({ type: 'PERCENT', amount: 0.001 });
+    });
+
+    test('should reject invalid settings', () => {
+      expect(() => new FillModel({ slippage: { type: 'FIXED', amount: -1 } })).toThrow('cannot be negative');
+      expect(() => new FillModel({ maxVolumeParticipation: 1.5 })).toThrow('maxVolumeParticipation');
+    });
+  });
+
+  describe('Market orders', () => {
+    test('should fill at the signal price or the next bar open', () => {
+      const order = createOrder({});
+
+      expect(new FillModel().fill(order, bar, true)).toEqual({ price: 101, quantity: 10 });
+      expect(new FillModel({ timing: 'NEXT_BAR_OPEN' }).fill(order, bar, false)).toEqual({ price: 100, quantity: 10 });
+      expect(new FillModel({ timing: 'NEXT_BAR_OPEN' }).fillsOnSignalBar(order)).toBe(false);
+    });
+
+    test('should apply slippage against the order side', () => {
+      const config: FillModelConfig = { timing: 'NEXT_BAR_OPEN', slippage: { type: 'FIXED', amount: 0.5 } };
+
+      expect(new FillModel(config).fill(createOrder({}), bar, false)!.price).toBe(100.5);
+      expect(new FillModel(config).fill(createOrder({ side: 'SELL' }), bar, false)!.price).toBe(99.5);
+    });
+
+    test('should scale volume slippage with bar participation', () => {
+      const model = new FillModel({ timing: 'NEXT_BAR_OPEN', slippage: { type: 'VOLUME', amount: 0.1 } });
+
+      // 100 of 1000 shares -> 10% participation * 0.1 = 1% of price
+      expect(model.fill(createOrder({ quantity: 100 }), bar, false)!.price).toBeCloseTo(101, 10);
+    });
+
+    test('should cap fills by bar volume participation', () => {
+      const model = new FillModel({ maxVolumeParticipation: 0.05 });
+
+      expect(model.fill(createOrder({ quantity: 80 }), bar, false)).toEqual({ price: 100, quantity: 50 });
+    });
+  });
+
+  describe('Limit and stop orders', () => {
+    test('should fill limit orders only when the bar trades through the limit', () => {
+      const model = new FillModel({ slippage: { type: 'PERCENT', amount: 0.01 } });
+
+      expect(model.fill(createOrder({ type: 'LIMIT', limitPrice: 94 }), bar, false)).toBeNull();
+      expect(model.fill(createOrder({ type: 'LIMIT', limitPrice: 96 }), bar, false)).toEqual({ price: 96, quantity: 10 });
+      expect(model.fill(createOrder({ type: 'LIMIT', limitPrice: 110 }), bar, false)!.price).toBe(100);
+      expect(model.fill(createOrder({ side: 'SELL', type: 'LIMIT', limitPrice: 104 }), bar, false)!.price).toBe(104);
+      expect(model.fill(createOrder({ side: 'SELL', type: 'LIMIT', limitPrice: 106 }), bar, false)).toBeNull();
+    });
+
+    test('should trigger stop orders when the bar crosses the stop', () => {
+      const model = new FillModel();
+
+      expect(model.fill(createOrder({ type: 'STOP', stopPrice: 106 }), bar, false)).toBeNull();
+      expect(model.fill(createOrder({ type: 'STOP', stopPrice: 104 }), bar, false)!.price).toBe(104);
+      expect(model.fill(createOrder({ side: 'SELL', type: 'STOP', stopPrice: 96 }), bar, false)!.price).toBe(96);
+      // Gap below a sell stop fills at the open
+      expect(model.fill(createOrder({ side: 'SELL', type: 'STOP', stopPrice: 101 }), bar, false)!.price).toBe(100);
+    });
+  });
+
+  describe('BacktestEngine integration', () => {
+    const createBars = (bars: Array<[number, number, number, number, number]>): OHLCV[] =>
+      bars.map(([open, high, low, close, volume], i) => ({
+        timestamp: new Date(Date.UTC(2023, 0, i + 2)),
+        open,
+        high,
+        low,
+        close,
+        volume
+      }));
+
+    // Emits the scripted signal for each bar index
+    const createScriptedStrategy = (script: Record<number, Partial<TradeSignal>>) => {
+      let index = 0;
+      return {
+        config: { name: 'Scripted', parameters: { symbol: 'BTCUSD' } },
+        async executeStrategy(_strategy: any, marketData: OHLCV): Promise<TradeSignal[]> {
+          const step = script[index++];
+          return step ? [{
+            type: 'BUY',
+            symbol: 'BTCUSD',
+            price: marketData.close,
+            timestamp: marketData.timestamp,
+            reason: `Bar ${index}`,
+            strategyName: 'Scripted',
+            ...step
+          }] : [];
+        }
+      };
+    };
+
+    const createConfig = (fillModel?: FillModelConfig): BacktestExecutionConfig => ({
+      portfolio: { initialCash: 10000, commissionRate: 0, maxPositionSize: 0.5 },
+      startDate: new Date('2023-01-01'),
+      endDate: new Date('2023-01-31'),
+      includeCosts: true,
+      fillModel
+    });
+
+    const engine = new BacktestEngine();
+
+    test('should fill market orders at the next bar open and record the model', async () => {
+      const data = createBars([[100, 101, 99, 100, 1e6], [102, 106, 101, 105, 1e6], [108, 110, 107, 109, 1e6]]);
+      const strategy = createScriptedStrategy({ 0: { type: 'BUY' }, 1: { type: 'SELL' } });
+
+      const result = await engine.runBacktest(strategy, data, createConfig({ timing: 'NEXT_BAR_OPEN' }));
+
+      expect(result.trades).toHaveLength(1);
+      expect(result.trades[0].entryPrice).toBe(102);
+      expect(result.trades[0].exitPrice).toBe(108);
+      expect(result.fillModel).toEqual({ timing: 'NEXT_BAR_OPEN', slippage: { type: 'NONE', amount: 0 } });
+    });
+
+    test('should keep limit orders working until the price is reached', async () => {
+      const data = createBars([[100, 101, 99, 100, 1e6], [100, 101, 98, 99, 1e6], [97, 98, 94, 96, 1e6], [96, 97, 95, 96, 1e6]]);
+      const strategy = createScriptedStrategy({ 0: { type: 'BUY', orderType: 'LIMIT', limitPrice: 95 } });
+
+      const result = await engine.runBacktest(strategy, data, createConfig());
+
+      expect(result.trades).toHaveLength(1);
+      expect(result.trades[0].entryPrice).toBe(95);
+      expect(result.trades[0].entryTime.getUTCDate()).toBe(4);
+    });
+
+    test('should fill large orders across bars when volume is capped', async () => {
+      // 50% of 10000 at 100 = 50 units; 10% of 200 volume = 20 units per bar
+      const data = createBars([[100, 100, 100, 100, 200], [100, 100, 100, 100, 200], [100, 100, 100, 100, 200], [100, 100, 100, 100, 200]]);
+      const strategy = createScriptedStrategy({ 0: { type: 'BUY' } });
+
+      const result = await engine.runBacktest(strategy, data, createConfig({ maxVolumeParticipation: 0.1 }));
+
+      // One round trip after the position was built over three bars
+      expect(result.trades).toHaveLength(1);
+      expect(result.trades[0].quantity).toBe(50);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * MonteCarloSimulator tests
+ */
+
+import { MonteCarloSimulator } from '../src/analytics/monte-carlo';
+import { BacktestResult, Trade } from '@jware-trader8/types';
+
+describe('MonteCarloSimulator', () => {
+  const createTrade = (day: number, pnl: number): Trade => ({
+    id: `trade_${day}`,
+    symbol: 'BTCUSD',
+    side: 'BUY',
+    quantity: 1,
+    entryPrice: 100,
+    exitPrice: 100 + pnl,
+    entryTime: new Date(Date.UTC(2023, 0, day)),
+    exitTime: new Date(Date.UTC(2023, 0, day + 1)),
+    pnl,
+    commission: 0,
+    status: 'CLOSED'
+  });
+
+  const createResult = (pnls: number[]): BacktestResult => ({
+    trades: pnls.map((pnl, i) => createTrade(i + 1, pnl)),
+    equityCurve: [],
+    config: {
+      portfolio: { initialCash: 10000, commissionRate: 0 },
+      startDate: new Date(Date.UTC(2023, 0, 1)),
+      endDate: new Date(Date.UTC(2023, 1, 1)),
+      includeCosts: true
+    }
+  } as unknown as BacktestResult);
+
+  const result = createResult([500, -300, 800, -1200, 400, 250, -600, 900, -150, 300]);
+
+  let simulator: MonteCarloSimulator;
+
+  beforeEach(() => {
+    simulator = new MonteCarloSimulator();
+  });
+
+  describe('Shuffle', () => {
+    test('should keep final equity and vary drawdowns when every trade is reordered', () => {
+      const simulation = simulator.simulate(result, { iterations: 200, seed: 1 });
+
+      expect(simulation.tradeCount).toBe(10);
+      expect(simulation.original.finalEquity).toBe(10900);
+      expect(simulation.finalEquity.min).toBeCloseTo(10900, 6);
+      expect(simulation.finalEquity.max).toBeCloseTo(10900, 6);
+      expect(simulation.maxDrawdown.max).toBeGreaterThan(simulation.maxDrawdown.min);
+
+      // Bands start at the initial capital and widen with the number of trades
+      expect(simulation.equityBands).toHaveLength(11);
+      expect(simulation.equityBands[0].values.every(value => value === 10000)).toBe(true);
+      const middle = simulation.equityBands[5].values;
+      expect(middle[middle.length - 1]).toBeGreaterThan(middle[0]);
+    });
+
+    test('should drop the requested share of trades', () => {
+      const simulation = simulator.simulate(result, { iterations: 200, seed: 1, skipRate: 0.2 });
+
+      expect(simulation.tradeCount).toBe(8);
+      expect(simulation.equityBands).toHaveLength(9);
+      expect(simulation.finalEquity.max).toBeGreaterThan(simulation.finalEquity.min);
+    });
+  });
+
+  describe('Equity Bands', () => {
+    test('should build bands from a sample of paths when iterations are many', () => {
+      const simulation = simulator.simulate(result, { iterations: 20000, method: 'bootstrap', seed: 7 });
+
+      expect(simulation.iterations).toBe(20000);
+      expect(simulation.equityBands).toHaveLength(11);
+      // The sampled median of final equity stays close to the median of every simulation
+      const sampledMedian = simulation.equityBands[10].values[2];
+      const median = simulation.finalEquity.percentiles[2].value;
+      expect(Math.abs(sampledMedian - median) / median).toBeLessThan(0.01);
+    });
+  });
+
+  describe('Bootstrap', () => {
+    test('should be reproducible from a seed with ordered percentiles', () => {
+      const first = simulator.simulate(result, { iterations: 500, method: 'bootstrap', seed: 42 });
+      const second = simulator.simulate(result, { iterations: 500, method: 'bootstrap', seed: 42 });
+
+      expect(second).toEqual(first);
+      expect(first.finalEquity.percentiles.map(p => p.percentile)).toEqual([0.05, 0.25, 0.5, 0.75, 0.95]);
+
+      const values = first.finalEquity.percentiles.map(p => p.value);
+      expect(values).toEqual([...values].sort((a, b) => a - b));
+      expect(values[0]).toBeGreaterThanOrEqual(first.finalEquity.min);
+      expect(values[values.length - 1]).toBeLessThanOrEqual(first.finalEquity.max);
+    });
+  });
+
+  describe('Risk of Ruin', () => {
+    test('should count sequences that lose the ruin threshold', () => {
+      const ruinous = simulator.simulate(createResult([-6000, 100]), { iterations: 100, seed: 3 });
+      expect(ruinous.riskOfRuin).toBe(1);
+      expect(ruinous.riskOfRuinInterval.upper).toBeCloseTo(1, 10);
+      expect(ruinous.riskOfRuinInterval.lower).toBeGreaterThan(0.9);
+
+      const safe = simulator.simulate(result, { iterations: 100, seed: 3 });
+      expect(safe.riskOfRuin).toBe(0);
+      expect(safe.riskOfRuinInterval.lower).toBe(0);
+      expect(safe.riskOfRuinInterval.upper).toBeGreaterThan(0);
+    });
+  });
+
+  test('should reject invalid options and results without trades', () => {
+    expect(() => simulator.simulate(result, { iterations: 0 })).toThrow('iterations');
+    expect(() => simulator.simulate(result, { skipRate: 1 })).toThrow('skipRate');
+    expect(() => simulator.simulate(result, { ruinThreshold: 0 })).toThrow('ruinThreshold');
+    expect(() => simulator.simulate(result, { percentiles: [95] })).toThrow('Percentiles');
+    expect(() => simulator.simulate(createResult([]))).toThrow('no closed trades');
+  });
+});
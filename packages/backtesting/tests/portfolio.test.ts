@@ -55,6 +55,50 @@ describe('Portfolio', () => {
       expect(canBuy).toBe(false);
     });
 
+    test('should reject new symbols beyond max positions', () => {
+      const limited = new Portfolio({ initialCash: 10000, commissionRate: 0, maxPositions: 1 });
+      limited.openPosition('BTCUSD', 1000, 1, new Date('2023-01-01T10:00:00Z'));
+
+      expect(limited.canBuy('ETHUSD', 100, 1)).toBe(false);
+      expect(limited.canBuy('BTCUSD', 1000, 1)).toBe(true);
+    });
+
+    test('should value other positions at market prices for position size limits', () => {
+      const limited = new Portfolio({ initialCash: 10000, commissionRate: 0, maxPositionSize: 0.5 });
+      limited.openPosition('BTCUSD', 1000, 5, new Date('2023-01-01T10:00:00Z'));
+
+      // Without BTCUSD marked the portfolio looks like 5000 cash only
+      expect(limited.canBuy('ETHUSD', 100, 30)).toBe(false);
+
+      limited.updateMarketPrices(new Map([['BTCUSD', 1000]]));
+      expect(limited.canBuy('ETHUSD', 100, 30)).toBe(true);
+    });
+
+    test('should split partial closes into their own trade', () => {
+      const account = new Portfolio({ initialCash: 10000, commissionRate: 0.001 });
+      const openTrade = account.openPosition('ETHUSD', 100, 10, new Date('2023-01-01T10:00:00Z'));
+
+      const closed = account.closePosition('ETHUSD', 110, new Date('2023-01-01T11:00:00Z'), 4);
+
+      expect(closed.id).not.toBe(openTrade.id);
+      expect(closed.quantity).toBe(4);
+      // 4 * (110 - 100) - (0.4 entry + 0.44 exit commission)
+      expect(closed.pnl).toBeCloseTo(39.16, 10);
+      expect(openTrade.status).toBe('OPEN');
+      expect(openTrade.quantity).toBe(6);
+      expect(account.getPositions().get('ETHUSD')!.quantity).toBe(6);
+    });
+
+    test('should extend the open trade when adding to a position', () => {
+      const account = new Portfolio({ initialCash: 10000, commissionRate: 0 });
+      const first = account.openPosition('ETHUSD', 100, 10, new Date('2023-01-01T10:00:00Z'));
+      const second = account.openPosition('ETHUSD', 110, 10, new Date('2023-01-01T11:00:00Z'));
+
+      expect(second.id).toBe(first.id);
+      expect(second.quantity).toBe(20);
+      expect(account.closePosition('ETHUSD', 120, new Date('2023-01-01T12:00:00Z')).pnl).toBe(300);
+    });
+
     test('should open position correctly with commission calculation', () => {
       const timestamp = new Date('2023-01-01T10:00:00Z');
       const trade = portfolio.openPosition('BTCUSD', 50000, 0.1, timestamp);
@@ -164,6 +208,70 @@ describe('Portfolio', () => {
     });
   });
 
+  describe('Short Selling', () => {
+    const shortConfig: PortfolioConfig = {
+      initialCash: 10000,
+      commissionRate: 0,
+      shortSelling: { marginRequirement: 0.5, borrowFeeRate: 0.0365 }
+    };
+    const entryTime = new Date('2023-01-01T00:00:00Z');
+
+    test('should reject shorts unless enabled', () => {
+      expect(new Portfolio({ initialCash: 10000, commissionRate: 0 }).canShort('ETHUSD', 100, 1)).toBe(false);
+      expect(new Portfolio(shortConfig).canShort('ETHUSD', 100, 1)).toBe(true);
+    });
+
+    test('should credit proceeds and value the short as a liability', () => {
+      const account = new Portfolio(shortConfig);
+      const trade = account.openShortPosition('ETHUSD', 100, 20, entryTime);
+
+      expect(trade.side).toBe('SELL');
+      expect(account.getCash()).toBe(12000);
+      expect(account.getPositions().get('ETHUSD')).toEqual(expect.objectContaining({ side: 'SHORT', quantity: -20 }));
+
+      const prices = new Map([['ETHUSD', 90]]);
+      expect(account.getTotalValue(prices)).toBe(10200);
+      expect(account.getSnapshot(prices, entryTime).unrealizedPnL).toBe(200);
+    });
+
+    test('should require margin on top of the short liability', () => {
+      const account = new Portfolio(shortConfig);
+      account.openShortPosition('ETHUSD', 100, 100, entryTime);
+
+      // 20000 cash - 10000 liability - 5000 margin
+      expect(account.getAvailableFunds()).toBe(5000);
+      expect(account.canShort('BTCUSD', 100, 100)).toBe(true);
+      expect(account.canShort('BTCUSD', 100, 101)).toBe(false);
+      expect(account.canBuy('BTCUSD', 100, 51)).toBe(false);
+      expect(account.canBuy('ETHUSD', 100, 1)).toBe(false);
+    });
+
+    test('should charge borrow fees per day and include them in P&L', () => {
+      const account = new Portfolio(shortConfig);
+      account.openShortPosition('ETHUSD', 100, 10, entryTime);
+
+      // 1000 short value * 3.65% / 365 = 0.1 per day
+      const fees = account.accrueBorrowFees(new Map([['ETHUSD', 100]]), new Date('2023-01-03T00:00:00Z'));
+      expect(fees).toBeCloseTo(0.2, 10);
+
+      const trade = account.closePosition('ETHUSD', 90, new Date('2023-01-03T00:00:00Z'));
+      expect(trade.borrowFees).toBeCloseTo(0.2, 10);
+      expect(trade.pnl).toBeCloseTo(99.8, 10);
+      expect(account.getCash()).toBeCloseTo(10099.8, 10);
+      expect(account.hasPosition('ETHUSD')).toBe(false);
+    });
+
+    test('should stop out shorts when the price rises', () => {
+      const account = new Portfolio({ ...shortConfig, riskManagement: { stopLossPercent: 0.05 } });
+      account.openShortPosition('ETHUSD', 100, 10, entryTime);
+
+      expect(account.applyRiskManagement(new Map([['ETHUSD', 97]]), entryTime)).toHaveLength(0);
+      const [trade] = account.applyRiskManagement(new Map([['ETHUSD', 106]]), entryTime);
+      expect(trade.exitReason).toBe('Stop Loss');
+      expect(trade.pnl).toBe(-60);
+    });
+  });
+
   describe('Risk Management', () => {
     test('should apply stop loss when price drops', () => {
       const entryTime = new Date('2023-01-01T10:00:00Z');
@@ -0,0 +1,218 @@
+/**
+ * StrategyOptimizer tests
+ */
+
+import { StrategyOptimizer } from '../src/optimization/strategy-optimizer';
+import { OptimizationParams, WalkForwardParams } from '@jware-trader8/core';
+import { OHLCV, StrategyConfig } from '@jware-trader8/types';
+
+describe('StrategyOptimizer', () => {
+  const marketData: OHLCV[] = Array.from({ length: 120 }, (_, i) => {
+    const close = 100 + 10 * Math.sin(i / 5) + i * 0.1;
+    return {
+      timestamp: new Date(Date.UTC(2023, 0, 1 + i)),
+      open: close,
+      high: close + 1,
+      low: close - 1,
+      close,
+      volume: 1000
+    };
+  });
+
+  const strategy: StrategyConfig = {
+    name: 'SMA Crossover',
+    version: '1.0.0',
+    parameters: {
+      symbol: 'BTCUSD',
+      timeframe: '1d',
+      positionSize: 0.5,
+      fast: 3,
+      slow: 10
+    },
+    indicators: [
+      { name: 'fast', type: 'SMA', parameters: { period: '{{ parameters.fast }}' } },
+      { name: 'slow', type: 'SMA', parameters: { period: '{{ parameters.slow }}' } }
+    ],
+    signals: {
+      buy: [{ id: 'golden', description: 'Golden cross', condition: 'crosses_above(fast, slow)', action: 'BUY' }],
+      sell: [{ id: 'death', description: 'Death cross', condition: 'crosses_below(fast, slow)', action: 'SELL' }]
+    },
+    riskManagement: {
+      maxPositionSize: 0.5
+    }
+  };
+
+  const createParams = (overrides: Partial<OptimizationParams> = {}): OptimizationParams => ({
+    parameters: {
+      fast: { min: 2, max: 4, step: 1 },
+      slow: { min: 8, max: 12, step: 2 }
+    },
+    objective: 'return',
+    maxIterations: 50,
+    validationSplit: 0,
+    ...overrides
+  });
+
+  let optimizer: StrategyOptimizer;
+
+  beforeEach(() => {
+    optimizer = new StrategyOptimizer({
+      portfolio: { initialCash: 10000, commissionRate: 0, maxPositionSize: 0.5 },
+      includeCosts: true
+    });
+  });
+
+  describe('Grid search', () => {
+    test('should run every combination and rank by the objective', async () => {
+      const progress: number[] = [];
+      const result = await optimizer.optimize(strategy, marketData, createParams({
+        onProgress: completed => progress.push(completed)
+      }));
+
+      expect(result.iterations).toBe(9);
+      expect(progress).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+      expect(result.runs.map(run => run.score)).toEqual([...result.runs.map(run => run.score)].sort((a, b) => b - a));
+      expect(result.bestParameters).toEqual(result.runs[0].parameters);
+      expect(result.bestScore).toBe(result.runs[0].metrics.totalReturn);
+      expect(result.overfittingRisk).toBe('HIGH');
+
+      // Parameters are applied while the templates are kept for reuse
+      expect(result.optimizedStrategy.parameters).toEqual(expect.objectContaining(result.bestParameters));
+      expect(result.optimizedStrategy.indicators[0].parameters.period).toBe('{{ parameters.fast }}');
+      expect(strategy.parameters.fast).toBe(3);
+    });
+
+    test('should minimize lower-is-better metrics and limit the kept runs', async () => {
+      const result = await optimizer.optimize(strategy, marketData, createParams({
+        objective: 'maxDrawdown',
+        topResults: 3
+      }));
+
+      expect(result.runs).toHaveLength(3);
+      expect(result.runs.map(run => run.score)).toEqual([...result.runs.map(run => run.score)].sort((a, b) => a - b));
+    });
+
+    test('should refuse grids larger than maxIterations', async () => {
+      await expect(optimizer.optimize(strategy, marketData, createParams({ maxIterations: 5 })))
+        .rejects.toThrow('Grid has 9 combinations');
+    });
+  });
+
+  describe('Random search', () => {
+    test('should sample unique parameter sets reproducibly from a seed', async () => {
+      const params = createParams({
+        method: 'random',
+        maxIterations: 4,
+        seed: 7,
+        parameters: {
+          fast: { min: 2, max: 5, step: 1 },
+          positionSize: { min: 0.1, max: 0.3, step: 0.1 }
+        },
+        objective: 'sharpe'
+      });
+
+      const first = await optimizer.optimize(strategy, marketData, params);
+      const second = await optimizer.optimize(strategy, marketData, params);
+
+      expect(first.iterations).toBe(4);
+      const keys = first.runs.map(run => `${run.parameters.fast}:${run.parameters.positionSize}`);
+      expect(new Set(keys).size).toBe(4);
+      expect(second.runs.map(run => run.parameters)).toEqual(first.runs.map(run => run.parameters));
+      expect(first.runs.every(run => [0.1, 0.2, 0.3].includes(run.parameters.positionSize))).toBe(true);
+    });
+  });
+
+  describe('Validation', () => {
+    test('should score the best parameters on held-out data', async () => {
+      const result = await optimizer.optimize(strategy, marketData, createParams({ validationSplit: 0.25 }));
+
+      expect(typeof result.validationScore).toBe('number');
+      expect(['LOW', 'MEDIUM', 'HIGH']).toContain(result.overfittingRisk);
+    });
+
+    test('should reject invalid optimization settings', async () => {
+      await expect(optimizer.optimize(strategy, marketData, createParams({ parameters: {} })))
+        .rejects.toThrow('At least one parameter range');
+      await expect(optimizer.optimize(strategy, marketData, createParams({
+        parameters: { fast: { min: 2, max: 4, step: 0 } }
+      }))).rejects.toThrow('step must be greater than 0');
+      await expect(optimizer.optimize(strategy, marketData, createParams({ validationSplit: 1 })))
+        .rejects.toThrow('validationSplit');
+      await expect(optimizer.optimize(strategy, [], createParams())).rejects.toThrow('Market data');
+    });
+  });
+
+  describe('Walk-forward analysis', () => {
+    const createWalkForwardParams = (overrides: Partial<WalkForwardParams> = {}): WalkForwardParams => ({
+      trainingPeriod: 40,
+      testingPeriod: 20,
+      stepSize: 20,
+      reoptimizeFrequency: 1,
+      optimization: {
+        parameters: { fast: { min: 2, max: 4, step: 1 } },
+        objective: 'return',
+        maxIterations: 10
+      },
+      ...overrides
+    });
+
+    test('should optimize rolling windows and test on the following period', async () => {
+      const progress: number[] = [];
+      const result = await optimizer.walkForwardAnalysis(strategy, marketData, createWalkForwardParams({
+        onProgress: completed => progress.push(completed)
+      }));
+
+      // 120 daily bars: out-of-sample windows start on days 40, 60, 80 and 100
+      expect(result.periods).toHaveLength(4);
+      expect(progress).toEqual([1, 2, 3, 4]);
+      result.periods.forEach((period, i) => {
+        expect(period.startDate).toEqual(marketData[40 + i * 20].timestamp);
+        expect(period.endDate).toEqual(marketData[59 + i * 20].timestamp);
+        expect(period.trainingStartDate).toEqual(marketData[i * 20].timestamp);
+        expect(period.trainingEndDate).toEqual(marketData[39 + i * 20].timestamp);
+        expect(period.reoptimized).toBe(true);
+        expect(period.outOfSampleScore).toBe(period.performance.totalReturn);
+      });
+
+      expect(result.consistency).toBeGreaterThanOrEqual(0);
+      expect(result.consistency).toBeLessThanOrEqual(1);
+      expect(result.robustness).toBeGreaterThanOrEqual(0);
+      expect(result.robustness).toBeLessThanOrEqual(1);
+      expect(Number.isFinite(result.efficiency)).toBe(true);
+    });
+
+    test('should compound out-of-sample equity curves into one run', async () => {
+      const result = await optimizer.walkForwardAnalysis(strategy, marketData, createWalkForwardParams());
+
+      expect(result.equityCurve).toHaveLength(80);
+      expect(result.equityCurve[0].timestamp).toEqual(marketData[40].timestamp);
+
+      const compounded = result.periods.reduce((value, period) => value * (1 + period.performance.totalReturn), 1) - 1;
+      expect(result.overallMetrics.totalReturn).toBeCloseTo(compounded, 8);
+      expect(result.overallMetrics.totalTrades).toBe(
+        result.periods.reduce((total, period) => total + period.trades, 0)
+      );
+    });
+
+    test('should anchor training windows and keep parameters between reoptimizations', async () => {
+      const result = await optimizer.walkForwardAnalysis(strategy, marketData, createWalkForwardParams({
+        anchored: true,
+        reoptimizeFrequency: 2
+      }));
+
+      expect(result.periods.every(period => period.trainingStartDate.getTime() === marketData[0].timestamp.getTime())).toBe(true);
+      expect(result.periods.map(period => period.reoptimized)).toEqual([true, false, true, false]);
+      expect(result.periods[1].parameters).toEqual(result.periods[0].parameters);
+      expect(result.periods[3].parameters).toEqual(result.periods[2].parameters);
+    });
+
+    test('should reject invalid walk-forward settings', async () => {
+      await expect(optimizer.walkForwardAnalysis(strategy, marketData, createWalkForwardParams({ stepSize: 10 })))
+        .rejects.toThrow('stepSize must be at least testingPeriod');
+      await expect(optimizer.walkForwardAnalysis(strategy, marketData, createWalkForwardParams({ reoptimizeFrequency: 0 })))
+        .rejects.toThrow('reoptimizeFrequency');
+      await expect(optimizer.walkForwardAnalysis(strategy, marketData, createWalkForwardParams({ trainingPeriod: 200 })))
+        .rejects.toThrow('Not enough data');
+    });
+  });
+});
@@ -7,6 +7,7 @@ import { CLIPromptHandler } from './utils/prompt-handler';
 import { TradeCommands } from './commands/trade';
 import { BacktestCommands } from './commands/backtest';
 import { ConfigCommands } from './commands/config';
+import { DataCommands } from './commands/data';
 import { CLIContext } from './types/cli-types';
 
 export class JTraderCLI {
@@ -40,6 +41,8 @@ export class JTraderCLI {
       .description('Jware-Trader8 - Automated cryptocurrency and stock trading platform')
       .version('1.0.0')
       .helpOption('-h, --help', 'Display help for command')
+      // Options after a subcommand belong to it, e.g. backtest walk-forward --symbol
+      .enablePositionalOptions()
       .addHelpText('before', chalk.blue.bold('\n🚀 Jware-Trader8 CLI\n'))
       .addHelpText('after', `
 ${chalk.blue.bold('Examples:')}
@@ -79,6 +82,10 @@ ${chalk.blue.bold('Documentation:')}
     const configCommands = new ConfigCommands(this.context);
     configCommands.registerCommands(this.program);
 
+    // Register data commands
+    const dataCommands = new DataCommands(this.context);
+    dataCommands.registerCommands(this.program);
+
     // Add status command as a top-level command
     this.program
       .command('status')
@@ -4,40 +4,82 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'yaml';
 import { format, parseISO } from 'date-fns';
-import { CLIContext, BacktestOptions, BacktestDisplayResult } from '../types/cli-types';
+import {
+  CLIContext,
+  BacktestOptions,
+  BacktestDisplayResult,
+  BacktestListOptions,
+  BacktestMonteCarloOptions,
+  SavedBacktestOptions,
+  OptimizeOptions,
+  WalkForwardOptions
+} from '../types/cli-types';
 import { CLIErrorHandler } from '../utils/error-handler';
 import { BacktestProgressBar } from '../utils/progress-indicator';
+import { createMarketDataProvider } from '../utils/data-provider';
+import { OHLCV_DB_PATH } from './data';
 import { StrategyEngine } from '@jware-trader8/strategies';
-import { BacktestEngine } from '@jware-trader8/backtesting';
-import { PolygonDataProvider } from '@jware-trader8/providers';
-import { ConfigStore } from '@jware-trader8/database';
-import { StrategyConfig, OHLCV, BacktestResult } from '@jware-trader8/types';
+import {
+  BacktestEngine,
+  BacktestReportGenerator,
+  MonteCarloSimulator,
+  createRunnableStrategy,
+  StrategyOptimizer
+} from '@jware-trader8/backtesting';
+import {
+  IDataProvider,
+  OptimizationObjective,
+  OptimizationResult,
+  ParameterRange,
+  WalkForwardResult
+} from '@jware-trader8/core';
+import { BacktestStore, ConfigStore, OHLCVStore } from '@jware-trader8/database';
+import {
+  StrategyConfig,
+  OHLCV,
+  BacktestResult,
+  BacktestReport,
+  MonteCarloResult,
+  PerformanceMetrics,
+  StoredBacktestRun,
+  Timeframe
+} from '@jware-trader8/types';
+
+const BACKTEST_DB_PATH = '.jtrader-backtests.db';
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
 
 export class BacktestCommands {
   private context: CLIContext;
   private configStore: ConfigStore;
   private strategyEngine: StrategyEngine;
   private backtestEngine: BacktestEngine;
+  private reportGenerator: BacktestReportGenerator;
 
   constructor(context: CLIContext) {
     this.context = context;
     this.configStore = new ConfigStore();
     this.strategyEngine = new StrategyEngine();
-    this.backtestEngine = new BacktestEngine(this.strategyEngine);
+    this.backtestEngine = new BacktestEngine();
+    this.reportGenerator = new BacktestReportGenerator();
   }
 
   registerCommands(program: Command): void {
-    program
+    // Symbol and dates are checked in handleBacktest; commander would also demand them for subcommands
+    const backtest = program
       .command('backtest')
       .description('Run strategy backtesting against historical data')
+      .enablePositionalOptions()
       .argument('<strategy-file>', 'Path to strategy YAML file')
-      .requiredOption('--symbol <symbol>', 'Symbol to test (e.g., BTCUSD, AAPL, SPY)')
-      .requiredOption('--start <date>', 'Start date (YYYY-MM-DD)')
-      .requiredOption('--end <date>', 'End date (YYYY-MM-DD)')
+      .option('--symbol <symbol>', 'Symbol to test (e.g., BTCUSD, AAPL, SPY)')
+      .option('--start <date>', 'Start date (YYYY-MM-DD)')
+      .option('--end <date>', 'End date (YYYY-MM-DD)')
+      .option('--offline', 'Read bars from the local data store instead of the market data API', false)
       .option('--timeframe <frame>', 'Timeframe: 1m, 5m, 15m, 1h, 1d', '1h')
       .option('--initial-capital <amount>', 'Initial capital', '10000')
       .option('--commission <rate>', 'Commission per trade (0.001 = 0.1%)', '0.001')
+      .option('--benchmark <symbol>', 'Benchmark symbol for buy-and-hold comparison (e.g., SPY)')
       .option('--output <format>', 'Output format: table, json, csv', 'table')
+      .option('--report', 'Include monthly returns, drawdown periods and rolling Sharpe', false)
       .option('--save-results', 'Save results to database', false)
       .action(async (strategyFile: string, options: BacktestOptions) => {
         try {
@@ -46,12 +88,543 @@ export class BacktestCommands {
           CLIErrorHandler.handle(error);
         }
       });
+
+    backtest
+      .command('walk-forward')
+      .description('Optimize on rolling in-sample windows and test on the periods that follow')
+      .argument('<strategy-file>', 'Path to strategy YAML file')
+      .requiredOption('--symbol <symbol>', 'Symbol to test (e.g., BTCUSD, AAPL, SPY)')
+      .requiredOption('--start <date>', 'Start date (YYYY-MM-DD)')
+      .requiredOption('--end <date>', 'End date (YYYY-MM-DD)')
+      .requiredOption(
+        '--param <name=min:max:step>',
+        'Parameter range, repeatable (e.g., --param fast_period=5:20:5)',
+        (value: string, previous: string[] = []) => [...previous, value]
+      )
+      .option('--training-days <days>', 'In-sample window length in days', '180')
+      .option('--testing-days <days>', 'Out-of-sample window length in days', '30')
+      .option('--step-days <days>', 'Days between window starts (default: testing days)')
+      .option('--reoptimize-every <windows>', 'Re-optimize every N windows, keeping parameters in between', '1')
+      .option('--anchored', 'Grow training windows from the start date instead of rolling them', false)
+      .option('--objective <metric>', 'Metric to rank by: sharpe, return, profit_factor, win_rate or any summary metric', 'sharpe')
+      .option('--method <method>', 'Search method: grid, random', 'grid')
+      .option('--max-iterations <count>', 'Maximum parameter sets to test per window', '100')
+      .option('--seed <number>', 'Random search seed for reproducible runs')
+      .option('--offline', 'Read bars from the local data store instead of the market data API', false)
+      .option('--timeframe <frame>', 'Timeframe: 1m, 5m, 15m, 1h, 1d', '1h')
+      .option('--initial-capital <amount>', 'Initial capital', '10000')
+      .option('--commission <rate>', 'Commission per trade (0.001 = 0.1%)', '0.001')
+      .option('--output <format>', 'Output format: table, json, csv', 'table')
+      .action(async (strategyFile: string, options: WalkForwardOptions) => {
+        try {
+          await this.handleWalkForward(strategyFile, options);
+        } catch (error) {
+          CLIErrorHandler.handle(error);
+        }
+      });
+
+    backtest
+      .command('monte-carlo')
+      .description('Resample the backtest\'s trades to estimate equity, drawdown and risk of ruin percentiles')
+      .argument('<strategy-file>', 'Path to strategy YAML file')
+      .requiredOption('--symbol <symbol>', 'Symbol to test (e.g., BTCUSD, AAPL, SPY)')
+      .requiredOption('--start <date>', 'Start date (YYYY-MM-DD)')
+      .requiredOption('--end <date>', 'End date (YYYY-MM-DD)')
+      .option('--iterations <count>', 'Number of simulated trade sequences', '1000')
+      .option('--method <method>', 'Resampling: shuffle (without replacement), bootstrap (with replacement)', 'shuffle')
+      .option('--skip <fraction>', 'Fraction of trades randomly skipped in each sequence (e.g., 0.1)', '0')
+      .option('--ruin-threshold <fraction>', 'Loss of initial capital that counts as ruin', '0.5')
+      .option('--seed <number>', 'Random seed for reproducible runs')
+      .option('--offline', 'Read bars from the local data store instead of the market data API', false)
+      .option('--timeframe <frame>', 'Timeframe: 1m, 5m, 15m, 1h, 1d', '1h')
+      .option('--initial-capital <amount>', 'Initial capital', '10000')
+      .option('--commission <rate>', 'Commission per trade (0.001 = 0.1%)', '0.001')
+      .option('--output <format>', 'Output format: table, json, csv', 'table')
+      .action(async (strategyFile: string, options: BacktestMonteCarloOptions) => {
+        try {
+          await this.handleMonteCarlo(strategyFile, options);
+        } catch (error) {
+          CLIErrorHandler.handle(error);
+        }
+      });
+
+    backtest
+      .command('list')
+      .description('List saved backtest runs, newest first')
+      .option('--strategy <name>', 'Only show runs of this strategy')
+      .option('--symbol <symbol>', 'Only show runs that traded this symbol')
+      .option('--limit <count>', 'Maximum number of runs to show', '20')
+      .option('--output <format>', 'Output format: table, json, csv', 'table')
+      .action(async (options: BacktestListOptions) => {
+        try {
+          await this.handleList(options);
+        } catch (error) {
+          CLIErrorHandler.handle(error);
+        }
+      });
+
+    backtest
+      .command('show')
+      .description('Show a saved backtest run')
+      .argument('<id>', 'Run id from "jtrader backtest list"')
+      .option('--output <format>', 'Output format: table, json, csv', 'table')
+      .action(async (id: string, options: SavedBacktestOptions) => {
+        try {
+          await this.handleShow(id, options);
+        } catch (error) {
+          CLIErrorHandler.handle(error);
+        }
+      });
+
+    backtest
+      .command('compare')
+      .description('Compare the metrics of two saved backtest runs side by side')
+      .argument('<id1>', 'First run id')
+      .argument('<id2>', 'Second run id')
+      .option('--output <format>', 'Output format: table, json, csv', 'table')
+      .action(async (id1: string, id2: string, options: SavedBacktestOptions) => {
+        try {
+          await this.handleCompare(id1, id2, options);
+        } catch (error) {
+          CLIErrorHandler.handle(error);
+        }
+      });
+
+    program
+      .command('optimize')
+      .description('Search strategy parameters for the best backtest performance')
+      .argument('<strategy-file>', 'Path to strategy YAML file')
+      .requiredOption('--symbol <symbol>', 'Symbol to test (e.g., BTCUSD, AAPL, SPY)')
+      .requiredOption('--start <date>', 'Start date (YYYY-MM-DD)')
+      .requiredOption('--end <date>', 'End date (YYYY-MM-DD)')
+      .requiredOption(
+        '--param <name=min:max:step>',
+        'Parameter range, repeatable (e.g., --param fast_period=5:20:5)',
+        (value: string, previous: string[] = []) => [...previous, value]
+      )
+      .option('--objective <metric>', 'Metric to rank by: sharpe, return, profit_factor, win_rate or any summary metric', 'sharpe')
+      .option('--method <method>', 'Search method: grid, random', 'grid')
+      .option('--max-iterations <count>', 'Maximum parameter sets to test', '100')
+      .option('--validation-split <fraction>', 'Fraction of data held out to validate the best parameters', '0.2')
+      .option('--seed <number>', 'Random search seed for reproducible runs')
+      .option('--top <count>', 'Number of parameter sets to show', '10')
+      .option('--offline', 'Read bars from the local data store instead of the market data API', false)
+      .option('--timeframe <frame>', 'Timeframe: 1m, 5m, 15m, 1h, 1d', '1h')
+      .option('--initial-capital <amount>', 'Initial capital', '10000')
+      .option('--commission <rate>', 'Commission per trade (0.001 = 0.1%)', '0.001')
+      .option('--output <format>', 'Output format: table, json, csv', 'table')
+      .action(async (strategyFile: string, options: OptimizeOptions) => {
+        try {
+          await this.handleOptimize(strategyFile, options);
+        } catch (error) {
+          CLIErrorHandler.handle(error);
+        }
+      });
+  }
+
+  async handleOptimize(strategyFile: string, options: OptimizeOptions): Promise<void> {
+    const { method, parameters, initialCapital, commission, maxIterations } =
+      this.validateSearchOptions(strategyFile, options);
+    const validationSplit = CLIErrorHandler.validateNumericOption(
+      options.validationSplit?.toString() || '0.2', 'validation-split', 0, 0.9
+    );
+    const top = CLIErrorHandler.validateNumericOption(options.top?.toString() || '10', 'top', 1, 1000);
+    const seed = options.seed !== undefined
+      ? CLIErrorHandler.validateNumericOption(options.seed.toString(), 'seed')
+      : undefined;
+
+    console.log(chalk.blue.bold('\n🔧 Starting Optimization\n'));
+
+    this.context.progressIndicator.start('Loading strategy configuration...');
+
+    try {
+      const strategyConfig = await this.loadStrategyFile(strategyFile);
+      strategyConfig.parameters = { ...strategyConfig.parameters, symbol: options.symbol.toUpperCase() };
+
+      this.context.progressIndicator.update('Fetching historical data...');
+      const historicalData = await this.withDataProvider(options.offline, dataProvider =>
+        dataProvider.getHistoricalData(
+          options.symbol,
+          (options.timeframe || '1h') as Timeframe,
+          parseISO(options.start),
+          parseISO(options.end)
+        )
+      );
+
+      if (!historicalData || historicalData.length === 0) {
+        throw CLIErrorHandler.createError(
+          `No historical data found for ${options.symbol} in the specified date range`,
+          'NO_DATA_FOUND',
+          this.noDataSuggestion(options.offline)
+        );
+      }
+
+      const optimizer = new StrategyOptimizer({
+        portfolio: {
+          initialCash: initialCapital,
+          commissionRate: commission,
+          maxPositionSize: strategyConfig.riskManagement?.maxPositionSize
+        },
+        includeCosts: true
+      }, this.strategyEngine);
+
+      const result = await optimizer.optimize(strategyConfig, historicalData, {
+        parameters,
+        objective: (options.objective || 'sharpe') as OptimizationObjective,
+        method,
+        maxIterations: Math.floor(maxIterations),
+        validationSplit,
+        seed,
+        topResults: Math.floor(top),
+        onProgress: (completed, total) =>
+          this.context.progressIndicator.update(`Optimizing parameters... ${completed}/${total}`)
+      });
+
+      this.context.progressIndicator.succeed(`Tested ${result.iterations} parameter sets`);
+      this.displayOptimizationResults(result, options);
+    } catch (error) {
+      this.context.progressIndicator.fail('Optimization failed');
+      throw error;
+    }
+  }
+
+  async handleWalkForward(strategyFile: string, options: WalkForwardOptions): Promise<void> {
+    const { method, parameters, initialCapital, commission, maxIterations } =
+      this.validateSearchOptions(strategyFile, options);
+    const trainingDays = CLIErrorHandler.validateNumericOption(
+      options.trainingDays?.toString() || '180', 'training-days', 1
+    );
+    const testingDays = CLIErrorHandler.validateNumericOption(
+      options.testingDays?.toString() || '30', 'testing-days', 1
+    );
+    const stepDays = CLIErrorHandler.validateNumericOption(
+      options.stepDays?.toString() || testingDays.toString(), 'step-days', testingDays
+    );
+    const reoptimizeEvery = CLIErrorHandler.validateNumericOption(
+      options.reoptimizeEvery?.toString() || '1', 'reoptimize-every', 1
+    );
+    const seed = options.seed !== undefined
+      ? CLIErrorHandler.validateNumericOption(options.seed.toString(), 'seed')
+      : undefined;
+
+    console.log(chalk.blue.bold('\n🚶 Starting Walk-Forward Analysis\n'));
+
+    this.context.progressIndicator.start('Loading strategy configuration...');
+
+    try {
+      const strategyConfig = await this.loadStrategyFile(strategyFile);
+      strategyConfig.parameters = { ...strategyConfig.parameters, symbol: options.symbol.toUpperCase() };
+
+      this.context.progressIndicator.update('Fetching historical data...');
+      const historicalData = await this.withDataProvider(options.offline, dataProvider =>
+        dataProvider.getHistoricalData(
+          options.symbol,
+          (options.timeframe || '1h') as Timeframe,
+          parseISO(options.start),
+          parseISO(options.end)
+        )
+      );
+
+      if (!historicalData || historicalData.length === 0) {
+        throw CLIErrorHandler.createError(
+          `No historical data found for ${options.symbol} in the specified date range`,
+          'NO_DATA_FOUND',
+          this.noDataSuggestion(options.offline)
+        );
+      }
+
+      const optimizer = new StrategyOptimizer({
+        portfolio: {
+          initialCash: initialCapital,
+          commissionRate: commission,
+          maxPositionSize: strategyConfig.riskManagement?.maxPositionSize
+        },
+        includeCosts: true
+      }, this.strategyEngine);
+
+      const result = await optimizer.walkForwardAnalysis(strategyConfig, historicalData, {
+        trainingPeriod: trainingDays,
+        testingPeriod: testingDays,
+        stepSize: stepDays,
+        reoptimizeFrequency: Math.floor(reoptimizeEvery),
+        anchored: options.anchored,
+        optimization: {
+          parameters,
+          objective: (options.objective || 'sharpe') as OptimizationObjective,
+          method,
+          maxIterations: Math.floor(maxIterations),
+          seed
+        },
+        onProgress: (completed, total) =>
+          this.context.progressIndicator.update(`Walking forward... window ${completed}/${total}`)
+      });
+
+      this.context.progressIndicator.succeed(`Tested ${result.periods.length} out-of-sample windows`);
+      this.displayWalkForwardResults(result, options);
+    } catch (error) {
+      this.context.progressIndicator.fail('Walk-forward analysis failed');
+      throw error;
+    }
+  }
+
+  async handleMonteCarlo(strategyFile: string, options: BacktestMonteCarloOptions): Promise<void> {
+    CLIErrorHandler.validateStrategyFile(strategyFile);
+    CLIErrorHandler.validateSymbol(options.symbol);
+    CLIErrorHandler.validateDateRange(options.start, options.end);
+    CLIErrorHandler.validateTimeframe(options.timeframe || '1h');
+    CLIErrorHandler.validateOutputFormat(options.output || 'table');
+
+    const method = options.method || 'shuffle';
+    if (method !== 'shuffle' && method !== 'bootstrap') {
+      throw CLIErrorHandler.createError(
+        `Invalid resampling method: ${method}`,
+        'INVALID_METHOD',
+        'Use --method shuffle or --method bootstrap'
+      );
+    }
+
+    const initialCapital = CLIErrorHandler.validateNumericOption(
+      options.initialCapital?.toString() || '10000', 'initial-capital', 100, 10000000
+    );
+    const commission = CLIErrorHandler.validateNumericOption(
+      options.commission?.toString() || '0.001', 'commission', 0, 0.1
+    );
+    const iterations = CLIErrorHandler.validateNumericOption(
+      options.iterations?.toString() || '1000', 'iterations', 1, 100000
+    );
+    const skipRate = CLIErrorHandler.validateNumericOption(options.skip?.toString() || '0', 'skip', 0, 0.99);
+    const ruinThreshold = CLIErrorHandler.validateNumericOption(
+      options.ruinThreshold?.toString() || '0.5', 'ruin-threshold', 0.01, 1
+    );
+    const seed = options.seed !== undefined
+      ? CLIErrorHandler.validateNumericOption(options.seed.toString(), 'seed')
+      : undefined;
+
+    console.log(chalk.blue.bold('\n🎲 Starting Monte Carlo Analysis\n'));
+
+    this.context.progressIndicator.start('Loading strategy configuration...');
+
+    try {
+      const strategyConfig = await this.loadStrategyFile(strategyFile);
+      strategyConfig.parameters = { ...strategyConfig.parameters, symbol: options.symbol.toUpperCase() };
+      const strategy = this.strategyEngine.loadStrategy(strategyConfig);
+
+      this.context.progressIndicator.update('Fetching historical data...');
+      const startDate = parseISO(options.start);
+      const endDate = parseISO(options.end);
+      const historicalData = await this.withDataProvider(options.offline, dataProvider =>
+        dataProvider.getHistoricalData(options.symbol, (options.timeframe || '1h') as Timeframe, startDate, endDate)
+      );
+
+      if (!historicalData || historicalData.length === 0) {
+        throw CLIErrorHandler.createError(
+          `No historical data found for ${options.symbol} in the specified date range`,
+          'NO_DATA_FOUND',
+          this.noDataSuggestion(options.offline)
+        );
+      }
+
+      this.context.progressIndicator.update('Running backtest...');
+      const result = await this.backtestEngine.runBacktest(createRunnableStrategy(this.strategyEngine, strategy), historicalData, {
+        portfolio: {
+          initialCash: initialCapital,
+          commissionRate: commission,
+          maxPositionSize: strategyConfig.riskManagement?.maxPositionSize
+        },
+        startDate,
+        endDate,
+        includeCosts: true
+      });
+
+      if (result.trades.length === 0) {
+        throw CLIErrorHandler.createError(
+          'The backtest produced no closed trades to resample',
+          'NO_TRADES',
+          'Use a longer date range or a strategy that trades more often'
+        );
+      }
+
+      this.context.progressIndicator.update(`Simulating ${Math.floor(iterations).toLocaleString()} trade sequences...`);
+      const simulation = new MonteCarloSimulator().simulate(result, {
+        iterations: Math.floor(iterations),
+        method,
+        skipRate,
+        ruinThreshold,
+        seed
+      });
+
+      this.context.progressIndicator.succeed(`Simulated ${simulation.iterations.toLocaleString()} trade sequences`);
+      this.displayMonteCarloResults(simulation, options, ruinThreshold);
+    } catch (error) {
+      this.context.progressIndicator.fail('Monte Carlo analysis failed');
+      throw error;
+    }
+  }
+
+  async handleList(options: BacktestListOptions): Promise<void> {
+    const outputFormat = options.output || 'table';
+    CLIErrorHandler.validateOutputFormat(outputFormat);
+    const limit = CLIErrorHandler.validateNumericOption(options.limit?.toString() || '20', 'limit', 1, 10000);
+
+    const store = await this.openBacktestStore();
+    try {
+      const runs = await store.listBacktests({
+        strategyName: options.strategy,
+        symbol: options.symbol,
+        limit: Math.floor(limit)
+      });
+
+      if (outputFormat === 'json') {
+        console.log(this.context.outputFormatter.formatJSON(runs));
+        return;
+      }
+
+      const rows = runs.map(run => ({
+        ID: run.id,
+        Strategy: run.strategyName,
+        Symbols: run.symbols.join(', '),
+        Period: `${format(run.startDate, 'yyyy-MM-dd')} → ${format(run.endDate, 'yyyy-MM-dd')}`,
+        Return: `${(run.summary.totalReturn * 100).toFixed(2)}%`,
+        Sharpe: run.summary.sharpeRatio.toFixed(2),
+        'Max DD': `${(run.summary.maxDrawdown * 100).toFixed(2)}%`,
+        Trades: String(run.summary.totalTrades),
+        Saved: format(run.createdAt, 'yyyy-MM-dd HH:mm')
+      }));
+
+      if (outputFormat === 'csv') {
+        console.log(this.context.outputFormatter.formatCSV(rows));
+        return;
+      }
+
+      if (rows.length === 0) {
+        console.log(chalk.yellow('No saved backtests. Run a backtest with --save-results to keep it.'));
+        return;
+      }
+
+      console.log(chalk.bold(`\n🗂️  Saved Backtests (${rows.length})`));
+      console.log(this.context.outputFormatter.formatTable(
+        rows,
+        ['ID', 'Strategy', 'Symbols', 'Period', 'Return', 'Sharpe', 'Max DD', 'Trades', 'Saved']
+      ));
+    } finally {
+      await store.close();
+    }
+  }
+
+  async handleShow(id: string, options: SavedBacktestOptions): Promise<void> {
+    const outputFormat = options.output || 'table';
+    CLIErrorHandler.validateOutputFormat(outputFormat);
+
+    const store = await this.openBacktestStore();
+    try {
+      const run = await this.getSavedRun(store, id);
+
+      if (outputFormat === 'json') {
+        console.log(this.context.outputFormatter.formatJSON(run));
+        return;
+      }
+
+      if (outputFormat === 'csv') {
+        console.log(this.context.outputFormatter.formatCSV(run.trades));
+        return;
+      }
+
+      console.log(chalk.blue.bold(`\n📈 Backtest ${run.id}\n`));
+      console.log(`Strategy: ${chalk.cyan(run.strategyName)} ${chalk.dim(`(${run.strategyHash.slice(0, 12)})`)}`);
+      console.log(`Symbols: ${chalk.cyan(run.symbols.join(', '))}`);
+      console.log(`Period: ${chalk.cyan(format(run.startDate, 'yyyy-MM-dd'))} to ${chalk.cyan(format(run.endDate, 'yyyy-MM-dd'))}`);
+      if (run.timeframe) {
+        console.log(`Timeframe: ${chalk.cyan(run.timeframe)}`);
+      }
+      console.log(`Initial Capital: ${chalk.cyan('$' + run.initialCapital.toLocaleString())}`);
+      console.log(`Commission: ${chalk.cyan((run.config.portfolio.commissionRate * 100).toFixed(2) + '%')}`);
+      console.log(`Saved: ${chalk.cyan(format(run.createdAt, 'yyyy-MM-dd HH:mm'))}`);
+      console.log('');
+
+      console.log(chalk.bold('📊 Performance Summary'));
+      console.log(this.context.outputFormatter.formatPerformanceSummary(run.summary));
+      console.log('');
+
+      if (run.trades.length > 0) {
+        console.log(chalk.bold('📋 Trade History'));
+        console.log(this.context.outputFormatter.formatTrades(run.trades.slice(0, 20)));
+        if (run.trades.length > 20) {
+          console.log(chalk.dim(`\n... and ${run.trades.length - 20} more trades`));
+          console.log(chalk.dim('Use --output csv to export all trades'));
+        }
+      } else {
+        console.log(chalk.yellow('📋 No trades executed during backtest period'));
+      }
+    } finally {
+      await store.close();
+    }
+  }
+
+  async handleCompare(id1: string, id2: string, options: SavedBacktestOptions): Promise<void> {
+    const outputFormat = options.output || 'table';
+    CLIErrorHandler.validateOutputFormat(outputFormat);
+
+    const store = await this.openBacktestStore();
+    try {
+      const first = await this.getSavedRun(store, id1);
+      const second = await this.getSavedRun(store, id2);
+
+      const metrics = Object.entries(first.summary).flatMap(([key, a]) => {
+        const b: unknown = second.summary[key as keyof PerformanceMetrics];
+        return typeof a === 'number' && typeof b === 'number'
+          ? [{ key, a, b, difference: this.metricDifference(a, b) }]
+          : [];
+      });
+      const rows = metrics.map(({ key, a, b, difference }) => ({
+        Metric: key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase()),
+        [first.id]: this.formatMetric(key, a),
+        [second.id]: this.formatMetric(key, b),
+        Difference: this.formatMetric(key, difference, true)
+      }));
+
+      if (outputFormat === 'json') {
+        console.log(this.context.outputFormatter.formatJSON({
+          runs: [first, second].map(({ trades, equityCurve, ...run }) => run),
+          differences: Object.fromEntries(metrics.map(({ key, difference }) => [key, difference]))
+        }));
+        return;
+      }
+
+      if (outputFormat === 'csv') {
+        console.log(this.context.outputFormatter.formatCSV(rows));
+        return;
+      }
+
+      console.log(chalk.blue.bold('\n⚖️  Backtest Comparison\n'));
+      for (const run of [first, second]) {
+        console.log(
+          `${chalk.cyan(run.id)}: ${run.strategyName} on ${run.symbols.join(', ')}, ` +
+          `${format(run.startDate, 'yyyy-MM-dd')} to ${format(run.endDate, 'yyyy-MM-dd')}`
+        );
+      }
+      if (first.strategyHash !== second.strategyHash) {
+        console.log(chalk.yellow('The strategy files differ between these runs'));
+      }
+      console.log('');
+
+      console.log(this.context.outputFormatter.formatTable(rows, ['Metric', first.id, second.id, 'Difference']));
+      console.log(chalk.dim('Difference is the second run minus the first'));
+    } finally {
+      await store.close();
+    }
   }
 
   async handleBacktest(strategyFile: string, options: BacktestOptions): Promise<void> {
     // Validate inputs
     CLIErrorHandler.validateStrategyFile(strategyFile);
     CLIErrorHandler.validateSymbol(options.symbol);
+    if (!options.start || !options.end) {
+      throw CLIErrorHandler.createError(
+        'Start and end dates are required',
+        'MISSING_DATE_RANGE',
+        'Provide --start and --end in YYYY-MM-DD format (e.g., --start 2024-01-01 --end 2024-06-01)'
+      );
+    }
     CLIErrorHandler.validateDateRange(options.start, options.end);
     CLIErrorHandler.validateTimeframe(options.timeframe || '1h');
     CLIErrorHandler.validateOutputFormat(options.output || 'table');
@@ -79,46 +652,65 @@ export class BacktestCommands {
       const strategyConfig = await this.loadStrategyFile(strategyFile);
       
       // Override symbol
-      strategyConfig.symbol = options.symbol.toUpperCase();
+      strategyConfig.parameters = { ...strategyConfig.parameters, symbol: options.symbol.toUpperCase() };
 
       this.context.progressIndicator.update('Validating strategy...');
-      const strategy = this.strategyEngine.loadStrategy(strategyConfig);
       const validation = this.strategyEngine.validateStrategy(strategyConfig);
 
       if (!validation.isValid) {
         this.context.progressIndicator.fail('Strategy validation failed');
         console.error(chalk.red.bold('Strategy Validation Errors:'));
-        validation.errors.forEach((error: string) => {
-          console.error(chalk.red('• ' + error));
+        validation.errors.forEach(error => {
+          console.error(chalk.red('• ' + CLIErrorHandler.formatValidationError(error)));
         });
         process.exit(1);
       }
-
-      this.context.progressIndicator.update('Initializing data provider...');
-
-      // Initialize data provider
-      const dataProvider = await this.initializeDataProvider();
+      const strategy = this.strategyEngine.loadStrategy(strategyConfig);
 
       this.context.progressIndicator.update('Fetching historical data...');
 
       // Fetch historical data
       const startDate = parseISO(options.start);
       const endDate = parseISO(options.end);
-      
-      const historicalData = await dataProvider.getHistoricalData(
-        options.symbol,
-        options.timeframe || '1h',
-        startDate,
-        endDate
-      );
 
-      if (!historicalData || historicalData.length === 0) {
-        throw CLIErrorHandler.createError(
-          `No historical data found for ${options.symbol} in the specified date range`,
-          'NO_DATA_FOUND',
-          'Try a different symbol or date range, or check your Polygon API key'
+      const { historicalData, benchmarkData } = await this.withDataProvider(options.offline, async dataProvider => {
+        const historicalData = await dataProvider.getHistoricalData(
+          options.symbol,
+          (options.timeframe || '1h') as Timeframe,
+          startDate,
+          endDate
         );
-      }
+
+        if (!historicalData || historicalData.length === 0) {
+          throw CLIErrorHandler.createError(
+            `No historical data found for ${options.symbol} in the specified date range`,
+            'NO_DATA_FOUND',
+            this.noDataSuggestion(options.offline)
+          );
+        }
+
+        let benchmarkData: OHLCV[] | undefined;
+        if (options.benchmark) {
+          CLIErrorHandler.validateSymbol(options.benchmark);
+          this.context.progressIndicator.update('Fetching benchmark data...');
+          benchmarkData = await dataProvider.getHistoricalData(
+            options.benchmark,
+            (options.timeframe || '1h') as Timeframe,
+            startDate,
+            endDate
+          );
+
+          if (!benchmarkData || benchmarkData.length === 0) {
+            throw CLIErrorHandler.createError(
+              `No historical data found for benchmark ${options.benchmark} in the specified date range`,
+              'NO_DATA_FOUND',
+              'Try a different benchmark symbol or date range'
+            );
+          }
+        }
+
+        return { historicalData, benchmarkData };
+      });
 
       this.context.progressIndicator.succeed('Historical data loaded');
 
@@ -131,19 +723,26 @@ export class BacktestCommands {
       console.log(`Data Points: ${chalk.cyan(historicalData.length.toLocaleString())}`);
       console.log(`Initial Capital: ${chalk.cyan('$' + initialCapital.toLocaleString())}`);
       console.log(`Commission: ${chalk.cyan((commission * 100).toFixed(2) + '%')}`);
+      if (options.benchmark) {
+        console.log(`Benchmark: ${chalk.cyan(options.benchmark.toUpperCase())}`);
+      }
       console.log('');
 
       // Run backtest with progress indication
       const progressBar = new BacktestProgressBar(historicalData.length);
       
-      const backtestConfig = {
-        initialCapital,
-        commission,
-        maxPositions: 10,
-        onProgress: (processed: number) => progressBar.update(processed)
-      };
-
-      const result = await this.backtestEngine.runBacktest(strategy, historicalData, backtestConfig);
+      const result = await this.backtestEngine.runBacktest(createRunnableStrategy(this.strategyEngine, strategy), historicalData, {
+        portfolio: {
+          initialCash: initialCapital,
+          commissionRate: commission,
+          maxPositionSize: strategyConfig.riskManagement?.maxPositionSize
+        },
+        startDate,
+        endDate,
+        includeCosts: true,
+        benchmark: options.benchmark?.toUpperCase(),
+        benchmarkData
+      });
       progressBar.complete();
 
       // Display results
@@ -151,8 +750,9 @@ export class BacktestCommands {
 
       // Save results if requested
       if (options.saveResults) {
-        await this.saveResults(result, strategyConfig, options);
-        console.log(chalk.green('\n✅ Results saved to database'));
+        const id = await this.saveResults(result, strategyFile, options);
+        console.log(chalk.green(`\n✅ Results saved to database as ${id}`));
+        console.log(chalk.dim(`View them again with: jtrader backtest show ${id}`));
       }
 
     } catch (error) {
@@ -161,6 +761,196 @@ export class BacktestCommands {
     }
   }
 
+  /**
+   * Validate the options optimize and walk-forward share
+   */
+  private validateSearchOptions(strategyFile: string, options: OptimizeOptions | WalkForwardOptions) {
+    CLIErrorHandler.validateStrategyFile(strategyFile);
+    CLIErrorHandler.validateSymbol(options.symbol);
+    CLIErrorHandler.validateDateRange(options.start, options.end);
+    CLIErrorHandler.validateTimeframe(options.timeframe || '1h');
+    CLIErrorHandler.validateOutputFormat(options.output || 'table');
+
+    const method = options.method || 'grid';
+    if (method !== 'grid' && method !== 'random') {
+      throw CLIErrorHandler.createError(
+        `Invalid search method: ${method}`,
+        'INVALID_METHOD',
+        'Use --method grid or --method random'
+      );
+    }
+
+    return {
+      method: method as 'grid' | 'random',
+      parameters: this.parseParameterRanges(options.param || []),
+      initialCapital: CLIErrorHandler.validateNumericOption(
+        options.initialCapital?.toString() || '10000', 'initial-capital', 100, 10000000
+      ),
+      commission: CLIErrorHandler.validateNumericOption(
+        options.commission?.toString() || '0.001', 'commission', 0, 0.1
+      ),
+      maxIterations: CLIErrorHandler.validateNumericOption(
+        options.maxIterations?.toString() || '100', 'max-iterations', 1, 100000
+      )
+    };
+  }
+
+  private parseParameterRanges(specs: string[]): Record<string, ParameterRange> {
+    const ranges: Record<string, ParameterRange> = {};
+
+    for (const spec of specs) {
+      const match = spec.match(/^(\w+)=(-?[\d.]+):(-?[\d.]+):([\d.]+)$/);
+      if (!match) {
+        throw CLIErrorHandler.createError(
+          `Invalid parameter range: ${spec}`,
+          'INVALID_PARAMETER_RANGE',
+          'Use the form name=min:max:step, e.g. --param fast_period=5:20:5'
+        );
+      }
+      const [, name, min, max, step] = match;
+      ranges[name] = { min: parseFloat(min), max: parseFloat(max), step: parseFloat(step) };
+    }
+
+    return ranges;
+  }
+
+  private displayOptimizationResults(result: OptimizationResult, options: OptimizeOptions): void {
+    const outputFormat = options.output || 'table';
+    const parameterNames = Object.keys(result.bestParameters);
+    const rows = result.runs.map((run, index) => ({
+      Rank: String(index + 1),
+      ...Object.fromEntries(parameterNames.map(name => [name, String(run.parameters[name])])),
+      Score: run.score.toFixed(4),
+      Return: `${(run.metrics.totalReturn * 100).toFixed(2)}%`,
+      Sharpe: run.metrics.sharpeRatio.toFixed(2),
+      'Max DD': `${(run.metrics.maxDrawdown * 100).toFixed(2)}%`,
+      Trades: String(run.metrics.totalTrades)
+    }));
+
+    if (outputFormat === 'json') {
+      console.log(this.context.outputFormatter.formatJSON(result));
+      return;
+    }
+
+    if (outputFormat === 'csv') {
+      console.log(this.context.outputFormatter.formatCSV(rows));
+      return;
+    }
+
+    const riskColor = result.overfittingRisk === 'LOW'
+      ? chalk.green
+      : result.overfittingRisk === 'MEDIUM' ? chalk.yellow : chalk.red;
+
+    console.log(chalk.blue.bold('\n🏆 Optimization Results\n'));
+    console.log(`Objective: ${chalk.cyan(options.objective || 'sharpe')}`);
+    console.log(`Parameter Sets Tested: ${chalk.cyan(result.iterations.toString())}`);
+    console.log(`Best Parameters: ${chalk.cyan(parameterNames.map(name => `${name}=${result.bestParameters[name]}`).join(', '))}`);
+    console.log(`Best Score: ${chalk.cyan(result.bestScore.toFixed(4))}`);
+    console.log(`Validation Score: ${chalk.cyan(result.validationScore.toFixed(4))}`);
+    console.log(`Overfitting Risk: ${riskColor(result.overfittingRisk)}`);
+    console.log('');
+
+    console.log(chalk.bold(`📋 Top ${rows.length} Parameter Sets`));
+    console.log(this.context.outputFormatter.formatTable(
+      rows,
+      ['Rank', ...parameterNames, 'Score', 'Return', 'Sharpe', 'Max DD', 'Trades']
+    ));
+  }
+
+  private displayWalkForwardResults(result: WalkForwardResult, options: WalkForwardOptions): void {
+    const outputFormat = options.output || 'table';
+    const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+    const day = (date: Date) => format(date, 'yyyy-MM-dd');
+    const rows = result.periods.map((period, index) => ({
+      Window: String(index + 1),
+      Training: `${day(period.trainingStartDate)} → ${day(period.trainingEndDate)}`,
+      Testing: `${day(period.startDate)} → ${day(period.endDate)}`,
+      Parameters: Object.entries(period.parameters).map(([name, value]) => `${name}=${value}`).join(', ') +
+        (period.reoptimized ? '' : ' (kept)'),
+      'IS Score': period.inSampleScore.toFixed(4),
+      'OOS Score': period.outOfSampleScore.toFixed(4),
+      'OOS Return': percent(period.performance.totalReturn),
+      Trades: String(period.trades)
+    }));
+
+    if (outputFormat === 'json') {
+      console.log(this.context.outputFormatter.formatJSON(result));
+      return;
+    }
+
+    if (outputFormat === 'csv') {
+      console.log(this.context.outputFormatter.formatCSV(rows));
+      return;
+    }
+
+    const metrics = result.overallMetrics;
+    const efficiencyColor = result.efficiency >= 0.5 ? chalk.green : result.efficiency > 0 ? chalk.yellow : chalk.red;
+
+    console.log(chalk.blue.bold('\n🚶 Walk-Forward Results\n'));
+    console.log(`Objective: ${chalk.cyan(options.objective || 'sharpe')}`);
+    console.log(`Windows: ${chalk.cyan(result.periods.length.toString())}${options.anchored ? chalk.dim(' (anchored)') : ''}`);
+    console.log(`Out-of-Sample Return: ${metrics.totalReturn >= 0 ? chalk.green(percent(metrics.totalReturn)) : chalk.red(percent(metrics.totalReturn))}`);
+    console.log(`Annualized Return: ${chalk.cyan(percent(metrics.annualizedReturn))}`);
+    console.log(`Sharpe Ratio: ${chalk.cyan(metrics.sharpeRatio.toFixed(2))}`);
+    console.log(`Max Drawdown: ${chalk.red(percent(metrics.maxDrawdown))}`);
+    console.log(`Total Trades: ${chalk.cyan(metrics.totalTrades.toString())}`);
+    console.log(`Walk-Forward Efficiency: ${efficiencyColor(percent(result.efficiency))}`);
+    console.log(`Profitable Windows: ${chalk.cyan(percent(result.consistency))}`);
+    console.log(`Robust Windows: ${chalk.cyan(percent(result.robustness))}`);
+    console.log('');
+
+    console.log(chalk.bold('📋 Windows'));
+    console.log(this.context.outputFormatter.formatTable(
+      rows,
+      ['Window', 'Training', 'Testing', 'Parameters', 'IS Score', 'OOS Score', 'OOS Return', 'Trades']
+    ));
+  }
+
+  private displayMonteCarloResults(
+    simulation: MonteCarloResult,
+    options: BacktestMonteCarloOptions,
+    ruinThreshold: number
+  ): void {
+    const outputFormat = options.output || 'table';
+    const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+    const money = (value: number) => '$' + value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+    const rows = simulation.finalEquity.percentiles.map((entry, index) => ({
+      Percentile: `${(entry.percentile * 100).toFixed(0)}th`,
+      'Final Equity': money(entry.value),
+      Return: percent(entry.value / simulation.initialCapital - 1),
+      'Max Drawdown': percent(simulation.maxDrawdown.percentiles[index].value)
+    }));
+
+    if (outputFormat === 'json') {
+      console.log(this.context.outputFormatter.formatJSON(simulation));
+      return;
+    }
+
+    if (outputFormat === 'csv') {
+      console.log(this.context.outputFormatter.formatCSV(rows));
+      return;
+    }
+
+    const ruinColor = simulation.riskOfRuin === 0 ? chalk.green : simulation.riskOfRuin < 0.05 ? chalk.yellow : chalk.red;
+
+    console.log(chalk.blue.bold('\n🎲 Monte Carlo Results\n'));
+    console.log(`Simulations: ${chalk.cyan(simulation.iterations.toLocaleString())} (${simulation.method})`);
+    console.log(`Trades per Sequence: ${chalk.cyan(simulation.tradeCount.toString())}`);
+    console.log(`Backtest Final Equity: ${chalk.cyan(money(simulation.original.finalEquity))}`);
+    console.log(`Backtest Max Drawdown: ${chalk.cyan(percent(simulation.original.maxDrawdown))}`);
+    console.log(`Mean Final Equity: ${chalk.cyan(money(simulation.finalEquity.mean))}`);
+    console.log(`Mean Max Drawdown: ${chalk.cyan(percent(simulation.maxDrawdown.mean))}`);
+    console.log(
+      `Risk of Ruin (${percent(ruinThreshold)} loss): ${ruinColor(percent(simulation.riskOfRuin))} ` +
+      chalk.dim(`(95% CI ${percent(simulation.riskOfRuinInterval.lower)} - ${percent(simulation.riskOfRuinInterval.upper)})`)
+    );
+    console.log('');
+
+    console.log(chalk.bold('📋 Percentiles'));
+    console.log(this.context.outputFormatter.formatTable(rows, ['Percentile', 'Final Equity', 'Return', 'Max Drawdown']));
+  }
+
+  // Adapts a compiled strategy to the duck-typed interface the backtest engine calls
   private async loadStrategyFile(filePath: string): Promise<StrategyConfig> {
     try {
       const fullPath = path.resolve(filePath);
@@ -193,29 +983,33 @@ export class BacktestCommands {
     }
   }
 
-  private async initializeDataProvider(): Promise<PolygonDataProvider> {
-    try {
-      // Get API keys from config store
-      const apiKeys = await this.configStore.getApiKey('polygon');
-      
-      const config = {
-        apiKey: apiKeys.apiKey
-      };
+  /**
+   * Fetch bars from the local store when offline, or the market data API otherwise
+   * The local store is closed once the fetch is done.
+   */
+  private async withDataProvider<T>(
+    offline: boolean | undefined,
+    fetch: (dataProvider: Pick<IDataProvider, 'getHistoricalData'>) => Promise<T>
+  ): Promise<T> {
+    if (!offline) {
+      return fetch(await createMarketDataProvider(this.configStore));
+    }
 
-      const provider = new PolygonDataProvider(config);
-      return provider;
-    } catch (error) {
-      if ((error as any).message?.includes('API key not found')) {
-        throw CLIErrorHandler.createError(
-          'Polygon API keys not configured',
-          'MISSING_API_KEYS',
-          'Run "jtrader config set-keys --provider polygon" to set up your API keys'
-        );
-      }
-      throw error;
+    const store = new OHLCVStore({ path: OHLCV_DB_PATH });
+    await store.initialize();
+    try {
+      return await fetch(store);
+    } finally {
+      await store.close();
     }
   }
 
+  private noDataSuggestion(offline?: boolean): string {
+    return offline
+      ? 'Import the bars with "jtrader data import" and check "jtrader data list" for stored ranges'
+      : 'Try a different symbol or date range, or check your market data API keys';
+  }
+
   private async displayResults(
     result: BacktestResult,
     options: BacktestOptions,
@@ -224,9 +1018,10 @@ export class BacktestCommands {
     console.log(chalk.blue.bold('\n📈 Backtest Results\n'));
 
     const outputFormat = options.output || 'table';
+    const report = options.report ? this.reportGenerator.generate(result) : undefined;
 
     if (outputFormat === 'json') {
-      console.log(this.context.outputFormatter.formatJSON(result));
+      console.log(this.context.outputFormatter.formatJSON(report ? { ...result, report } : result));
       return;
     }
 
@@ -236,16 +1031,28 @@ export class BacktestCommands {
       } else {
         console.log(chalk.yellow('No trades to export'));
       }
+      if (report) {
+        this.displayReportCSV(report);
+      }
       return;
     }
 
     // Table format (default)
     if (result.summary) {
+      const {
+        alpha, beta, correlation, trackingError, informationRatio, upCapture, downCapture,
+        ...performanceSummary
+      } = result.summary;
+
       console.log(chalk.bold('📊 Performance Summary'));
-      console.log(this.context.outputFormatter.formatPerformanceSummary(result.summary));
+      console.log(this.context.outputFormatter.formatPerformanceSummary(performanceSummary));
       console.log('');
     }
 
+    if (result.benchmark && result.summary) {
+      this.displayBenchmarkComparison(result);
+    }
+
     if (result.trades && result.trades.length > 0) {
       console.log(chalk.bold('📋 Trade History'));
       console.log(this.context.outputFormatter.formatTrades(result.trades.slice(0, 20))); // Show first 20 trades
@@ -265,10 +1072,126 @@ export class BacktestCommands {
       this.displayEquityCurveASCII(result.equityCurve);
     }
 
+    if (report) {
+      this.displayReport(report);
+    }
+
     // Strategy performance insights
     this.displayPerformanceInsights(result);
   }
 
+  private displayReport(report: BacktestReport): void {
+    const { calendar, drawdowns, rollingSharpe } = this.buildReportRows(report);
+    const formatter = this.context.outputFormatter;
+
+    console.log(chalk.bold('🗓  Monthly Returns'));
+    console.log(formatter.formatTable(calendar, ['Year', ...MONTH_LABELS, 'Total']));
+    console.log('');
+
+    console.log(chalk.bold('📉 Drawdown Periods'));
+    console.log(formatter.formatTable(drawdowns, ['Start', 'Trough', 'Recovery', 'Depth', 'Length (days)']));
+    console.log('');
+
+    // The full rolling series is available in JSON and CSV output
+    console.log(chalk.bold('📐 Rolling Sharpe'));
+    const summaryRows = report.rollingSharpe.map(series => {
+      const values = series.points
+        .map(point => point.sharpeRatio)
+        .filter((value): value is number => value !== null);
+      return {
+        Window: `${series.windowDays}D`,
+        Latest: values.length > 0 ? values[values.length - 1].toFixed(2) : '-',
+        Min: values.length > 0 ? Math.min(...values).toFixed(2) : '-',
+        Max: values.length > 0 ? Math.max(...values).toFixed(2) : '-'
+      };
+    });
+    console.log(formatter.formatTable(summaryRows, ['Window', 'Latest', 'Min', 'Max']));
+    if (rollingSharpe.length === 0) {
+      console.log(chalk.dim('Backtest period is shorter than the rolling windows'));
+    }
+    console.log('');
+  }
+
+  private displayReportCSV(report: BacktestReport): void {
+    const { calendar, drawdowns, rollingSharpe } = this.buildReportRows(report);
+    const formatter = this.context.outputFormatter;
+
+    for (const rows of [calendar, drawdowns, rollingSharpe]) {
+      if (rows.length > 0) {
+        console.log('');
+        console.log(formatter.formatCSV(rows));
+      }
+    }
+  }
+
+  private buildReportRows(report: BacktestReport): {
+    calendar: Record<string, string>[];
+    drawdowns: Record<string, string>[];
+    rollingSharpe: Record<string, string>[];
+  } {
+    const percent = (value: number | null) => value === null ? '' : `${(value * 100).toFixed(2)}%`;
+    const day = (date: Date) => date.toISOString().split('T')[0];
+
+    const calendar = report.calendarReturns.map(row => {
+      const entry: Record<string, string> = { Year: String(row.year) };
+      MONTH_LABELS.forEach((label, month) => {
+        entry[label] = percent(row.months[month]);
+      });
+      entry.Total = percent(row.total);
+      return entry;
+    });
+
+    const drawdowns = report.drawdowns.map(drawdown => ({
+      Start: day(drawdown.start),
+      Trough: day(drawdown.trough),
+      Recovery: drawdown.recovery ? day(drawdown.recovery) : 'Not recovered',
+      Depth: percent(-drawdown.depth),
+      'Length (days)': drawdown.length.toFixed(1)
+    }));
+
+    // One row per date with a column per window
+    const rollingByDate = new Map<string, Record<string, string>>();
+    for (const series of report.rollingSharpe) {
+      for (const point of series.points) {
+        const date = day(point.timestamp);
+        const row = rollingByDate.get(date) || { Date: date };
+        row[`Sharpe ${series.windowDays}D`] = point.sharpeRatio === null ? '' : point.sharpeRatio.toFixed(4);
+        rollingByDate.set(date, row);
+      }
+    }
+    const windowColumns = report.rollingSharpe.map(series => `Sharpe ${series.windowDays}D`);
+    const rollingSharpe = Array.from(rollingByDate.values()).map(row => {
+      const entry: Record<string, string> = { Date: row.Date };
+      windowColumns.forEach(column => {
+        entry[column] = row[column] ?? '';
+      });
+      return entry;
+    });
+
+    return { calendar, drawdowns, rollingSharpe };
+  }
+
+  private displayBenchmarkComparison(result: BacktestResult): void {
+    const { summary, benchmark } = result;
+    if (!benchmark) return;
+
+    const percent = (value?: number) => value === undefined ? '-' : `${(value * 100).toFixed(2)}%`;
+    const ratio = (value?: number) => value === undefined ? '-' : value.toFixed(2);
+    const excessReturn = summary.totalReturn - benchmark.totalReturn;
+
+    console.log(chalk.bold(`🎯 Benchmark Comparison (${benchmark.symbol})`));
+    console.log(`Benchmark Return:   ${benchmark.totalReturn >= 0 ? chalk.green(percent(benchmark.totalReturn)) : chalk.red(percent(benchmark.totalReturn))}`);
+    console.log(`Excess Return:      ${excessReturn >= 0 ? chalk.green(percent(excessReturn)) : chalk.red(percent(excessReturn))}`);
+    console.log(`Alpha (annual):     ${(summary.alpha ?? 0) >= 0 ? chalk.green(percent(summary.alpha)) : chalk.red(percent(summary.alpha))}`);
+    console.log(`Beta:               ${chalk.cyan(ratio(summary.beta))}`);
+    console.log(`Correlation:        ${chalk.cyan(ratio(summary.correlation))}`);
+    console.log(`Tracking Error:     ${chalk.cyan(percent(summary.trackingError))}`);
+    console.log(`Information Ratio:  ${chalk.cyan(ratio(summary.informationRatio))}`);
+    console.log(`Up Capture:         ${chalk.cyan(percent(summary.upCapture))}`);
+    console.log(`Down Capture:       ${chalk.cyan(percent(summary.downCapture))}`);
+    console.log('');
+  }
+
   private displayEquityCurveASCII(equityCurve: any[]): void {
     const maxWidth = 60;
     const height = 10;
@@ -364,11 +1287,54 @@ export class BacktestCommands {
 
   private async saveResults(
     result: BacktestResult,
-    strategyConfig: StrategyConfig,
+    strategyFile: string,
     options: BacktestOptions
-  ): Promise<void> {
-    // TODO: Implement database storage
-    // This would save the backtest results to the database for future reference
-    console.log(chalk.dim('Saving results to database... (implementation pending)'));
+  ): Promise<string> {
+    const strategySource = await fs.promises.readFile(path.resolve(strategyFile), 'utf8');
+    const store = await this.openBacktestStore();
+    try {
+      return await store.saveBacktest(result, strategySource, { timeframe: options.timeframe || '1h' });
+    } finally {
+      await store.close();
+    }
+  }
+
+  private async openBacktestStore(): Promise<BacktestStore> {
+    const store = new BacktestStore({ path: BACKTEST_DB_PATH, enableWAL: true });
+    await store.initialize();
+    return store;
+  }
+
+  private async getSavedRun(store: BacktestStore, id: string): Promise<StoredBacktestRun> {
+    const run = await store.getBacktest(id);
+    if (!run) {
+      throw CLIErrorHandler.createError(
+        `Saved backtest not found: ${id}`,
+        'BACKTEST_NOT_FOUND',
+        'Run "jtrader backtest list" to see saved backtest ids'
+      );
+    }
+    return run;
+  }
+
+  /**
+   * Second minus first; equal values, including two infinite ratios, differ by zero
+   */
+  private metricDifference(a: number, b: number): number {
+    return a === b ? 0 : b - a;
+  }
+
+  private formatMetric(key: string, value: number, signed: boolean = false): string {
+    const sign = signed && value > 0 ? '+' : '';
+    if (!Number.isFinite(value)) {
+      return Number.isNaN(value) ? 'n/a' : `${sign}${value > 0 ? '∞' : '-∞'}`;
+    }
+    if (/Duration|Time|Period/.test(key)) {
+      return `${sign}${value.toFixed(1)} days`;
+    }
+    if (/Return|Drawdown|Rate|Capture|exposure|alpha|trackingError|valueAtRisk/i.test(key)) {
+      return `${sign}${(value * 100).toFixed(2)}%`;
+    }
+    return Number.isInteger(value) ? `${sign}${value}` : `${sign}${value.toFixed(4)}`;
   }
-}
\ No newline at end of file
+}
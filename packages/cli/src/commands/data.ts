@@ -0,0 +1,220 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as fs from 'fs';
+import { format } from 'date-fns';
+import { CLIContext, DataImportOptions, DataListOptions } from '../types/cli-types';
+import { CLIErrorHandler } from '../utils/error-handler';
+import { OHLCVStore, OHLCVCsvField, OHLCV_CSV_FIELDS, parseOHLCVCsv } from '@jware-trader8/database';
+import { OHLCVGap, Timeframe } from '@jware-trader8/types';
+
+export const OHLCV_DB_PATH = '.jtrader-data.db';
+const MAX_GAPS_SHOWN = 10;
+
+export class DataCommands {
+  private context: CLIContext;
+
+  constructor(context: CLIContext) {
+    this.context = context;
+  }
+
+  registerCommands(program: Command): void {
+    const dataCmd = program
+      .command('data')
+      .description('Manage the local historical data store used by --offline backtests');
+
+    dataCmd
+      .command('import')
+      .description('Import OHLCV bars from a CSV file')
+      .argument('<file>', 'Path to CSV file')
+      .requiredOption('--symbol <symbol>', 'Symbol the bars belong to (e.g., BTCUSD, AAPL, SPY)')
+      .option('--timeframe <frame>', 'Timeframe of the bars: 1m, 5m, 15m, 1h, 4h, 1d, 1w', '1d')
+      .option('--columns <mapping>', 'Column mapping for non-standard headers (e.g., timestamp=Date,close="Adj Close")')
+      .option('--delimiter <char>', 'Field delimiter (default: detected from the header)')
+      .option('--min-gap <bars>', 'Only report gaps of at least this many bars; weekends, holidays and off-session hours are not gaps', '1')
+      .action(async (file: string, options: DataImportOptions) => {
+        try {
+          await this.handleImport(file, options);
+        } catch (error) {
+          CLIErrorHandler.handle(error);
+        }
+      });
+
+    dataCmd
+      .command('list')
+      .description('List stored symbols and timeframes')
+      .option('--output <format>', 'Output format: table, json, csv', 'table')
+      .action(async (options: DataListOptions) => {
+        try {
+          await this.handleList(options);
+        } catch (error) {
+          CLIErrorHandler.handle(error);
+        }
+      });
+  }
+
+  async handleImport(file: string, options: DataImportOptions): Promise<void> {
+    CLIErrorHandler.validateSymbol(options.symbol);
+    const timeframe = (options.timeframe || '1d') as Timeframe;
+    CLIErrorHandler.validateTimeframe(timeframe);
+    const minGap = CLIErrorHandler.validateNumericOption(options.minGap?.toString() || '1', 'min-gap', 1);
+    const columns = options.columns ? this.parseColumnMapping(options.columns) : undefined;
+
+    if (!fs.existsSync(file)) {
+      throw CLIErrorHandler.createError(
+        `CSV file not found: ${file}`,
+        'DATA_FILE_NOT_FOUND',
+        'Check the file path and ensure the CSV file exists'
+      );
+    }
+
+    this.context.progressIndicator.start('Parsing CSV...');
+
+    const store = await this.openStore();
+    try {
+      const parsed = this.parseCsv(fs.readFileSync(file, 'utf8'), columns, options.delimiter);
+      if (parsed.bars.length === 0) {
+        throw CLIErrorHandler.createError(
+          `No bars found in ${file}`,
+          'NO_DATA_FOUND',
+          'Check that the file has rows below its header'
+        );
+      }
+
+      this.context.progressIndicator.update(`Storing ${parsed.bars.length} bars...`);
+      const symbol = options.symbol.toUpperCase();
+      const saved = await store.saveBars(symbol, timeframe, parsed.bars);
+      const gaps = await store.findGaps(symbol, timeframe, {
+        startDate: parsed.bars[0].timestamp,
+        endDate: parsed.bars[parsed.bars.length - 1].timestamp,
+        minMissingBars: Math.floor(minGap)
+      });
+
+      this.context.progressIndicator.succeed(`Imported ${saved} ${timeframe} bars for ${symbol}`);
+
+      const mapping = Object.entries(parsed.columns).map(([field, header]) => `${field}=${header}`).join(', ');
+      console.log(chalk.gray(`Columns: ${mapping}`));
+      console.log(chalk.gray(
+        `Range:   ${this.formatTimestamp(parsed.bars[0].timestamp)} → ` +
+        this.formatTimestamp(parsed.bars[parsed.bars.length - 1].timestamp)
+      ));
+      if (parsed.skippedRows > 0) {
+        console.log(chalk.yellow(`Skipped ${parsed.skippedRows} row(s) without prices`));
+      }
+
+      this.displayGaps(gaps);
+    } catch (error) {
+      this.context.progressIndicator.fail('Import failed');
+      throw error;
+    } finally {
+      await store.close();
+    }
+  }
+
+  async handleList(options: DataListOptions): Promise<void> {
+    const outputFormat = options.output || 'table';
+    CLIErrorHandler.validateOutputFormat(outputFormat);
+
+    const store = await this.openStore();
+    try {
+      const series = await store.listSeries();
+
+      if (outputFormat === 'json') {
+        console.log(this.context.outputFormatter.formatJSON(series));
+        return;
+      }
+
+      const rows = series.map(entry => ({
+        Symbol: entry.symbol,
+        Timeframe: entry.timeframe,
+        Bars: String(entry.bars),
+        First: this.formatTimestamp(entry.firstTimestamp),
+        Last: this.formatTimestamp(entry.lastTimestamp)
+      }));
+
+      if (outputFormat === 'csv') {
+        console.log(this.context.outputFormatter.formatCSV(rows));
+        return;
+      }
+
+      if (rows.length === 0) {
+        console.log(chalk.yellow('No stored data. Import bars with "jtrader data import <file.csv> --symbol <SYMBOL>".'));
+        return;
+      }
+
+      console.log(chalk.bold(`\n🗄️  Stored Data (${rows.length})`));
+      console.log(this.context.outputFormatter.formatTable(rows, ['Symbol', 'Timeframe', 'Bars', 'First', 'Last']));
+    } finally {
+      await store.close();
+    }
+  }
+
+  private async openStore(): Promise<OHLCVStore> {
+    const store = new OHLCVStore({ path: OHLCV_DB_PATH, enableWAL: true });
+    await store.initialize();
+    return store;
+  }
+
+  /**
+   * Parse "field=Header,field=Header"; headers containing commas can be double-quoted
+   */
+  private parseColumnMapping(mapping: string): Partial<Record<OHLCVCsvField, string>> {
+    const columns: Partial<Record<OHLCVCsvField, string>> = {};
+    const entries = mapping.match(/[^,"]+="[^"]*"|[^,]+/g) || [];
+
+    for (const entry of entries) {
+      const separator = entry.indexOf('=');
+      const field = entry.slice(0, separator).trim() as OHLCVCsvField;
+      const header = entry.slice(separator + 1).trim().replace(/^"(.*)"$/, '$1');
+
+      if (separator === -1 || !OHLCV_CSV_FIELDS.includes(field) || header === '') {
+        throw CLIErrorHandler.createError(
+          `Invalid column mapping: ${entry}`,
+          'INVALID_COLUMN_MAPPING',
+          `Use field=Header pairs separated by commas; fields are ${OHLCV_CSV_FIELDS.join(', ')}`
+        );
+      }
+      columns[field] = header;
+    }
+
+    return columns;
+  }
+
+  private parseCsv(
+    content: string,
+    columns: Partial<Record<OHLCVCsvField, string>> | undefined,
+    delimiter: string | undefined
+  ): ReturnType<typeof parseOHLCVCsv> {
+    try {
+      return parseOHLCVCsv(content, { columns, delimiter: delimiter === '\\t' ? '\t' : delimiter });
+    } catch (error) {
+      throw CLIErrorHandler.createError(
+        error instanceof Error ? error.message : 'Failed to parse CSV',
+        'INVALID_CSV',
+        'Map the file\'s headers with --columns, e.g. --columns timestamp=Date,close=Last'
+      );
+    }
+  }
+
+  private displayGaps(gaps: OHLCVGap[]): void {
+    if (gaps.length === 0) {
+      console.log(chalk.green('✓ No gaps in the imported range'));
+      return;
+    }
+
+    const missing = gaps.reduce((sum, gap) => sum + gap.missingBars, 0);
+    console.log(chalk.yellow(`\n⚠️  ${gaps.length} gap(s), ${missing} missing bar(s):`));
+    gaps.slice(0, MAX_GAPS_SHOWN).forEach(gap => {
+      const range = gap.missingBars === 1
+        ? this.formatTimestamp(gap.start)
+        : `${this.formatTimestamp(gap.start)} → ${this.formatTimestamp(gap.end)}`;
+      console.log(chalk.yellow(`  • ${range} (${gap.missingBars} bar${gap.missingBars === 1 ? '' : 's'})`));
+    });
+    if (gaps.length > MAX_GAPS_SHOWN) {
+      console.log(chalk.yellow(`  … and ${gaps.length - MAX_GAPS_SHOWN} more`));
+    }
+  }
+
+  private formatTimestamp(date: Date): string {
+    return format(date, 'yyyy-MM-dd HH:mm');
+  }
+}
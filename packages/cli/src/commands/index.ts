@@ -1,3 +1,4 @@
 export { TradeCommands } from './trade';
 export { BacktestCommands } from './backtest';
-export { ConfigCommands } from './config';
\ No newline at end of file
+export { ConfigCommands } from './config';
+export { DataCommands } from './data';
@@ -3,18 +3,45 @@ import chalk from 'chalk';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'yaml';
+import { parseISO } from 'date-fns';
 import { CLIContext, TradeStartOptions, StatusOptions, TradingSession } from '../types/cli-types';
 import { CLIErrorHandler } from '../utils/error-handler';
-import { StrategyEngine } from '@jware-trader8/strategies';
-import { AlpacaTradingProvider } from '@jware-trader8/providers';
-import { ConfigStore } from '@jware-trader8/database';
-import { StrategyConfig } from '@jware-trader8/types';
+import { createMarketDataProvider } from '../utils/data-provider';
+import { OHLCV_DB_PATH } from './data';
+import { StrategyEngine, StrategyRunner } from '@jware-trader8/strategies';
+import {
+  AlpacaTradingProvider,
+  ReplayConfig,
+  ReplayDataProvider,
+  SimulatedTradingProvider
+} from '@jware-trader8/providers';
+import { ConfigStore, OHLCVStore, SimulatedAccountStore } from '@jware-trader8/database';
+import { IDataProvider, ITradingProvider, OrderManager, RiskLimits, RiskManager } from '@jware-trader8/core';
+import { CompiledStrategy, RiskConfig, StrategyConfig, Timeframe, TradingConfig } from '@jware-trader8/types';
+
+const SIMULATOR_DB_PATH = '.jtrader-simulator.db';
+const SIMULATOR_ACCOUNT_ID = 'simulator';
+const TRADING_CONFIG_KEY = 'trading';
+
+/**
+ * A started session and what must be released when it stops
+ */
+interface RunningSession {
+  runner: StrategyRunner;
+  strategyId: string;
+  riskManager: RiskManager;
+  simulator?: SimulatedTradingProvider;
+  replay?: ReplayDataProvider;
+  /** SQLite stores opened for the session */
+  stores: Array<{ close(): Promise<void> }>;
+}
 
 export class TradeCommands {
   private context: CLIContext;
   private configStore: ConfigStore;
   private strategyEngine: StrategyEngine;
   private activeSessions: Map<string, TradingSession> = new Map();
+  private runners: Map<string, RunningSession> = new Map();
 
   constructor(context: CLIContext) {
     this.context = context;
@@ -32,9 +59,16 @@ export class TradeCommands {
       .description('Start automated trading with a strategy')
       .argument('<strategy-file>', 'Path to strategy YAML file')
       .option('--dry-run', 'Run in simulation mode (paper trading)', false)
+      .option('--simulator', 'Trade against a local simulated account instead of a broker', false)
       .option('--max-positions <number>', 'Maximum concurrent positions', '5')
       .option('--symbol <symbol>', 'Override strategy symbol')
       .option('--initial-capital <amount>', 'Starting capital', '10000')
+      .option('--reset-account', 'With --simulator, discard the saved simulated account and start with --initial-capital')
+      .option('--daily-loss-limit <fraction>', 'Stop new entries after this daily loss (e.g., 0.03)')
+      .option('--warn-on-loss-limit', 'Only warn at the daily loss limit instead of stopping new entries')
+      .option('--replay-from <date>', 'With --simulator, replay bars stored by "jtrader data import" from this date instead of fetching market data')
+      .option('--replay-to <date>', 'Last date to replay (default: now)')
+      .option('--replay-interval <ms>', 'Milliseconds between replayed bars', '1000')
       .action(async (strategyFile: string, options: TradeStartOptions) => {
         try {
           await this.handleTradeStart(strategyFile, options);
@@ -74,8 +108,39 @@ export class TradeCommands {
       1000000
     );
 
+    const dailyLossLimit = options.dailyLossLimit !== undefined
+      ? CLIErrorHandler.validateNumericOption(options.dailyLossLimit, 'daily-loss-limit', 0.001, 1)
+      : undefined;
+
+    if (options.resetAccount && !options.simulator) {
+      throw CLIErrorHandler.createError(
+        '--reset-account requires --simulator',
+        'INVALID_OPTIONS',
+        'Add --simulator to reset the simulated account'
+      );
+    }
+
+    // Replayed bars come from the local data store, so no API keys or network access are needed
+    let replay: Pick<ReplayConfig, 'startDate' | 'endDate' | 'barIntervalMs'> | undefined;
+    if (options.replayFrom !== undefined) {
+      if (!options.simulator) {
+        throw CLIErrorHandler.createError(
+          '--replay-from requires --simulator',
+          'INVALID_OPTIONS',
+          'Add --simulator to trade the replayed bars against the simulated account'
+        );
+      }
+      CLIErrorHandler.validateDateRange(options.replayFrom, options.replayTo ?? new Date().toISOString());
+      replay = {
+        startDate: parseISO(options.replayFrom),
+        endDate: options.replayTo !== undefined ? parseISO(options.replayTo) : undefined,
+        barIntervalMs: CLIErrorHandler.validateNumericOption(options.replayInterval || '1000', 'replay-interval', 10, 60000)
+      };
+    }
+
     this.context.progressIndicator.start('Loading strategy configuration...');
 
+    const stores: RunningSession['stores'] = [];
     try {
       // Load and validate strategy
       const strategyConfig = await this.loadStrategyFile(strategyFile);
@@ -83,18 +148,17 @@ export class TradeCommands {
       // Override symbol if provided
       if (options.symbol) {
         CLIErrorHandler.validateSymbol(options.symbol);
-        strategyConfig.symbol = options.symbol.toUpperCase();
+        strategyConfig.parameters.symbol = options.symbol.toUpperCase();
       }
 
       this.context.progressIndicator.update('Validating strategy...');
-      const strategy = this.strategyEngine.loadStrategy(strategyConfig);
       const validation = this.strategyEngine.validateStrategy(strategyConfig);
 
       if (!validation.isValid) {
         this.context.progressIndicator.fail('Strategy validation failed');
         console.error(chalk.red.bold('Strategy Validation Errors:'));
         validation.errors.forEach(error => {
-          console.error(chalk.red('• ' + error));
+          console.error(chalk.red('• ' + CLIErrorHandler.formatValidationError(error)));
         });
         if (validation.warnings.length > 0) {
           console.error(chalk.yellow.bold('\nWarnings:'));
@@ -105,6 +169,9 @@ export class TradeCommands {
         process.exit(1);
       }
 
+      // Load only a valid strategy, so errors are reported with their fields instead of thrown
+      const strategy = this.strategyEngine.loadStrategy(strategyConfig);
+
       // Show warnings if any
       if (validation.warnings.length > 0) {
         validation.warnings.forEach(warning => {
@@ -114,8 +181,16 @@ export class TradeCommands {
 
       this.context.progressIndicator.update('Connecting to trading provider...');
 
-      // Initialize trading provider
-      const tradingProvider = await this.initializeTradingProvider(options.dryRun);
+      // Initialize trading provider; the simulator needs no broker connection
+      let tradingProvider: ITradingProvider;
+      if (options.simulator) {
+        const simulated = await this.initializeSimulatedProvider(initialCapital, options.resetAccount);
+        stores.push(simulated.store);
+        tradingProvider = simulated.provider;
+      } else {
+        tradingProvider = await this.initializeTradingProvider(options.dryRun);
+      }
+      const isLive = !options.simulator && !options.dryRun;
       
       this.context.progressIndicator.succeed('Strategy loaded and provider connected');
 
@@ -123,17 +198,20 @@ export class TradeCommands {
       console.log('\n' + this.context.outputFormatter.formatStrategyInfo(strategyConfig));
       
       // Display trading mode
-      const mode = options.dryRun ? 'PAPER TRADING (Simulation)' : 'LIVE TRADING (Real Money)';
-      const modeColor = options.dryRun ? chalk.green : chalk.red;
+      const mode = options.simulator
+        ? replay ? 'SIMULATED TRADING (Offline Replay)' : 'SIMULATED TRADING (Live Market Data)'
+        : options.dryRun ? 'PAPER TRADING (Simulation)' : 'LIVE TRADING (Real Money)';
+      const modeColor = isLive ? chalk.red : chalk.green;
       console.log(chalk.bold('\nTrading Mode: ') + modeColor(mode));
       
-      if (!options.dryRun) {
+      if (isLive) {
         console.log(chalk.red.bold('⚠ WARNING: Live trading uses real money and can result in financial loss!'));
         const confirmed = await this.context.promptHandler.promptForConfirmation(
           'Are you absolutely sure you want to start live trading?'
         );
         if (!confirmed) {
           console.log(chalk.green('Trading cancelled for safety.'));
+          await this.closeStores(stores);
           return;
         }
       }
@@ -141,13 +219,19 @@ export class TradeCommands {
       // Start trading session
       await this.startTradingSession(strategy, tradingProvider, {
         dryRun: options.dryRun || false,
+        simulator: options.simulator || false,
         maxPositions,
         initialCapital,
-        symbol: strategyConfig.symbol
+        dailyLossLimit,
+        warnOnLossLimit: options.warnOnLossLimit,
+        symbol: strategyConfig.parameters.symbol,
+        replay,
+        stores
       });
 
     } catch (error) {
       this.context.progressIndicator.fail('Failed to start trading session');
+      await this.closeStores(stores);
       throw error;
     }
   }
@@ -174,6 +258,12 @@ export class TradeCommands {
           }
         }
 
+        const running = this.runners.get(sessionId);
+        if (running) {
+          await this.stopRunningSession(running);
+          this.runners.delete(sessionId);
+        }
+
         session.status = 'stopped';
         this.activeSessions.delete(sessionId);
       }
@@ -309,17 +399,173 @@ export class TradeCommands {
     }
   }
 
+  private async initializeSimulatedProvider(
+    initialCash: number,
+    reset: boolean = false
+  ): Promise<{ provider: SimulatedTradingProvider; store: SimulatedAccountStore }> {
+    // The simulated account carries over between sessions unless it is reset
+    const store = new SimulatedAccountStore({ path: SIMULATOR_DB_PATH, enableWAL: true });
+    await store.initialize();
+    if (reset) {
+      await store.deleteAccount(SIMULATOR_ACCOUNT_ID);
+    }
+
+    const provider = new SimulatedTradingProvider({ accountId: SIMULATOR_ACCOUNT_ID, initialCash, store });
+    const connectionResult = await provider.connect();
+    if (!connectionResult.success) {
+      await store.close();
+      throw new Error(`Failed to open simulated account: ${connectionResult.error}`);
+    }
+
+    // A restored account keeps its own cash, so the starting capital only applies to new accounts
+    const { balance } = await provider.getAccount();
+    if (balance !== initialCash) {
+      console.log(chalk.yellow(
+        `⚠️  Restored simulated account with $${balance.toFixed(2)} cash; --initial-capital ${initialCash} ` +
+        'only applies to new accounts. Use --reset-account to start over.'
+      ));
+    }
+
+    return { provider, store };
+  }
+
+  private async initializeReplayProvider(
+    symbol: string | undefined,
+    timeframe: Timeframe | undefined,
+    replay: Pick<ReplayConfig, 'startDate' | 'endDate' | 'barIntervalMs'>
+  ): Promise<{ provider: ReplayDataProvider; store: OHLCVStore }> {
+    if (!symbol) {
+      throw CLIErrorHandler.createError(
+        'A symbol is required to replay stored bars',
+        'MISSING_SYMBOL',
+        'Set parameters.symbol in the strategy file or pass --symbol'
+      );
+    }
+    if (!timeframe) {
+      throw CLIErrorHandler.createError(
+        'A timeframe is required to replay stored bars',
+        'MISSING_TIMEFRAME',
+        'Set parameters.timeframe in the strategy file to a stored series, e.g. 1d'
+      );
+    }
+
+    const store = new OHLCVStore({ path: OHLCV_DB_PATH });
+    await store.initialize();
+
+    const provider = new ReplayDataProvider({ source: store, symbol, timeframe, ...replay });
+    try {
+      await provider.connect();
+    } catch (error) {
+      await store.close();
+      throw CLIErrorHandler.createError(
+        (error as Error).message,
+        'NO_DATA_FOUND',
+        'Import the bars with "jtrader data import" and check "jtrader data list" for stored ranges'
+      );
+    }
+
+    return { provider, store };
+  }
+
+  /**
+   * Risk limits for a session: CLI flags first, then the strategy's risk settings, then the
+   * trading configuration saved with "jtrader config set trading"
+   */
+  private async resolveRiskLimits(
+    risk: RiskConfig | undefined,
+    flags: { maxPositions: number; dailyLossLimit?: number; warnOnLossLimit?: boolean }
+  ): Promise<RiskLimits> {
+    const trading: Partial<TradingConfig> = (await this.configStore.getConfig(TRADING_CONFIG_KEY)) ?? {};
+    return {
+      maxPositionSize: risk?.maxPositionSize,
+      maxPositions: flags.maxPositions,
+      maxDrawdown: risk?.maxDrawdown ?? trading.riskManagement?.maxDrawdown,
+      minTimeBetweenTrades: risk?.minTimeBetweenTrades ?? trading.minTimeBetweenTrades,
+      dailyLossLimit: flags.dailyLossLimit ?? trading.riskManagement?.dailyLossLimit,
+      stopOnLossLimit: flags.warnOnLossLimit ? false : trading.riskManagement?.stopOnLossLimit
+    };
+  }
+
+  private async stopRunningSession(running: RunningSession): Promise<void> {
+    await running.runner.stop(running.strategyId);
+    running.runner.getOrderManager().stopMonitoring();
+    running.riskManager.stopMonitoring();
+    await running.simulator?.disconnect();
+    await running.replay?.disconnect();
+    await this.closeStores(running.stores);
+  }
+
+  private async closeStores(stores: RunningSession['stores']): Promise<void> {
+    for (const store of stores.splice(0)) {
+      await store.close();
+    }
+  }
+
   private async startTradingSession(
-    strategy: any,
-    tradingProvider: AlpacaTradingProvider,
+    strategy: CompiledStrategy,
+    tradingProvider: ITradingProvider,
     options: {
       dryRun: boolean;
+      simulator: boolean;
       maxPositions: number;
       initialCapital: number;
+      dailyLossLimit?: number;
+      warnOnLossLimit?: boolean;
       symbol?: string;
+      replay?: Pick<ReplayConfig, 'startDate' | 'endDate' | 'barIntervalMs'>;
+      /** Stores already opened for the session; closed when it stops */
+      stores: RunningSession['stores'];
     }
   ): Promise<void> {
     const sessionId = `session_${Date.now()}`;
+    const strategyId = strategy.id;
+
+    // Warm the strategy up and start feeding it bars
+    let replay: ReplayDataProvider | undefined;
+    if (options.replay) {
+      const replayed = await this.initializeReplayProvider(
+        options.symbol,
+        strategy.config.parameters.timeframe as Timeframe | undefined,
+        options.replay
+      );
+      options.stores.push(replayed.store);
+      replay = replayed.provider;
+    }
+    const dataProvider: IDataProvider = replay ?? await createMarketDataProvider(this.configStore);
+    const simulator = tradingProvider instanceof SimulatedTradingProvider ? tradingProvider : undefined;
+    if (simulator && options.symbol) {
+      // Simulated orders fill against the same market data the strategy sees
+      await simulator.startFeed(dataProvider, [options.symbol]);
+    }
+    // Every order passes the risk limits; replayed sessions check them on the replay clock
+    const limits = await this.resolveRiskLimits(strategy.config.riskManagement, options);
+    const replayClock = replay;
+    const riskManager = new RiskManager(
+      tradingProvider,
+      limits,
+      dataProvider,
+      replayClock ? () => replayClock.now() : undefined
+    );
+    // Sample equity from the start so the daily loss limit measures from the session's opening equity
+    await riskManager.startMonitoring();
+    const orderManager = new OrderManager(tradingProvider, riskManager);
+    orderManager.on('order.filled', event => {
+      console.log(chalk.green(`✅ ${event.order.side} ${event.order.filledQuantity} ${event.order.symbol} filled at $${event.order.averagePrice?.toFixed(2)}`));
+    });
+    orderManager.on('order.cancelled', event => {
+      console.log(chalk.yellow(`⚠️  ${event.order.side} ${event.order.quantity} ${event.order.symbol} cancelled: ${event.reason}`));
+    });
+    orderManager.on('order.rejected', event => {
+      console.log(chalk.red(`❌ ${event.order.side} ${event.order.quantity} ${event.order.symbol} rejected: ${event.reason}`));
+    });
+    orderManager.startMonitoring();
+
+    const runner = new StrategyRunner(this.strategyEngine, dataProvider, tradingProvider, { orderManager });
+    await runner.start(strategy);
+    // The runner and simulator are subscribed, so no replayed bar is missed
+    replay?.startReplay();
+    const running: RunningSession = { runner, strategyId, riskManager, simulator, replay, stores: options.stores };
+    this.runners.set(sessionId, running);
     
     const session: TradingSession = {
       id: sessionId,
@@ -336,17 +582,28 @@ export class TradeCommands {
     console.log(chalk.green.bold('\n✅ Trading session started successfully!'));
     console.log(chalk.dim(`Session ID: ${sessionId}`));
     console.log(chalk.dim(`Strategy: ${strategy.config.name}`));
-    console.log(chalk.dim(`Mode: ${options.dryRun ? 'Paper Trading' : 'Live Trading'}`));
+    console.log(chalk.dim(`Mode: ${options.simulator ? 'Simulated Trading' : options.dryRun ? 'Paper Trading' : 'Live Trading'}`));
     console.log(chalk.dim(`Max Positions: ${options.maxPositions}`));
     console.log(chalk.dim(`Initial Capital: $${options.initialCapital}`));
     
     console.log(chalk.blue('\n📈 Monitoring market data and executing strategy...'));
-    console.log(chalk.dim('Use "jtrader trade stop" to stop trading'));
+    console.log(chalk.dim('Press Ctrl+C to stop trading'));
     console.log(chalk.dim('Use "jtrader status" to check current positions and P&L'));
 
-    // In a real implementation, this would start the trading loop
-    // For now, we'll just simulate the session being active
-    console.log(chalk.yellow('\n⚠ Note: This is a CLI implementation demo. Full trading loop integration pending.'));
+    process.once('SIGINT', async () => {
+      await this.stopRunningSession(running);
+      const status = runner.getStatus(strategyId);
+      session.status = 'stopped';
+      session.totalTrades = runner.getOrderManager().getOrders().length;
+      this.activeSessions.delete(sessionId);
+      this.runners.delete(sessionId);
+
+      console.log(chalk.bold.blue('\n📊 Trading Session Summary'));
+      console.log(`Signals: ${status.totalSignals}`);
+      console.log(`Orders: ${session.totalTrades}`);
+      console.log(`Errors: ${status.errorCount}`);
+      process.exit(0);
+    });
   }
 
   private displaySessionSummary(): void {
@@ -11,22 +11,110 @@ export interface CLIConfig {
 
 export interface TradeStartOptions {
   dryRun?: boolean;
+  simulator?: boolean;
   maxPositions?: number;
   symbol?: string;
   initialCapital?: number;
+  resetAccount?: boolean;
+  dailyLossLimit?: string;
+  warnOnLossLimit?: boolean;
+  replayFrom?: string;
+  replayTo?: string;
+  replayInterval?: string;
 }
 
 export interface BacktestOptions {
   symbol: string;
   start: string;
   end: string;
+  offline?: boolean;
   timeframe?: string;
   initialCapital?: number;
   commission?: number;
+  benchmark?: string;
   output?: 'table' | 'json' | 'csv';
+  report?: boolean;
   saveResults?: boolean;
 }
 
+export interface OptimizeOptions {
+  symbol: string;
+  start: string;
+  end: string;
+  param?: string[];
+  objective?: string;
+  method?: string;
+  maxIterations?: number;
+  validationSplit?: number;
+  seed?: number;
+  top?: number;
+  offline?: boolean;
+  timeframe?: string;
+  initialCapital?: number;
+  commission?: number;
+  output?: 'table' | 'json' | 'csv';
+}
+
+export interface WalkForwardOptions {
+  symbol: string;
+  start: string;
+  end: string;
+  param?: string[];
+  objective?: string;
+  method?: string;
+  maxIterations?: number;
+  seed?: number;
+  trainingDays?: number;
+  testingDays?: number;
+  stepDays?: number;
+  reoptimizeEvery?: number;
+  anchored?: boolean;
+  offline?: boolean;
+  timeframe?: string;
+  initialCapital?: number;
+  commission?: number;
+  output?: 'table' | 'json' | 'csv';
+}
+
+export interface BacktestMonteCarloOptions {
+  symbol: string;
+  start: string;
+  end: string;
+  iterations?: number;
+  method?: string;
+  skip?: number;
+  ruinThreshold?: number;
+  seed?: number;
+  offline?: boolean;
+  timeframe?: string;
+  initialCapital?: number;
+  commission?: number;
+  output?: 'table' | 'json' | 'csv';
+}
+
+export interface BacktestListOptions {
+  strategy?: string;
+  symbol?: string;
+  limit?: number;
+  output?: 'table' | 'json' | 'csv';
+}
+
+export interface SavedBacktestOptions {
+  output?: 'table' | 'json' | 'csv';
+}
+
+export interface DataImportOptions {
+  symbol: string;
+  timeframe?: string;
+  columns?: string;
+  delimiter?: string;
+  minGap?: number;
+}
+
+export interface DataListOptions {
+  output?: 'table' | 'json' | 'csv';
+}
+
 export interface ConfigSetKeysOptions {
   provider?: 'alpaca' | 'polygon';
   interactive?: boolean;
@@ -41,6 +129,8 @@ export interface OutputFormatter {
   formatTable(data: any[], headers: string[]): string;
   formatJSON(data: any): string;
   formatCSV(data: any[]): string;
+  formatPerformanceSummary(summary: any): string;
+  formatTrades(trades: any[]): string;
 }
 
 export interface ProgressIndicator {
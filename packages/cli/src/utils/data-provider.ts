@@ -0,0 +1,43 @@
+import { IDataProvider } from '@jware-trader8/core';
+import { AlpacaDataProvider, PolygonDataProvider } from '@jware-trader8/providers';
+import { ConfigStore } from '@jware-trader8/database';
+import { CLIErrorHandler } from './error-handler';
+
+/**
+ * Create a market data provider from the stored API keys, preferring Polygon and falling back
+ * to Alpaca so an Alpaca key pair alone is enough
+ */
+export async function createMarketDataProvider(configStore: ConfigStore): Promise<IDataProvider> {
+  const polygonKeys = await findApiKeys(configStore, 'polygon');
+  if (polygonKeys) {
+    return new PolygonDataProvider({ apiKey: polygonKeys.apiKey });
+  }
+
+  const alpacaKeys = await findApiKeys(configStore, 'alpaca');
+  if (alpacaKeys) {
+    return new AlpacaDataProvider({ apiKey: alpacaKeys.apiKey, secretKey: alpacaKeys.secretKey });
+  }
+
+  throw CLIErrorHandler.createError(
+    'No market data API keys configured',
+    'MISSING_API_KEYS',
+    'Run "jtrader config set-keys --provider polygon" or "jtrader config set-keys --provider alpaca" to set up your API keys'
+  );
+}
+
+/**
+ * Look up a provider's API keys, returning undefined when none are stored
+ */
+export async function findApiKeys(
+  configStore: ConfigStore,
+  provider: string
+): Promise<{ apiKey: string; secretKey: string } | undefined> {
+  try {
+    return await configStore.getApiKey(provider);
+  } catch (error) {
+    if ((error as any).message?.includes('API key not found')) {
+      return undefined;
+    }
+    throw error;
+  }
+}
@@ -1,5 +1,6 @@
 import chalk from 'chalk';
 import { CLIError } from '../types/cli-types';
+import { ValidationError } from '@jware-trader8/types';
 
 export class CLIErrorHandler {
   static handle(error: any): never {
@@ -63,6 +64,13 @@ export class CLIErrorHandler {
     return new CLIError(message, code, suggestion, exitCode);
   }
 
+  static formatValidationError(error: ValidationError): string {
+    const location = error.field
+      ? `${error.field}${error.column !== undefined ? ` (column ${error.column})` : ''}: `
+      : '';
+    return `${location}${error.message}`;
+  }
+
   static validateStrategyFile(filePath: string): void {
     if (!filePath) {
       throw this.createError(
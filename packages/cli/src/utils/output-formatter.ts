@@ -90,6 +90,16 @@ export class CLIOutputFormatter implements OutputFormatter {
     });
 
     const formatValue = (key: string, value: any) => {
+      // Runs saved before non-finite values were kept hold null for ratios without losses
+      if (value === null || value === undefined) {
+        return 'n/a';
+      }
+      if (typeof value === 'number' && !Number.isFinite(value)) {
+        return Number.isNaN(value) ? 'n/a' : value > 0 ? '∞' : '-∞';
+      }
+      if (key.includes('Duration') || key.includes('Time') || key.includes('Period')) {
+        return `${value.toFixed(1)} days`;
+      }
       if (key.includes('Return') || key.includes('Drawdown')) {
         const color = value >= 0 ? chalk.green : chalk.red;
         return color(`${value.toFixed(2)}%`);
@@ -100,6 +110,9 @@ export class CLIOutputFormatter implements OutputFormatter {
       if (key.includes('Rate')) {
         return `${value.toFixed(2)}%`;
       }
+      if (typeof value === 'number' && !Number.isInteger(value)) {
+        return value.toFixed(4);
+      }
       return String(value);
     };
 
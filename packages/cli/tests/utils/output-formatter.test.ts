@@ -185,6 +185,13 @@ describe('CLIOutputFormatter', () => {
       expect(result).toContain('15.50%');
       expect(result).toContain('-8.30%');
     });
+
+    it('should show unbounded and missing ratios', () => {
+      const result = formatter.formatPerformanceSummary({ sortinoRatio: Infinity, calmarRatio: null });
+
+      expect(result).toContain('∞');
+      expect(result).toContain('n/a');
+    });
   });
 
   describe('formatAccountInfo', () => {
@@ -16,6 +16,10 @@ export * from './interfaces/strategy';
 // Export mock implementations
 export * from './mocks/mock-trading-provider';
 
+// Export live trading implementations
+export * from './trading/order-manager';
+export * from './trading/risk-manager';
+
 // Re-export commonly used interfaces
 export type {
   ITradingProvider,
@@ -26,7 +30,11 @@ export type {
   ITradingSession,
   PortfolioSummary,
   RiskCheckResult,
-  TradingProviderCapabilities
+  TradingProviderCapabilities,
+  OrderEventType,
+  OrderEvent,
+  OrderFillEvent,
+  OrderEventMap
 } from './interfaces/trading';
 
 export type {
@@ -46,6 +54,9 @@ export type {
 export type {
   IStrategyEngine,
   IIndicator,
+  IMultiOutputIndicator,
+  IndicatorClass,
+  IndicatorParameterDefinition,
   IConditionEvaluator,
   IStrategyPerformanceAnalyzer,
   IStrategyOptimizer,
@@ -55,12 +66,24 @@ export type {
   StrategyPerformanceReport,
   PerformanceMetrics,
   OptimizationParams,
+  OptimizationObjective,
   OptimizationResult,
+  OptimizationRun,
+  ParameterRange,
+  WalkForwardParams,
+  WalkForwardResult,
+  WalkForwardPeriod,
   StrategyRunnerStatus,
   PortfolioPerformance,
   RiskMetrics
 } from './interfaces/strategy';
 
 export type {
-  MockTradingProvider
-} from './mocks/mock-trading-provider';
\ No newline at end of file
+  ManagedOrder,
+  OrderManagerOptions,
+  OrderEventListener
+} from './trading/order-manager';
+
+export type {
+  RiskLimits
+} from './trading/risk-manager';
\ No newline at end of file
@@ -9,7 +9,10 @@ import {
   ValidationResult,
   StrategyContext,
   CompiledStrategy,
-  OHLCV
+  OHLCV,
+  IBarHistory,
+  EquityCurvePoint,
+  PerformanceMetrics as BacktestPerformanceMetrics
 } from '@jware-trader8/types';
 
 /**
@@ -39,13 +42,18 @@ export interface IStrategyEngine {
   /**
    * Register a new indicator
    */
-  registerIndicator(name: string, indicatorClass: new (...args: any[]) => IIndicator): void;
+  registerIndicator(name: string, indicatorClass: IndicatorClass): void;
 
   /**
    * Unregister an indicator
    */
   unregisterIndicator(name: string): void;
 
+  /**
+   * Clear bar history and indicator state, e.g. between backtests
+   */
+  resetStrategy(strategy: CompiledStrategy): void;
+
   /**
    * Get strategy execution statistics
    */
@@ -90,6 +98,43 @@ export interface IIndicator {
    * Get all historical values
    */
   getHistory(): (number | null)[];
+
+  /**
+   * Number of bars of price history the indicator needs
+   */
+  getLookback?(): number;
+
+  /**
+   * Give the indicator access to the strategy's rolling bar history
+   */
+  setBarHistory?(history: IBarHistory): void;
+}
+
+/**
+ * Indicator publishing several named outputs per bar (e.g. Bollinger upper/middle/lower).
+ * Outputs are addressed in conditions as `<indicator>.<output>`; `getValue()` returns
+ * the primary output.
+ */
+export interface IMultiOutputIndicator extends IIndicator {
+  /**
+   * Names of the outputs produced by this indicator
+   */
+  readonly outputs: string[];
+
+  /**
+   * Output returned by getValue()
+   */
+  readonly primaryOutput: string;
+
+  /**
+   * Get a named output value (0 = current, 1 = previous, etc.)
+   */
+  getOutputValue(output: string, index?: number): number | null;
+
+  /**
+   * Get all historical values of a named output
+   */
+  getOutputHistory(output: string): (number | null)[];
 }
 
 /**
@@ -101,6 +146,33 @@ export interface IndicatorConfig {
   parameters: Record<string, any>;
   period?: number;
   source?: 'open' | 'high' | 'low' | 'close' | 'volume';
+  /** Indicator (or `indicator.output`) whose values feed this one instead of price data */
+  input?: string;
+}
+
+/**
+ * Declared constructor parameter of an indicator class
+ */
+export interface IndicatorParameterDefinition {
+  name: string;
+  type: 'number' | 'integer' | 'boolean' | 'string';
+  /** Value used when the strategy omits the parameter; required when absent */
+  default?: number | boolean | string;
+  min?: number;
+  max?: number;
+  /** Allowed values for string parameters */
+  options?: string[];
+  description?: string;
+}
+
+/**
+ * Indicator constructor, optionally declaring its parameter schema.
+ * Constructor arguments follow the order of `parameters`; classes without a
+ * schema are constructed with the period only.
+ */
+export interface IndicatorClass {
+  new (...args: any[]): IIndicator;
+  readonly parameters?: IndicatorParameterDefinition[];
 }
 
 /**
@@ -132,6 +204,8 @@ export interface ParsedCondition {
   functions: string[];
   isValid: boolean;
   errors: string[];
+  /** Column (1-based) of the first syntax error, if any */
+  errorColumn?: number;
 }
 
 /**
@@ -226,11 +300,26 @@ export interface IStrategyOptimizer {
  */
 export interface OptimizationParams {
   parameters: Record<string, ParameterRange>;
-  objective: 'sharpe' | 'return' | 'profit_factor' | 'win_rate';
+  objective: OptimizationObjective;
   maxIterations: number;
-  validationSplit: number;
+  validationSplit: number; // fraction of data held out at the end
+  method?: 'grid' | 'random'; // default grid
+  seed?: number; // random search seed
+  topResults?: number; // runs kept in the result, default 10
+  onProgress?: (completed: number, total: number) => void;
 }
 
+/**
+ * Objective to rank optimization runs by: a shorthand or any backtest performance metric
+ * Metrics where lower is better (drawdown, volatility, ...) are minimized.
+ */
+export type OptimizationObjective =
+  | 'sharpe'
+  | 'return'
+  | 'profit_factor'
+  | 'win_rate'
+  | keyof BacktestPerformanceMetrics;
+
 /**
  * Parameter range for optimization
  */
@@ -250,6 +339,16 @@ export interface OptimizationResult {
   validationScore: number;
   overfittingRisk: 'LOW' | 'MEDIUM' | 'HIGH';
   optimizedStrategy: StrategyConfig;
+  runs: OptimizationRun[]; // best first
+}
+
+/**
+ * Single optimization run
+ */
+export interface OptimizationRun {
+  parameters: Record<string, number>;
+  score: number;
+  metrics: BacktestPerformanceMetrics;
 }
 
 /**
@@ -258,8 +357,11 @@ export interface OptimizationResult {
 export interface WalkForwardParams {
   trainingPeriod: number; // days
   testingPeriod: number; // days
-  stepSize: number; // days
+  stepSize: number; // days, at least testingPeriod
   reoptimizeFrequency: number; // steps
+  optimization: Omit<OptimizationParams, 'validationSplit' | 'onProgress'>;
+  anchored?: boolean; // training windows grow from the first bar instead of rolling
+  onProgress?: (completed: number, total: number) => void; // windows
 }
 
 /**
@@ -267,19 +369,27 @@ export interface WalkForwardParams {
  */
 export interface WalkForwardResult {
   periods: WalkForwardPeriod[];
-  overallMetrics: PerformanceMetrics;
-  consistency: number;
-  robustness: number;
+  overallMetrics: BacktestPerformanceMetrics; // stitched out-of-sample run
+  equityCurve: EquityCurvePoint[]; // out-of-sample curves compounded end to end
+  efficiency: number; // mean out-of-sample / in-sample annualized return
+  consistency: number; // fraction of profitable out-of-sample periods
+  robustness: number; // fraction of periods keeping half the in-sample score
 }
 
 /**
  * Walk-forward period result
  */
 export interface WalkForwardPeriod {
-  startDate: Date;
+  trainingStartDate: Date;
+  trainingEndDate: Date;
+  startDate: Date; // out-of-sample
   endDate: Date;
   parameters: Record<string, any>;
-  performance: PerformanceMetrics;
+  reoptimized: boolean;
+  inSamplePerformance: BacktestPerformanceMetrics;
+  inSampleScore: number;
+  performance: BacktestPerformanceMetrics; // out-of-sample
+  outOfSampleScore: number;
   trades: number;
 }
 
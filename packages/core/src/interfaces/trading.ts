@@ -10,7 +10,8 @@ import {
   ConnectionResult,
   CancelResult,
   OrderSide,
-  OrderType
+  OrderType,
+  OrderRequest
 } from '@jware-trader8/types';
 
 /**
@@ -47,6 +48,13 @@ export interface ITradingProvider {
     price?: number
   ): Promise<Order>;
 
+  /**
+   * Place an order with the full set of order options:
+   * stop and limit prices, trailing stops, time in force, extended hours,
+   * client order IDs, and bracket or OCO legs
+   */
+  placeOrder(request: OrderRequest): Promise<Order>;
+
   /**
    * Get current order status
    */
@@ -208,6 +216,53 @@ export interface OrderExecutionContext {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Order lifecycle event names
+ */
+export type OrderEventType =
+  | 'order.submitted'
+  | 'order.partially_filled'
+  | 'order.filled'
+  | 'order.cancelled'
+  | 'order.rejected';
+
+/**
+ * Order lifecycle event
+ */
+export interface OrderEvent {
+  type: OrderEventType;
+  /** Order as last reported by the provider */
+  order: Order;
+  /** Context the order was submitted for */
+  context: OrderExecutionContext;
+  /** Why the order was cancelled or rejected, when known */
+  reason?: string;
+  timestamp: Date;
+}
+
+/**
+ * Order event carrying the fill that triggered it
+ */
+export interface OrderFillEvent extends OrderEvent {
+  fill: {
+    /** Quantity filled since the previous update */
+    quantity: number;
+    /** Average price of that quantity */
+    price: number;
+  };
+}
+
+/**
+ * Payload type of each order event
+ */
+export interface OrderEventMap {
+  'order.submitted': OrderEvent;
+  'order.partially_filled': OrderFillEvent;
+  'order.filled': OrderFillEvent;
+  'order.cancelled': OrderEvent;
+  'order.rejected': OrderEvent;
+}
+
 /**
  * Portfolio summary interface
  */
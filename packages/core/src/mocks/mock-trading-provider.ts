@@ -10,10 +10,21 @@ import {
   CancelResult,
   OrderSide,
   OrderType,
-  OrderStatus
+  OrderStatus,
+  OrderRequest
 } from '@jware-trader8/types';
 import { ITradingProvider, TradingProviderConfig } from '../interfaces/trading';
-import { generateUUID } from '@jware-trader8/utils';
+import { generateUUID, validateOrderRequest } from '@jware-trader8/utils';
+
+/**
+ * How a simulated order relates to the others placed with it
+ */
+interface OrderLink {
+  /** Bracket entry that must fill before this leg can */
+  parentId?: string;
+  /** Order cancelled when this one fills or is cancelled */
+  ocoWith?: string;
+}
 
 /**
  * Mock trading provider for testing and development
@@ -23,6 +34,9 @@ export class MockTradingProvider implements ITradingProvider {
   private mockAccount: Account;
   private mockOrders: Map<string, Order> = new Map();
   private mockPositions: Map<string, Position> = new Map();
+  private orderLinks: Map<string, OrderLink> = new Map();
+  /** Best mock price each trailing stop has seen, which its stop trails */
+  private trailAnchors: Map<string, number> = new Map();
   private config: TradingProviderConfig;
 
   constructor(config: TradingProviderConfig) {
@@ -158,30 +172,101 @@ export class MockTradingProvider implements ITradingProvider {
     return order;
   }
 
+  /**
+   * Place an order with the full set of order options
+   * MARKET entries fill immediately; resting orders fill at random on status checks like other mock orders.
+   * IOC and FOK orders that cannot fill immediately are cancelled, and trailing stops follow the mock price on each status check.
+   */
+  async placeOrder(request: OrderRequest): Promise<Order> {
+    if (!this.isConnected) {
+      throw new Error('Not connected to trading provider');
+    }
+
+    const validation = validateOrderRequest(request);
+    if (!validation.isValid) {
+      throw new Error(`Invalid order: ${validation.errors.map(error => error.message).join('; ')}`);
+    }
+    if (request.clientOrderId && Array.from(this.mockOrders.values()).some(o => o.clientOrderId === request.clientOrderId)) {
+      throw new Error(`Client order ID ${request.clientOrderId} is already in use`);
+    }
+
+    const orderClass = request.orderClass ?? 'SIMPLE';
+    const marketPrice = this.getMockPrice(request.symbol);
+
+    if (request.side === 'BUY') {
+      const orderValue = (request.limitPrice ?? request.stopPrice ?? marketPrice) * request.quantity;
+      if (orderClass !== 'OCO' && orderValue > this.mockAccount.buyingPower) {
+        throw new Error('Insufficient buying power');
+      }
+    } else {
+      const position = this.mockPositions.get(request.symbol);
+      if (!position || position.quantity < request.quantity) {
+        throw new Error('Insufficient position to sell');
+      }
+    }
+
+    if (orderClass === 'OCO') {
+      // Brokers report an OCO pair as the take-profit order carrying the stop-loss leg
+      const takeProfit = this.createOrder(request, request.side, 'LIMIT', {
+        price: request.takeProfit!.limitPrice,
+        clientOrderId: request.clientOrderId,
+        orderClass
+      });
+      const stopLoss = this.createStopLossLeg(request, request.side);
+      takeProfit.legs = [stopLoss];
+      this.orderLinks.set(takeProfit.id, { ocoWith: stopLoss.id });
+      this.orderLinks.set(stopLoss.id, { ocoWith: takeProfit.id });
+      return this.snapshotOrder(takeProfit);
+    }
+
+    const order = this.createOrder(request, request.side, request.type, {
+      price: request.limitPrice,
+      stopPrice: request.stopPrice,
+      trailPrice: request.trailPrice,
+      trailPercent: request.trailPercent,
+      clientOrderId: request.clientOrderId,
+      orderClass
+    });
+    if (request.type === 'TRAILING_STOP') {
+      this.trail(order, marketPrice);
+    }
+
+    if (orderClass === 'BRACKET') {
+      const exitSide: OrderSide = request.side === 'BUY' ? 'SELL' : 'BUY';
+      const takeProfit = this.createOrder(request, exitSide, 'LIMIT', { price: request.takeProfit!.limitPrice });
+      const stopLoss = this.createStopLossLeg(request, exitSide);
+      order.legs = [takeProfit, stopLoss];
+      this.orderLinks.set(takeProfit.id, { parentId: order.id, ocoWith: stopLoss.id });
+      this.orderLinks.set(stopLoss.id, { parentId: order.id, ocoWith: takeProfit.id });
+    }
+
+    if (request.type === 'MARKET') {
+      this.fillOrder(order, marketPrice);
+    } else if (request.timeInForce === 'IOC' || request.timeInForce === 'FOK') {
+      this.cancelLinkedOrders(order);
+    }
+
+    return this.snapshotOrder(order);
+  }
+
   async getOrderStatus(orderId: string): Promise<Order> {
     const order = this.mockOrders.get(orderId);
     if (!order) {
       throw new Error(`Order ${orderId} not found`);
     }
 
-    // Simulate random order fills for pending orders
-    if (order.status === 'PENDING' && Math.random() > 0.7) {
-      order.status = 'FILLED';
-      order.filledQuantity = order.quantity;
-      order.averagePrice = order.price || this.getMockPrice(order.symbol);
-      order.commission = (order.averagePrice * order.quantity) * 0.001;
+    if (order.status === 'PENDING' && order.type === 'TRAILING_STOP') {
+      this.trail(order, this.getMockPrice(order.symbol));
+    }
 
-      // Update account for filled orders
-      if (order.side === 'BUY') {
-        this.mockAccount.buyingPower -= (order.averagePrice * order.quantity) + order.commission;
-        this.updatePosition(order.symbol, order.quantity, order.averagePrice);
-      } else {
-        this.mockAccount.buyingPower += (order.averagePrice * order.quantity) - order.commission;
-        this.updatePosition(order.symbol, -order.quantity, order.averagePrice);
-      }
+    // Simulate random order fills for pending orders; bracket legs wait for their entry
+    const parentId = this.orderLinks.get(orderId)?.parentId;
+    const canFill = !parentId || this.mockOrders.get(parentId)?.status === 'FILLED';
+    if (order.status === 'PENDING' && canFill && Math.random() > 0.7) {
+      this.fillOrder(order, order.price || order.stopPrice || this.getMockPrice(order.symbol));
     }
 
-    return { ...order };
+    return this.snapshotOrder(order);
   }
 
   async cancelOrder(orderId: string): Promise<CancelResult> {
@@ -202,8 +287,7 @@ export class MockTradingProvider implements ITradingProvider {
       };
     }
 
-    order.status = 'CANCELLED';
-    this.mockOrders.set(orderId, order);
+    this.cancelLinkedOrders(order);
 
     return {
       success: true,
@@ -275,6 +359,8 @@ export class MockTradingProvider implements ITradingProvider {
     this.isConnected = false;
     this.mockOrders.clear();
     this.mockPositions.clear();
+    this.orderLinks.clear();
+    this.trailAnchors.clear();
   }
 
   /**
@@ -297,6 +383,98 @@ export class MockTradingProvider implements ITradingProvider {
     return Math.round((basePrice * (1 + variation)) * 100) / 100;
   }
 
+  /**
+   * Create and store a pending order from a request
+   */
+  private createOrder(request: OrderRequest, side: OrderSide, type: OrderType, fields: Partial<Order>): Order {
+    const order: Order = {
+      id: generateUUID(),
+      symbol: request.symbol,
+      side,
+      quantity: request.quantity,
+      type,
+      status: 'PENDING',
+      timestamp: new Date(),
+      timeInForce: request.timeInForce ?? 'DAY',
+      extendedHours: request.extendedHours,
+      ...fields
+    };
+
+    this.mockOrders.set(order.id, order);
+    return order;
+  }
+
+  private createStopLossLeg(request: OrderRequest, side: OrderSide): Order {
+    const stopLoss = request.stopLoss!;
+    return this.createOrder(request, side, stopLoss.limitPrice !== undefined ? 'STOP_LIMIT' : 'STOP', {
+      stopPrice: stopLoss.stopPrice,
+      price: stopLoss.limitPrice
+    });
+  }
+
+  /**
+   * Move a trailing stop to the trail distance from the best price seen, on the losing side
+   */
+  private trail(order: Order, marketPrice: number): void {
+    const isSell = order.side === 'SELL';
+    const previous = this.trailAnchors.get(order.id);
+    const anchor = previous === undefined ? marketPrice
+      : isSell ? Math.max(previous, marketPrice) : Math.min(previous, marketPrice);
+
+    this.trailAnchors.set(order.id, anchor);
+    const distance = order.trailPrice ?? anchor * (order.trailPercent! / 100);
+    order.stopPrice = Math.round((isSell ? anchor - distance : anchor + distance) * 100) / 100;
+  }
+
+  /**
+   * Fill an order completely and settle it against the account
+   */
+  private fillOrder(order: Order, price: number): void {
+    order.status = 'FILLED';
+    order.filledQuantity = order.quantity;
+    order.averagePrice = price;
+    order.commission = (price * order.quantity) * 0.001;
+
+    if (order.side === 'BUY') {
+      this.mockAccount.buyingPower -= (price * order.quantity) + order.commission;
+      this.updatePosition(order.symbol, order.quantity, price);
+    } else {
+      this.mockAccount.buyingPower += (price * order.quantity) - order.commission;
+      this.updatePosition(order.symbol, -order.quantity, price);
+    }
+
+    // The other side of an OCO pair is cancelled once one side fills
+    const ocoWith = this.orderLinks.get(order.id)?.ocoWith;
+    const sibling = ocoWith ? this.mockOrders.get(ocoWith) : undefined;
+    if (sibling?.status === 'PENDING') {
+      sibling.status = 'CANCELLED';
+    }
+  }
+
+  /**
+   * Cancel an order along with its bracket legs or OCO partner
+   */
+  private cancelLinkedOrders(order: Order): void {
+    order.status = 'CANCELLED';
+
+    for (const [id, link] of this.orderLinks) {
+      const linked = this.mockOrders.get(id);
+      if (linked?.status === 'PENDING' && (link.parentId === order.id || link.ocoWith === order.id)) {
+        linked.status = 'CANCELLED';
+      }
+    }
+  }
+
+  /**
+   * Copy an order and its legs so callers cannot change stored orders
+   */
+  private snapshotOrder(order: Order): Order {
+    if (!order.legs) {
+      return { ...order };
+    }
+    return { ...order, legs: order.legs.map(leg => ({ ...leg })) };
+  }
+
   /**
    * Update position for symbol
    */
@@ -0,0 +1,484 @@
+/**
+ * Order manager for live trading
+ * Places orders on a trading provider and follows each one through its lifecycle:
+ * PENDING → PARTIALLY_FILLED → FILLED / CANCELLED / REJECTED
+ */
+
+import { Order, OrderRequest, OrderStatus, Position } from '@jware-trader8/types';
+import { Logger, validateOrderRequest } from '@jware-trader8/utils';
+import {
+  ITradingProvider,
+  OrderEvent,
+  OrderEventMap,
+  OrderEventType,
+  OrderExecutionContext,
+  OrderFillEvent
+} from '../interfaces/trading';
+import { RiskManager, RiskRejectedError } from './risk-manager';
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+const DEFAULT_LIMIT_ORDER_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Statuses an order may move to from each status; terminal statuses have none
+ */
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: ['PARTIALLY_FILLED', 'FILLED', 'CANCELLED', 'REJECTED'],
+  PARTIALLY_FILLED: ['PARTIALLY_FILLED', 'FILLED', 'CANCELLED'],
+  FILLED: [],
+  CANCELLED: [],
+  REJECTED: []
+};
+
+/**
+ * Order placed through the order manager, with the context it was placed for
+ */
+export interface ManagedOrder {
+  /** Order as last reported by the provider */
+  order: Order;
+  context: OrderExecutionContext;
+  submittedAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Order manager options
+ */
+export interface OrderManagerOptions {
+  /** How often open orders are polled once monitoring starts (default 5s) */
+  pollIntervalMs?: number;
+  /** Age at which unfilled LIMIT orders are cancelled (default 5 minutes) */
+  limitOrderTimeoutMs?: number;
+}
+
+/**
+ * Listener for one order event type
+ */
+export type OrderEventListener<K extends OrderEventType> = (event: OrderEventMap[K]) => void;
+
+interface TrackedOrder extends ManagedOrder {
+  cancelReason?: string;
+}
+
+/**
+ * Order manager
+ * Single route from strategies to the trading provider; every order passes the risk manager when one is set.
+ * Positions are kept from the fills reported on each order, not from the provider's position list.
+ */
+export class OrderManager {
+  private tradingProvider: ITradingProvider;
+  private riskManager?: RiskManager;
+  private options: Required<OrderManagerOptions>;
+  private orders: Map<string, TrackedOrder> = new Map();
+  private positions: Map<string, Position> = new Map();
+  private listeners: Map<OrderEventType, Set<(event: any) => void>> = new Map();
+  private pollTimer?: NodeJS.Timeout;
+  private refreshing?: Promise<void>;
+  private logger: Logger;
+
+  constructor(tradingProvider: ITradingProvider, riskManager?: RiskManager, options: OrderManagerOptions = {}) {
+    this.tradingProvider = tradingProvider;
+    this.riskManager = riskManager;
+    this.options = {
+      pollIntervalMs: options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS,
+      limitOrderTimeoutMs: options.limitOrderTimeoutMs ?? DEFAULT_LIMIT_ORDER_TIMEOUT_MS
+    };
+    this.logger = new Logger({
+      level: 'info',
+      console: true,
+      format: 'text'
+    });
+  }
+
+  /**
+   * Validate, risk check and place an order
+   * Orders rejected only for their size are placed at the risk manager's suggested quantity.
+   * Rejections throw a RiskRejectedError carrying the RiskCheckResult.
+   */
+  async submitOrder(context: OrderExecutionContext): Promise<Order> {
+    const validation = validateOrderRequest(this.toOrderRequest(context));
+    if (!validation.isValid) {
+      throw new Error(`Invalid order: ${validation.errors.map(error => error.message).join('; ')}`);
+    }
+
+    if (this.riskManager) {
+      context = await this.applyRiskChecks(this.riskManager, context);
+    }
+
+    let order: Order;
+    try {
+      order = await this.tradingProvider.placeOrder(this.toOrderRequest(context));
+    } catch (error) {
+      this.logger.error('Order submission failed', {
+        symbol: context.symbol,
+        side: context.side,
+        quantity: context.quantity,
+        strategy: context.strategyName,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+
+    // Track from an unfilled baseline so fills already on the returned order are applied like any other update
+    const now = new Date();
+    const tracked: TrackedOrder = {
+      order: { ...order, status: 'PENDING', filledQuantity: 0, averagePrice: undefined },
+      context,
+      submittedAt: now,
+      updatedAt: now
+    };
+    this.orders.set(order.id, tracked);
+    this.riskManager?.recordOrder(context);
+
+    this.logger.info('Order submitted', {
+      orderId: order.id,
+      symbol: context.symbol,
+      side: context.side,
+      quantity: context.quantity,
+      orderType: context.orderType,
+      strategy: context.strategyName,
+      reason: context.reason
+    });
+    this.emit('order.submitted', { type: 'order.submitted', order, context, timestamp: now });
+    this.applyUpdate(tracked, order);
+
+    return { ...tracked.order };
+  }
+
+  /**
+   * Apply an order update pushed by a streaming source
+   * Updates for orders not placed through this manager are ignored.
+   */
+  handleOrderUpdate(order: Order): void {
+    const tracked = this.orders.get(order.id);
+    if (tracked) {
+      this.applyUpdate(tracked, order);
+    }
+  }
+
+  /**
+   * Poll every open order once and cancel LIMIT orders older than the timeout
+   */
+  async refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.refreshOpenOrders().finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Start polling open orders
+   */
+  startMonitoring(): void {
+    if (this.pollTimer) {
+      return;
+    }
+    this.pollTimer = setInterval(() => {
+      this.refresh().catch(error => {
+        this.logger.error('Order refresh failed', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }, this.options.pollIntervalMs);
+  }
+
+  /**
+   * Stop polling open orders
+   */
+  stopMonitoring(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  /**
+   * Cancel an open order
+   * The order is marked CANCELLED once the provider reports it.
+   */
+  async cancelOrder(orderId: string, reason: string = 'Cancelled by request'): Promise<boolean> {
+    const tracked = this.orders.get(orderId);
+    if (!tracked) {
+      throw new Error(`Order not found: ${orderId}`);
+    }
+    if (this.isTerminal(tracked.order.status)) {
+      return false;
+    }
+
+    const result = await this.tradingProvider.cancelOrder(orderId);
+    if (!result.success) {
+      this.logger.warn('Order cancellation failed', { orderId, error: result.error });
+      return false;
+    }
+
+    tracked.cancelReason = reason;
+    await this.pollOrder(tracked);
+    return true;
+  }
+
+  /**
+   * Register a listener for an order event; returns a function that removes it
+   */
+  on<K extends OrderEventType>(type: K, listener: OrderEventListener<K>): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners!.delete(listener);
+    };
+  }
+
+  /**
+   * Get submitted orders, oldest first
+   */
+  getOrders(symbol?: string): ManagedOrder[] {
+    const orders = Array.from(this.orders.values()).map(tracked => this.toManagedOrder(tracked));
+    return symbol ? orders.filter(managed => managed.context.symbol === symbol) : orders;
+  }
+
+  /**
+   * Get orders that are not yet filled, cancelled or rejected
+   */
+  getOpenOrders(symbol?: string): ManagedOrder[] {
+    return this.getOrders(symbol).filter(managed => !this.isTerminal(managed.order.status));
+  }
+
+  /**
+   * Get positions built from the fills on managed orders
+   */
+  getPositions(): Position[] {
+    return Array.from(this.positions.values()).map(position => ({ ...position }));
+  }
+
+  /**
+   * Get the position held in a symbol, if any
+   */
+  getPosition(symbol: string): Position | undefined {
+    const position = this.positions.get(symbol);
+    return position ? { ...position } : undefined;
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private async applyRiskChecks(riskManager: RiskManager, context: OrderExecutionContext): Promise<OrderExecutionContext> {
+    let result = await riskManager.checkOrder(context);
+
+    if (!result.approved && result.suggestedQuantity !== undefined && result.suggestedQuantity > 0) {
+      this.logger.info('Resizing order to pass risk checks', {
+        symbol: context.symbol,
+        quantity: context.quantity,
+        suggestedQuantity: result.suggestedQuantity
+      });
+      context = { ...context, quantity: result.suggestedQuantity };
+      result = await riskManager.checkOrder(context);
+    }
+
+    if (!result.approved) {
+      throw new RiskRejectedError(result);
+    }
+
+    return context;
+  }
+
+  /**
+   * The context's price is the limit for LIMIT and STOP_LIMIT orders and only a reference otherwise
+   */
+  private toOrderRequest(context: OrderExecutionContext): OrderRequest {
+    const limited = context.orderType === 'LIMIT' || context.orderType === 'STOP_LIMIT';
+    return {
+      symbol: context.symbol,
+      side: context.side,
+      quantity: context.quantity,
+      type: context.orderType,
+      limitPrice: limited ? context.price : undefined,
+      stopPrice: context.stopPrice
+    };
+  }
+
+  private async refreshOpenOrders(): Promise<void> {
+    const now = Date.now();
+
+    for (const tracked of this.orders.values()) {
+      if (this.isTerminal(tracked.order.status)) {
+        continue;
+      }
+
+      const age = now - tracked.submittedAt.getTime();
+      if (tracked.context.orderType === 'LIMIT' && !tracked.cancelReason && age >= this.options.limitOrderTimeoutMs) {
+        try {
+          await this.cancelOrder(tracked.order.id, `Limit order unfilled after ${Math.round(age / 1000)}s`);
+          continue;
+        } catch (error) {
+          this.logger.warn('Stale order cancellation failed', {
+            orderId: tracked.order.id,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+
+      await this.pollOrder(tracked);
+    }
+  }
+
+  private async pollOrder(tracked: TrackedOrder): Promise<void> {
+    try {
+      this.applyUpdate(tracked, await this.tradingProvider.getOrderStatus(tracked.order.id));
+    } catch (error) {
+      this.logger.warn('Order status check failed', {
+        orderId: tracked.order.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Move an order to the status the provider reports, applying any new fill
+   */
+  private applyUpdate(tracked: TrackedOrder, update: Order): void {
+    const previous = tracked.order;
+    if (this.isTerminal(previous.status)) {
+      return;
+    }
+
+    const status = update.status;
+    if (status !== previous.status && !ORDER_TRANSITIONS[previous.status].includes(status)) {
+      this.logger.warn('Ignoring invalid order transition', {
+        orderId: previous.id,
+        from: previous.status,
+        to: status
+      });
+      return;
+    }
+
+    const previousFilled = previous.filledQuantity ?? 0;
+    const filled = update.filledQuantity ?? (status === 'FILLED' ? update.quantity : previousFilled);
+    const fillQuantity = Math.max(0, filled - previousFilled);
+    if (status === previous.status && fillQuantity === 0) {
+      return;
+    }
+
+    const averagePrice = update.averagePrice ?? previous.averagePrice ?? tracked.context.price ?? update.price;
+    // Price of this fill alone, backed out of the running average
+    const fillPrice = averagePrice !== undefined && fillQuantity > 0
+      ? (averagePrice * filled - (previous.averagePrice ?? 0) * previousFilled) / fillQuantity
+      : averagePrice;
+
+    tracked.order = { ...previous, ...update, filledQuantity: filled, averagePrice };
+    tracked.updatedAt = new Date();
+
+    if (fillQuantity > 0 && fillPrice !== undefined) {
+      this.applyFill(tracked.context, fillQuantity, fillPrice);
+    }
+
+    const event: Omit<OrderEvent, 'type'> = {
+      order: { ...tracked.order },
+      context: tracked.context,
+      timestamp: tracked.updatedAt
+    };
+
+    if (status === 'FILLED' || (status === 'PARTIALLY_FILLED' && fillQuantity > 0)) {
+      const type = status === 'FILLED' ? 'order.filled' : 'order.partially_filled';
+      const fill = { quantity: fillQuantity, price: fillPrice ?? 0 };
+      this.logger.info(status === 'FILLED' ? 'Order filled' : 'Order partially filled', {
+        orderId: previous.id,
+        symbol: tracked.context.symbol,
+        side: tracked.context.side,
+        filledQuantity: filled,
+        quantity: tracked.order.quantity,
+        averagePrice
+      });
+      this.emit(type, { ...event, type, fill } as OrderFillEvent);
+    } else if (status === 'CANCELLED') {
+      const reason = tracked.cancelReason ?? 'Cancelled by the provider';
+      this.logger.info('Order cancelled', { orderId: previous.id, symbol: tracked.context.symbol, filledQuantity: filled, reason });
+      this.emit('order.cancelled', { ...event, type: 'order.cancelled', reason });
+    } else if (status === 'REJECTED') {
+      this.logger.warn('Order rejected', { orderId: previous.id, symbol: tracked.context.symbol, side: tracked.context.side });
+      this.emit('order.rejected', { ...event, type: 'order.rejected', reason: 'Rejected by the provider' });
+    }
+  }
+
+  /**
+   * Update the tracked position in a symbol with a fill
+   */
+  private applyFill(context: OrderExecutionContext, quantity: number, price: number): void {
+    const symbol = context.symbol;
+    const delta = context.side === 'BUY' ? quantity : -quantity;
+    const existing = this.positions.get(symbol);
+    const now = new Date();
+
+    if (!existing) {
+      this.positions.set(symbol, {
+        symbol,
+        quantity: delta,
+        averagePrice: price,
+        currentPrice: price,
+        side: delta > 0 ? 'LONG' : 'SHORT',
+        realizedPnL: 0,
+        entryTime: now,
+        updatedAt: now
+      });
+      return;
+    }
+
+    const newQuantity = existing.quantity + delta;
+    const increasing = Math.sign(delta) === Math.sign(existing.quantity);
+
+    if (increasing) {
+      existing.averagePrice = (existing.averagePrice * existing.quantity + price * delta) / newQuantity;
+    } else {
+      const closed = Math.min(quantity, Math.abs(existing.quantity));
+      const pnlPerUnit = existing.quantity > 0 ? price - existing.averagePrice : existing.averagePrice - price;
+      existing.realizedPnL = (existing.realizedPnL ?? 0) + closed * pnlPerUnit;
+    }
+
+    if (newQuantity === 0) {
+      this.positions.delete(symbol);
+      return;
+    }
+
+    // A fill larger than the position flips it and opens the remainder at the fill price
+    if (Math.sign(newQuantity) !== Math.sign(existing.quantity)) {
+      existing.averagePrice = price;
+      existing.side = newQuantity > 0 ? 'LONG' : 'SHORT';
+      existing.entryTime = now;
+    }
+    existing.quantity = newQuantity;
+    existing.currentPrice = price;
+    existing.unrealizedPnL = (price - existing.averagePrice) * newQuantity;
+    existing.updatedAt = now;
+  }
+
+  private emit<K extends OrderEventType>(type: K, event: OrderEventMap[K]): void {
+    for (const listener of this.listeners.get(type) ?? []) {
+      try {
+        listener(event);
+      } catch (error) {
+        this.logger.error('Order event listener failed', {
+          event: type,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+
+  private isTerminal(status: OrderStatus): boolean {
+    return ORDER_TRANSITIONS[status].length === 0;
+  }
+
+  private toManagedOrder(tracked: TrackedOrder): ManagedOrder {
+    return {
+      order: { ...tracked.order },
+      context: tracked.context,
+      submittedAt: tracked.submittedAt,
+      updatedAt: tracked.updatedAt
+    };
+  }
+}
@@ -0,0 +1,360 @@
+/**
+ * Pre-trade risk manager
+ * Checks every live order against account, position and order-flow limits before it is placed
+ */
+
+import { Account, Position, Quote } from '@jware-trader8/types';
+import { Logger, MARKET_SESSIONS, getMarketSessionForSymbol } from '@jware-trader8/utils';
+import { ITradingProvider, OrderExecutionContext, RiskCheckResult } from '../interfaces/trading';
+import { IDataProvider } from '../interfaces/data';
+
+const DEFAULT_PRICE_BAND = 0.05;
+const DEFAULT_DUPLICATE_WINDOW_MS = 5000;
+const DEFAULT_EQUITY_SAMPLE_INTERVAL_MS = 60 * 1000;
+const MS_PER_MINUTE = 60 * 1000;
+const CRYPTO_QUANTITY_PRECISION = 1e8;
+
+/**
+ * Risk limits; fractions are of account equity unless noted
+ * Limits left undefined are not checked.
+ */
+export interface RiskLimits {
+  /** Largest position in one symbol */
+  maxPositionSize?: number;
+  /** Most symbols held at once */
+  maxPositions?: number;
+  /** Loss from start-of-day (UTC) equity at which entries stop */
+  dailyLossLimit?: number;
+  /** Reject entries once the daily loss limit is hit; otherwise only warn (default true) */
+  stopOnLossLimit?: boolean;
+  /** Drawdown from peak equity that halts entries until the kill switch is reset */
+  maxDrawdown?: number;
+  /** Minutes between trades in one symbol before a new entry is allowed */
+  minTimeBetweenTrades?: number;
+  /** Largest distance of a limit or stop price from the last quote, as a fraction of it (default 0.05) */
+  priceBand?: number;
+  /** Window in which the same order again counts as a duplicate, in milliseconds (default 5000) */
+  duplicateWindowMs?: number;
+}
+
+/**
+ * Error thrown for an order the risk checks rejected
+ */
+export class RiskRejectedError extends Error {
+  readonly riskCheck: RiskCheckResult;
+
+  constructor(riskCheck: RiskCheckResult) {
+    super(`Order rejected by risk checks: ${riskCheck.reasons.join('; ')}`);
+    this.name = 'RiskRejectedError';
+    this.riskCheck = riskCheck;
+  }
+}
+
+interface RecordedOrder {
+  symbol: string;
+  side: OrderExecutionContext['side'];
+  quantity: number;
+  time: number;
+}
+
+/**
+ * Risk manager
+ * Exits are only checked for duplicates and price bands so a position can always be closed.
+ * Start-of-day equity comes from the first sample of each UTC day, so monitoring should run for the
+ * whole session; without it the first order check of the day sets the baseline.
+ */
+export class RiskManager {
+  private tradingProvider: ITradingProvider;
+  private quoteProvider?: Pick<IDataProvider, 'getRealTimeQuote'>;
+  private limits: RiskLimits;
+  private logger: Logger;
+  private recentOrders: RecordedOrder[] = [];
+  private lastTradeTimes: Map<string, number> = new Map();
+  private dayStart = { day: '', equity: 0 };
+  private peakEquity = 0;
+  private killSwitchEngaged = false;
+  private sampleTimer?: NodeJS.Timeout;
+  private now: () => number;
+
+  /**
+   * @param now Clock for cooldowns, duplicate windows and trading days, such as a replay's
+   *   clock (default wall-clock time)
+   */
+  constructor(
+    tradingProvider: ITradingProvider,
+    limits: RiskLimits,
+    quoteProvider?: Pick<IDataProvider, 'getRealTimeQuote'>,
+    now: () => number = Date.now
+  ) {
+    this.tradingProvider = tradingProvider;
+    this.limits = limits;
+    this.quoteProvider = quoteProvider;
+    this.now = now;
+    this.logger = new Logger({
+      level: 'info',
+      console: true,
+      format: 'text'
+    });
+  }
+
+  /**
+   * Check an order against the limits
+   * Orders rejected only for their size carry a suggested quantity that would pass.
+   */
+  async checkOrder(context: OrderExecutionContext): Promise<RiskCheckResult> {
+    const now = this.now();
+    const symbol = context.symbol.toUpperCase();
+    const [account, positions, orders] = await Promise.all([
+      this.tradingProvider.getAccount(),
+      this.tradingProvider.getPositions(),
+      this.tradingProvider.getOrders({ symbol })
+    ]);
+
+    const equity = this.getEquity(account, positions);
+    this.trackEquity(equity, now);
+
+    const position = positions.find(p => p.symbol === symbol && p.quantity !== 0);
+    const isExit = position !== undefined &&
+      (position.side === 'LONG') === (context.side === 'SELL') &&
+      context.quantity <= Math.abs(position.quantity);
+
+    const rejections: string[] = [];
+    const warnings: string[] = [];
+    let sizeOnly = true;
+    const reject = (reason: string, sizing: boolean = false) => {
+      rejections.push(reason);
+      sizeOnly = sizeOnly && sizing;
+    };
+
+    // Order flow checks apply to every order
+    const openOrder = orders.find(order =>
+      order.side === context.side && (order.status === 'PENDING' || order.status === 'PARTIALLY_FILLED')
+    );
+    if (openOrder) {
+      reject(`Duplicate order: ${context.side} order ${openOrder.id} for ${symbol} is still open`);
+    } else if (this.isRecentDuplicate(symbol, context, now)) {
+      reject(`Duplicate order: same ${context.side} ${context.quantity} ${symbol} sent within the last ${this.duplicateWindowMs()}ms`);
+    }
+
+    const quote = await this.getQuote(symbol, warnings);
+    const orderPrice = context.orderType === 'LIMIT' || context.orderType === 'STOP_LIMIT' ? context.price
+      : context.orderType === 'STOP' ? context.stopPrice
+      : undefined;
+    const priceBand = this.limits.priceBand ?? DEFAULT_PRICE_BAND;
+    if (orderPrice !== undefined && quote && quote.last > 0) {
+      const deviation = Math.abs(orderPrice - quote.last) / quote.last;
+      if (deviation > priceBand) {
+        reject(`Price ${orderPrice} is ${(deviation * 100).toFixed(1)}% from the last quote ${quote.last}, beyond the ${(priceBand * 100).toFixed(1)}% band`);
+      }
+    }
+
+    let maxAllowedQuantity = Number.POSITIVE_INFINITY;
+
+    if (!isExit) {
+      if (this.killSwitchEngaged) {
+        reject(`Drawdown kill switch engaged: equity ${equity.toFixed(2)} is down over ${this.percent(this.limits.maxDrawdown)} from peak ${this.peakEquity.toFixed(2)}`);
+      }
+
+      const dailyLoss = this.dayStart.equity > 0 ? (this.dayStart.equity - equity) / this.dayStart.equity : 0;
+      if (this.limits.dailyLossLimit !== undefined && dailyLoss >= this.limits.dailyLossLimit) {
+        const reason = `Daily loss of ${(dailyLoss * 100).toFixed(1)}% reached the ${this.percent(this.limits.dailyLossLimit)} limit`;
+        if (this.limits.stopOnLossLimit === false) {
+          warnings.push(reason);
+        } else {
+          reject(reason);
+        }
+      }
+
+      const lastTrade = this.lastTradeTimes.get(symbol);
+      if (this.limits.minTimeBetweenTrades !== undefined && lastTrade !== undefined) {
+        const nextAllowed = lastTrade + this.limits.minTimeBetweenTrades * MS_PER_MINUTE;
+        if (now < nextAllowed) {
+          reject(`Cooldown: next ${symbol} entry allowed at ${new Date(nextAllowed).toISOString()}`);
+        }
+      }
+
+      const heldSymbols = new Set(positions.filter(p => p.quantity !== 0).map(p => p.symbol));
+      if (this.limits.maxPositions !== undefined && !position && heldSymbols.size >= this.limits.maxPositions) {
+        reject(`Maximum of ${this.limits.maxPositions} concurrent positions reached`);
+      }
+
+      const price = orderPrice ?? quote?.last ?? context.price ?? position?.currentPrice;
+      if (price === undefined || !(price > 0)) {
+        warnings.push(`No price for ${symbol}; position size and buying power were not checked`);
+      } else {
+        if (this.limits.maxPositionSize !== undefined) {
+          const heldValue = position ? Math.abs(position.quantity) * price : 0;
+          const allowed = Math.max(0, (this.limits.maxPositionSize * equity - heldValue) / price);
+          maxAllowedQuantity = Math.min(maxAllowedQuantity, allowed);
+          if (context.quantity > allowed) {
+            reject(`Position would exceed ${this.percent(this.limits.maxPositionSize)} of equity`, true);
+          }
+        }
+
+        const affordable = Math.max(0, account.buyingPower / price);
+        maxAllowedQuantity = Math.min(maxAllowedQuantity, affordable);
+        if (context.quantity > affordable) {
+          reject(`Order value ${(context.quantity * price).toFixed(2)} exceeds buying power ${account.buyingPower.toFixed(2)}`, true);
+        }
+      }
+    }
+
+    const approved = rejections.length === 0;
+    const roundedMax = Number.isFinite(maxAllowedQuantity) ? this.roundQuantity(symbol, maxAllowedQuantity) : undefined;
+    const result: RiskCheckResult = {
+      approved,
+      reasons: [...rejections, ...warnings],
+      maxAllowedQuantity: roundedMax,
+      suggestedQuantity: approved ? context.quantity : sizeOnly ? Math.min(context.quantity, roundedMax ?? 0) : 0
+    };
+
+    const details = {
+      symbol,
+      side: context.side,
+      quantity: context.quantity,
+      orderType: context.orderType,
+      strategy: context.strategyName,
+      reasons: result.reasons,
+      suggestedQuantity: result.suggestedQuantity
+    };
+    if (approved) {
+      this.logger.info('Risk check approved', details);
+    } else {
+      this.logger.warn('Risk check rejected', details);
+    }
+
+    return result;
+  }
+
+  /**
+   * Record an order that was placed, for cooldowns and duplicate suppression
+   */
+  recordOrder(context: OrderExecutionContext): void {
+    const now = this.now();
+    const symbol = context.symbol.toUpperCase();
+
+    this.lastTradeTimes.set(symbol, now);
+    this.recentOrders = this.recentOrders.filter(order => now - order.time < this.duplicateWindowMs());
+    this.recentOrders.push({ symbol, side: context.side, quantity: context.quantity, time: now });
+  }
+
+  /**
+   * Sample equity now and then on an interval, so the daily loss and drawdown baselines do not
+   * depend on when the first order arrives
+   */
+  async startMonitoring(intervalMs: number = DEFAULT_EQUITY_SAMPLE_INTERVAL_MS): Promise<void> {
+    if (this.sampleTimer) {
+      return;
+    }
+    this.sampleTimer = setInterval(() => {
+      this.sampleEquity().catch(error => {
+        this.logger.error('Equity sample failed', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }, intervalMs);
+    await this.sampleEquity();
+  }
+
+  /**
+   * Stop sampling equity
+   */
+  stopMonitoring(): void {
+    if (this.sampleTimer) {
+      clearInterval(this.sampleTimer);
+      this.sampleTimer = undefined;
+    }
+  }
+
+  /**
+   * Whether the drawdown kill switch has stopped new entries
+   */
+  isKillSwitchEngaged(): boolean {
+    return this.killSwitchEngaged;
+  }
+
+  /**
+   * Allow entries again and measure drawdown from the next equity seen
+   */
+  resetKillSwitch(): void {
+    this.killSwitchEngaged = false;
+    this.peakEquity = 0;
+    this.logger.info('Drawdown kill switch reset');
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private getEquity(account: Account, positions: Position[]): number {
+    return positions.reduce(
+      (equity, position) => equity + position.quantity * (position.currentPrice ?? position.averagePrice),
+      account.balance
+    );
+  }
+
+  private async sampleEquity(): Promise<void> {
+    const [account, positions] = await Promise.all([
+      this.tradingProvider.getAccount(),
+      this.tradingProvider.getPositions()
+    ]);
+    this.trackEquity(this.getEquity(account, positions), this.now());
+  }
+
+  private trackEquity(equity: number, now: number): void {
+    const day = new Date(now).toISOString().slice(0, 10);
+    if (this.dayStart.day !== day) {
+      this.dayStart = { day, equity };
+    }
+
+    this.peakEquity = Math.max(this.peakEquity, equity);
+    const drawdown = this.peakEquity > 0 ? (this.peakEquity - equity) / this.peakEquity : 0;
+    if (!this.killSwitchEngaged && this.limits.maxDrawdown !== undefined && drawdown >= this.limits.maxDrawdown) {
+      this.killSwitchEngaged = true;
+      this.logger.error('Drawdown kill switch engaged', {
+        equity,
+        peakEquity: this.peakEquity,
+        drawdown
+      });
+    }
+  }
+
+  private isRecentDuplicate(symbol: string, context: OrderExecutionContext, now: number): boolean {
+    return this.recentOrders.some(order =>
+      order.symbol === symbol &&
+      order.side === context.side &&
+      order.quantity === context.quantity &&
+      now - order.time < this.duplicateWindowMs()
+    );
+  }
+
+  private async getQuote(symbol: string, warnings: string[]): Promise<Quote | undefined> {
+    if (!this.quoteProvider) {
+      return undefined;
+    }
+    try {
+      return await this.quoteProvider.getRealTimeQuote(symbol);
+    } catch (error) {
+      warnings.push(`No quote for ${symbol}; price band was not checked`);
+      return undefined;
+    }
+  }
+
+  private duplicateWindowMs(): number {
+    return this.limits.duplicateWindowMs ?? DEFAULT_DUPLICATE_WINDOW_MS;
+  }
+
+  private percent(fraction: number | undefined): string {
+    return `${((fraction ?? 0) * 100).toFixed(1)}%`;
+  }
+
+  /**
+   * Whole shares for equities, satoshi precision for crypto
+   */
+  private roundQuantity(symbol: string, quantity: number): number {
+    if (getMarketSessionForSymbol(symbol) === MARKET_SESSIONS.CRYPTO) {
+      return Math.floor(quantity * CRYPTO_QUANTITY_PRECISION) / CRYPTO_QUANTITY_PRECISION;
+    }
+    return Math.floor(quantity);
+  }
+}
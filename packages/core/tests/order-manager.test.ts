@@ -0,0 +1,132 @@
+/**
+ * Tests for the order lifecycle manager
+ */
+
+import { MockTradingProvider } from '../src/mocks/mock-trading-provider';
+import { OrderManager } from '../src/trading/order-manager';
+import { OrderEvent, OrderExecutionContext, OrderFillEvent } from '../src/interfaces/trading';
+import { Order } from '@jware-trader8/types';
+
+describe('OrderManager', () => {
+  let provider: MockTradingProvider;
+  let orders: OrderManager;
+  let events: OrderEvent[];
+
+  const limitBuy = (quantity: number, price: number = 100): OrderExecutionContext => ({
+    symbol: 'AAPL',
+    side: 'BUY',
+    quantity,
+    orderType: 'LIMIT',
+    price,
+    strategyName: 'Test'
+  });
+
+  /**
+   * Make the provider report an order as the test dictates instead of filling at random
+   */
+  const reportStatus = (order: Order, update: Partial<Order>) => {
+    jest.spyOn(provider, 'getOrderStatus').mockResolvedValueOnce({ ...order, ...update });
+  };
+
+  beforeEach(async () => {
+    provider = new MockTradingProvider({ name: 'mock', apiConfig: { apiKey: 'test' } });
+    await provider.connect();
+    orders = new OrderManager(provider, undefined, { pollIntervalMs: 1000, limitOrderTimeoutMs: 60 * 1000 });
+    events = [];
+    for (const type of ['order.submitted', 'order.partially_filled', 'order.filled', 'order.cancelled', 'order.rejected'] as const) {
+      orders.on(type, event => events.push(event));
+    }
+  });
+
+  afterEach(async () => {
+    orders.stopMonitoring();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    await provider.disconnect();
+  });
+
+  test('should track a market order filled on placement', async () => {
+    const order = await orders.submitOrder({ ...limitBuy(10), orderType: 'MARKET', price: undefined });
+
+    expect(order.status).toBe('FILLED');
+    expect(events.map(event => event.type)).toEqual(['order.submitted', 'order.filled']);
+    expect((events[1] as OrderFillEvent).fill).toEqual({ quantity: 10, price: order.averagePrice });
+    expect(orders.getPosition('AAPL')).toMatchObject({ quantity: 10, side: 'LONG', averagePrice: order.averagePrice });
+    expect(orders.getOpenOrders()).toEqual([]);
+  });
+
+  test('should follow partial fills through to filled and update the position from each fill', async () => {
+    const order = await orders.submitOrder(limitBuy(10));
+    expect(order.status).toBe('PENDING');
+
+    reportStatus(order, { status: 'PARTIALLY_FILLED', filledQuantity: 4, averagePrice: 100 });
+    await orders.refresh();
+    expect(orders.getPosition('AAPL')?.quantity).toBe(4);
+
+    reportStatus(order, { status: 'FILLED', filledQuantity: 10, averagePrice: 99.4 });
+    await orders.refresh();
+
+    const fills = events.filter(event => event.type !== 'order.submitted') as OrderFillEvent[];
+    expect(fills.map(event => [event.type, event.fill.quantity])).toEqual([
+      ['order.partially_filled', 4],
+      ['order.filled', 6]
+    ]);
+    // 6 shares at 99 bring the 10 share average to 99.4
+    expect(fills[1].fill.price).toBeCloseTo(99, 8);
+    expect(orders.getPosition('AAPL')).toMatchObject({ quantity: 10 });
+    expect(orders.getPosition('AAPL')?.averagePrice).toBeCloseTo(99.4, 8);
+    expect(orders.getOrders()[0].order).toMatchObject({ status: 'FILLED', filledQuantity: 10 });
+  });
+
+  test('should close the position on an exit fill', async () => {
+    await orders.submitOrder({ ...limitBuy(10), orderType: 'MARKET', price: undefined });
+    const entryPrice = orders.getPosition('AAPL')!.averagePrice;
+
+    const exit = await orders.submitOrder({ ...limitBuy(10, entryPrice + 5), side: 'SELL' });
+    reportStatus(exit, { status: 'FILLED', filledQuantity: 10, averagePrice: entryPrice + 5 });
+    await orders.refresh();
+
+    expect(orders.getPositions()).toEqual([]);
+  });
+
+  test('should ignore transitions out of a final status', async () => {
+    const order = await orders.submitOrder(limitBuy(10));
+    orders.handleOrderUpdate({ ...order, status: 'REJECTED' });
+    orders.handleOrderUpdate({ ...order, status: 'FILLED', filledQuantity: 10, averagePrice: 100 });
+
+    expect(events.map(event => event.type)).toEqual(['order.submitted', 'order.rejected']);
+    expect(orders.getOrders()[0].order.status).toBe('REJECTED');
+    expect(orders.getPositions()).toEqual([]);
+  });
+
+  test('should cancel limit orders that stay unfilled past the timeout', async () => {
+    jest.useFakeTimers({ now: Date.UTC(2024, 0, 2, 15, 0, 0) });
+    // The mock provider never fills pending orders at random with this
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    const order = await orders.submitOrder(limitBuy(10));
+    const cancel = jest.spyOn(provider, 'cancelOrder');
+    orders.startMonitoring();
+
+    await jest.advanceTimersByTimeAsync(30 * 1000);
+    expect(cancel).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(30 * 1000);
+
+    expect(cancel).toHaveBeenCalledWith(order.id);
+    const cancelled = events.find(event => event.type === 'order.cancelled');
+    expect(cancelled?.reason).toBe('Limit order unfilled after 60s');
+    expect(orders.getOpenOrders()).toEqual([]);
+  });
+
+  test('should keep running when a listener throws', async () => {
+    orders.on('order.filled', () => {
+      throw new Error('listener failed');
+    });
+    const remove = orders.on('order.filled', event => events.push(event));
+    remove();
+
+    await orders.submitOrder({ ...limitBuy(1), orderType: 'MARKET', price: undefined });
+
+    expect(events.filter(event => event.type === 'order.filled')).toHaveLength(1);
+  });
+});
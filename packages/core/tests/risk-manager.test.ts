@@ -0,0 +1,234 @@
+/**
+ * Tests for the pre-trade risk manager
+ */
+
+import { MockTradingProvider } from '../src/mocks/mock-trading-provider';
+import { RiskManager, RiskRejectedError } from '../src/trading/risk-manager';
+import { OrderManager } from '../src/trading/order-manager';
+import { OrderExecutionContext } from '../src/interfaces/trading';
+import { Quote } from '@jware-trader8/types';
+
+describe('RiskManager', () => {
+  let provider: MockTradingProvider;
+  let quote: Quote;
+  const quoteProvider = { getRealTimeQuote: async () => quote };
+
+  const buy = (quantity: number, overrides: Partial<OrderExecutionContext> = {}): OrderExecutionContext => ({
+    symbol: 'AAPL',
+    side: 'BUY',
+    quantity,
+    orderType: 'MARKET',
+    price: 150,
+    strategyName: 'Test',
+    ...overrides
+  });
+
+  beforeEach(async () => {
+    provider = new MockTradingProvider({ name: 'mock', apiConfig: { apiKey: 'test' } });
+    await provider.connect();
+    quote = { symbol: 'AAPL', bid: 149.9, ask: 150.1, last: 150, timestamp: new Date() };
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await provider.disconnect();
+  });
+
+  describe('Sizing', () => {
+    test('should approve orders within the limits', async () => {
+      const risk = new RiskManager(provider, { maxPositionSize: 0.25 });
+
+      const result = await risk.checkOrder(buy(10));
+
+      expect(result).toEqual({ approved: true, reasons: [], maxAllowedQuantity: 16, suggestedQuantity: 10 });
+    });
+
+    test('should suggest a quantity within the maximum position size', async () => {
+      const risk = new RiskManager(provider, { maxPositionSize: 0.25 });
+
+      const result = await risk.checkOrder(buy(30));
+
+      expect(result.approved).toBe(false);
+      expect(result.reasons).toEqual(['Position would exceed 25.0% of equity']);
+      // 2500 of 10000 equity at 150
+      expect(result.suggestedQuantity).toBe(16);
+    });
+
+    test('should count the existing position against the maximum position size', async () => {
+      provider.addMockPosition('AAPL', 10, 150);
+      const risk = new RiskManager(provider, { maxPositionSize: 0.25 });
+
+      // Equity 11500, so 2875 allowed in AAPL of which 1500 is held
+      const result = await risk.checkOrder(buy(10));
+
+      expect(result.approved).toBe(false);
+      expect(result.suggestedQuantity).toBe(9);
+    });
+
+    test('should reject orders beyond buying power', async () => {
+      const risk = new RiskManager(provider, {});
+
+      const result = await risk.checkOrder(buy(100));
+
+      expect(result.reasons).toEqual(['Order value 15000.00 exceeds buying power 8000.00']);
+      expect(result.suggestedQuantity).toBe(53);
+    });
+
+    test('should keep fractional crypto quantities', async () => {
+      const risk = new RiskManager(provider, { maxPositionSize: 0.1 });
+
+      const result = await risk.checkOrder(buy(1, { symbol: 'BTCUSD', price: 60000 }));
+
+      expect(result.suggestedQuantity).toBeCloseTo(0.01666666, 8);
+    });
+  });
+
+  describe('Account limits', () => {
+    test('should cap concurrent positions but still allow exits', async () => {
+      provider.addMockPosition('AAPL', 10, 150);
+      provider.addMockPosition('TSLA', 5, 250);
+      const risk = new RiskManager(provider, { maxPositions: 2 });
+
+      const entry = await risk.checkOrder(buy(1, { symbol: 'SPY', price: 400 }));
+      const exit = await risk.checkOrder(buy(10, { side: 'SELL' }));
+
+      expect(entry.reasons).toEqual(['Maximum of 2 concurrent positions reached']);
+      expect(entry.suggestedQuantity).toBe(0);
+      expect(exit.approved).toBe(true);
+    });
+
+    test('should stop entries at the daily loss limit', async () => {
+      const risk = new RiskManager(provider, { dailyLossLimit: 0.02 });
+      await risk.checkOrder(buy(1));
+
+      provider.setMockBalance(9700);
+      const result = await risk.checkOrder(buy(1));
+
+      expect(result.approved).toBe(false);
+      expect(result.reasons).toEqual(['Daily loss of 3.0% reached the 2.0% limit']);
+    });
+
+    test('should measure the daily loss from equity sampled before the first order', async () => {
+      jest.useFakeTimers({ now: new Date('2024-03-04T23:59:30Z'), doNotFake: ['nextTick', 'setImmediate'] });
+      const risk = new RiskManager(provider, { dailyLossLimit: 0.02 });
+      await risk.startMonitoring(60 * 1000);
+
+      // The new day's baseline is sampled at 10000, before the morning's losses
+      jest.advanceTimersByTime(60 * 1000);
+      await new Promise(resolve => setImmediate(resolve));
+      provider.setMockBalance(9700);
+      const result = await risk.checkOrder(buy(1));
+      risk.stopMonitoring();
+
+      expect(result.reasons).toEqual(['Daily loss of 3.0% reached the 2.0% limit']);
+    });
+
+    test('should only warn at the daily loss limit when stopOnLossLimit is off', async () => {
+      const risk = new RiskManager(provider, { dailyLossLimit: 0.02, stopOnLossLimit: false });
+      await risk.checkOrder(buy(1));
+
+      provider.setMockBalance(9700);
+      const result = await risk.checkOrder(buy(1));
+
+      expect(result.approved).toBe(true);
+      expect(result.reasons).toHaveLength(1);
+    });
+
+    test('should latch the drawdown kill switch until it is reset', async () => {
+      const risk = new RiskManager(provider, { maxDrawdown: 0.1 });
+      provider.addMockPosition('AAPL', 10, 150);
+      await risk.checkOrder(buy(1));
+
+      provider.setMockBalance(8000);
+      expect((await risk.checkOrder(buy(1))).reasons[0]).toMatch(/^Drawdown kill switch engaged/);
+      expect(risk.isKillSwitchEngaged()).toBe(true);
+
+      // Recovering does not release the switch, but exits still pass
+      provider.setMockBalance(10000);
+      expect((await risk.checkOrder(buy(1))).approved).toBe(false);
+      expect((await risk.checkOrder(buy(10, { side: 'SELL' }))).approved).toBe(true);
+
+      risk.resetKillSwitch();
+      expect((await risk.checkOrder(buy(1))).approved).toBe(true);
+    });
+  });
+
+  describe('Order flow', () => {
+    test('should enforce a per-symbol cooldown between trades', async () => {
+      jest.useFakeTimers({ now: Date.UTC(2024, 0, 2, 15, 0, 0) });
+      const risk = new RiskManager(provider, { minTimeBetweenTrades: 30 });
+      risk.recordOrder(buy(1));
+
+      jest.setSystemTime(Date.UTC(2024, 0, 2, 15, 10, 0));
+      const early = await risk.checkOrder(buy(2));
+      const otherSymbol = await risk.checkOrder(buy(2, { symbol: 'MSFT' }));
+
+      jest.setSystemTime(Date.UTC(2024, 0, 2, 15, 30, 0));
+      const later = await risk.checkOrder(buy(2));
+
+      expect(early.reasons).toEqual(['Cooldown: next AAPL entry allowed at 2024-01-02T15:30:00.000Z']);
+      expect(otherSymbol.approved).toBe(true);
+      expect(later.approved).toBe(true);
+    });
+
+    test('should measure cooldowns and trading days on the given clock', async () => {
+      let now = Date.UTC(2024, 0, 2, 15, 0, 0);
+      const risk = new RiskManager(provider, { minTimeBetweenTrades: 30, dailyLossLimit: 0.02 }, undefined, () => now);
+      await risk.checkOrder(buy(1));
+      risk.recordOrder(buy(1));
+
+      now = Date.UTC(2024, 0, 2, 15, 30, 0);
+      const afterCooldown = await risk.checkOrder(buy(1));
+
+      // A loss on the next replayed day is measured from that day's equity
+      provider.setMockBalance(9700);
+      now = Date.UTC(2024, 0, 3, 15, 0, 0);
+      const nextDay = await risk.checkOrder(buy(1));
+
+      expect(afterCooldown.approved).toBe(true);
+      expect(nextDay.approved).toBe(true);
+    });
+
+    test('should reject limit prices outside the band around the last quote', async () => {
+      const risk = new RiskManager(provider, { priceBand: 0.05 }, quoteProvider);
+
+      const fatFinger = await risk.checkOrder(buy(1, { orderType: 'LIMIT', price: 170 }));
+      const near = await risk.checkOrder(buy(1, { orderType: 'LIMIT', price: 152 }));
+
+      expect(fatFinger.reasons).toEqual(['Price 170 is 13.3% from the last quote 150, beyond the 5.0% band']);
+      expect(fatFinger.suggestedQuantity).toBe(0);
+      expect(near.approved).toBe(true);
+    });
+
+    test('should suppress repeated and still-open orders', async () => {
+      const risk = new RiskManager(provider, {});
+      risk.recordOrder(buy(5));
+
+      const repeated = await risk.checkOrder(buy(5));
+      const different = await risk.checkOrder(buy(6));
+
+      expect(repeated.reasons[0]).toMatch(/^Duplicate order: same BUY 5 AAPL/);
+      expect(different.approved).toBe(true);
+
+      const pending = await provider.placeBuyOrder('MSFT', 1, 'LIMIT', 300);
+      const open = await risk.checkOrder(buy(1, { symbol: 'MSFT', orderType: 'LIMIT', price: 300 }));
+      expect(open.reasons).toEqual([`Duplicate order: BUY order ${pending.id} for MSFT is still open`]);
+    });
+  });
+
+  describe('OrderManager integration', () => {
+    test('should place resized orders and throw on rejections', async () => {
+      const risk = new RiskManager(provider, { maxPositionSize: 0.25, maxPositions: 1 });
+      const orders = new OrderManager(provider, risk);
+
+      const order = await orders.submitOrder(buy(30));
+      expect(order.quantity).toBe(16);
+      expect(orders.getOrders()[0].context.quantity).toBe(16);
+
+      const rejected = orders.submitOrder(buy(1, { symbol: 'MSFT', price: 300 }));
+      await expect(rejected).rejects.toThrow('Order rejected by risk checks: Maximum of 1 concurrent positions reached');
+      await expect(rejected).rejects.toBeInstanceOf(RiskRejectedError);
+      await expect(rejected).rejects.toHaveProperty('riskCheck.approved', false);
+    });
+  });
+});
@@ -290,4 +290,136 @@ describe('ITradingProvider Interface Tests', () => {
     
     expect(['PENDING', 'FILLED']).toContain(finalStatus);
   });
-});
\ No newline at end of file
+
+  describe('placeOrder', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('should fill a market bracket entry and fill one leg after it', async () => {
+      await mockProvider.connect();
+
+      const order = await mockProvider.placeOrder({
+        symbol: 'AAPL',
+        side: 'BUY',
+        quantity: 10,
+        type: 'MARKET',
+        clientOrderId: 'bracket-1',
+        orderClass: 'BRACKET',
+        takeProfit: { limitPrice: 200 },
+        stopLoss: { stopPrice: 100 }
+      });
+
+      expect(order).toMatchObject({ status: 'FILLED', orderClass: 'BRACKET', clientOrderId: 'bracket-1', timeInForce: 'DAY' });
+      expect(order.legs?.map(leg => [leg.side, leg.type, leg.status])).toEqual([
+        ['SELL', 'LIMIT', 'PENDING'],
+        ['SELL', 'STOP', 'PENDING']
+      ]);
+
+      // Filling the take-profit cancels the stop-loss and closes the position
+      jest.spyOn(Math, 'random').mockReturnValue(0.9);
+      const [takeProfit, stopLoss] = order.legs!;
+      expect((await mockProvider.getOrderStatus(takeProfit.id)).status).toBe('FILLED');
+      expect((await mockProvider.getOrderStatus(stopLoss.id)).status).toBe('CANCELLED');
+      expect(await mockProvider.getPositions()).toEqual([]);
+    });
+
+    test('should hold bracket legs until a resting entry fills', async () => {
+      await mockProvider.connect();
+      jest.spyOn(Math, 'random').mockReturnValue(0.9);
+
+      const order = await mockProvider.placeOrder({
+        symbol: 'AAPL',
+        side: 'BUY',
+        quantity: 10,
+        type: 'LIMIT',
+        limitPrice: 150,
+        orderClass: 'BRACKET',
+        takeProfit: { limitPrice: 200 },
+        stopLoss: { stopPrice: 100 }
+      });
+
+      expect((await mockProvider.getOrderStatus(order.legs![0].id)).status).toBe('PENDING');
+      expect((await mockProvider.getOrderStatus(order.id)).status).toBe('FILLED');
+      expect((await mockProvider.getOrderStatus(order.legs![0].id)).status).toBe('FILLED');
+    });
+
+    test('should cancel both sides of an OCO pair together', async () => {
+      await mockProvider.connect();
+      (mockProvider as MockTradingProvider).addMockPosition('AAPL', 10, 150);
+
+      const order = await mockProvider.placeOrder({
+        symbol: 'AAPL',
+        side: 'SELL',
+        quantity: 10,
+        type: 'LIMIT',
+        orderClass: 'OCO',
+        takeProfit: { limitPrice: 170 },
+        stopLoss: { stopPrice: 140, limitPrice: 139 }
+      });
+
+      expect(order).toMatchObject({ type: 'LIMIT', price: 170, orderClass: 'OCO' });
+      expect(order.legs).toEqual([expect.objectContaining({ type: 'STOP_LIMIT', stopPrice: 140, price: 139 })]);
+
+      await mockProvider.cancelOrder(order.id);
+      expect((await mockProvider.getOrderStatus(order.legs![0].id)).status).toBe('CANCELLED');
+    });
+
+    test('should start trailing stops at the trail distance from the market', async () => {
+      await mockProvider.connect();
+      (mockProvider as MockTradingProvider).addMockPosition('SPY', 5, 400);
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      const byAmount = await mockProvider.placeOrder({ symbol: 'SPY', side: 'SELL', quantity: 5, type: 'TRAILING_STOP', trailPrice: 10 });
+      const byPercent = await mockProvider.placeOrder({ symbol: 'SPY', side: 'SELL', quantity: 5, type: 'TRAILING_STOP', trailPercent: 5 });
+
+      expect(byAmount).toMatchObject({ status: 'PENDING', stopPrice: 390, trailPrice: 10 });
+      expect(byPercent).toMatchObject({ stopPrice: 380, trailPercent: 5 });
+    });
+
+    test('should move trailing stops after the market on each status check', async () => {
+      await mockProvider.connect();
+      (mockProvider as MockTradingProvider).addMockPosition('SPY', 5, 400);
+      const random = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      const order = await mockProvider.placeOrder({ symbol: 'SPY', side: 'SELL', quantity: 5, type: 'TRAILING_STOP', trailPrice: 10 });
+
+      // The market rises to 408, then falls back to 392 without filling the order
+      random.mockReturnValueOnce(1);
+      const raised = await mockProvider.getOrderStatus(order.id);
+      random.mockReturnValueOnce(0);
+      const held = await mockProvider.getOrderStatus(order.id);
+
+      expect(raised).toMatchObject({ status: 'PENDING', stopPrice: 398 });
+      expect(held).toMatchObject({ status: 'PENDING', stopPrice: 398 });
+    });
+
+    test('should cancel IOC orders that cannot fill and reject reused client order IDs', async () => {
+      await mockProvider.connect();
+
+      const ioc = await mockProvider.placeOrder({
+        symbol: 'AAPL',
+        side: 'BUY',
+        quantity: 1,
+        type: 'LIMIT',
+        limitPrice: 100,
+        timeInForce: 'IOC',
+        clientOrderId: 'ioc-1'
+      });
+
+      expect(ioc.status).toBe('CANCELLED');
+      await expect(mockProvider.placeOrder({
+        symbol: 'AAPL',
+        side: 'BUY',
+        quantity: 1,
+        type: 'MARKET',
+        clientOrderId: 'ioc-1'
+      })).rejects.toThrow('Client order ID ioc-1 is already in use');
+      await expect(mockProvider.placeOrder({
+        symbol: 'AAPL',
+        side: 'BUY',
+        quantity: 1,
+        type: 'STOP'
+      })).rejects.toThrow('Invalid order: STOP orders require a stop price');
+    });
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * OHLCV CSV parsing
+ * Reads the bar exports produced by common brokers, exchanges and data vendors into OHLCV bars.
+ */
+
+import { OHLCV } from '@jware-trader8/types';
+
+/**
+ * Bar fields that can be mapped to CSV columns
+ * `date` and `time` are combined when a file splits the timestamp over two columns.
+ */
+export type OHLCVCsvField =
+  | 'timestamp'
+  | 'date'
+  | 'time'
+  | 'open'
+  | 'high'
+  | 'low'
+  | 'close'
+  | 'volume'
+  | 'vwap'
+  | 'tradeCount';
+
+export const OHLCV_CSV_FIELDS: OHLCVCsvField[] = [
+  'timestamp', 'date', 'time', 'open', 'high', 'low', 'close', 'volume', 'vwap', 'tradeCount'
+];
+
+export interface OHLCVCsvOptions {
+  /** Header name for each field; unmapped fields are matched against common header names */
+  columns?: Partial<Record<OHLCVCsvField, string>>;
+  /** Field delimiter; detected from the header when omitted */
+  delimiter?: string;
+}
+
+export interface OHLCVCsvResult {
+  /** Parsed bars, oldest first, one per timestamp */
+  bars: OHLCV[];
+  /** Header each field was read from */
+  columns: Partial<Record<OHLCVCsvField, string>>;
+  /** Rows without prices, such as the null rows some vendors emit for holidays */
+  skippedRows: number;
+}
+
+// Lower-cased header names recognised for each field, in order of preference
+const HEADER_ALIASES: Record<OHLCVCsvField, string[]> = {
+  timestamp: ['timestamp', 'datetime', 'date/time', 'date time', 'time', 'open time', 'unix', 't'],
+  date: ['date', 'day'],
+  time: ['time'],
+  open: ['open', 'o'],
+  high: ['high', 'h'],
+  low: ['low', 'l'],
+  close: ['close', 'c', 'last', 'price'],
+  volume: ['volume', 'vol', 'v', 'tick volume', 'tickvol'],
+  vwap: ['vwap', 'vw'],
+  tradeCount: ['trades', 'trade count', 'trade_count', 'number of trades', 'n']
+};
+
+const REQUIRED_FIELDS: OHLCVCsvField[] = ['open', 'high', 'low', 'close'];
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+const EMPTY_VALUES = new Set(['', 'null', 'nan', 'n/a', '-']);
+
+/**
+ * Parse CSV content into OHLCV bars
+ */
+export function parseOHLCVCsv(content: string, options: OHLCVCsvOptions = {}): OHLCVCsvResult {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const headerIndex = lines.findIndex(line => line.trim() !== '');
+  if (headerIndex === -1) {
+    throw new Error('CSV file is empty');
+  }
+
+  const delimiter = options.delimiter ?? detectDelimiter(lines[headerIndex]);
+  const headers = splitCsvLine(lines[headerIndex], delimiter).map(header => header.trim());
+  const indexes = resolveColumns(headers, options.columns || {});
+
+  const columns: Partial<Record<OHLCVCsvField, string>> = {};
+  (Object.keys(indexes) as OHLCVCsvField[]).forEach(field => {
+    columns[field] = headers[indexes[field]!];
+  });
+
+  const barsByTimestamp = new Map<number, OHLCV>();
+  let skippedRows = 0;
+
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (lines[i].trim() === '') {
+      continue;
+    }
+
+    const lineNumber = i + 1;
+    const values = splitCsvLine(lines[i], delimiter);
+    const read = (field: OHLCVCsvField): string | undefined =>
+      indexes[field] === undefined ? undefined : values[indexes[field]!]?.trim();
+
+    if (REQUIRED_FIELDS.some(field => EMPTY_VALUES.has((read(field) ?? '').toLowerCase()))) {
+      skippedRows++;
+      continue;
+    }
+
+    const rawTimestamp = indexes.timestamp !== undefined
+      ? read('timestamp')
+      : [read('date'), read('time')].filter(Boolean).join(' ');
+    const timestamp = parseTimestamp(rawTimestamp || '', lineNumber);
+
+    const bar: OHLCV = {
+      timestamp,
+      open: parseNumber(read('open'), 'open', lineNumber),
+      high: parseNumber(read('high'), 'high', lineNumber),
+      low: parseNumber(read('low'), 'low', lineNumber),
+      close: parseNumber(read('close'), 'close', lineNumber),
+      volume: indexes.volume !== undefined ? parseNumber(read('volume'), 'volume', lineNumber) : 0
+    };
+
+    const vwap = read('vwap');
+    if (vwap !== undefined && !EMPTY_VALUES.has(vwap.toLowerCase())) {
+      bar.vwap = parseNumber(vwap, 'vwap', lineNumber);
+    }
+    const tradeCount = read('tradeCount');
+    if (tradeCount !== undefined && !EMPTY_VALUES.has(tradeCount.toLowerCase())) {
+      bar.tradeCount = parseNumber(tradeCount, 'tradeCount', lineNumber);
+    }
+
+    // Later rows win, matching how the store upserts
+    barsByTimestamp.set(timestamp.getTime(), bar);
+  }
+
+  const bars = Array.from(barsByTimestamp.values())
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  return { bars, columns, skippedRows };
+}
+
+/**
+ * Parse a timestamp as ISO 8601, a dotted or slashed year-first date, or unix seconds/milliseconds
+ * Dates and times without a zone are read as UTC so imports do not depend on the machine's timezone.
+ */
+export function parseTimestamp(value: string, lineNumber?: number): Date {
+  const trimmed = value.trim();
+  let date: Date;
+
+  if (/^-?\d+(\.\d+)?$/.test(trimmed) && !/^\d{8}$/.test(trimmed)) {
+    const numeric = Number(trimmed);
+    // Seconds until the year 5138, then milliseconds, then microseconds
+    const milliseconds = Math.abs(numeric) < 1e11 ? numeric * 1000
+      : Math.abs(numeric) < 1e14 ? numeric
+        : numeric / 1000;
+    date = new Date(milliseconds);
+  } else {
+    const normalized = trimmed
+      .replace(/^(\d{4})(\d{2})(\d{2})(?=$|[ T])/, '$1-$2-$3')
+      .replace(/^(\d{4})[./](\d{2})[./](\d{2})/, '$1-$2-$3')
+      .replace(/^(\d{4}-\d{2}-\d{2}) +/, '$1T');
+    const hasZone = /(Z|[+-]\d{2}:?\d{2})$/i.test(normalized);
+    const isIsoLike = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?$/.test(normalized);
+
+    date = isIsoLike && !hasZone
+      ? new Date(normalized.length === 10 ? `${normalized}T00:00:00Z` : `${normalized}Z`)
+      : new Date(normalized);
+  }
+
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid timestamp "${value}"${lineNumber ? ` on line ${lineNumber}` : ''}`);
+  }
+  return date;
+}
+
+/**
+ * Private helper functions
+ */
+
+function detectDelimiter(headerLine: string): string {
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const count = headerLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// Splits one line, honouring double-quoted fields with "" escapes
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const values: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (line.startsWith(delimiter, i)) {
+      values.push(current);
+      current = '';
+      i += delimiter.length - 1;
+    } else {
+      current += char;
+    }
+  }
+
+  values.push(current);
+  return values;
+}
+
+function resolveColumns(
+  headers: string[],
+  mapping: Partial<Record<OHLCVCsvField, string>>
+): Partial<Record<OHLCVCsvField, number>> {
+  const normalized = headers.map(header => header.toLowerCase());
+  const indexes: Partial<Record<OHLCVCsvField, number>> = {};
+  const used = new Set<number>();
+
+  // Explicit mappings first, so auto-detection cannot claim their columns
+  for (const field of OHLCV_CSV_FIELDS) {
+    const header = mapping[field];
+    if (header === undefined) {
+      continue;
+    }
+    const index = normalized.indexOf(header.trim().toLowerCase());
+    if (index === -1) {
+      throw new Error(`Column "${header}" mapped to ${field} not found in CSV header`);
+    }
+    indexes[field] = index;
+    used.add(index);
+  }
+
+  const detect = (field: OHLCVCsvField): void => {
+    if (indexes[field] !== undefined) {
+      return;
+    }
+    for (const alias of HEADER_ALIASES[field]) {
+      const index = normalized.indexOf(alias);
+      if (index !== -1 && !used.has(index)) {
+        indexes[field] = index;
+        used.add(index);
+        return;
+      }
+    }
+  };
+
+  // A separate date column means a time column holds only the time of day
+  const hasSplitTimestamp = indexes.timestamp === undefined
+    && (indexes.date !== undefined || normalized.includes('date'))
+    && !HEADER_ALIASES.timestamp.some(alias => alias !== 'time' && normalized.includes(alias));
+
+  if (hasSplitTimestamp) {
+    detect('date');
+    detect('time');
+  } else {
+    detect('timestamp');
+  }
+  (['open', 'high', 'low', 'close', 'volume', 'vwap', 'tradeCount'] as OHLCVCsvField[]).forEach(detect);
+
+  if (indexes.timestamp === undefined && indexes.date === undefined) {
+    throw new Error('CSV has no timestamp column; map one with timestamp=<header>');
+  }
+  const missing = REQUIRED_FIELDS.filter(field => indexes[field] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`CSV is missing ${missing.join(', ')} column(s); map them with <field>=<header>`);
+  }
+
+  return indexes;
+}
+
+function parseNumber(value: string | undefined, field: string, lineNumber: number): number {
+  const parsed = Number(value);
+  if (value === undefined || value === '' || !isFinite(parsed)) {
+    throw new Error(`Invalid ${field} value "${value ?? ''}" on line ${lineNumber}`);
+  }
+  return parsed;
+}
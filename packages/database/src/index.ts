@@ -7,9 +7,16 @@
 // Export stores
 export { ConfigStore } from './stores/config-store';
 export { TradeStore } from './stores/trade-store';
+export { BacktestStore } from './stores/backtest-store';
+export { OHLCVStore } from './stores/ohlcv-store';
+export { SimulatedAccountStore } from './stores/simulated-account-store';
+
+// Export importers
+export { parseOHLCVCsv, parseTimestamp, OHLCV_CSV_FIELDS } from './import/ohlcv-csv';
+export type { OHLCVCsvField, OHLCVCsvOptions, OHLCVCsvResult } from './import/ohlcv-csv';
 
 // Export migrations (to be implemented)
 // export { DatabaseMigrations } from './migrations/schema';
 
 // Export interfaces
-export type { IConfigStore, ITradeStore } from '@jware-trader8/types';
\ No newline at end of file
+export type { IConfigStore, ITradeStore, IBacktestStore, IOHLCVStore, ISimulatedAccountStore } from '@jware-trader8/types';
\ No newline at end of file
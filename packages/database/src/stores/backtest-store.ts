@@ -0,0 +1,409 @@
+/**
+ * Backtest run storage
+ * Keeps each run's configuration, metrics, trades and a downsampled equity curve.
+ */
+
+import Database from 'better-sqlite3';
+import {
+  IBacktestStore,
+  DatabaseConfig,
+  BacktestResult,
+  BacktestRunFilter,
+  BacktestRunSummary,
+  EquityCurvePoint,
+  PerformanceMetrics,
+  SaveBacktestOptions,
+  StoredBacktestRun,
+  Trade
+} from '@jware-trader8/types';
+import { Logger, generateId, hash } from '@jware-trader8/utils';
+
+const DEFAULT_MAX_EQUITY_POINTS = 500;
+const NON_FINITE_NUMBERS = new Set(['Infinity', '-Infinity', 'NaN']);
+
+/**
+ * Backtest store implementation with SQLite backend
+ */
+export class BacktestStore implements IBacktestStore {
+  private db: Database.Database;
+  private config: Omit<DatabaseConfig, 'encryptionKey'>;
+  private logger: Logger;
+  private isInitialized: boolean = false;
+
+  // Prepared statements for performance
+  private statements: {
+    saveRun?: Database.Statement;
+    saveTrade?: Database.Statement;
+    getRun?: Database.Statement;
+    getTrades?: Database.Statement;
+    deleteRun?: Database.Statement;
+    deleteTrades?: Database.Statement;
+  } = {};
+
+  /**
+   * @param config - Database settings; runs are not encrypted, so no key is needed
+   */
+  constructor(config: Omit<DatabaseConfig, 'encryptionKey'>) {
+    this.config = config;
+    this.logger = new Logger({
+      level: 'info',
+      console: true,
+      format: 'text'
+    });
+
+    // Initialize database connection
+    this.db = new Database(config.path, {
+      timeout: config.timeout || 5000,
+      verbose: process.env.NODE_ENV === 'development' ? console.log : undefined
+    });
+  }
+
+  /**
+   * Initialize the database schema
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      if (this.config.enableWAL) {
+        this.db.pragma('journal_mode = WAL');
+      }
+      this.db.pragma('synchronous = NORMAL');
+
+      this.setupTables();
+      this.prepareStatements();
+
+      this.isInitialized = true;
+    } catch (error) {
+      this.logger.error('Failed to initialize backtest database', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Save a backtest run with the strategy source it ran
+   */
+  async saveBacktest(
+    result: BacktestResult,
+    strategySource: string,
+    options: SaveBacktestOptions = {}
+  ): Promise<string> {
+    this.ensureInitialized();
+
+    const id = generateId('bt');
+    const maxEquityPoints = options.maxEquityPoints ?? DEFAULT_MAX_EQUITY_POINTS;
+    if (!Number.isInteger(maxEquityPoints) || maxEquityPoints < 2) {
+      throw new Error('maxEquityPoints must be an integer of at least 2');
+    }
+
+    // Benchmark bars can be as large as the data itself and are not needed to review a run
+    const { benchmarkData, ...config } = result.config;
+    const summary = result.summary;
+
+    try {
+      this.db.transaction(() => {
+        this.statements.saveRun!.run({
+          id,
+          strategy_name: result.metadata.strategyName,
+          strategy_hash: hash(strategySource),
+          symbols: JSON.stringify(result.metadata.symbols),
+          timeframe: options.timeframe || null,
+          start_date: result.metadata.startDate.toISOString(),
+          end_date: result.metadata.endDate.toISOString(),
+          initial_capital: config.portfolio.initialCash,
+          total_return: summary.totalReturn,
+          sharpe_ratio: summary.sharpeRatio,
+          max_drawdown: summary.maxDrawdown,
+          total_trades: summary.totalTrades,
+          config: JSON.stringify(config),
+          summary: this.serializeSummary(summary),
+          equity_curve: JSON.stringify(this.downsample(result.equityCurve, maxEquityPoints)),
+          created_at: new Date().toISOString()
+        });
+
+        result.trades.forEach((trade, index) => {
+          this.statements.saveTrade!.run({
+            run_id: id,
+            trade_index: index,
+            id: trade.id,
+            symbol: trade.symbol,
+            side: trade.side,
+            quantity: trade.quantity,
+            entry_price: trade.entryPrice,
+            exit_price: trade.exitPrice ?? null,
+            entry_time: trade.entryTime.toISOString(),
+            exit_time: trade.exitTime?.toISOString() || null,
+            pnl: trade.pnl ?? null,
+            commission: trade.commission,
+            borrow_fees: trade.borrowFees ?? null,
+            entry_reason: trade.entryReason || null,
+            exit_reason: trade.exitReason || null,
+            status: trade.status
+          });
+        });
+      })();
+
+      this.logger.info('Backtest run saved', {
+        id,
+        strategy: result.metadata.strategyName,
+        trades: result.trades.length
+      });
+
+      return id;
+    } catch (error) {
+      this.logger.error('Failed to save backtest run', {
+        strategy: result.metadata.strategyName,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List saved runs, newest first
+   */
+  async listBacktests(filter?: BacktestRunFilter): Promise<BacktestRunSummary[]> {
+    this.ensureInitialized();
+
+    let query = `
+      SELECT id, strategy_name, strategy_hash, symbols, timeframe, start_date, end_date,
+        initial_capital, summary, created_at
+      FROM backtest_runs
+    `;
+    const conditions: string[] = [];
+    const params: any = {};
+
+    if (filter?.strategyName) {
+      conditions.push('strategy_name = @strategyName');
+      params.strategyName = filter.strategyName;
+    }
+    if (filter?.symbol) {
+      conditions.push('EXISTS (SELECT 1 FROM json_each(symbols) WHERE json_each.value = @symbol)');
+      params.symbol = filter.symbol.toUpperCase();
+    }
+
+    if (conditions.length > 0) {
+      query += ' WHERE ' + conditions.join(' AND ');
+    }
+    query += ' ORDER BY created_at DESC, rowid DESC';
+
+    if (filter?.limit) {
+      query += ' LIMIT @limit';
+      params.limit = filter.limit;
+    }
+
+    const rows = this.db.prepare(query).all(params) as any[];
+    return rows.map(row => this.mapRowToSummary(row));
+  }
+
+  /**
+   * Get a saved run with its trades and equity curve
+   */
+  async getBacktest(id: string): Promise<StoredBacktestRun | null> {
+    this.ensureInitialized();
+
+    const row = this.statements.getRun!.get({ id }) as any;
+    if (!row) {
+      return null;
+    }
+
+    const config = JSON.parse(row.config);
+    config.startDate = new Date(config.startDate);
+    config.endDate = new Date(config.endDate);
+
+    const equityCurve = (JSON.parse(row.equity_curve) as any[]).map(point => ({
+      ...point,
+      timestamp: new Date(point.timestamp)
+    }));
+
+    const trades = (this.statements.getTrades!.all({ id }) as any[]).map(tradeRow => this.mapRowToTrade(tradeRow));
+
+    return {
+      ...this.mapRowToSummary(row),
+      config,
+      trades,
+      equityCurve
+    };
+  }
+
+  /**
+   * Delete a saved run and its trades
+   */
+  async deleteBacktest(id: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    let deleted = 0;
+    this.db.transaction(() => {
+      this.statements.deleteTrades!.run({ id });
+      deleted = this.statements.deleteRun!.run({ id }).changes;
+    })();
+
+    if (deleted > 0) {
+      this.logger.info('Backtest run deleted', { id });
+    }
+    return deleted > 0;
+  }
+
+  /**
+   * Close database connection
+   */
+  async close(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+    }
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private setupTables(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS backtest_runs (
+        id TEXT PRIMARY KEY,
+        strategy_name TEXT NOT NULL,
+        strategy_hash TEXT NOT NULL,
+        symbols TEXT NOT NULL,
+        timeframe TEXT,
+        start_date DATETIME NOT NULL,
+        end_date DATETIME NOT NULL,
+        initial_capital REAL NOT NULL,
+        total_return REAL NOT NULL,
+        sharpe_ratio REAL NOT NULL,
+        max_drawdown REAL NOT NULL,
+        total_trades INTEGER NOT NULL,
+        config TEXT NOT NULL,
+        summary TEXT NOT NULL,
+        equity_curve TEXT NOT NULL,
+        created_at DATETIME NOT NULL
+      )
+    `);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS backtest_trades (
+        run_id TEXT NOT NULL,
+        trade_index INTEGER NOT NULL,
+        id TEXT NOT NULL,
+        symbol TEXT NOT NULL,
+        side TEXT NOT NULL,
+        quantity REAL NOT NULL,
+        entry_price REAL NOT NULL,
+        exit_price REAL,
+        entry_time DATETIME NOT NULL,
+        exit_time DATETIME,
+        pnl REAL,
+        commission REAL NOT NULL,
+        borrow_fees REAL,
+        entry_reason TEXT,
+        exit_reason TEXT,
+        status TEXT NOT NULL,
+        PRIMARY KEY (run_id, trade_index)
+      )
+    `);
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_backtest_runs_created_at ON backtest_runs(created_at);
+      CREATE INDEX IF NOT EXISTS idx_backtest_runs_strategy ON backtest_runs(strategy_name);
+    `);
+  }
+
+  private prepareStatements(): void {
+    this.statements.saveRun = this.db.prepare(`
+      INSERT INTO backtest_runs (
+        id, strategy_name, strategy_hash, symbols, timeframe, start_date, end_date, initial_capital,
+        total_return, sharpe_ratio, max_drawdown, total_trades, config, summary, equity_curve, created_at
+      ) VALUES (
+        @id, @strategy_name, @strategy_hash, @symbols, @timeframe, @start_date, @end_date, @initial_capital,
+        @total_return, @sharpe_ratio, @max_drawdown, @total_trades, @config, @summary, @equity_curve, @created_at
+      )
+    `);
+
+    this.statements.saveTrade = this.db.prepare(`
+      INSERT INTO backtest_trades (
+        run_id, trade_index, id, symbol, side, quantity, entry_price, exit_price, entry_time, exit_time,
+        pnl, commission, borrow_fees, entry_reason, exit_reason, status
+      ) VALUES (
+        @run_id, @trade_index, @id, @symbol, @side, @quantity, @entry_price, @exit_price, @entry_time, @exit_time,
+        @pnl, @commission, @borrow_fees, @entry_reason, @exit_reason, @status
+      )
+    `);
+
+    this.statements.getRun = this.db.prepare('SELECT * FROM backtest_runs WHERE id = @id');
+    this.statements.getTrades = this.db.prepare(
+      'SELECT * FROM backtest_trades WHERE run_id = @id ORDER BY trade_index'
+    );
+    this.statements.deleteRun = this.db.prepare('DELETE FROM backtest_runs WHERE id = @id');
+    this.statements.deleteTrades = this.db.prepare('DELETE FROM backtest_trades WHERE run_id = @id');
+  }
+
+  /**
+   * Keep evenly spaced points, always including the first and last
+   */
+  private downsample(equityCurve: EquityCurvePoint[], maxPoints: number): EquityCurvePoint[] {
+    if (equityCurve.length <= maxPoints) {
+      return equityCurve;
+    }
+
+    const step = (equityCurve.length - 1) / (maxPoints - 1);
+    return Array.from({ length: maxPoints }, (_, i) => equityCurve[Math.round(i * step)]);
+  }
+
+  /**
+   * JSON turns Infinity and NaN into null, so ratios without losses are saved as strings
+   */
+  private serializeSummary(summary: PerformanceMetrics): string {
+    return JSON.stringify(summary, (_key, value) =>
+      typeof value === 'number' && !Number.isFinite(value) ? String(value) : value
+    );
+  }
+
+  private parseSummary(json: string): PerformanceMetrics {
+    return JSON.parse(json, (_key, value) =>
+      typeof value === 'string' && NON_FINITE_NUMBERS.has(value) ? Number(value) : value
+    );
+  }
+
+  private mapRowToSummary(row: any): BacktestRunSummary {
+    return {
+      id: row.id,
+      strategyName: row.strategy_name,
+      strategyHash: row.strategy_hash,
+      symbols: JSON.parse(row.symbols),
+      timeframe: row.timeframe || undefined,
+      startDate: new Date(row.start_date),
+      endDate: new Date(row.end_date),
+      initialCapital: row.initial_capital,
+      summary: this.parseSummary(row.summary),
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  private mapRowToTrade(row: any): Trade {
+    return {
+      id: row.id,
+      symbol: row.symbol,
+      side: row.side,
+      quantity: row.quantity,
+      entryPrice: row.entry_price,
+      exitPrice: row.exit_price ?? undefined,
+      entryTime: new Date(row.entry_time),
+      exitTime: row.exit_time ? new Date(row.exit_time) : undefined,
+      pnl: row.pnl ?? undefined,
+      commission: row.commission,
+      borrowFees: row.borrow_fees ?? undefined,
+      entryReason: row.entry_reason || undefined,
+      exitReason: row.exit_reason || undefined,
+      status: row.status
+    };
+  }
+
+  private ensureInitialized(): void {
+    if (!this.isInitialized) {
+      throw new Error('BacktestStore not initialized. Call initialize() first.');
+    }
+  }
+}
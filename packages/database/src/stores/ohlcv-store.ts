@@ -0,0 +1,322 @@
+/**
+ * Offline OHLCV storage
+ * Keeps historical bars per symbol and timeframe so backtests can run without a data provider.
+ */
+
+import Database from 'better-sqlite3';
+import {
+  IOHLCVStore,
+  DatabaseConfig,
+  OHLCV,
+  OHLCVGap,
+  OHLCVGapOptions,
+  OHLCVSeriesInfo,
+  Timeframe
+} from '@jware-trader8/types';
+import { Logger, getMarketSessionForSymbol, isSessionBar, timeframeToMilliseconds } from '@jware-trader8/utils';
+
+/**
+ * OHLCV store implementation with SQLite backend
+ */
+export class OHLCVStore implements IOHLCVStore {
+  private db: Database.Database;
+  private config: Omit<DatabaseConfig, 'encryptionKey'>;
+  private logger: Logger;
+  private isInitialized: boolean = false;
+
+  // Prepared statements for performance
+  private statements: {
+    upsertBar?: Database.Statement;
+    getBars?: Database.Statement;
+    getTimestamps?: Database.Statement;
+    listSeries?: Database.Statement;
+  } = {};
+
+  /**
+   * @param config - Database settings; market data is not encrypted, so no key is needed
+   */
+  constructor(config: Omit<DatabaseConfig, 'encryptionKey'>) {
+    this.config = config;
+    this.logger = new Logger({
+      level: 'info',
+      console: true,
+      format: 'text'
+    });
+
+    // Initialize database connection
+    this.db = new Database(config.path, {
+      timeout: config.timeout || 5000,
+      verbose: process.env.NODE_ENV === 'development' ? console.log : undefined
+    });
+  }
+
+  /**
+   * Initialize the database schema
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      if (this.config.enableWAL) {
+        this.db.pragma('journal_mode = WAL');
+      }
+      this.db.pragma('synchronous = NORMAL');
+
+      this.setupTables();
+      this.prepareStatements();
+
+      this.isInitialized = true;
+    } catch (error) {
+      this.logger.error('Failed to initialize OHLCV database', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Insert bars, replacing any already stored at the same timestamps
+   */
+  async saveBars(symbol: string, timeframe: Timeframe, bars: OHLCV[]): Promise<number> {
+    this.ensureInitialized();
+
+    const normalizedSymbol = symbol.toUpperCase();
+    // Rejects unknown timeframes before anything is written
+    timeframeToMilliseconds(timeframe);
+    bars.forEach(bar => this.validateBar(bar));
+
+    try {
+      this.db.transaction(() => {
+        for (const bar of bars) {
+          this.statements.upsertBar!.run({
+            symbol: normalizedSymbol,
+            timeframe,
+            timestamp: bar.timestamp.getTime(),
+            open: bar.open,
+            high: bar.high,
+            low: bar.low,
+            close: bar.close,
+            volume: bar.volume,
+            vwap: bar.vwap ?? null,
+            trade_count: bar.tradeCount ?? null
+          });
+        }
+      })();
+
+      this.logger.info('OHLCV bars saved', { symbol: normalizedSymbol, timeframe, bars: bars.length });
+      return bars.length;
+    } catch (error) {
+      this.logger.error('Failed to save OHLCV bars', {
+        symbol: normalizedSymbol,
+        timeframe,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get stored bars between two dates, inclusive and oldest first
+   */
+  async getHistoricalData(
+    symbol: string,
+    timeframe: Timeframe,
+    startDate: Date,
+    endDate: Date,
+    options?: { limit?: number }
+  ): Promise<OHLCV[]> {
+    this.ensureInitialized();
+
+    const rows = this.statements.getBars!.all({
+      symbol: symbol.toUpperCase(),
+      timeframe,
+      start: startDate.getTime(),
+      end: endDate.getTime(),
+      limit: options?.limit ?? -1
+    }) as any[];
+
+    return rows.map(row => this.mapRowToBar(row));
+  }
+
+  /**
+   * Find runs of missing bars in a stored series
+   * Spacing is rounded to whole bars, so monthly bars and DST shifts do not count as gaps.
+   */
+  async findGaps(symbol: string, timeframe: Timeframe, options: OHLCVGapOptions = {}): Promise<OHLCVGap[]> {
+    this.ensureInitialized();
+
+    const interval = timeframeToMilliseconds(timeframe);
+    const minMissingBars = options.minMissingBars ?? 1;
+    const rows = this.statements.getTimestamps!.all({
+      symbol: symbol.toUpperCase(),
+      timeframe,
+      start: options.startDate?.getTime() ?? Number.MIN_SAFE_INTEGER,
+      end: options.endDate?.getTime() ?? Number.MAX_SAFE_INTEGER
+    }) as Array<{ timestamp: number }>;
+    const timestamps = rows.map(row => row.timestamp);
+    const gaps: OHLCVGap[] = [];
+
+    // Weekends, holidays and hours outside the symbol's session are not missing bars
+    const session = getMarketSessionForSymbol(symbol.toUpperCase());
+    const missing = (first: number, count: number): number[] => {
+      const slots: number[] = [];
+      for (let i = 0; i < count; i++) {
+        const slot = first + i * interval;
+        if (isSessionBar(session, new Date(slot), timeframe)) {
+          slots.push(slot);
+        }
+      }
+      return slots;
+    };
+
+    if (timestamps.length === 0) {
+      if (options.startDate && options.endDate) {
+        const missingBars = Math.floor((options.endDate.getTime() - options.startDate.getTime()) / interval) + 1;
+        this.addGap(gaps, missing(options.startDate.getTime(), missingBars), minMissingBars);
+      }
+      return gaps;
+    }
+
+    if (options.startDate) {
+      const missingBars = Math.floor((timestamps[0] - options.startDate.getTime()) / interval);
+      this.addGap(gaps, missing(timestamps[0] - missingBars * interval, missingBars), minMissingBars);
+    }
+
+    for (let i = 1; i < timestamps.length; i++) {
+      const missingBars = Math.round((timestamps[i] - timestamps[i - 1]) / interval) - 1;
+      this.addGap(gaps, missing(timestamps[i - 1] + interval, missingBars), minMissingBars);
+    }
+
+    if (options.endDate) {
+      const last = timestamps[timestamps.length - 1];
+      const missingBars = Math.floor((options.endDate.getTime() - last) / interval);
+      this.addGap(gaps, missing(last + interval, missingBars), minMissingBars);
+    }
+
+    return gaps;
+  }
+
+  /**
+   * List stored series
+   */
+  async listSeries(): Promise<OHLCVSeriesInfo[]> {
+    this.ensureInitialized();
+
+    const rows = this.statements.listSeries!.all() as any[];
+    return rows.map(row => ({
+      symbol: row.symbol,
+      timeframe: row.timeframe,
+      bars: row.bars,
+      firstTimestamp: new Date(row.first_timestamp),
+      lastTimestamp: new Date(row.last_timestamp)
+    }));
+  }
+
+  /**
+   * Close database connection
+   */
+  async close(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+    }
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private setupTables(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ohlcv_bars (
+        symbol TEXT NOT NULL,
+        timeframe TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        open REAL NOT NULL,
+        high REAL NOT NULL,
+        low REAL NOT NULL,
+        close REAL NOT NULL,
+        volume REAL NOT NULL,
+        vwap REAL,
+        trade_count INTEGER,
+        PRIMARY KEY (symbol, timeframe, timestamp)
+      ) WITHOUT ROWID
+    `);
+  }
+
+  private prepareStatements(): void {
+    this.statements.upsertBar = this.db.prepare(`
+      INSERT OR REPLACE INTO ohlcv_bars (
+        symbol, timeframe, timestamp, open, high, low, close, volume, vwap, trade_count
+      ) VALUES (
+        @symbol, @timeframe, @timestamp, @open, @high, @low, @close, @volume, @vwap, @trade_count
+      )
+    `);
+
+    this.statements.getBars = this.db.prepare(`
+      SELECT * FROM ohlcv_bars
+      WHERE symbol = @symbol AND timeframe = @timeframe AND timestamp BETWEEN @start AND @end
+      ORDER BY timestamp
+      LIMIT @limit
+    `);
+
+    this.statements.getTimestamps = this.db.prepare(`
+      SELECT timestamp FROM ohlcv_bars
+      WHERE symbol = @symbol AND timeframe = @timeframe AND timestamp BETWEEN @start AND @end
+      ORDER BY timestamp
+    `);
+
+    this.statements.listSeries = this.db.prepare(`
+      SELECT symbol, timeframe, COUNT(*) AS bars,
+        MIN(timestamp) AS first_timestamp, MAX(timestamp) AS last_timestamp
+      FROM ohlcv_bars
+      GROUP BY symbol, timeframe
+      ORDER BY symbol, timeframe
+    `);
+  }
+
+  private validateBar(bar: OHLCV): void {
+    const timestamp = bar.timestamp instanceof Date ? bar.timestamp.getTime() : NaN;
+    if (isNaN(timestamp)) {
+      throw new Error('OHLCV bar has an invalid timestamp');
+    }
+
+    const values = [bar.open, bar.high, bar.low, bar.close, bar.volume];
+    if (values.some(value => typeof value !== 'number' || !isFinite(value))) {
+      throw new Error(`OHLCV bar at ${bar.timestamp.toISOString()} has non-numeric prices or volume`);
+    }
+  }
+
+  /**
+   * Record the expected bars missing between two stored bars as one gap
+   */
+  private addGap(gaps: OHLCVGap[], slots: number[], minMissingBars: number): void {
+    if (slots.length > 0 && slots.length >= minMissingBars) {
+      gaps.push({
+        start: new Date(slots[0]),
+        end: new Date(slots[slots.length - 1]),
+        missingBars: slots.length
+      });
+    }
+  }
+
+  private mapRowToBar(row: any): OHLCV {
+    return {
+      timestamp: new Date(row.timestamp),
+      open: row.open,
+      high: row.high,
+      low: row.low,
+      close: row.close,
+      volume: row.volume,
+      vwap: row.vwap ?? undefined,
+      tradeCount: row.trade_count ?? undefined
+    };
+  }
+
+  private ensureInitialized(): void {
+    if (!this.isInitialized) {
+      throw new Error('OHLCVStore not initialized. Call initialize() first.');
+    }
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * Simulated trading account storage
+ * Keeps the cash, positions and orders of paper-trading simulator accounts between sessions.
+ */
+
+import Database from 'better-sqlite3';
+import {
+  ISimulatedAccountStore,
+  DatabaseConfig,
+  Order,
+  Position,
+  SimulatedAccountState
+} from '@jware-trader8/types';
+import { Logger } from '@jware-trader8/utils';
+
+/**
+ * Simulated account store implementation with SQLite backend
+ */
+export class SimulatedAccountStore implements ISimulatedAccountStore {
+  private db: Database.Database;
+  private config: Omit<DatabaseConfig, 'encryptionKey'>;
+  private logger: Logger;
+  private isInitialized: boolean = false;
+
+  // Prepared statements for performance
+  private statements: {
+    saveAccount?: Database.Statement;
+    getAccount?: Database.Statement;
+    deleteAccount?: Database.Statement;
+    savePosition?: Database.Statement;
+    getPositions?: Database.Statement;
+    deletePositions?: Database.Statement;
+    saveOrder?: Database.Statement;
+    getOrders?: Database.Statement;
+    deleteOrders?: Database.Statement;
+  } = {};
+
+  /**
+   * @param config - Database settings; simulated accounts are not encrypted, so no key is needed
+   */
+  constructor(config: Omit<DatabaseConfig, 'encryptionKey'>) {
+    this.config = config;
+    this.logger = new Logger({
+      level: 'info',
+      console: true,
+      format: 'text'
+    });
+
+    // Initialize database connection
+    this.db = new Database(config.path, {
+      timeout: config.timeout || 5000,
+      verbose: process.env.NODE_ENV === 'development' ? console.log : undefined
+    });
+  }
+
+  /**
+   * Initialize the database schema
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    try {
+      if (this.config.enableWAL) {
+        this.db.pragma('journal_mode = WAL');
+      }
+      this.db.pragma('synchronous = NORMAL');
+
+      this.setupTables();
+      this.prepareStatements();
+
+      this.isInitialized = true;
+    } catch (error) {
+      this.logger.error('Failed to initialize simulated account database', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Load an account, or null if none has been saved under the id
+   */
+  async loadAccount(accountId: string): Promise<SimulatedAccountState | null> {
+    this.ensureInitialized();
+
+    const row = this.statements.getAccount!.get({ id: accountId }) as any;
+    if (!row) {
+      return null;
+    }
+
+    const positions = (this.statements.getPositions!.all({ id: accountId }) as any[])
+      .map(positionRow => this.mapRowToPosition(positionRow));
+    const orders = (this.statements.getOrders!.all({ id: accountId }) as any[])
+      .map(orderRow => this.reviveOrder(JSON.parse(orderRow.data)));
+
+    return {
+      cash: row.cash,
+      positions,
+      orders,
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
+  /**
+   * Save an account, replacing its cash and positions
+   * Orders are upserted, so orders left out keep their saved state.
+   */
+  async saveAccount(accountId: string, state: SimulatedAccountState): Promise<void> {
+    this.ensureInitialized();
+
+    try {
+      this.db.transaction(() => {
+        this.statements.saveAccount!.run({
+          id: accountId,
+          cash: state.cash,
+          updated_at: state.updatedAt.toISOString()
+        });
+
+        this.statements.deletePositions!.run({ id: accountId });
+        for (const position of state.positions) {
+          this.statements.savePosition!.run({
+            account_id: accountId,
+            symbol: position.symbol,
+            quantity: position.quantity,
+            average_price: position.averagePrice,
+            current_price: position.currentPrice ?? null,
+            side: position.side,
+            realized_pnl: position.realizedPnL ?? null,
+            entry_time: position.entryTime.toISOString()
+          });
+        }
+
+        for (const order of state.orders) {
+          this.statements.saveOrder!.run({
+            account_id: accountId,
+            id: order.id,
+            symbol: order.symbol,
+            status: order.status,
+            created_at: order.timestamp.toISOString(),
+            data: JSON.stringify(order)
+          });
+        }
+      })();
+    } catch (error) {
+      this.logger.error('Failed to save simulated account', {
+        accountId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an account with its positions and orders
+   */
+  async deleteAccount(accountId: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    let deleted = 0;
+    this.db.transaction(() => {
+      this.statements.deletePositions!.run({ id: accountId });
+      this.statements.deleteOrders!.run({ id: accountId });
+      deleted = this.statements.deleteAccount!.run({ id: accountId }).changes;
+    })();
+
+    if (deleted > 0) {
+      this.logger.info('Simulated account deleted', { accountId });
+    }
+    return deleted > 0;
+  }
+
+  /**
+   * Close database connection
+   */
+  async close(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+    }
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private setupTables(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS simulated_accounts (
+        id TEXT PRIMARY KEY,
+        cash REAL NOT NULL,
+        updated_at DATETIME NOT NULL
+      )
+    `);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS simulated_positions (
+        account_id TEXT NOT NULL,
+        symbol TEXT NOT NULL,
+        quantity REAL NOT NULL,
+        average_price REAL NOT NULL,
+        current_price REAL,
+        side TEXT NOT NULL,
+        realized_pnl REAL,
+        entry_time DATETIME NOT NULL,
+        PRIMARY KEY (account_id, symbol)
+      )
+    `);
+
+    // Orders vary by type and class, so the full order is kept as JSON next to the columns it is queried by
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS simulated_orders (
+        account_id TEXT NOT NULL,
+        id TEXT NOT NULL,
+        symbol TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at DATETIME NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (account_id, id)
+      )
+    `);
+  }
+
+  private prepareStatements(): void {
+    this.statements.saveAccount = this.db.prepare(`
+      INSERT OR REPLACE INTO simulated_accounts (id, cash, updated_at)
+      VALUES (@id, @cash, @updated_at)
+    `);
+    this.statements.getAccount = this.db.prepare('SELECT * FROM simulated_accounts WHERE id = @id');
+    this.statements.deleteAccount = this.db.prepare('DELETE FROM simulated_accounts WHERE id = @id');
+
+    this.statements.savePosition = this.db.prepare(`
+      INSERT INTO simulated_positions (
+        account_id, symbol, quantity, average_price, current_price, side, realized_pnl, entry_time
+      ) VALUES (
+        @account_id, @symbol, @quantity, @average_price, @current_price, @side, @realized_pnl, @entry_time
+      )
+    `);
+    this.statements.getPositions = this.db.prepare(
+      'SELECT * FROM simulated_positions WHERE account_id = @id ORDER BY symbol'
+    );
+    this.statements.deletePositions = this.db.prepare('DELETE FROM simulated_positions WHERE account_id = @id');
+
+    this.statements.saveOrder = this.db.prepare(`
+      INSERT INTO simulated_orders (account_id, id, symbol, status, created_at, data)
+      VALUES (@account_id, @id, @symbol, @status, @created_at, @data)
+      ON CONFLICT (account_id, id) DO UPDATE SET status = excluded.status, data = excluded.data
+    `);
+    this.statements.getOrders = this.db.prepare(
+      'SELECT data FROM simulated_orders WHERE account_id = @id ORDER BY created_at, rowid'
+    );
+    this.statements.deleteOrders = this.db.prepare('DELETE FROM simulated_orders WHERE account_id = @id');
+  }
+
+  private mapRowToPosition(row: any): Position {
+    return {
+      symbol: row.symbol,
+      quantity: row.quantity,
+      averagePrice: row.average_price,
+      currentPrice: row.current_price ?? undefined,
+      side: row.side,
+      realizedPnL: row.realized_pnl ?? undefined,
+      entryTime: new Date(row.entry_time)
+    };
+  }
+
+  /**
+   * Restore the dates JSON turned into strings
+   */
+  private reviveOrder(data: any): Order {
+    return {
+      ...data,
+      timestamp: new Date(data.timestamp),
+      expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
+      legs: data.legs ? (data.legs as any[]).map(leg => this.reviveOrder(leg)) : undefined
+    };
+  }
+
+  private ensureInitialized(): void {
+    if (!this.isInitialized) {
+      throw new Error('SimulatedAccountStore not initialized. Call initialize() first.');
+    }
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * BacktestStore tests
+ */
+
+import { BacktestStore } from '../src/stores/backtest-store';
+import { BacktestResult, EquityCurvePoint, PerformanceMetrics, Trade } from '@jware-trader8/types';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('BacktestStore', () => {
+  let backtestStore: BacktestStore;
+  let testDbPath: string;
+
+  const strategySource = 'name: SMA Crossover\nversion: 1.0.0\n';
+
+  const createTrade = (day: number, pnl: number): Trade => ({
+    id: `trade_${day}`,
+    symbol: 'BTCUSD',
+    side: 'BUY',
+    quantity: 2,
+    entryPrice: 100,
+    exitPrice: 100 + pnl / 2,
+    entryTime: new Date(Date.UTC(2024, 0, day)),
+    exitTime: new Date(Date.UTC(2024, 0, day + 1)),
+    pnl,
+    commission: 0.5,
+    entryReason: 'golden',
+    exitReason: 'death',
+    status: 'CLOSED'
+  });
+
+  const createResult = (options: { strategyName?: string; symbols?: string[]; points?: number } = {}): BacktestResult => {
+    const startDate = new Date(Date.UTC(2024, 0, 1));
+    const endDate = new Date(Date.UTC(2024, 2, 31));
+    const equityCurve: EquityCurvePoint[] = Array.from({ length: options.points ?? 10 }, (_, i) => ({
+      timestamp: new Date(startDate.getTime() + i * 60 * 60 * 1000),
+      totalValue: 10000 + i,
+      cash: 10000 + i,
+      positionsValue: 0,
+      unrealizedPnL: 0,
+      realizedPnL: i,
+      drawdown: 0
+    }));
+
+    return {
+      summary: { totalReturn: 0.12, sharpeRatio: 1.4, maxDrawdown: 0.08, totalTrades: 2 } as PerformanceMetrics,
+      trades: [createTrade(2, 150), createTrade(5, -50)],
+      equityCurve,
+      config: {
+        portfolio: { initialCash: 10000, commissionRate: 0.001 },
+        startDate,
+        endDate,
+        benchmark: 'SPY',
+        benchmarkData: [{ timestamp: startDate, open: 1, high: 1, low: 1, close: 1, volume: 1 }],
+        includeCosts: true
+      },
+      metadata: {
+        strategyName: options.strategyName ?? 'SMA Crossover',
+        executionTime: 12,
+        dataPoints: equityCurve.length,
+        symbols: options.symbols ?? ['BTCUSD'],
+        startDate,
+        endDate
+      }
+    } as BacktestResult;
+  };
+
+  beforeEach(async () => {
+    testDbPath = path.join(__dirname, `test-backtests-${Date.now()}.db`);
+    backtestStore = new BacktestStore({ path: testDbPath });
+    await backtestStore.initialize();
+  });
+
+  afterEach(async () => {
+    await backtestStore.close();
+
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  describe('Saving Runs', () => {
+    test('should store config, metrics and trades of a run', async () => {
+      const id = await backtestStore.saveBacktest(createResult(), strategySource, { timeframe: '1h' });
+      const run = await backtestStore.getBacktest(id);
+
+      expect(run).not.toBeNull();
+      expect(run!.strategyName).toBe('SMA Crossover');
+      expect(run!.symbols).toEqual(['BTCUSD']);
+      expect(run!.timeframe).toBe('1h');
+      expect(run!.strategyHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(run!.summary.totalReturn).toBe(0.12);
+      expect(run!.initialCapital).toBe(10000);
+      expect(run!.config.startDate).toEqual(new Date(Date.UTC(2024, 0, 1)));
+      expect(run!.config.benchmark).toBe('SPY');
+      expect(run!.config.benchmarkData).toBeUndefined();
+      expect(run!.trades).toEqual(createResult().trades);
+    });
+
+    test('should keep non-finite ratios', async () => {
+      const result = createResult();
+      result.summary = { ...result.summary, sortinoRatio: Infinity, calmarRatio: -Infinity, omegaRatio: NaN };
+
+      const id = await backtestStore.saveBacktest(result, strategySource);
+      const run = await backtestStore.getBacktest(id);
+
+      expect(run!.summary.sortinoRatio).toBe(Infinity);
+      expect(run!.summary.calmarRatio).toBe(-Infinity);
+      expect(run!.summary.omegaRatio).toBeNaN();
+    });
+
+    test('should hash the strategy source so changed files can be told apart', async () => {
+      const first = await backtestStore.saveBacktest(createResult(), strategySource);
+      const same = await backtestStore.saveBacktest(createResult(), strategySource);
+      const edited = await backtestStore.saveBacktest(createResult(), strategySource + 'description: edited\n');
+
+      const [a, b, c] = await Promise.all([first, same, edited].map(id => backtestStore.getBacktest(id)));
+      expect(a!.strategyHash).toBe(b!.strategyHash);
+      expect(c!.strategyHash).not.toBe(a!.strategyHash);
+    });
+
+    test('should downsample long equity curves and keep the end points', async () => {
+      const result = createResult({ points: 1000 });
+      const id = await backtestStore.saveBacktest(result, strategySource, { maxEquityPoints: 100 });
+      const run = await backtestStore.getBacktest(id);
+
+      expect(run!.equityCurve).toHaveLength(100);
+      expect(run!.equityCurve[0]).toEqual(result.equityCurve[0]);
+      expect(run!.equityCurve[99]).toEqual(result.equityCurve[999]);
+    });
+
+    test('should reject too few equity points', async () => {
+      await expect(backtestStore.saveBacktest(createResult(), strategySource, { maxEquityPoints: 1 }))
+        .rejects.toThrow('maxEquityPoints');
+    });
+  });
+
+  describe('Browsing Runs', () => {
+    test('should list runs newest first with optional filters', async () => {
+      const first = await backtestStore.saveBacktest(createResult(), strategySource);
+      const second = await backtestStore.saveBacktest(
+        createResult({ strategyName: 'RSI Mean Reversion', symbols: ['AAPL', 'MSFT'] }),
+        strategySource
+      );
+
+      const all = await backtestStore.listBacktests();
+      expect(all.map(run => run.id)).toEqual([second, first]);
+
+      expect((await backtestStore.listBacktests({ strategyName: 'SMA Crossover' })).map(run => run.id)).toEqual([first]);
+      expect((await backtestStore.listBacktests({ symbol: 'msft' })).map(run => run.id)).toEqual([second]);
+      expect(await backtestStore.listBacktests({ limit: 1 })).toHaveLength(1);
+    });
+
+    test('should return null for unknown runs', async () => {
+      expect(await backtestStore.getBacktest('bt_missing')).toBeNull();
+    });
+
+    test('should delete a run with its trades', async () => {
+      const id = await backtestStore.saveBacktest(createResult(), strategySource);
+
+      expect(await backtestStore.deleteBacktest(id)).toBe(true);
+      expect(await backtestStore.getBacktest(id)).toBeNull();
+      expect(await backtestStore.deleteBacktest(id)).toBe(false);
+    });
+  });
+
+  test('should require initialization', async () => {
+    const store = new BacktestStore({ path: ':memory:' });
+    await expect(store.listBacktests()).rejects.toThrow('not initialized');
+    await store.close();
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * OHLCV CSV parsing tests
+ */
+
+import { parseOHLCVCsv, parseTimestamp } from '../src/import/ohlcv-csv';
+
+describe('parseOHLCVCsv', () => {
+  test('should read vendor exports with a date column and skip null rows', () => {
+    const csv = [
+      'Date,Open,High,Low,Close,Adj Close,Volume',
+      '2024-01-03,101,103,100,102,101.5,2000',
+      '2024-01-02,100,102,99,101,100.5,1000',
+      '2024-01-04,null,null,null,null,null,null',
+      ''
+    ].join('\n');
+
+    const result = parseOHLCVCsv(csv);
+
+    expect(result.columns).toEqual({ date: 'Date', open: 'Open', high: 'High', low: 'Low', close: 'Close', volume: 'Volume' });
+    expect(result.skippedRows).toBe(1);
+    expect(result.bars).toEqual([
+      { timestamp: new Date('2024-01-02T00:00:00Z'), open: 100, high: 102, low: 99, close: 101, volume: 1000 },
+      { timestamp: new Date('2024-01-03T00:00:00Z'), open: 101, high: 103, low: 100, close: 102, volume: 2000 }
+    ]);
+  });
+
+  test('should combine split date and time columns and detect the delimiter', () => {
+    const csv = [
+      '<DATE>;<TIME>;<OPEN>;<HIGH>;<LOW>;<CLOSE>;<TICKVOL>',
+      '2024.01.02;09:30;1.1;1.2;1.0;1.15;40'
+    ].join('\r\n');
+
+    const result = parseOHLCVCsv(csv, {
+      columns: { date: '<DATE>', time: '<TIME>', open: '<OPEN>', high: '<HIGH>', low: '<LOW>', close: '<CLOSE>', volume: '<TICKVOL>' }
+    });
+
+    expect(result.bars[0].timestamp).toEqual(new Date('2024-01-02T09:30:00Z'));
+    expect(result.bars[0].close).toBe(1.15);
+
+    const autoDetected = parseOHLCVCsv('Date;Time;Open;High;Low;Close\n2024.01.02;09:30;1.1;1.2;1.0;1.15');
+    expect(autoDetected.columns).toMatchObject({ date: 'Date', time: 'Time' });
+    expect(autoDetected.bars[0]).toEqual({
+      timestamp: new Date('2024-01-02T09:30:00Z'), open: 1.1, high: 1.2, low: 1.0, close: 1.15, volume: 0
+    });
+  });
+
+  test('should map columns explicitly and keep the last row for a repeated timestamp', () => {
+    const csv = [
+      'time,o,h,l,c,"Volume USD",trades',
+      '1704067200000,10,12,9,11,"1000",5',
+      '1704067200000,10,13,9,12,500,6'
+    ].join('\n');
+
+    const result = parseOHLCVCsv(csv, { columns: { volume: 'Volume USD' } });
+
+    expect(result.bars).toHaveLength(1);
+    expect(result.bars[0]).toEqual({
+      timestamp: new Date('2024-01-01T00:00:00Z'), open: 10, high: 13, low: 9, close: 12, volume: 500, tradeCount: 6
+    });
+  });
+
+  test('should explain missing columns and bad values', () => {
+    expect(() => parseOHLCVCsv('Date,Open,High,Low\n2024-01-02,1,2,0')).toThrow('missing close');
+    expect(() => parseOHLCVCsv('Open,High,Low,Close\n1,2,0,1')).toThrow('no timestamp column');
+    expect(() => parseOHLCVCsv('Date,Open,High,Low,Close\n2024-01-02,1,2,0,1', { columns: { close: 'Last' } }))
+      .toThrow('Column "Last" mapped to close');
+    expect(() => parseOHLCVCsv('Date,Open,High,Low,Close\n2024-01-02,1,2,abc,1')).toThrow('Invalid low value "abc" on line 2');
+    expect(() => parseOHLCVCsv('')).toThrow('empty');
+  });
+});
+
+describe('parseTimestamp', () => {
+  test('should read unix seconds, milliseconds and microseconds', () => {
+    const expected = new Date('2024-01-01T00:00:00Z');
+    expect(parseTimestamp('1704067200')).toEqual(expected);
+    expect(parseTimestamp('1704067200000')).toEqual(expected);
+    expect(parseTimestamp('1704067200000000')).toEqual(expected);
+  });
+
+  test('should read dates without a zone as UTC and honour explicit zones', () => {
+    expect(parseTimestamp('20240102')).toEqual(new Date('2024-01-02T00:00:00Z'));
+    expect(parseTimestamp('2024/01/02 15:45:30')).toEqual(new Date('2024-01-02T15:45:30Z'));
+    expect(parseTimestamp('2024-01-02T09:30:00-05:00')).toEqual(new Date('2024-01-02T14:30:00Z'));
+    expect(() => parseTimestamp('yesterday', 7)).toThrow('Invalid timestamp "yesterday" on line 7');
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * OHLCVStore tests
+ */
+
+import { OHLCVStore } from '../src/stores/ohlcv-store';
+import { OHLCV } from '@jware-trader8/types';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('OHLCVStore', () => {
+  let ohlcvStore: OHLCVStore;
+  let testDbPath: string;
+
+  const DAY = 24 * 60 * 60 * 1000;
+
+  const createBar = (day: number, close: number = 100 + day): OHLCV => ({
+    timestamp: new Date(Date.UTC(2024, 0, day)),
+    open: close - 1,
+    high: close + 2,
+    low: close - 2,
+    close,
+    volume: 1000 * day
+  });
+
+  beforeEach(async () => {
+    testDbPath = path.join(__dirname, `test-ohlcv-${Date.now()}.db`);
+    ohlcvStore = new OHLCVStore({ path: testDbPath });
+    await ohlcvStore.initialize();
+  });
+
+  afterEach(async () => {
+    await ohlcvStore.close();
+
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  describe('Storing Bars', () => {
+    test('should return bars in a date range oldest first', async () => {
+      await ohlcvStore.saveBars('btcusd', '1d', [createBar(3), createBar(1), createBar(2), createBar(4)]);
+
+      const bars = await ohlcvStore.getHistoricalData(
+        'BTCUSD', '1d', new Date(Date.UTC(2024, 0, 2)), new Date(Date.UTC(2024, 0, 4))
+      );
+
+      expect(bars).toEqual([createBar(2), createBar(3), createBar(4)]);
+      expect(await ohlcvStore.getHistoricalData(
+        'BTCUSD', '1d', new Date(Date.UTC(2024, 0, 1)), new Date(Date.UTC(2024, 0, 4)), { limit: 2 }
+      )).toEqual([createBar(1), createBar(2)]);
+    });
+
+    test('should replace bars stored at the same timestamp', async () => {
+      await ohlcvStore.saveBars('BTCUSD', '1d', [createBar(1), createBar(2)]);
+      await ohlcvStore.saveBars('BTCUSD', '1d', [createBar(2, 250)]);
+
+      const bars = await ohlcvStore.getHistoricalData(
+        'BTCUSD', '1d', new Date(Date.UTC(2024, 0, 1)), new Date(Date.UTC(2024, 0, 31))
+      );
+
+      expect(bars).toHaveLength(2);
+      expect(bars[1].close).toBe(250);
+    });
+
+    test('should keep symbols and timeframes apart', async () => {
+      await ohlcvStore.saveBars('BTCUSD', '1d', [createBar(1), createBar(2)]);
+      await ohlcvStore.saveBars('ETHUSD', '1d', [createBar(1)]);
+      await ohlcvStore.saveBars('BTCUSD', '1h', [createBar(1)]);
+
+      expect(await ohlcvStore.listSeries()).toEqual([
+        { symbol: 'BTCUSD', timeframe: '1d', bars: 2, firstTimestamp: createBar(1).timestamp, lastTimestamp: createBar(2).timestamp },
+        { symbol: 'BTCUSD', timeframe: '1h', bars: 1, firstTimestamp: createBar(1).timestamp, lastTimestamp: createBar(1).timestamp },
+        { symbol: 'ETHUSD', timeframe: '1d', bars: 1, firstTimestamp: createBar(1).timestamp, lastTimestamp: createBar(1).timestamp }
+      ]);
+    });
+
+    test('should reject invalid bars without writing any', async () => {
+      const invalid = { ...createBar(2), close: NaN };
+
+      await expect(ohlcvStore.saveBars('BTCUSD', '1d', [createBar(1), invalid])).rejects.toThrow('non-numeric');
+      await expect(ohlcvStore.saveBars('BTCUSD', '2d' as any, [createBar(1)])).rejects.toThrow('Unknown timeframe');
+      expect(await ohlcvStore.listSeries()).toEqual([]);
+    });
+  });
+
+  describe('Gap Detection', () => {
+    test('should report runs of missing bars', async () => {
+      await ohlcvStore.saveBars('BTCUSD', '1d', [1, 2, 5, 6, 8].map(day => createBar(day)));
+
+      expect(await ohlcvStore.findGaps('BTCUSD', '1d')).toEqual([
+        { start: new Date(Date.UTC(2024, 0, 3)), end: new Date(Date.UTC(2024, 0, 4)), missingBars: 2 },
+        { start: new Date(Date.UTC(2024, 0, 7)), end: new Date(Date.UTC(2024, 0, 7)), missingBars: 1 }
+      ]);
+      expect(await ohlcvStore.findGaps('BTCUSD', '1d', { minMissingBars: 2 })).toHaveLength(1);
+    });
+
+    test('should report missing coverage at the edges of a requested range', async () => {
+      await ohlcvStore.saveBars('BTCUSD', '1d', [3, 4].map(day => createBar(day)));
+
+      const gaps = await ohlcvStore.findGaps('BTCUSD', '1d', {
+        startDate: new Date(Date.UTC(2024, 0, 1)),
+        endDate: new Date(Date.UTC(2024, 0, 6))
+      });
+
+      expect(gaps).toEqual([
+        { start: new Date(Date.UTC(2024, 0, 1)), end: new Date(Date.UTC(2024, 0, 2)), missingBars: 2 },
+        { start: new Date(Date.UTC(2024, 0, 5)), end: new Date(Date.UTC(2024, 0, 6)), missingBars: 2 }
+      ]);
+
+      const empty = await ohlcvStore.findGaps('ETHUSD', '1d', {
+        startDate: new Date(Date.UTC(2024, 0, 1)),
+        endDate: new Date(Date.UTC(2024, 0, 10))
+      });
+      expect(empty).toEqual([
+        { start: new Date(Date.UTC(2024, 0, 1)), end: new Date(Date.UTC(2024, 0, 10)), missingBars: 10 }
+      ]);
+    });
+
+    test('should skip weekends, holidays and off-session hours of equities', async () => {
+      // 2024-01-01 is a market holiday and 6-7 January a weekend
+      await ohlcvStore.saveBars('SPY', '1d', [2, 3, 4, 5, 8, 10].map(day => createBar(day)));
+
+      expect(await ohlcvStore.findGaps('SPY', '1d', { startDate: new Date(Date.UTC(2024, 0, 1)) })).toEqual([
+        { start: new Date(Date.UTC(2024, 0, 9)), end: new Date(Date.UTC(2024, 0, 9)), missingBars: 1 }
+      ]);
+
+      // Hourly bars from 09:00 to 15:00 New York time on 2 and 3 January, without 11:00 on the 3rd
+      const hours = [2, 3].flatMap(day => [14, 15, 16, 17, 18, 19, 20]
+        .filter(hour => day !== 3 || hour !== 16)
+        .map(hour => ({ ...createBar(day), timestamp: new Date(Date.UTC(2024, 0, day, hour)) })));
+      await ohlcvStore.saveBars('SPY', '1h', hours);
+
+      expect(await ohlcvStore.findGaps('SPY', '1h')).toEqual([
+        { start: new Date(Date.UTC(2024, 0, 3, 16)), end: new Date(Date.UTC(2024, 0, 3, 16)), missingBars: 1 }
+      ]);
+    });
+
+    test('should not treat uneven month lengths as gaps', async () => {
+      const months = [0, 1, 2, 4].map(month => ({ ...createBar(1), timestamp: new Date(Date.UTC(2024, month, 1)) }));
+      await ohlcvStore.saveBars('SPY', '1M', months);
+
+      const gaps = await ohlcvStore.findGaps('SPY', '1M');
+      expect(gaps).toHaveLength(1);
+      expect(gaps[0].missingBars).toBe(1);
+      expect(Math.abs(gaps[0].start.getTime() - Date.UTC(2024, 3, 1))).toBeLessThan(2 * DAY);
+    });
+  });
+
+  test('should require initialization', async () => {
+    const store = new OHLCVStore({ path: ':memory:' });
+    await expect(store.listSeries()).rejects.toThrow('not initialized');
+    await store.close();
+  });
+});
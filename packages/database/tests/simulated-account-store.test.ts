@@ -0,0 +1,104 @@
+/**
+ * SimulatedAccountStore tests
+ */
+
+import { SimulatedAccountStore } from '../src/stores/simulated-account-store';
+import { Order, SimulatedAccountState } from '@jware-trader8/types';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('SimulatedAccountStore', () => {
+  let store: SimulatedAccountStore;
+  let testDbPath: string;
+
+  const createOrder = (id: string, overrides: Partial<Order> = {}): Order => ({
+    id,
+    symbol: 'AAPL',
+    side: 'BUY',
+    quantity: 10,
+    type: 'LIMIT',
+    price: 150,
+    status: 'PENDING',
+    timestamp: new Date(Date.UTC(2024, 0, 2, 15, 0, 0)),
+    timeInForce: 'GTC',
+    ...overrides
+  });
+
+  const createState = (cash: number = 8500): SimulatedAccountState => ({
+    cash,
+    positions: [{
+      symbol: 'AAPL',
+      quantity: 10,
+      averagePrice: 150,
+      currentPrice: 152,
+      side: 'LONG',
+      realizedPnL: 12.5,
+      entryTime: new Date(Date.UTC(2024, 0, 2, 14, 30, 0))
+    }],
+    orders: [
+      createOrder('entry', {
+        status: 'FILLED',
+        filledQuantity: 10,
+        averagePrice: 150,
+        orderClass: 'BRACKET',
+        legs: [createOrder('take-profit', { side: 'SELL', price: 165 })]
+      }),
+      createOrder('take-profit', { side: 'SELL', price: 165 })
+    ],
+    updatedAt: new Date(Date.UTC(2024, 0, 2, 15, 5, 0))
+  });
+
+  beforeEach(async () => {
+    testDbPath = path.join(__dirname, `test-simulator-${Date.now()}.db`);
+    store = new SimulatedAccountStore({ path: testDbPath });
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    await store.close();
+
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  test('should return null for accounts that were never saved', async () => {
+    expect(await store.loadAccount('simulator')).toBeNull();
+  });
+
+  test('should round-trip cash, positions and orders with their legs', async () => {
+    await store.saveAccount('simulator', createState());
+
+    expect(await store.loadAccount('simulator')).toEqual(createState());
+  });
+
+  test('should replace cash and positions, upsert orders and keep accounts apart', async () => {
+    await store.saveAccount('simulator', createState());
+    await store.saveAccount('other', createState(100));
+    const filled = createOrder('take-profit', { side: 'SELL', price: 165, status: 'FILLED', filledQuantity: 10 });
+    await store.saveAccount('simulator', { ...createState(9000), positions: [], orders: [filled] });
+
+    const account = await store.loadAccount('simulator');
+    expect(account).toMatchObject({ cash: 9000, positions: [] });
+    expect(account!.orders.map(order => [order.id, order.status])).toEqual([
+      ['entry', 'FILLED'],
+      ['take-profit', 'FILLED']
+    ]);
+    expect((await store.loadAccount('other'))!.orders).toHaveLength(2);
+  });
+
+  test('should delete an account with its positions and orders', async () => {
+    await store.saveAccount('simulator', createState());
+
+    expect(await store.deleteAccount('simulator')).toBe(true);
+    expect(await store.deleteAccount('simulator')).toBe(false);
+    expect(await store.loadAccount('simulator')).toBeNull();
+  });
+
+  test('should require initialization', async () => {
+    const uninitialized = new SimulatedAccountStore({ path: ':memory:' });
+
+    await expect(uninitialized.loadAccount('simulator')).rejects.toThrow('not initialized');
+    await uninitialized.close();
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Alpaca market data normalization
+ * Converts Alpaca data API bars and snapshots, and trading API assets, into the platform's market data types.
+ */
+
+import { IDataNormalizer } from '@jware-trader8/core';
+import { OHLCV, Quote, SymbolInfo } from '@jware-trader8/types';
+import { MARKET_SESSIONS } from '@jware-trader8/utils';
+
+/**
+ * Alpaca data normalizer
+ * Implements IDataNormalizer for bars, snapshots and assets
+ */
+export class AlpacaDataNormalizer implements IDataNormalizer {
+  /**
+   * Normalize bars (`bars` of the stock or crypto bars endpoints) to OHLCV
+   */
+  normalizeOHLCV(providerData: any, symbol: string): OHLCV[] {
+    const bars: any[] = Array.isArray(providerData) ? providerData : providerData?.bars || [];
+
+    return bars.map(bar => {
+      const ohlcv: OHLCV = {
+        timestamp: new Date(bar.t),
+        open: bar.o,
+        high: bar.h,
+        low: bar.l,
+        close: bar.c,
+        volume: bar.v
+      };
+
+      if (typeof bar.vw === 'number') {
+        ohlcv.vwap = bar.vw;
+      }
+      if (typeof bar.n === 'number') {
+        ohlcv.tradeCount = bar.n;
+      }
+
+      return ohlcv;
+    });
+  }
+
+  /**
+   * Normalize a snapshot to a quote
+   * Falls back to the latest trade for bid and ask when there is no quote on either side.
+   */
+  normalizeQuote(providerData: any, symbol: string): Quote {
+    const latestQuote = providerData?.latestQuote;
+    const latestTrade = providerData?.latestTrade;
+
+    const last = latestTrade?.p ?? providerData?.minuteBar?.c ?? providerData?.dailyBar?.c ?? providerData?.prevDailyBar?.c;
+    if (typeof last !== 'number' || last <= 0) {
+      throw new Error(`No quote available for ${symbol}`);
+    }
+
+    const bid = latestQuote?.bp > 0 ? latestQuote.bp : last;
+    const ask = latestQuote?.ap > 0 ? latestQuote.ap : last;
+    const timestamps = [latestQuote?.t, latestTrade?.t]
+      .filter((t): t is string => typeof t === 'string')
+      .map(t => new Date(t).getTime());
+
+    return {
+      symbol: symbol.toUpperCase(),
+      bid,
+      ask,
+      last,
+      bidSize: latestQuote?.bs,
+      askSize: latestQuote?.as,
+      lastSize: latestTrade?.s,
+      timestamp: timestamps.length > 0 ? new Date(Math.max(...timestamps)) : new Date(),
+      spread: ask - bid
+    };
+  }
+
+  /**
+   * Normalize a trading API asset to symbol information
+   */
+  normalizeSymbolInfo(providerData: any): SymbolInfo {
+    const isCrypto = providerData.class === 'crypto';
+    const [, quoteCurrency] = String(providerData.symbol).split('/');
+    const session = isCrypto ? MARKET_SESSIONS.CRYPTO : MARKET_SESSIONS.NYSE;
+
+    return {
+      symbol: this.fromAlpacaSymbol(providerData.symbol),
+      name: providerData.name || providerData.symbol,
+      type: isCrypto ? 'CRYPTO' : 'STOCK',
+      exchange: providerData.exchange || 'UNKNOWN',
+      currency: quoteCurrency || 'USD',
+      tickSize: parseFloat(providerData.price_increment) || (isCrypto ? 0.00000001 : 0.01),
+      minQuantity: parseFloat(providerData.min_order_size) || (isCrypto ? 0.00000001 : 1),
+      tradeable: providerData.tradable === true && providerData.status === 'active',
+      marketHours: {
+        open: session.open,
+        close: session.close,
+        daysOfWeek: session.daysOfWeek,
+        timezone: session.timezone
+      }
+    };
+  }
+
+  /**
+   * Drop the pair separator Alpaca uses for crypto, e.g. BTC/USD -> BTCUSD
+   */
+  fromAlpacaSymbol(symbol: string): string {
+    return symbol.replace('/', '');
+  }
+}
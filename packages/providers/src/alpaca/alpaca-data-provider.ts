@@ -0,0 +1,368 @@
+/**
+ * Alpaca Market Data Provider Implementation
+ * Historical bars and snapshots from Alpaca's data API, assets from the trading API
+ */
+
+import { IDataProvider, DataProviderCapabilities } from '@jware-trader8/core';
+import {
+  OHLCV,
+  Quote,
+  SymbolInfo,
+  MarketDataSubscription,
+  MarketDataEvent,
+  Timeframe
+} from '@jware-trader8/types';
+import {
+  Logger,
+  MARKET_SESSIONS,
+  getMarketSessionForSymbol,
+  timeframeToMilliseconds
+} from '@jware-trader8/utils';
+import { AlpacaDataNormalizer } from './alpaca-data-normalizer';
+import { RequestRateLimit, RequestRateLimiter } from '../common/rate-limiter';
+import { HttpError, getJson } from '../common/http';
+import { isRegularUSEquitySession } from '../common/market-session';
+
+const DEFAULT_BASE_URL = 'https://paper-api.alpaca.markets';
+const DEFAULT_DATA_URL = 'https://data.alpaca.markets';
+// Alpaca's free plan allows 200 requests a minute
+const DEFAULT_RATE_LIMIT: RequestRateLimit = { requestsPerMinute: 200 };
+const MAX_BARS_PER_PAGE = 10000;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Stock bars start in 2016 on every plan
+const HISTORY_START = Date.UTC(2016, 0, 1);
+// Quote currencies, longest first so USDT is not read as USD
+const CRYPTO_QUOTE_CURRENCIES = ['USDT', 'USDC', 'USD', 'BTC'];
+
+const TIMEFRAMES: Record<Timeframe, string> = {
+  '1m': '1Min',
+  '5m': '5Min',
+  '15m': '15Min',
+  '1h': '1Hour',
+  '4h': '4Hour',
+  '1d': '1Day',
+  '1w': '1Week',
+  '1M': '1Month'
+};
+
+/**
+ * Alpaca data provider configuration
+ * Matches the Alpaca trading settings so one key pair serves both.
+ */
+export interface AlpacaDataConfig {
+  apiKey: string;
+  secretKey: string;
+  /** Trading API, used for asset lookups */
+  baseUrl?: string;
+  /** Market data API */
+  dataUrl?: string;
+  /** Stock feed: iex is free, sip needs a paid subscription */
+  feed?: 'iex' | 'sip';
+  rateLimit?: RequestRateLimit;
+}
+
+/**
+ * Alpaca Data Provider
+ * Implements IDataProvider for Alpaca Markets stock and crypto data
+ */
+export class AlpacaDataProvider implements IDataProvider {
+  private config: AlpacaDataConfig;
+  private baseUrl: string;
+  private dataUrl: string;
+  private feed: 'iex' | 'sip';
+  private rateLimit: RequestRateLimit;
+  private normalizer: AlpacaDataNormalizer;
+  private rateLimiter: RequestRateLimiter;
+  private logger: Logger;
+  private fetchFn: typeof fetch = (input, init) => fetch(input, init);
+  private connected: boolean = false;
+  // Active assets for symbol search, loaded on first search
+  private assets?: any[];
+
+  constructor(config: AlpacaDataConfig) {
+    if (!config.apiKey || !config.secretKey) {
+      throw new Error('Alpaca API key and secret key are required');
+    }
+
+    this.config = config;
+    this.baseUrl = config.baseUrl || DEFAULT_BASE_URL;
+    this.dataUrl = config.dataUrl || DEFAULT_DATA_URL;
+    this.feed = config.feed || 'iex';
+    this.rateLimit = config.rateLimit || DEFAULT_RATE_LIMIT;
+    this.normalizer = new AlpacaDataNormalizer();
+    this.rateLimiter = new RequestRateLimiter(this.rateLimit, 'Alpaca');
+    this.logger = new Logger({
+      level: 'info',
+      console: true,
+      format: 'text'
+    });
+  }
+
+  /**
+   * Get historical OHLCV data, following Alpaca's page tokens
+   * Stock bars are split- and dividend-adjusted. Extended-hours bars are dropped from
+   * intraday stock data only when includeExtendedHours is false.
+   */
+  async getHistoricalData(
+    symbol: string,
+    timeframe: Timeframe,
+    startDate: Date,
+    endDate: Date,
+    options?: {
+      limit?: number;
+      includeExtendedHours?: boolean;
+    }
+  ): Promise<OHLCV[]> {
+    const alpacaTimeframe = TIMEFRAMES[timeframe];
+    if (!alpacaTimeframe) {
+      throw new Error(`Unsupported timeframe: ${timeframe}`);
+    }
+    if (startDate.getTime() > endDate.getTime()) {
+      throw new Error('Start date must be before end date');
+    }
+
+    const alpacaSymbol = this.toAlpacaSymbol(symbol);
+    const isCrypto = alpacaSymbol.includes('/');
+    const limit = options?.limit;
+    const path = isCrypto ? '/v1beta3/crypto/us/bars' : `/v2/stocks/${alpacaSymbol}/bars`;
+    const params: Record<string, string | number> = {
+      ...(isCrypto ? { symbols: alpacaSymbol } : {}),
+      timeframe: alpacaTimeframe,
+      start: startDate.toISOString(),
+      end: endDate.toISOString(),
+      limit: MAX_BARS_PER_PAGE,
+      sort: 'asc',
+      ...(isCrypto ? {} : { adjustment: 'all', feed: this.feed })
+    };
+    const bars: OHLCV[] = [];
+
+    try {
+      let pageToken: string | undefined;
+      do {
+        const page: any = await this.request(this.dataUrl, path, pageToken ? { ...params, page_token: pageToken } : params);
+        const pageBars = isCrypto ? page.bars?.[alpacaSymbol] : page.bars;
+        bars.push(...this.normalizer.normalizeOHLCV(pageBars || [], symbol));
+
+        if (limit !== undefined && bars.length >= limit) {
+          break;
+        }
+        pageToken = page.next_page_token || undefined;
+      } while (pageToken);
+    } catch (error) {
+      this.logger.error('Failed to get historical data', {
+        symbol,
+        timeframe,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+
+    const filtered = options?.includeExtendedHours === false && !isCrypto && timeframeToMilliseconds(timeframe) < MS_PER_DAY
+      ? bars.filter(bar => isRegularUSEquitySession(bar.timestamp))
+      : bars;
+
+    return limit !== undefined ? filtered.slice(0, limit) : filtered;
+  }
+
+  /**
+   * Get the latest quote from the symbol's snapshot
+   */
+  async getRealTimeQuote(symbol: string): Promise<Quote> {
+    const alpacaSymbol = this.toAlpacaSymbol(symbol);
+    const normalizedSymbol = this.normalizer.fromAlpacaSymbol(alpacaSymbol);
+
+    try {
+      if (alpacaSymbol.includes('/')) {
+        const response: any = await this.request(this.dataUrl, '/v1beta3/crypto/us/snapshots', { symbols: alpacaSymbol });
+        const snapshot = response.snapshots?.[alpacaSymbol];
+        if (!snapshot) {
+          throw new Error(`No quote available for ${normalizedSymbol}`);
+        }
+        return this.normalizer.normalizeQuote(snapshot, normalizedSymbol);
+      }
+
+      const snapshot = await this.request(this.dataUrl, `/v2/stocks/${alpacaSymbol}/snapshot`, { feed: this.feed });
+      return this.normalizer.normalizeQuote(snapshot, normalizedSymbol);
+    } catch (error) {
+      this.logger.error('Failed to get quote', {
+        symbol,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get symbol information from the asset
+   */
+  async getSymbolInfo(symbol: string): Promise<SymbolInfo> {
+    const alpacaSymbol = this.toAlpacaSymbol(symbol);
+
+    try {
+      const asset = await this.request(this.baseUrl, `/v2/assets/${encodeURIComponent(alpacaSymbol)}`);
+      return this.normalizer.normalizeSymbolInfo(asset);
+    } catch (error) {
+      if (error instanceof HttpError && error.status === 404) {
+        throw new Error(`Symbol not found: ${symbol}`);
+      }
+      this.logger.error('Failed to get symbol info', {
+        symbol,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Search active assets by symbol or name
+   * Alpaca has no search endpoint, so the asset list is fetched once and matched locally:
+   * exact symbols first, then symbol prefixes, then names.
+   */
+  async searchSymbols(query: string, limit: number = 10): Promise<SymbolInfo[]> {
+    const term = query.trim().toUpperCase();
+    if (!term) {
+      return [];
+    }
+
+    try {
+      if (!this.assets) {
+        this.assets = await this.request<any[]>(this.baseUrl, '/v2/assets', { status: 'active' });
+      }
+
+      const rank = (asset: any): number => {
+        const symbol = this.normalizer.fromAlpacaSymbol(asset.symbol);
+        if (symbol === term || asset.symbol === term) {
+          return 0;
+        }
+        if (symbol.startsWith(term)) {
+          return 1;
+        }
+        return String(asset.name || '').toUpperCase().includes(term) ? 2 : -1;
+      };
+
+      return this.assets
+        .map(asset => ({ asset, rank: rank(asset) }))
+        .filter(match => match.rank >= 0)
+        .sort((a, b) => a.rank - b.rank || a.asset.symbol.localeCompare(b.asset.symbol))
+        .slice(0, limit)
+        .map(match => this.normalizer.normalizeSymbolInfo(match.asset));
+    } catch (error) {
+      this.logger.error('Failed to search symbols', {
+        query,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Real-time streaming is not implemented; poll getRealTimeQuote instead
+   */
+  async subscribe(
+    symbols: string[],
+    dataTypes: ('quotes' | 'trades' | 'bars')[],
+    callback: (event: MarketDataEvent) => void
+  ): Promise<MarketDataSubscription> {
+    throw new Error('AlpacaDataProvider does not support real-time subscriptions');
+  }
+
+  /**
+   * Real-time streaming is not implemented
+   */
+  async unsubscribe(subscriptionId: string): Promise<void> {
+    throw new Error('AlpacaDataProvider does not support real-time subscriptions');
+  }
+
+  /**
+   * Check if provider is connected
+   */
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Verify the key pair against the market clock
+   */
+  async connect(): Promise<void> {
+    try {
+      await this.request(this.baseUrl, '/v2/clock');
+      this.connected = true;
+      this.logger.info('Successfully connected to Alpaca market data', { feed: this.feed });
+    } catch (error) {
+      this.connected = false;
+      this.logger.error('Failed to connect to Alpaca market data', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Disconnect from the provider
+   */
+  async disconnect(): Promise<void> {
+    this.connected = false;
+    this.logger.info('Disconnected from Alpaca market data');
+  }
+
+  /**
+   * Get provider capabilities
+   */
+  getCapabilities(): DataProviderCapabilities {
+    return {
+      timeframes: Object.keys(TIMEFRAMES) as Timeframe[],
+      markets: ['stocks', 'crypto'],
+      realTimeData: false,
+      historicalData: true,
+      maxHistoryDays: Math.floor((Date.now() - HISTORY_START) / MS_PER_DAY),
+      rateLimit: {
+        requestsPerSecond: this.rateLimit.requestsPerMinute / 60,
+        requestsPerMinute: this.rateLimit.requestsPerMinute,
+        requestsPerDay: this.rateLimit.requestsPerDay ?? Number.POSITIVE_INFINITY
+      },
+      // IEX is live on every plan; SIP without a subscription fails for the latest 15 minutes rather than lagging
+      dataDelay: 0,
+      extendedHours: true
+    };
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  /**
+   * Send an authenticated GET request, waiting for the rate limit and retrying 429s
+   */
+  private async request<T = any>(
+    host: string,
+    path: string,
+    params: Record<string, string | number | boolean> = {}
+  ): Promise<T> {
+    const url = new URL(path, host);
+    Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, String(value)));
+
+    return getJson<T>(url, {
+      providerName: 'Alpaca',
+      headers: {
+        'APCA-API-KEY-ID': this.config.apiKey,
+        'APCA-API-SECRET-KEY': this.config.secretKey
+      },
+      rateLimiter: this.rateLimiter,
+      logger: this.logger,
+      fetchFn: this.fetchFn
+    });
+  }
+
+  /**
+   * Map platform symbols to Alpaca symbols; crypto pairs take a slash, e.g. BTCUSD -> BTC/USD
+   */
+  private toAlpacaSymbol(symbol: string): string {
+    const upper = symbol.trim().toUpperCase();
+    if (upper.includes('/') || getMarketSessionForSymbol(upper) !== MARKET_SESSIONS.CRYPTO) {
+      return upper;
+    }
+
+    const quote = CRYPTO_QUOTE_CURRENCIES.find(currency => upper.endsWith(currency) && upper.length > currency.length);
+    return quote ? `${upper.slice(0, -quote.length)}/${quote}` : upper;
+  }
+}
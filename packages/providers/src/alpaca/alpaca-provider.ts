@@ -13,9 +13,12 @@ import {
   OrderSide,
   OrderType,
   OrderStatus,
+  OrderRequest,
+  OrderClass,
+  TimeInForce,
   PositionSide
 } from '@jware-trader8/types';
-import { Logger } from '@jware-trader8/utils';
+import { Logger, validateOrderRequest } from '@jware-trader8/utils';
 
 // Import Alpaca SDK (will be mocked in tests)
 const Alpaca = require('@alpacahq/alpaca-trade-api');
@@ -113,18 +116,7 @@ export class AlpacaTradingProvider implements ITradingProvider {
     orderType: OrderType,
     price?: number
   ): Promise<Order> {
-    try {
-      const orderParams = this.buildOrderParams(symbol, quantity, 'buy', orderType, price);
-      const orderData = await this.retryWithBackoff(() => this.alpacaClient.createOrder(orderParams));
-      
-      const order = this.normalizeOrder(orderData);
-      this.logger.info('Buy order placed', { orderId: order.id, symbol, quantity, orderType });
-      
-      return order;
-    } catch (error) {
-      this.logger.error('Failed to place buy order', { symbol, quantity, orderType, error });
-      throw error;
-    }
+    return this.placeOrder(this.toOrderRequest(symbol, quantity, 'BUY', orderType, price));
   }
 
   /**
@@ -136,16 +128,36 @@ export class AlpacaTradingProvider implements ITradingProvider {
     orderType: OrderType,
     price?: number
   ): Promise<Order> {
+    return this.placeOrder(this.toOrderRequest(symbol, quantity, 'SELL', orderType, price));
+  }
+
+  /**
+   * Place an order with the full set of order options
+   */
+  async placeOrder(request: OrderRequest): Promise<Order> {
+    const { symbol, side, quantity, type } = request;
+    const validation = validateOrderRequest(request);
+    if (!validation.isValid) {
+      throw new Error(`Invalid order: ${validation.errors.map(error => error.message).join('; ')}`);
+    }
+
     try {
-      const orderParams = this.buildOrderParams(symbol, quantity, 'sell', orderType, price);
+      const orderParams = this.buildOrderParams(request);
       const orderData = await this.retryWithBackoff(() => this.alpacaClient.createOrder(orderParams));
-      
+
       const order = this.normalizeOrder(orderData);
-      this.logger.info('Sell order placed', { orderId: order.id, symbol, quantity, orderType });
-      
+      this.logger.info('Order placed', {
+        orderId: order.id,
+        symbol,
+        side,
+        quantity,
+        orderType: type,
+        orderClass: request.orderClass
+      });
+
       return order;
     } catch (error) {
-      this.logger.error('Failed to place sell order', { symbol, quantity, orderType, error });
+      this.logger.error('Failed to place order', { symbol, side, quantity, orderType: type, error });
       throw error;
     }
   }
@@ -320,7 +332,13 @@ export class AlpacaTradingProvider implements ITradingProvider {
       timestamp: new Date(alpacaOrder.created_at),
       filledQuantity: alpacaOrder.filled_qty ? parseFloat(alpacaOrder.filled_qty) : undefined,
       averagePrice: alpacaOrder.filled_avg_price ? parseFloat(alpacaOrder.filled_avg_price) : undefined,
-      clientOrderId: alpacaOrder.client_order_id
+      clientOrderId: alpacaOrder.client_order_id,
+      timeInForce: alpacaOrder.time_in_force ? alpacaOrder.time_in_force.toUpperCase() as TimeInForce : undefined,
+      extendedHours: alpacaOrder.extended_hours,
+      orderClass: this.normalizeOrderClass(alpacaOrder.order_class),
+      trailPrice: alpacaOrder.trail_price ? parseFloat(alpacaOrder.trail_price) : undefined,
+      trailPercent: alpacaOrder.trail_percent ? parseFloat(alpacaOrder.trail_percent) : undefined,
+      legs: alpacaOrder.legs ? (alpacaOrder.legs as any[]).map(leg => this.normalizeOrder(leg)) : undefined
     };
   }
 
@@ -343,34 +361,84 @@ export class AlpacaTradingProvider implements ITradingProvider {
   }
 
   /**
-   * Build order parameters for Alpaca API
+   * Build an order request from the single price taken by placeBuyOrder and placeSellOrder
    */
-  private buildOrderParams(
+  private toOrderRequest(
     symbol: string,
     quantity: number,
-    side: string,
+    side: OrderSide,
     orderType: OrderType,
     price?: number
-  ): any {
-    const params: any = {
+  ): OrderRequest {
+    return {
       symbol,
-      qty: quantity,
       side,
-      type: orderType.toLowerCase(),
-      time_in_force: 'day'
+      quantity,
+      type: orderType,
+      limitPrice: orderType === 'LIMIT' ? price : undefined,
+      stopPrice: orderType === 'STOP' ? price : undefined
     };
+  }
 
-    if (orderType === 'LIMIT' && price) {
-      params.limit_price = price;
+  /**
+   * Build order parameters for Alpaca API
+   */
+  private buildOrderParams(request: OrderRequest): any {
+    const params: any = {
+      symbol: request.symbol,
+      qty: request.quantity,
+      side: request.side.toLowerCase(),
+      type: request.type.toLowerCase(),
+      time_in_force: (request.timeInForce ?? 'DAY').toLowerCase()
+    };
+
+    if (request.limitPrice !== undefined) {
+      params.limit_price = request.limitPrice;
+    }
+    if (request.stopPrice !== undefined) {
+      params.stop_price = request.stopPrice;
+    }
+    if (request.trailPrice !== undefined) {
+      params.trail_price = request.trailPrice;
+    }
+    if (request.trailPercent !== undefined) {
+      params.trail_percent = request.trailPercent;
+    }
+    if (request.extendedHours) {
+      params.extended_hours = true;
+    }
+    if (request.clientOrderId) {
+      params.client_order_id = request.clientOrderId;
     }
 
-    if (orderType === 'STOP' && price) {
-      params.stop_price = price;
+    if (request.orderClass && request.orderClass !== 'SIMPLE') {
+      params.order_class = request.orderClass.toLowerCase();
+      params.take_profit = { limit_price: request.takeProfit!.limitPrice };
+      params.stop_loss = { stop_price: request.stopLoss!.stopPrice };
+      if (request.stopLoss!.limitPrice !== undefined) {
+        params.stop_loss.limit_price = request.stopLoss!.limitPrice;
+      }
     }
 
     return params;
   }
 
+  /**
+   * Normalize Alpaca order class to standard OrderClass
+   */
+  private normalizeOrderClass(alpacaOrderClass?: string): OrderClass | undefined {
+    switch (alpacaOrderClass?.toLowerCase()) {
+      case 'bracket':
+        return 'BRACKET';
+      case 'oco':
+        return 'OCO';
+      case undefined:
+        return undefined;
+      default:
+        return 'SIMPLE';
+    }
+  }
+
   /**
    * Normalize Alpaca order type to standard OrderType
    */
@@ -384,6 +452,8 @@ export class AlpacaTradingProvider implements ITradingProvider {
         return 'STOP';
       case 'stop_limit':
         return 'STOP_LIMIT';
+      case 'trailing_stop':
+        return 'TRAILING_STOP';
       default:
         return 'MARKET';
     }
@@ -403,6 +473,8 @@ export class AlpacaTradingProvider implements ITradingProvider {
       case 'partially_filled':
         return 'PARTIALLY_FILLED';
       case 'cancelled':
+      case 'canceled':
+      case 'expired':
         return 'CANCELLED';
       case 'rejected':
         return 'REJECTED';
@@ -0,0 +1,73 @@
+/**
+ * JSON GET requests for REST data providers, with rate limiting and 429 retries
+ */
+
+import { Logger, sleep } from '@jware-trader8/utils';
+import { RequestRateLimiter } from './rate-limiter';
+
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+/**
+ * Error for a response with a non-2xx status
+ */
+export class HttpError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+export interface JsonRequestOptions {
+  /** Provider name used in error messages */
+  providerName: string;
+  /** Authentication and other request headers */
+  headers: Record<string, string>;
+  rateLimiter: RequestRateLimiter;
+  logger: Logger;
+  fetchFn: typeof fetch;
+}
+
+/**
+ * Send a GET request and parse the JSON body, waiting for the rate limit and retrying 429s
+ * @throws HttpError when the response status is not 2xx
+ */
+export async function getJson<T = any>(url: URL, options: JsonRequestOptions): Promise<T> {
+  return retryOnRateLimit(async () => {
+    await options.rateLimiter.acquire();
+
+    const response = await options.fetchFn(url.toString(), { headers: options.headers });
+    const body: any = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new HttpError(
+        `${options.providerName} request failed (${response.status}): ${body.error || body.message || response.statusText}`,
+        response.status
+      );
+    }
+
+    return body as T;
+  }, options.logger);
+}
+
+/**
+ * Retry an operation with exponential backoff while it fails with HTTP 429
+ */
+export async function retryOnRateLimit<T>(operation: () => Promise<T>, logger: Logger): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!(error instanceof HttpError) || error.status !== 429 || attempt >= MAX_RETRIES) {
+        throw error;
+      }
+
+      const delay = RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
+      logger.warn(`Rate limited, retrying in ${delay}ms`, { attempt, maxRetries: MAX_RETRIES });
+      await sleep(delay);
+    }
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * US equity session helpers for filtering intraday bars
+ */
+
+// Regular session in minutes after midnight, New York time
+const REGULAR_SESSION_MINUTES = { open: 9 * 60 + 30, close: 16 * 60 };
+
+const NEW_YORK_TIME = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'America/New_York',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23'
+});
+
+/**
+ * Whether a bar starting at this time falls in the 09:30-16:00 New York session
+ */
+export function isRegularUSEquitySession(timestamp: Date): boolean {
+  const parts = NEW_YORK_TIME.formatToParts(timestamp);
+  const hour = Number(parts.find(part => part.type === 'hour')?.value);
+  const minute = Number(parts.find(part => part.type === 'minute')?.value);
+  const minutes = hour * 60 + minute;
+  return minutes >= REGULAR_SESSION_MINUTES.open && minutes < REGULAR_SESSION_MINUTES.close;
+}
@@ -0,0 +1,57 @@
+/**
+ * Client-side request rate limiting for REST providers
+ */
+
+import { sleep } from '@jware-trader8/utils';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+export interface RequestRateLimit {
+  /** Requests allowed in any rolling minute */
+  requestsPerMinute: number;
+  /** Requests allowed per UTC day; unlimited when omitted */
+  requestsPerDay?: number;
+}
+
+/**
+ * Sliding one-minute window with an optional daily cap
+ */
+export class RequestRateLimiter {
+  private limits: RequestRateLimit;
+  private providerName: string;
+  // Request times within the last minute, and the count for the current UTC day
+  private recentRequests: number[] = [];
+  private dailyRequests = { day: '', count: 0 };
+
+  constructor(limits: RequestRateLimit, providerName: string) {
+    this.limits = limits;
+    this.providerName = providerName;
+  }
+
+  /**
+   * Wait until a request may be sent, then record it
+   * Throws once the daily cap is used up, since waiting would take hours.
+   */
+  async acquire(): Promise<void> {
+    const today = new Date().toISOString().slice(0, 10);
+    if (this.dailyRequests.day !== today) {
+      this.dailyRequests = { day: today, count: 0 };
+    }
+    const requestsPerDay = this.limits.requestsPerDay ?? Number.POSITIVE_INFINITY;
+    if (this.dailyRequests.count >= requestsPerDay) {
+      throw new Error(`${this.providerName} daily request limit of ${requestsPerDay} reached`);
+    }
+
+    for (;;) {
+      const now = Date.now();
+      this.recentRequests = this.recentRequests.filter(time => now - time < MS_PER_MINUTE);
+      if (this.recentRequests.length < this.limits.requestsPerMinute) {
+        break;
+      }
+      await sleep(this.recentRequests[0] + MS_PER_MINUTE - now);
+    }
+
+    this.recentRequests.push(Date.now());
+    this.dailyRequests.count++;
+  }
+}
@@ -7,11 +7,28 @@
 export { AlpacaTradingProvider } from './alpaca/alpaca-provider';
 export type { AlpacaConfig } from './alpaca/alpaca-provider';
 
+// Alpaca Data Provider
+export { AlpacaDataProvider } from './alpaca/alpaca-data-provider';
+export { AlpacaDataNormalizer } from './alpaca/alpaca-data-normalizer';
+export type { AlpacaDataConfig } from './alpaca/alpaca-data-provider';
+
 // Provider factory (will be implemented)
 // export { ProviderFactory } from './factory/provider-factory';
 
-// Polygon Data Provider (will be implemented)
-// export { PolygonDataProvider } from './polygon/polygon-data-provider';
+// Polygon Data Provider
+export { PolygonDataProvider } from './polygon/polygon-data-provider';
+export { PolygonDataNormalizer } from './polygon/polygon-normalizer';
+
+// Shared HTTP helpers
+export { HttpError } from './common/http';
+
+// Replay Data Provider
+export { ReplayDataProvider } from './replay/replay-data-provider';
+export type { ReplayConfig } from './replay/replay-data-provider';
+
+// Simulated Trading Provider
+export { SimulatedTradingProvider } from './simulator/simulated-trading-provider';
+export type { SimulatorConfig } from './simulator/simulated-trading-provider';
 
 // Re-export core interfaces for convenience
 export type {
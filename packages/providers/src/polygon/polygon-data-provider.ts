@@ -0,0 +1,315 @@
+/**
+ * Polygon.io Data Provider Implementation
+ * Historical aggregates, snapshot quotes and reference data over Polygon's REST API
+ */
+
+import { IDataProvider, DataProviderCapabilities } from '@jware-trader8/core';
+import {
+  OHLCV,
+  Quote,
+  SymbolInfo,
+  MarketDataSubscription,
+  MarketDataEvent,
+  PolygonConfig,
+  Timeframe
+} from '@jware-trader8/types';
+import {
+  Logger,
+  MARKET_SESSIONS,
+  getMarketSessionForSymbol,
+  timeframeToMilliseconds
+} from '@jware-trader8/utils';
+import { PolygonDataNormalizer } from './polygon-normalizer';
+import { RequestRateLimiter } from '../common/rate-limiter';
+import { HttpError, getJson } from '../common/http';
+import { isRegularUSEquitySession } from '../common/market-session';
+
+const DEFAULT_BASE_URL = 'https://api.polygon.io';
+// Polygon's free plan allows 5 requests a minute and has no daily cap
+const DEFAULT_RATE_LIMIT = { requestsPerMinute: 5, requestsPerDay: Number.POSITIVE_INFINITY };
+const MAX_AGGREGATES_PER_PAGE = 50000;
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+const TIMEFRAME_AGGREGATES: Record<Timeframe, { multiplier: number; timespan: string }> = {
+  '1m': { multiplier: 1, timespan: 'minute' },
+  '5m': { multiplier: 5, timespan: 'minute' },
+  '15m': { multiplier: 15, timespan: 'minute' },
+  '1h': { multiplier: 1, timespan: 'hour' },
+  '4h': { multiplier: 4, timespan: 'hour' },
+  '1d': { multiplier: 1, timespan: 'day' },
+  '1w': { multiplier: 1, timespan: 'week' },
+  '1M': { multiplier: 1, timespan: 'month' }
+};
+
+/**
+ * Polygon Data Provider
+ * Implements IDataProvider for Polygon.io market data
+ */
+export class PolygonDataProvider implements IDataProvider {
+  private config: PolygonConfig;
+  private baseUrl: string;
+  private rateLimit: { requestsPerMinute: number; requestsPerDay: number };
+  private normalizer: PolygonDataNormalizer;
+  private rateLimiter: RequestRateLimiter;
+  private logger: Logger;
+  private fetchFn: typeof fetch = (input, init) => fetch(input, init);
+  private connected: boolean = false;
+
+  constructor(config: PolygonConfig) {
+    if (!config.apiKey) {
+      throw new Error('Polygon API key is required');
+    }
+
+    this.config = config;
+    this.baseUrl = config.baseUrl || DEFAULT_BASE_URL;
+    this.rateLimit = config.rateLimit || DEFAULT_RATE_LIMIT;
+    this.normalizer = new PolygonDataNormalizer();
+    this.rateLimiter = new RequestRateLimiter(this.rateLimit, 'Polygon');
+    this.logger = new Logger({
+      level: 'info',
+      console: true,
+      format: 'text'
+    });
+  }
+
+  /**
+   * Get historical OHLCV data, following Polygon's pagination
+   * Extended-hours bars are dropped from intraday equity data only when includeExtendedHours is false.
+   */
+  async getHistoricalData(
+    symbol: string,
+    timeframe: Timeframe,
+    startDate: Date,
+    endDate: Date,
+    options?: {
+      limit?: number;
+      includeExtendedHours?: boolean;
+    }
+  ): Promise<OHLCV[]> {
+    const aggregate = TIMEFRAME_AGGREGATES[timeframe];
+    if (!aggregate) {
+      throw new Error(`Unsupported timeframe: ${timeframe}`);
+    }
+    if (startDate.getTime() > endDate.getTime()) {
+      throw new Error('Start date must be before end date');
+    }
+
+    const ticker = this.toPolygonTicker(symbol);
+    const limit = options?.limit;
+    const bars: OHLCV[] = [];
+
+    let url: string | undefined =
+      `/v2/aggs/ticker/${ticker}/range/${aggregate.multiplier}/${aggregate.timespan}/` +
+      `${startDate.getTime()}/${endDate.getTime()}`;
+    let params: Record<string, string | number | boolean> = {
+      adjusted: true,
+      sort: 'asc',
+      limit: MAX_AGGREGATES_PER_PAGE
+    };
+
+    try {
+      while (url) {
+        const page: any = await this.request(url, params);
+        bars.push(...this.normalizer.normalizeOHLCV(page, symbol));
+
+        if (limit !== undefined && bars.length >= limit) {
+          break;
+        }
+
+        // next_url already carries the original query and a cursor
+        url = page.next_url;
+        params = {};
+      }
+    } catch (error) {
+      this.logger.error('Failed to get historical data', {
+        symbol,
+        timeframe,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+
+    const filtered = options?.includeExtendedHours === false && this.isIntradayEquity(ticker, timeframe)
+      ? bars.filter(bar => isRegularUSEquitySession(bar.timestamp))
+      : bars;
+
+    return limit !== undefined ? filtered.slice(0, limit) : filtered;
+  }
+
+  /**
+   * Get the latest quote from the ticker snapshot
+   */
+  async getRealTimeQuote(symbol: string): Promise<Quote> {
+    const ticker = this.toPolygonTicker(symbol);
+
+    try {
+      const snapshot = await this.request(`${this.getSnapshotPath(ticker)}/${ticker}`);
+      return this.normalizer.normalizeQuote(snapshot, this.normalizer.fromPolygonTicker(ticker));
+    } catch (error) {
+      this.logger.error('Failed to get quote', {
+        symbol,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get symbol information from Polygon's reference data
+   */
+  async getSymbolInfo(symbol: string): Promise<SymbolInfo> {
+    const ticker = this.toPolygonTicker(symbol);
+
+    try {
+      const response = await this.request(`/v3/reference/tickers/${ticker}`);
+      return this.normalizer.normalizeSymbolInfo(response);
+    } catch (error) {
+      if (error instanceof HttpError && error.status === 404) {
+        throw new Error(`Symbol not found: ${symbol}`);
+      }
+      this.logger.error('Failed to get symbol info', {
+        symbol,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Search active tickers by symbol or company name
+   */
+  async searchSymbols(query: string, limit: number = 10): Promise<SymbolInfo[]> {
+    try {
+      const response: any = await this.request('/v3/reference/tickers', {
+        search: query,
+        active: true,
+        limit
+      });
+      return (response.results || []).map((ticker: any) => this.normalizer.normalizeSymbolInfo(ticker));
+    } catch (error) {
+      this.logger.error('Failed to search symbols', {
+        query,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Real-time streaming is not implemented; poll getRealTimeQuote instead
+   */
+  async subscribe(
+    symbols: string[],
+    dataTypes: ('quotes' | 'trades' | 'bars')[],
+    callback: (event: MarketDataEvent) => void
+  ): Promise<MarketDataSubscription> {
+    throw new Error('PolygonDataProvider does not support real-time subscriptions');
+  }
+
+  /**
+   * Real-time streaming is not implemented
+   */
+  async unsubscribe(subscriptionId: string): Promise<void> {
+    throw new Error('PolygonDataProvider does not support real-time subscriptions');
+  }
+
+  /**
+   * Check if provider is connected
+   */
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Verify the API key against the market status endpoint
+   */
+  async connect(): Promise<void> {
+    try {
+      await this.request('/v1/marketstatus/now');
+      this.connected = true;
+      this.logger.info('Successfully connected to Polygon');
+    } catch (error) {
+      this.connected = false;
+      this.logger.error('Failed to connect to Polygon', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Disconnect from the provider
+   */
+  async disconnect(): Promise<void> {
+    this.connected = false;
+    this.logger.info('Disconnected from Polygon');
+  }
+
+  /**
+   * Get provider capabilities
+   */
+  getCapabilities(): DataProviderCapabilities {
+    return {
+      timeframes: Object.keys(TIMEFRAME_AGGREGATES) as Timeframe[],
+      markets: ['stocks', 'crypto', 'forex', 'indices'],
+      realTimeData: false,
+      historicalData: true,
+      // Free plan history; paid plans reach further back
+      maxHistoryDays: 730,
+      rateLimit: {
+        requestsPerSecond: this.rateLimit.requestsPerMinute / 60,
+        requestsPerMinute: this.rateLimit.requestsPerMinute,
+        requestsPerDay: this.rateLimit.requestsPerDay
+      },
+      // Snapshots are 15 minutes delayed below the Advanced plan
+      dataDelay: 15 * MS_PER_MINUTE,
+      extendedHours: true
+    };
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  /**
+   * Send an authenticated GET request, waiting for the rate limit and retrying 429s
+   */
+  private async request<T = any>(pathOrUrl: string, params: Record<string, string | number | boolean> = {}): Promise<T> {
+    const url = new URL(pathOrUrl, this.baseUrl);
+    Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, String(value)));
+
+    return getJson<T>(url, {
+      providerName: 'Polygon',
+      headers: { Authorization: `Bearer ${this.config.apiKey}` },
+      rateLimiter: this.rateLimiter,
+      logger: this.logger,
+      fetchFn: this.fetchFn
+    });
+  }
+
+  /**
+   * Map platform symbols to Polygon tickers; crypto pairs take the X: prefix
+   */
+  private toPolygonTicker(symbol: string): string {
+    const upper = symbol.trim().toUpperCase();
+    if (upper.includes(':')) {
+      return upper;
+    }
+    return getMarketSessionForSymbol(upper) === MARKET_SESSIONS.CRYPTO ? `X:${upper}` : upper;
+  }
+
+  private getSnapshotPath(ticker: string): string {
+    if (ticker.startsWith('X:')) {
+      return '/v2/snapshot/locale/global/markets/crypto/tickers';
+    }
+    if (ticker.startsWith('C:')) {
+      return '/v2/snapshot/locale/global/markets/forex/tickers';
+    }
+    return '/v2/snapshot/locale/us/markets/stocks/tickers';
+  }
+
+  private isIntradayEquity(ticker: string, timeframe: Timeframe): boolean {
+    return !/^[A-Z]:/.test(ticker) && timeframeToMilliseconds(timeframe) < MS_PER_DAY;
+  }
+}
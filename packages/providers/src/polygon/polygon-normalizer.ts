@@ -0,0 +1,134 @@
+/**
+ * Polygon.io data normalization
+ * Converts Polygon REST payloads into the platform's market data types.
+ */
+
+import { IDataNormalizer } from '@jware-trader8/core';
+import { OHLCV, Quote, SymbolInfo } from '@jware-trader8/types';
+import { MARKET_SESSIONS } from '@jware-trader8/utils';
+
+const NANOSECONDS_PER_MILLISECOND = 1e6;
+
+/**
+ * Polygon data normalizer
+ * Implements IDataNormalizer for aggregates, snapshots and reference tickers
+ */
+export class PolygonDataNormalizer implements IDataNormalizer {
+  /**
+   * Normalize aggregate bars (`results` of /v2/aggs) to OHLCV
+   */
+  normalizeOHLCV(providerData: any, symbol: string): OHLCV[] {
+    const results: any[] = Array.isArray(providerData) ? providerData : providerData?.results || [];
+
+    return results.map(bar => {
+      const ohlcv: OHLCV = {
+        timestamp: new Date(bar.t),
+        open: bar.o,
+        high: bar.h,
+        low: bar.l,
+        close: bar.c,
+        volume: bar.v
+      };
+
+      if (typeof bar.vw === 'number') {
+        ohlcv.vwap = bar.vw;
+      }
+      if (typeof bar.n === 'number') {
+        ohlcv.tradeCount = bar.n;
+      }
+
+      return ohlcv;
+    });
+  }
+
+  /**
+   * Normalize a ticker snapshot to a quote
+   * Falls back to the last trade for bid and ask when the market has no quote, as for most crypto pairs.
+   */
+  normalizeQuote(providerData: any, symbol: string): Quote {
+    const snapshot = providerData?.ticker ?? providerData;
+    const lastQuote = snapshot?.lastQuote;
+    const lastTrade = snapshot?.lastTrade;
+
+    const last = lastTrade?.p ?? snapshot?.min?.c ?? snapshot?.day?.c ?? snapshot?.prevDay?.c;
+    if (typeof last !== 'number' || last <= 0) {
+      throw new Error(`No quote available for ${symbol}`);
+    }
+
+    const bid = lastQuote?.p > 0 ? lastQuote.p : last;
+    const ask = lastQuote?.P > 0 ? lastQuote.P : last;
+    const timestamps = [lastQuote?.t, lastTrade?.t, snapshot?.updated].filter((t): t is number => typeof t === 'number');
+
+    return {
+      symbol: symbol.toUpperCase(),
+      bid,
+      ask,
+      last,
+      bidSize: lastQuote?.s,
+      askSize: lastQuote?.S,
+      lastSize: lastTrade?.s,
+      timestamp: timestamps.length > 0
+        ? new Date(Math.max(...timestamps) / NANOSECONDS_PER_MILLISECOND)
+        : new Date(),
+      spread: ask - bid
+    };
+  }
+
+  /**
+   * Normalize a reference ticker (/v3/reference/tickers) to symbol information
+   */
+  normalizeSymbolInfo(providerData: any): SymbolInfo {
+    const ticker = providerData?.results && !Array.isArray(providerData.results)
+      ? providerData.results
+      : providerData;
+    const type = this.normalizeAssetType(ticker.market);
+    const session = type === 'CRYPTO' ? MARKET_SESSIONS.CRYPTO : MARKET_SESSIONS.NYSE;
+
+    const info: SymbolInfo = {
+      symbol: this.fromPolygonTicker(ticker.ticker),
+      name: ticker.name || ticker.ticker,
+      type,
+      exchange: ticker.primary_exchange || ticker.market || 'UNKNOWN',
+      currency: (ticker.currency_symbol || ticker.currency_name || 'USD').toUpperCase(),
+      tickSize: type === 'CRYPTO' ? 0.00000001 : type === 'FOREX' ? 0.00001 : 0.01,
+      minQuantity: type === 'CRYPTO' ? 0.00000001 : 1,
+      tradeable: ticker.active !== false,
+      marketHours: {
+        open: session.open,
+        close: session.close,
+        daysOfWeek: session.daysOfWeek,
+        timezone: session.timezone
+      }
+    };
+
+    if (ticker.description) {
+      info.description = ticker.description;
+    }
+
+    return info;
+  }
+
+  /**
+   * Strip Polygon's market prefix, e.g. X:BTCUSD -> BTCUSD
+   */
+  fromPolygonTicker(ticker: string): string {
+    return ticker.replace(/^[A-Z]:/, '');
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private normalizeAssetType(market: string | undefined): SymbolInfo['type'] {
+    switch (market) {
+      case 'crypto':
+        return 'CRYPTO';
+      case 'fx':
+        return 'FOREX';
+      case 'indices':
+        return 'INDEX';
+      default:
+        return 'STOCK';
+    }
+  }
+}
@@ -0,0 +1,269 @@
+/**
+ * Replay Data Provider
+ * Streams stored bars as if they were arriving live, so simulated trading can run offline
+ */
+
+import { IDataProvider, DataProviderCapabilities } from '@jware-trader8/core';
+import {
+  OHLCV,
+  Quote,
+  SymbolInfo,
+  MarketDataSubscription,
+  MarketDataEvent,
+  Timeframe
+} from '@jware-trader8/types';
+import { Logger, generateUUID } from '@jware-trader8/utils';
+
+const DEFAULT_BAR_INTERVAL_MS = 1000;
+
+/**
+ * Replay configuration
+ */
+export interface ReplayConfig {
+  /** Where the bars are read from, such as the local OHLCV store */
+  source: Pick<IDataProvider, 'getHistoricalData'>;
+  symbol: string;
+  timeframe: Timeframe;
+  /** First bar replayed; earlier bars are history */
+  startDate: Date;
+  /** Last bar replayed (default now) */
+  endDate?: Date;
+  /** Wall-clock time between replayed bars in milliseconds (default 1000) */
+  barIntervalMs?: number;
+}
+
+interface ReplaySubscription {
+  subscription: MarketDataSubscription;
+  callback: (event: MarketDataEvent) => void;
+}
+
+/**
+ * Replay Data Provider
+ * Only bars are streamed. History and quotes are read from the replay clock, the time of the last
+ * replayed bar, so a strategy warms up on the bars before the replay and never sees later ones.
+ */
+export class ReplayDataProvider implements IDataProvider {
+  private config: ReplayConfig;
+  private symbol: string;
+  private logger: Logger;
+  private bars: OHLCV[] = [];
+  private nextBar = 0;
+  private replayTime: number;
+  private subscriptions: Map<string, ReplaySubscription> = new Map();
+  private timer?: NodeJS.Timeout;
+  private connected: boolean = false;
+
+  constructor(config: ReplayConfig) {
+    this.config = config;
+    this.symbol = config.symbol.toUpperCase();
+    // Nothing has been replayed yet, so history ends just before the first bar
+    this.replayTime = config.startDate.getTime() - 1;
+    this.logger = new Logger({
+      level: 'info',
+      console: true,
+      format: 'text'
+    });
+  }
+
+  /**
+   * Get the bars of the requested window, shifted so that now is the replay clock
+   */
+  async getHistoricalData(
+    symbol: string,
+    timeframe: Timeframe,
+    startDate: Date,
+    endDate: Date,
+    options?: {
+      limit?: number;
+      includeExtendedHours?: boolean;
+    }
+  ): Promise<OHLCV[]> {
+    const shift = Math.max(0, Date.now() - this.replayTime);
+    const end = Math.min(endDate.getTime() - shift, this.replayTime);
+    const start = startDate.getTime() - shift;
+    if (start > end) {
+      return [];
+    }
+    return this.config.source.getHistoricalData(symbol, timeframe, new Date(start), new Date(end), options);
+  }
+
+  /**
+   * Quote at the close of the last replayed bar, or the open of the first before the replay starts
+   */
+  async getRealTimeQuote(symbol: string): Promise<Quote> {
+    if (symbol.toUpperCase() !== this.symbol || this.bars.length === 0) {
+      throw new Error(`No replayed bars for ${symbol}`);
+    }
+
+    const lastBar = this.nextBar > 0 ? this.bars[this.nextBar - 1] : undefined;
+    const price = lastBar ? lastBar.close : this.bars[0].open;
+    return {
+      symbol: this.symbol,
+      bid: price,
+      ask: price,
+      last: price,
+      timestamp: lastBar ? lastBar.timestamp : this.bars[0].timestamp
+    };
+  }
+
+  /**
+   * Replayed bars carry no reference data
+   */
+  async getSymbolInfo(symbol: string): Promise<SymbolInfo> {
+    throw new Error('ReplayDataProvider does not provide symbol information');
+  }
+
+  /**
+   * Replayed bars carry no reference data
+   */
+  async searchSymbols(query: string, limit?: number): Promise<SymbolInfo[]> {
+    throw new Error('ReplayDataProvider does not provide symbol search');
+  }
+
+  /**
+   * Receive the replayed bars
+   */
+  async subscribe(
+    symbols: string[],
+    dataTypes: ('quotes' | 'trades' | 'bars')[],
+    callback: (event: MarketDataEvent) => void
+  ): Promise<MarketDataSubscription> {
+    const subscription: MarketDataSubscription = {
+      id: generateUUID(),
+      symbols: symbols.map(symbol => symbol.toUpperCase()),
+      dataTypes,
+      status: 'ACTIVE',
+      timestamp: new Date()
+    };
+    this.subscriptions.set(subscription.id, { subscription, callback });
+    return subscription;
+  }
+
+  /**
+   * Stop receiving the replayed bars
+   */
+  async unsubscribe(subscriptionId: string): Promise<void> {
+    this.subscriptions.delete(subscriptionId);
+  }
+
+  /**
+   * Check if the bars to replay are loaded
+   */
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Load the bars to replay
+   * @throws Error when the source has no bars in the replay range
+   */
+  async connect(): Promise<void> {
+    const endDate = this.config.endDate ?? new Date();
+    this.bars = await this.config.source.getHistoricalData(
+      this.symbol,
+      this.config.timeframe,
+      this.config.startDate,
+      endDate
+    );
+    if (this.bars.length === 0) {
+      throw new Error(
+        `No stored ${this.config.timeframe} bars for ${this.symbol} between ` +
+        `${this.config.startDate.toISOString()} and ${endDate.toISOString()}`
+      );
+    }
+
+    this.connected = true;
+    this.logger.info('Loaded bars to replay', {
+      symbol: this.symbol,
+      timeframe: this.config.timeframe,
+      bars: this.bars.length
+    });
+  }
+
+  /**
+   * Stop the replay
+   */
+  async disconnect(): Promise<void> {
+    this.stopReplay();
+    this.connected = false;
+  }
+
+  /**
+   * Start streaming the loaded bars to subscribers, one per bar interval
+   */
+  startReplay(): void {
+    if (!this.connected) {
+      throw new Error('Not connected to replay data provider');
+    }
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.replayNextBar(), this.config.barIntervalMs ?? DEFAULT_BAR_INTERVAL_MS);
+  }
+
+  /**
+   * Pause streaming; a later startReplay continues from the next bar
+   */
+  stopReplay(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Replay clock: the time of the last replayed bar, in milliseconds since the epoch
+   */
+  now(): number {
+    return this.replayTime;
+  }
+
+  /**
+   * Whether every loaded bar has been replayed
+   */
+  isFinished(): boolean {
+    return this.connected && this.nextBar >= this.bars.length;
+  }
+
+  /**
+   * Get provider capabilities
+   */
+  getCapabilities(): DataProviderCapabilities {
+    return {
+      timeframes: [this.config.timeframe],
+      markets: ['stocks', 'crypto', 'forex', 'indices'],
+      realTimeData: true,
+      historicalData: true,
+      maxHistoryDays: Number.POSITIVE_INFINITY,
+      rateLimit: {
+        requestsPerSecond: Number.POSITIVE_INFINITY,
+        requestsPerMinute: Number.POSITIVE_INFINITY,
+        requestsPerDay: Number.POSITIVE_INFINITY
+      },
+      dataDelay: 0,
+      extendedHours: true
+    };
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private replayNextBar(): void {
+    const bar = this.bars[this.nextBar];
+    if (!bar) {
+      this.stopReplay();
+      this.logger.info('Replay finished', { symbol: this.symbol, bars: this.bars.length });
+      return;
+    }
+
+    this.nextBar++;
+    this.replayTime = bar.timestamp.getTime();
+    const event: MarketDataEvent = { type: 'BAR', symbol: this.symbol, data: bar, timestamp: bar.timestamp };
+    for (const { subscription, callback } of this.subscriptions.values()) {
+      if (subscription.dataTypes.includes('bars') && subscription.symbols.includes(this.symbol)) {
+        callback(event);
+      }
+    }
+  }
+}
@@ -0,0 +1,1022 @@
+/**
+ * Simulated Trading Provider Implementation
+ * Paper trading without a broker: orders fill against the quotes and bars fed to the provider
+ */
+
+import { IDataProvider, ITradingProvider } from '@jware-trader8/core';
+import {
+  Account,
+  Order,
+  Position,
+  ConnectionResult,
+  CancelResult,
+  OrderSide,
+  OrderType,
+  OrderRequest,
+  Quote,
+  OHLCV,
+  MarketDataEvent,
+  SlippageModelConfig,
+  ISimulatedAccountStore,
+  SimulatedAccountState
+} from '@jware-trader8/types';
+import {
+  Logger,
+  generateUUID,
+  getMarketSessionForSymbol,
+  isMarketOpen,
+  validateOrderRequest
+} from '@jware-trader8/utils';
+
+const DEFAULT_INITIAL_CASH = 100000;
+const DEFAULT_ACCOUNT_ID = 'simulator';
+const DEFAULT_FEED_POLL_INTERVAL_MS = 5000;
+// Share of the data provider's per-minute rate limit spent on simulator quote polls
+const FEED_RATE_LIMIT_SHARE = 0.2;
+const MS_PER_MINUTE = 60 * 1000;
+const QUANTITY_PRECISION = 1e8;
+
+/**
+ * Simulator configuration
+ */
+export interface SimulatorConfig {
+  /** Cash of a new account (default 100000) */
+  initialCash?: number;
+  /** Delay before an order reaches the simulated market, in milliseconds (default 0) */
+  latencyMs?: number;
+  /** Slippage applied to market and stop fills (default none) */
+  slippage?: SlippageModelConfig;
+  /** Commission per fill as a fraction of its value (default 0) */
+  commissionRate?: number;
+  /** Largest share of a bar's volume or of the quoted size one fill may take; the rest stays open */
+  maxVolumeParticipation?: number;
+  /** Probability that the simulated venue rejects an order (default 0) */
+  rejectionRate?: number;
+  /** Keeps the account between sessions; the account lives in memory only when omitted */
+  store?: ISimulatedAccountStore;
+  /** Account loaded from and saved to the store (default 'simulator') */
+  accountId?: string;
+  /** Random source for rejections, for reproducible runs (default Math.random) */
+  random?: () => number;
+}
+
+/**
+ * Market state an order is matched against
+ * Quotes match at the bid and ask; bars match over their range, entering at the open.
+ */
+interface MarketTick {
+  bid: number;
+  ask: number;
+  last: number;
+  /** Highest and lowest trade, for stop triggers */
+  high: number;
+  low: number;
+  /** Best prices reachable by buy and sell limit orders */
+  lowestAsk: number;
+  highestBid: number;
+  /** Size available to buyers and to sellers, when known */
+  buySize?: number;
+  sellSize?: number;
+  /** Traded volume, for volume-based slippage */
+  volume?: number;
+}
+
+/**
+ * Order with the simulator's matching state
+ */
+interface SimulatedOrder {
+  order: Order;
+  /** False until the order has reached the market */
+  active: boolean;
+  /** Bracket entry that must fill before this leg can */
+  parentId?: string;
+  /** Order cancelled when this one fills or is cancelled */
+  ocoWith?: string;
+  /** Best price seen since placement, which a trailing stop follows */
+  trailAnchor?: number;
+  /** STOP_LIMIT orders rest as limit orders once their stop triggers */
+  triggered?: boolean;
+}
+
+/**
+ * Simulated Trading Provider
+ * Implements ITradingProvider for offline paper trading with a cash account.
+ * Positions are long only: sells are limited to the quantity held.
+ */
+export class SimulatedTradingProvider implements ITradingProvider {
+  private config: SimulatorConfig;
+  private accountId: string;
+  private random: () => number;
+  private logger: Logger;
+  private isConnected: boolean = false;
+  private cash: number;
+  private positions: Map<string, Position> = new Map();
+  private orders: Map<string, SimulatedOrder> = new Map();
+  private lastTicks: Map<string, MarketTick> = new Map();
+  private timers: Set<NodeJS.Timeout> = new Set();
+  private saving: Promise<void> = Promise.resolve();
+  /** Orders already saved in a final state, which no later save needs to repeat */
+  private settledOrders: Set<string> = new Set();
+  private feed?: { stop: () => Promise<void> };
+
+  constructor(config: SimulatorConfig = {}) {
+    if (config.maxVolumeParticipation !== undefined &&
+        (config.maxVolumeParticipation <= 0 || config.maxVolumeParticipation > 1)) {
+      throw new Error('maxVolumeParticipation must be greater than 0 and at most 1');
+    }
+    if (config.rejectionRate !== undefined && (config.rejectionRate < 0 || config.rejectionRate > 1)) {
+      throw new Error('rejectionRate must be between 0 and 1');
+    }
+
+    this.config = config;
+    this.accountId = config.accountId ?? DEFAULT_ACCOUNT_ID;
+    this.random = config.random ?? Math.random;
+    this.cash = config.initialCash ?? DEFAULT_INITIAL_CASH;
+    this.logger = new Logger({
+      level: 'info',
+      console: true,
+      format: 'text'
+    });
+  }
+
+  /**
+   * Open the account, restoring it from the store when one was saved
+   */
+  async connect(): Promise<ConnectionResult> {
+    try {
+      const saved = this.config.store ? await this.config.store.loadAccount(this.accountId) : null;
+      if (saved) {
+        this.restoreState(saved);
+      }
+      this.isConnected = true;
+
+      this.logger.info('Simulated trading account opened', {
+        accountId: this.accountId,
+        cash: this.cash,
+        restored: saved !== null
+      });
+
+      return {
+        success: true,
+        accountInfo: await this.getAccount()
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error('Failed to open simulated trading account', { error: errorMessage });
+
+      return {
+        success: false,
+        error: errorMessage
+      };
+    }
+  }
+
+  /**
+   * Get current account information
+   */
+  async getAccount(): Promise<Account> {
+    this.ensureConnected();
+
+    return {
+      id: this.accountId,
+      balance: this.cash,
+      buyingPower: this.calculateBuyingPower(),
+      positions: await this.getPositions(),
+      currency: 'USD',
+      accountType: 'CASH',
+      updatedAt: new Date()
+    };
+  }
+
+  /**
+   * Place a buy order
+   */
+  async placeBuyOrder(
+    symbol: string,
+    quantity: number,
+    orderType: OrderType,
+    price?: number
+  ): Promise<Order> {
+    return this.placeOrder(this.toOrderRequest(symbol, quantity, 'BUY', orderType, price));
+  }
+
+  /**
+   * Place a sell order
+   */
+  async placeSellOrder(
+    symbol: string,
+    quantity: number,
+    orderType: OrderType,
+    price?: number
+  ): Promise<Order> {
+    return this.placeOrder(this.toOrderRequest(symbol, quantity, 'SELL', orderType, price));
+  }
+
+  /**
+   * Place an order with the full set of order options
+   * The order reaches the market after the configured latency and fills against the latest and following market data.
+   */
+  async placeOrder(request: OrderRequest): Promise<Order> {
+    this.ensureConnected();
+
+    const validation = validateOrderRequest(request);
+    if (!validation.isValid) {
+      throw new Error(`Invalid order: ${validation.errors.map(error => error.message).join('; ')}`);
+    }
+    if (request.clientOrderId && Array.from(this.orders.values()).some(s => s.order.clientOrderId === request.clientOrderId)) {
+      throw new Error(`Client order ID ${request.clientOrderId} is already in use`);
+    }
+
+    const symbol = request.symbol.toUpperCase();
+    const orderClass = request.orderClass ?? 'SIMPLE';
+    const tick = this.lastTicks.get(symbol);
+
+    if (request.side === 'BUY') {
+      const price = request.limitPrice ?? request.stopPrice ?? tick?.ask;
+      const cost = price !== undefined ? price * request.quantity * (1 + (this.config.commissionRate ?? 0)) : 0;
+      if (cost > this.calculateBuyingPower()) {
+        throw new Error('Insufficient buying power');
+      }
+    } else if ((this.positions.get(symbol)?.quantity ?? 0) < request.quantity) {
+      throw new Error('Insufficient position to sell');
+    }
+
+    let placed: SimulatedOrder;
+    if (orderClass === 'OCO') {
+      // An OCO pair is reported as the take-profit order carrying the stop-loss leg
+      placed = this.createOrder(request, request.side, 'LIMIT', {
+        price: request.takeProfit!.limitPrice,
+        clientOrderId: request.clientOrderId,
+        orderClass
+      });
+      const stopLoss = this.createStopLossLeg(request, request.side);
+      placed.order.legs = [stopLoss.order];
+      placed.ocoWith = stopLoss.order.id;
+      stopLoss.ocoWith = placed.order.id;
+    } else {
+      placed = this.createOrder(request, request.side, request.type, {
+        price: request.limitPrice,
+        stopPrice: request.stopPrice,
+        trailPrice: request.trailPrice,
+        trailPercent: request.trailPercent,
+        clientOrderId: request.clientOrderId,
+        orderClass
+      });
+
+      if (orderClass === 'BRACKET') {
+        const exitSide: OrderSide = request.side === 'BUY' ? 'SELL' : 'BUY';
+        const takeProfit = this.createOrder(request, exitSide, 'LIMIT', { price: request.takeProfit!.limitPrice });
+        const stopLoss = this.createStopLossLeg(request, exitSide);
+        placed.order.legs = [takeProfit.order, stopLoss.order];
+        for (const [leg, other] of [[takeProfit, stopLoss], [stopLoss, takeProfit]]) {
+          leg.parentId = placed.order.id;
+          leg.ocoWith = other.order.id;
+        }
+      }
+    }
+
+    this.logger.info('Simulated order placed', {
+      orderId: placed.order.id,
+      symbol,
+      side: request.side,
+      quantity: request.quantity,
+      orderType: placed.order.type,
+      orderClass
+    });
+
+    const latency = this.config.latencyMs ?? 0;
+    if (latency > 0) {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        this.activate(placed);
+        this.persist();
+      }, latency);
+      this.timers.add(timer);
+    } else {
+      this.activate(placed);
+    }
+
+    this.persist();
+    return this.snapshotOrder(placed.order);
+  }
+
+  /**
+   * Get order status
+   */
+  async getOrderStatus(orderId: string): Promise<Order> {
+    const simulated = this.orders.get(orderId);
+    if (!simulated) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+    return this.snapshotOrder(simulated.order);
+  }
+
+  /**
+   * Cancel an open order along with its bracket legs or OCO partner
+   */
+  async cancelOrder(orderId: string): Promise<CancelResult> {
+    const simulated = this.orders.get(orderId);
+    if (!simulated) {
+      return {
+        success: false,
+        orderId,
+        error: 'Order not found'
+      };
+    }
+
+    if (!this.isOpen(simulated.order)) {
+      return {
+        success: false,
+        orderId,
+        error: `Cannot cancel ${simulated.order.status.toLowerCase()} order`
+      };
+    }
+
+    this.cancel(simulated, 'Cancelled by request');
+    this.persist();
+
+    return {
+      success: true,
+      orderId
+    };
+  }
+
+  /**
+   * Get all current positions
+   */
+  async getPositions(): Promise<Position[]> {
+    return Array.from(this.positions.values()).map(position => ({ ...position }));
+  }
+
+  /**
+   * Get orders with optional filtering, newest first
+   */
+  async getOrders(filter?: { status?: string; symbol?: string; limit?: number }): Promise<Order[]> {
+    let orders = Array.from(this.orders.values()).map(simulated => simulated.order);
+
+    if (filter?.status) {
+      orders = orders.filter(order => order.status === filter.status);
+    }
+    if (filter?.symbol) {
+      const symbol = filter.symbol.toUpperCase();
+      orders = orders.filter(order => order.symbol === symbol);
+    }
+
+    orders = orders.reverse();
+    if (filter?.limit) {
+      orders = orders.slice(0, filter.limit);
+    }
+
+    return orders.map(order => this.snapshotOrder(order));
+  }
+
+  /**
+   * Close a position with a market order
+   */
+  async closePosition(symbol: string, quantity?: number): Promise<Order> {
+    const position = this.positions.get(symbol.toUpperCase());
+    if (!position) {
+      throw new Error(`No position found for ${symbol}`);
+    }
+    return this.placeSellOrder(symbol, quantity ?? position.quantity, 'MARKET');
+  }
+
+  /**
+   * Get buying power available
+   */
+  async getBuyingPower(): Promise<number> {
+    return this.calculateBuyingPower();
+  }
+
+  /**
+   * Check if market is open
+   */
+  async isMarketOpen(symbol?: string): Promise<boolean> {
+    return isMarketOpen(getMarketSessionForSymbol(symbol ?? 'SPY'));
+  }
+
+  /**
+   * Stop the feed and pending timers, and wait for the account to be saved
+   */
+  async disconnect(): Promise<void> {
+    await this.stopFeed();
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    await this.saving;
+    this.isConnected = false;
+    this.logger.info('Simulated trading account closed', { accountId: this.accountId });
+  }
+
+  /**
+   * Match open orders against a market data event; trade events are ignored
+   */
+  onMarketData(event: MarketDataEvent): void {
+    if (event.type === 'QUOTE') {
+      this.updateQuote(event.data as Quote);
+    } else if (event.type === 'BAR') {
+      this.updateBar(event.symbol, event.data as OHLCV);
+    }
+  }
+
+  /**
+   * Match open orders against a quote
+   */
+  updateQuote(quote: Quote): void {
+    const tick: MarketTick = {
+      bid: quote.bid,
+      ask: quote.ask,
+      last: quote.last,
+      high: quote.last,
+      low: quote.last,
+      lowestAsk: quote.ask,
+      highestBid: quote.bid,
+      buySize: quote.askSize,
+      sellSize: quote.bidSize
+    };
+    this.processTick(quote.symbol.toUpperCase(), tick, tick);
+  }
+
+  /**
+   * Match open orders against a completed bar
+   * Resting orders can fill anywhere in the bar's range; orders placed later start from its close.
+   */
+  updateBar(symbol: string, bar: OHLCV): void {
+    const tick: MarketTick = {
+      bid: bar.open,
+      ask: bar.open,
+      last: bar.close,
+      high: bar.high,
+      low: bar.low,
+      lowestAsk: bar.low,
+      highestBid: bar.high,
+      buySize: bar.volume,
+      sellSize: bar.volume,
+      volume: bar.volume
+    };
+    const close = bar.close;
+    this.processTick(symbol.toUpperCase(), tick, {
+      bid: close,
+      ask: close,
+      last: close,
+      high: close,
+      low: close,
+      lowestAsk: close,
+      highestBid: close
+    });
+  }
+
+  /**
+   * Feed the simulator from a data provider
+   * Streams quotes and bars when the provider supports it, and polls quotes otherwise. Each poll
+   * starts only after the previous one finished; without an interval, polls are spaced to use a
+   * fifth of the provider's rate limit, and no more often than every 5 seconds.
+   */
+  async startFeed(
+    dataProvider: Pick<IDataProvider, 'subscribe' | 'unsubscribe' | 'getRealTimeQuote'> &
+      Partial<Pick<IDataProvider, 'getCapabilities'>>,
+    symbols: string[],
+    pollIntervalMs?: number
+  ): Promise<void> {
+    await this.stopFeed();
+
+    try {
+      const subscription = await dataProvider.subscribe(symbols, ['quotes', 'bars'], event => this.onMarketData(event));
+      this.feed = { stop: () => dataProvider.unsubscribe(subscription.id) };
+      return;
+    } catch (error) {
+      this.logger.info('Polling quotes for the simulator', {
+        symbols,
+        reason: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+
+    const poll = async () => {
+      for (const symbol of symbols) {
+        try {
+          this.updateQuote({ ...await dataProvider.getRealTimeQuote(symbol), symbol });
+        } catch (error) {
+          this.logger.warn('Simulator quote poll failed', {
+            symbol,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+    };
+
+    const interval = pollIntervalMs ?? this.feedPollInterval(dataProvider, symbols.length);
+    let stopped = false;
+    let timer: NodeJS.Timeout | undefined;
+    let polling = poll();
+    const schedule = () => {
+      timer = setTimeout(() => {
+        polling = poll().then(() => {
+          if (!stopped) {
+            schedule();
+          }
+        });
+      }, interval);
+    };
+    this.feed = {
+      stop: async () => {
+        stopped = true;
+        clearTimeout(timer);
+        await polling;
+      }
+    };
+    await polling;
+    if (!stopped) {
+      schedule();
+    }
+  }
+
+  /**
+   * Stop feeding the simulator
+   */
+  async stopFeed(): Promise<void> {
+    const feed = this.feed;
+    this.feed = undefined;
+    if (feed) {
+      await feed.stop();
+    }
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private feedPollInterval(
+    dataProvider: Partial<Pick<IDataProvider, 'getCapabilities'>>,
+    symbolCount: number
+  ): number {
+    const requestsPerMinute = dataProvider.getCapabilities?.().rateLimit.requestsPerMinute;
+    if (!requestsPerMinute || !Number.isFinite(requestsPerMinute)) {
+      return DEFAULT_FEED_POLL_INTERVAL_MS;
+    }
+    const budgeted = symbolCount * MS_PER_MINUTE / (requestsPerMinute * FEED_RATE_LIMIT_SHARE);
+    return Math.max(DEFAULT_FEED_POLL_INTERVAL_MS, budgeted);
+  }
+
+  private ensureConnected(): void {
+    if (!this.isConnected) {
+      throw new Error('Not connected to trading provider');
+    }
+  }
+
+  /**
+   * Build an order request from the single price taken by placeBuyOrder and placeSellOrder
+   */
+  private toOrderRequest(
+    symbol: string,
+    quantity: number,
+    side: OrderSide,
+    orderType: OrderType,
+    price?: number
+  ): OrderRequest {
+    return {
+      symbol,
+      side,
+      quantity,
+      type: orderType,
+      limitPrice: orderType === 'LIMIT' ? price : undefined,
+      stopPrice: orderType === 'STOP' ? price : undefined
+    };
+  }
+
+  private createOrder(request: OrderRequest, side: OrderSide, type: OrderType, fields: Partial<Order>): SimulatedOrder {
+    const order: Order = {
+      id: generateUUID(),
+      symbol: request.symbol.toUpperCase(),
+      side,
+      quantity: request.quantity,
+      type,
+      status: 'PENDING',
+      timestamp: new Date(),
+      filledQuantity: 0,
+      timeInForce: request.timeInForce ?? 'DAY',
+      extendedHours: request.extendedHours,
+      ...fields
+    };
+
+    const simulated: SimulatedOrder = { order, active: false };
+    this.orders.set(order.id, simulated);
+    return simulated;
+  }
+
+  private createStopLossLeg(request: OrderRequest, side: OrderSide): SimulatedOrder {
+    const stopLoss = request.stopLoss!;
+    return this.createOrder(request, side, stopLoss.limitPrice !== undefined ? 'STOP_LIMIT' : 'STOP', {
+      stopPrice: stopLoss.stopPrice,
+      price: stopLoss.limitPrice
+    });
+  }
+
+  /**
+   * Bring an order to the market: reject it at random, or match it against the current market
+   * IOC and FOK orders get this one chance to fill.
+   */
+  private activate(simulated: SimulatedOrder): void {
+    const order = simulated.order;
+    if (!this.isOpen(order)) {
+      return;
+    }
+
+    if (this.random() < (this.config.rejectionRate ?? 0)) {
+      this.reject(simulated, 'Rejected by the simulated venue');
+      return;
+    }
+
+    simulated.active = true;
+    const legs = Array.from(this.orders.values()).filter(other => other.parentId === order.id);
+    for (const leg of legs) {
+      leg.active = true;
+    }
+
+    const tick = this.lastTicks.get(order.symbol);
+    if (tick) {
+      this.tryFill(simulated, tick);
+    }
+
+    if (this.isOpen(order) && (order.timeInForce === 'IOC' || order.timeInForce === 'FOK')) {
+      this.cancel(simulated, `${order.timeInForce} order could not fill immediately`);
+    }
+  }
+
+  private processTick(symbol: string, tick: MarketTick, current: MarketTick): void {
+    this.lastTicks.set(symbol, current);
+
+    const position = this.positions.get(symbol);
+    if (position) {
+      position.currentPrice = tick.last;
+      position.unrealizedPnL = (tick.last - position.averagePrice) * position.quantity;
+      position.updatedAt = new Date();
+    }
+
+    let changed = false;
+    for (const simulated of this.orders.values()) {
+      if (simulated.active && simulated.order.symbol === symbol && this.isOpen(simulated.order)) {
+        changed = this.tryFill(simulated, tick) || changed;
+      }
+    }
+
+    if (changed) {
+      this.persist();
+    }
+  }
+
+  /**
+   * Fill as much of an order as the tick allows
+   * @returns Whether the order changed
+   */
+  private tryFill(simulated: SimulatedOrder, tick: MarketTick): boolean {
+    const order = simulated.order;
+    if (simulated.parentId && this.orders.get(simulated.parentId)?.order.status !== 'FILLED') {
+      return false;
+    }
+
+    const isBuy = order.side === 'BUY';
+    let price: number | null;
+
+    switch (order.type) {
+      case 'MARKET':
+        price = isBuy ? tick.ask : tick.bid;
+        break;
+      case 'LIMIT':
+        price = this.getLimitFillPrice(order.price!, isBuy, tick);
+        break;
+      case 'STOP':
+        price = this.getStopFillPrice(order.stopPrice!, isBuy, tick);
+        break;
+      case 'STOP_LIMIT':
+        if (!simulated.triggered) {
+          if (this.getStopFillPrice(order.stopPrice!, isBuy, tick) === null) {
+            return false;
+          }
+          simulated.triggered = true;
+        }
+        price = this.getLimitFillPrice(order.price!, isBuy, tick);
+        break;
+      case 'TRAILING_STOP':
+        // The stop is checked before it follows this tick, since the order of prices within a bar is unknown
+        price = order.stopPrice !== undefined ? this.getStopFillPrice(order.stopPrice, isBuy, tick) : null;
+        if (price === null) {
+          return this.trail(simulated, tick);
+        }
+        break;
+      default:
+        return false;
+    }
+
+    if (price === null) {
+      return false;
+    }
+
+    const remaining = order.quantity - (order.filledQuantity ?? 0);
+    let quantity = remaining;
+    const available = isBuy ? tick.buySize : tick.sellSize;
+    if (this.config.maxVolumeParticipation !== undefined && available !== undefined) {
+      quantity = Math.min(quantity, available * this.config.maxVolumeParticipation);
+    }
+
+    if (order.type !== 'LIMIT' && order.type !== 'STOP_LIMIT') {
+      price = this.applySlippage(price, order.side, quantity, tick);
+    }
+
+    const commissionRate = this.config.commissionRate ?? 0;
+    if (isBuy) {
+      quantity = Math.min(quantity, this.cash / (price * (1 + commissionRate)));
+    } else {
+      quantity = Math.min(quantity, this.positions.get(order.symbol)?.quantity ?? 0);
+    }
+    quantity = Math.floor(quantity * QUANTITY_PRECISION) / QUANTITY_PRECISION;
+
+    if (order.timeInForce === 'FOK' && quantity < remaining) {
+      return false;
+    }
+    if (quantity <= 0) {
+      if (available !== 0) {
+        this.endUnfillable(simulated, isBuy ? 'Insufficient cash to fill' : 'No position left to sell');
+        return true;
+      }
+      return false;
+    }
+
+    this.applyFill(simulated, quantity, price);
+    return true;
+  }
+
+  /**
+   * Buy limits fill at or below the limit, sell limits at or above it
+   */
+  private getLimitFillPrice(limit: number, isBuy: boolean, tick: MarketTick): number | null {
+    if (isBuy) {
+      return tick.lowestAsk <= limit ? Math.min(tick.ask, limit) : null;
+    }
+    return tick.highestBid >= limit ? Math.max(tick.bid, limit) : null;
+  }
+
+  /**
+   * Stops trigger when trading reaches them; gaps through the stop fill at the gapped price
+   */
+  private getStopFillPrice(stop: number, isBuy: boolean, tick: MarketTick): number | null {
+    if (isBuy) {
+      return tick.high >= stop ? Math.max(tick.ask, stop) : null;
+    }
+    return tick.low <= stop ? Math.min(tick.bid, stop) : null;
+  }
+
+  /**
+   * Move a trailing stop after the best price seen
+   * @returns Whether the stop moved
+   */
+  private trail(simulated: SimulatedOrder, tick: MarketTick): boolean {
+    const order = simulated.order;
+    const isSell = order.side === 'SELL';
+    const best = isSell ? tick.high : tick.low;
+    const anchor = simulated.trailAnchor === undefined ? best
+      : isSell ? Math.max(simulated.trailAnchor, best) : Math.min(simulated.trailAnchor, best);
+
+    simulated.trailAnchor = anchor;
+    const distance = order.trailPrice ?? anchor * (order.trailPercent! / 100);
+    const stopPrice = Math.round((isSell ? anchor - distance : anchor + distance) * 100) / 100;
+
+    if (stopPrice === order.stopPrice) {
+      return false;
+    }
+    order.stopPrice = stopPrice;
+    return true;
+  }
+
+  private applySlippage(price: number, side: OrderSide, quantity: number, tick: MarketTick): number {
+    const slippage = this.config.slippage;
+    let offset = 0;
+
+    switch (slippage?.type) {
+      case 'FIXED':
+        offset = slippage.amount;
+        break;
+      case 'PERCENT':
+        offset = price * slippage.amount;
+        break;
+      case 'VOLUME':
+        offset = tick.volume ? price * slippage.amount * (quantity / tick.volume) : 0;
+        break;
+    }
+
+    return side === 'BUY' ? price + offset : Math.max(0, price - offset);
+  }
+
+  /**
+   * Record a fill on the order and settle it against cash and positions
+   */
+  private applyFill(simulated: SimulatedOrder, quantity: number, price: number): void {
+    const order = simulated.order;
+    const filled = order.filledQuantity ?? 0;
+    const value = quantity * price;
+    const commission = value * (this.config.commissionRate ?? 0);
+
+    order.averagePrice = ((order.averagePrice ?? 0) * filled + value) / (filled + quantity);
+    order.filledQuantity = filled + quantity;
+    order.commission = (order.commission ?? 0) + commission;
+    order.status = order.filledQuantity >= order.quantity ? 'FILLED' : 'PARTIALLY_FILLED';
+
+    if (order.side === 'BUY') {
+      this.cash -= value + commission;
+      this.addToPosition(order.symbol, quantity, price);
+    } else {
+      this.cash += value - commission;
+      this.reducePosition(order.symbol, quantity, price);
+    }
+
+    this.logger.info('Simulated fill', {
+      orderId: order.id,
+      symbol: order.symbol,
+      side: order.side,
+      quantity,
+      price,
+      status: order.status
+    });
+
+    // The other side of an OCO pair goes once one side fills
+    const sibling = simulated.ocoWith ? this.orders.get(simulated.ocoWith) : undefined;
+    if (order.status === 'FILLED' && sibling && this.isOpen(sibling.order)) {
+      sibling.order.status = 'CANCELLED';
+    }
+  }
+
+  private addToPosition(symbol: string, quantity: number, price: number): void {
+    const position = this.positions.get(symbol);
+    const now = new Date();
+
+    if (!position) {
+      this.positions.set(symbol, {
+        symbol,
+        quantity,
+        averagePrice: price,
+        currentPrice: price,
+        side: 'LONG',
+        unrealizedPnL: 0,
+        realizedPnL: 0,
+        entryTime: now,
+        updatedAt: now
+      });
+      return;
+    }
+
+    const newQuantity = position.quantity + quantity;
+    position.averagePrice = (position.averagePrice * position.quantity + price * quantity) / newQuantity;
+    position.quantity = newQuantity;
+    position.currentPrice = price;
+    position.unrealizedPnL = (price - position.averagePrice) * newQuantity;
+    position.updatedAt = now;
+  }
+
+  private reducePosition(symbol: string, quantity: number, price: number): void {
+    const position = this.positions.get(symbol)!;
+    const newQuantity = Math.round((position.quantity - quantity) * QUANTITY_PRECISION) / QUANTITY_PRECISION;
+
+    if (newQuantity <= 0) {
+      this.positions.delete(symbol);
+      return;
+    }
+
+    position.realizedPnL = (position.realizedPnL ?? 0) + (price - position.averagePrice) * quantity;
+    position.quantity = newQuantity;
+    position.currentPrice = price;
+    position.unrealizedPnL = (price - position.averagePrice) * newQuantity;
+    position.updatedAt = new Date();
+  }
+
+  /**
+   * End an order that can no longer fill: rejected if nothing filled, cancelled otherwise
+   */
+  private endUnfillable(simulated: SimulatedOrder, reason: string): void {
+    if ((simulated.order.filledQuantity ?? 0) > 0) {
+      this.cancel(simulated, reason);
+    } else {
+      this.reject(simulated, reason);
+    }
+  }
+
+  private reject(simulated: SimulatedOrder, reason: string): void {
+    simulated.order.status = 'REJECTED';
+    this.cancelLinkedOrders(simulated.order.id);
+    this.logger.warn('Simulated order rejected', { orderId: simulated.order.id, reason });
+  }
+
+  private cancel(simulated: SimulatedOrder, reason: string): void {
+    simulated.order.status = 'CANCELLED';
+    this.cancelLinkedOrders(simulated.order.id);
+    this.logger.info('Simulated order cancelled', { orderId: simulated.order.id, reason });
+  }
+
+  /**
+   * Cancel the bracket legs and OCO partner of an order that ended without filling
+   */
+  private cancelLinkedOrders(orderId: string): void {
+    for (const other of this.orders.values()) {
+      if ((other.parentId === orderId || other.ocoWith === orderId) && this.isOpen(other.order)) {
+        other.order.status = 'CANCELLED';
+      }
+    }
+  }
+
+  private isOpen(order: Order): boolean {
+    return order.status === 'PENDING' || order.status === 'PARTIALLY_FILLED';
+  }
+
+  /**
+   * Whether an order and its legs are final; a filled bracket entry still carries its open legs
+   */
+  private isSettled(order: Order): boolean {
+    return !this.isOpen(order) && (order.legs ?? []).every(leg => !this.isOpen(leg));
+  }
+
+  /**
+   * Cash less what open buy orders could spend
+   */
+  private calculateBuyingPower(): number {
+    const commissionRate = this.config.commissionRate ?? 0;
+    let reserved = 0;
+
+    for (const { order } of this.orders.values()) {
+      if (order.side !== 'BUY' || !this.isOpen(order)) {
+        continue;
+      }
+      const price = order.price ?? order.stopPrice ?? this.lastTicks.get(order.symbol)?.ask ?? 0;
+      reserved += (order.quantity - (order.filledQuantity ?? 0)) * price * (1 + commissionRate);
+    }
+
+    return Math.max(0, this.cash - reserved);
+  }
+
+  /**
+   * Copy an order with the current state of its legs so callers cannot change stored orders
+   */
+  private snapshotOrder(order: Order): Order {
+    if (!order.legs) {
+      return { ...order };
+    }
+    return {
+      ...order,
+      legs: order.legs.map(leg => ({ ...(this.orders.get(leg.id)?.order ?? leg) }))
+    };
+  }
+
+  /**
+   * Save the account in the background, one save at a time
+   * Orders already saved in a final state are left out, so a save grows with the open orders only.
+   */
+  private persist(): void {
+    const store = this.config.store;
+    if (!store) {
+      return;
+    }
+
+    const orders = Array.from(this.orders.values())
+      .filter(simulated => !this.settledOrders.has(simulated.order.id))
+      .map(simulated => this.snapshotOrder(simulated.order));
+    const state: SimulatedAccountState = {
+      cash: this.cash,
+      positions: Array.from(this.positions.values()).map(position => ({ ...position })),
+      orders,
+      updatedAt: new Date()
+    };
+    // Saves run in order, so later saves can skip these; a failed save hands them back
+    const settled = orders.filter(order => this.isSettled(order)).map(order => order.id);
+    settled.forEach(id => this.settledOrders.add(id));
+
+    this.saving = this.saving
+      .then(() => store.saveAccount(this.accountId, state))
+      .catch(error => {
+        settled.forEach(id => this.settledOrders.delete(id));
+        this.logger.error('Failed to save simulated account', {
+          accountId: this.accountId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+  }
+
+  /**
+   * Restore a saved account; open orders rejoin the market and bracket and OCO links are rebuilt from their legs
+   */
+  private restoreState(state: SimulatedAccountState): void {
+    this.cash = state.cash;
+    this.positions = new Map(state.positions.map(position => [position.symbol, { ...position }]));
+    this.orders = new Map(state.orders.map(order => [order.id, { order: { ...order }, active: true }]));
+    this.settledOrders = new Set(state.orders.filter(order => this.isSettled(order)).map(order => order.id));
+
+    for (const { order } of this.orders.values()) {
+      const legs = (order.legs ?? []).map(leg => this.orders.get(leg.id)).filter(Boolean) as SimulatedOrder[];
+      if (order.orderClass === 'BRACKET' && legs.length === 2) {
+        legs[0].parentId = legs[1].parentId = order.id;
+        legs[0].ocoWith = legs[1].order.id;
+        legs[1].ocoWith = legs[0].order.id;
+      } else if (order.orderClass === 'OCO' && legs.length === 1) {
+        this.orders.get(order.id)!.ocoWith = legs[0].order.id;
+        legs[0].ocoWith = order.id;
+      }
+    }
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Tests for Alpaca Data Provider
+ * Requests are answered from recorded Alpaca responses in fixtures/alpaca
+ */
+
+import { AlpacaDataProvider } from '../src/alpaca/alpaca-data-provider';
+import { createFixtureFetch } from './helpers/fixture-fetch';
+
+describe('AlpacaDataProvider', () => {
+  let provider: AlpacaDataProvider;
+  let fixtureFetch: jest.Mock;
+
+  const testConfig = {
+    apiKey: 'test-key',
+    secretKey: 'test-secret',
+    rateLimit: {
+      requestsPerMinute: 1000
+    }
+  };
+
+  const useFixtures = (...fixtures: string[]) => {
+    fixtureFetch = createFixtureFetch('alpaca', ...fixtures);
+    // Inject recorded HTTP responses
+    provider['fetchFn'] = fixtureFetch as any;
+  };
+
+  beforeEach(() => {
+    provider = new AlpacaDataProvider(testConfig);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Historical Data', () => {
+    test('should follow page tokens and normalize bars', async () => {
+      useFixtures('bars');
+
+      const bars = await provider.getHistoricalData(
+        'aapl', '1d', new Date(Date.UTC(2024, 0, 2)), new Date(Date.UTC(2024, 0, 6))
+      );
+
+      expect(fixtureFetch).toHaveBeenCalledTimes(2);
+      expect(bars.map(bar => bar.close)).toEqual([185.64, 184.25, 181.91, 181.18]);
+      expect(bars[0]).toEqual({
+        timestamp: new Date('2024-01-02T05:00:00Z'),
+        open: 187.15,
+        high: 188.44,
+        low: 183.885,
+        close: 185.64,
+        volume: 82488674,
+        vwap: 185.9465,
+        tradeCount: 1008871
+      });
+      expect(fixtureFetch.mock.calls[0][0]).toMatch(/^https:\/\/data\.alpaca\.markets\//);
+      expect(fixtureFetch.mock.calls[0][1]).toEqual({
+        headers: { 'APCA-API-KEY-ID': 'test-key', 'APCA-API-SECRET-KEY': 'test-secret' }
+      });
+    });
+
+    test('should stop paginating once the limit is reached', async () => {
+      useFixtures('bars');
+
+      const bars = await provider.getHistoricalData(
+        'AAPL', '1d', new Date(Date.UTC(2024, 0, 2)), new Date(Date.UTC(2024, 0, 6)), { limit: 1 }
+      );
+
+      expect(bars).toHaveLength(1);
+      expect(fixtureFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('should drop pre- and post-market bars when extended hours are excluded', async () => {
+      useFixtures('bars', 'bars');
+      const start = new Date('2024-01-02T14:29:00Z');
+      const end = new Date('2024-01-02T21:00:00Z');
+
+      const all = await provider.getHistoricalData('AAPL', '1m', start, end);
+      const regular = await provider.getHistoricalData('AAPL', '1m', start, end, { includeExtendedHours: false });
+
+      expect(all).toHaveLength(4);
+      // 09:30 and 15:59 New York time
+      expect(regular.map(bar => bar.timestamp.toISOString())).toEqual([
+        '2024-01-02T14:30:00.000Z',
+        '2024-01-02T20:59:00.000Z'
+      ]);
+    });
+
+    test('should request crypto pairs from the crypto bars endpoint', async () => {
+      useFixtures('bars');
+
+      const bars = await provider.getHistoricalData(
+        'BTCUSD', '4h', new Date('2024-01-01T00:00:00Z'), new Date('2024-01-01T04:00:00Z')
+      );
+
+      expect(bars.map(bar => bar.close)).toEqual([42500.01, 42676.43]);
+    });
+
+    test('should reject reversed date ranges', async () => {
+      useFixtures();
+      await expect(provider.getHistoricalData('AAPL', '1d', new Date(Date.UTC(2024, 0, 5)), new Date(Date.UTC(2024, 0, 1))))
+        .rejects.toThrow('Start date must be before end date');
+      expect(fixtureFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Quotes', () => {
+    test('should build a quote from the stock snapshot', async () => {
+      useFixtures('snapshots');
+
+      const quote = await provider.getRealTimeQuote('AAPL');
+
+      expect(quote).toEqual({
+        symbol: 'AAPL',
+        bid: 185.64,
+        ask: 185.66,
+        last: 185.65,
+        bidSize: 2,
+        askSize: 3,
+        lastSize: 100,
+        timestamp: new Date('2024-01-02T20:59:59.987Z'),
+        spread: expect.closeTo(0.02, 10)
+      });
+    });
+
+    test('should fall back to the last trade when a crypto snapshot has an empty quote', async () => {
+      useFixtures('snapshots');
+
+      const quote = await provider.getRealTimeQuote('BTCUSD');
+
+      expect(quote.symbol).toBe('BTCUSD');
+      expect(quote.bid).toBe(42676.43);
+      expect(quote.ask).toBe(42676.43);
+      expect(quote.spread).toBe(0);
+    });
+  });
+
+  describe('Assets', () => {
+    test('should normalize an asset into symbol info', async () => {
+      useFixtures('assets');
+
+      const info = await provider.getSymbolInfo('AAPL');
+
+      expect(info).toEqual({
+        symbol: 'AAPL',
+        name: 'Apple Inc. Common Stock',
+        type: 'STOCK',
+        exchange: 'NASDAQ',
+        currency: 'USD',
+        tickSize: 0.01,
+        minQuantity: 1,
+        tradeable: true,
+        marketHours: expect.objectContaining({ open: '09:30', close: '16:00', timezone: 'America/New_York' })
+      });
+      expect(fixtureFetch.mock.calls[0][0]).toMatch(/^https:\/\/paper-api\.alpaca\.markets\//);
+    });
+
+    test('should use crypto order increments', async () => {
+      useFixtures('assets');
+
+      const info = await provider.getSymbolInfo('BTCUSD');
+
+      expect(info).toMatchObject({
+        symbol: 'BTCUSD',
+        type: 'CRYPTO',
+        currency: 'USD',
+        tickSize: 1,
+        minQuantity: 0.0001
+      });
+    });
+
+    test('should report unknown symbols', async () => {
+      useFixtures('assets');
+      await expect(provider.getSymbolInfo('NOPE')).rejects.toThrow('Symbol not found: NOPE');
+    });
+
+    test('should rank exact symbols, then prefixes, then names', async () => {
+      useFixtures('assets');
+
+      const results = await provider.searchSymbols('aap');
+      const bitcoin = await provider.searchSymbols('bitcoin', 1);
+
+      expect(results.map(info => info.symbol)).toEqual(['AAPD', 'AAPL']);
+      expect(bitcoin.map(info => info.symbol)).toEqual(['BTCUSD']);
+      // The asset list is fetched once
+      expect(fixtureFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('should mark untradable assets', async () => {
+      useFixtures('assets');
+
+      const [maple] = await provider.searchSymbols('MAPL');
+
+      expect(maple.tradeable).toBe(false);
+    });
+  });
+
+  describe('Connection Management', () => {
+    test('should surface Alpaca errors when the keys are rejected', async () => {
+      useFixtures('assets');
+
+      await expect(provider.connect()).rejects.toThrow('Alpaca request failed (401): request is not authorized');
+      expect(provider.isConnected()).toBe(false);
+    });
+
+    test('should require both keys', () => {
+      expect(() => new AlpacaDataProvider({ apiKey: 'key', secretKey: '' }))
+        .toThrow('Alpaca API key and secret key are required');
+    });
+  });
+
+  test('should retry requests rejected with 429', async () => {
+    jest.useFakeTimers();
+    fixtureFetch = jest.fn()
+      .mockResolvedValueOnce({ ok: false, status: 429, statusText: 'Too Many Requests', json: async () => ({}) })
+      .mockImplementation(createFixtureFetch('alpaca', 'snapshots'));
+    provider['fetchFn'] = fixtureFetch as any;
+
+    const quote = provider.getRealTimeQuote('AAPL');
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect((await quote).last).toBe(185.65);
+    expect(fixtureFetch).toHaveBeenCalledTimes(2);
+  });
+
+  test('should describe its capabilities', () => {
+    const capabilities = provider.getCapabilities();
+
+    expect(capabilities.timeframes).toEqual(['1m', '5m', '15m', '1h', '4h', '1d', '1w', '1M']);
+    expect(capabilities.markets).toEqual(['stocks', 'crypto']);
+    expect(capabilities.rateLimit.requestsPerMinute).toBe(1000);
+  });
+});
@@ -286,6 +286,136 @@ describe('AlpacaTradingProvider', () => {
     });
   });
 
+  describe('Advanced Orders', () => {
+    test('should place a bracket order with take-profit and stop-loss legs', async () => {
+      // Arrange
+      mockAlpacaClient.createOrder.mockResolvedValue({
+        id: 'order-bracket',
+        client_order_id: 'entry-1',
+        symbol: 'AAPL',
+        side: 'buy',
+        qty: '10',
+        order_type: 'limit',
+        limit_price: '150.00',
+        time_in_force: 'gtc',
+        order_class: 'bracket',
+        status: 'new',
+        created_at: '2023-01-01T10:00:00Z',
+        legs: [
+          { id: 'leg-tp', symbol: 'AAPL', side: 'sell', qty: '10', order_type: 'limit', limit_price: '165.00', status: 'held', created_at: '2023-01-01T10:00:00Z' },
+          { id: 'leg-sl', symbol: 'AAPL', side: 'sell', qty: '10', order_type: 'stop', stop_price: '140.00', status: 'held', created_at: '2023-01-01T10:00:00Z' }
+        ]
+      });
+
+      // Act
+      const order = await provider.placeOrder({
+        symbol: 'AAPL',
+        side: 'BUY',
+        quantity: 10,
+        type: 'LIMIT',
+        limitPrice: 150,
+        timeInForce: 'GTC',
+        clientOrderId: 'entry-1',
+        orderClass: 'BRACKET',
+        takeProfit: { limitPrice: 165 },
+        stopLoss: { stopPrice: 140, limitPrice: 139.5 }
+      });
+
+      // Assert
+      expect(mockAlpacaClient.createOrder).toHaveBeenCalledWith({
+        symbol: 'AAPL',
+        qty: 10,
+        side: 'buy',
+        type: 'limit',
+        time_in_force: 'gtc',
+        limit_price: 150,
+        client_order_id: 'entry-1',
+        order_class: 'bracket',
+        take_profit: { limit_price: 165 },
+        stop_loss: { stop_price: 140, limit_price: 139.5 }
+      });
+      expect(order).toMatchObject({ orderClass: 'BRACKET', timeInForce: 'GTC', clientOrderId: 'entry-1' });
+      expect(order.legs?.map(leg => [leg.type, leg.side, leg.price ?? leg.stopPrice, leg.status])).toEqual([
+        ['LIMIT', 'SELL', 165, 'PENDING'],
+        ['STOP', 'SELL', 140, 'PENDING']
+      ]);
+    });
+
+    test('should place OCO exits and trailing stops', async () => {
+      // Arrange
+      mockAlpacaClient.createOrder.mockResolvedValue({
+        id: 'order-trail',
+        symbol: 'AAPL',
+        side: 'sell',
+        qty: '10',
+        order_type: 'trailing_stop',
+        trail_percent: '2.5',
+        status: 'new',
+        created_at: '2023-01-01T10:00:00Z'
+      });
+
+      // Act
+      await provider.placeOrder({
+        symbol: 'AAPL',
+        side: 'SELL',
+        quantity: 10,
+        type: 'LIMIT',
+        orderClass: 'OCO',
+        takeProfit: { limitPrice: 165 },
+        stopLoss: { stopPrice: 140 }
+      });
+      const trailing = await provider.placeOrder({
+        symbol: 'AAPL',
+        side: 'SELL',
+        quantity: 10,
+        type: 'TRAILING_STOP',
+        trailPercent: 2.5
+      });
+
+      // Assert
+      expect(mockAlpacaClient.createOrder).toHaveBeenNthCalledWith(1, {
+        symbol: 'AAPL',
+        qty: 10,
+        side: 'sell',
+        type: 'limit',
+        time_in_force: 'day',
+        order_class: 'oco',
+        take_profit: { limit_price: 165 },
+        stop_loss: { stop_price: 140 }
+      });
+      expect(mockAlpacaClient.createOrder).toHaveBeenNthCalledWith(2, {
+        symbol: 'AAPL',
+        qty: 10,
+        side: 'sell',
+        type: 'trailing_stop',
+        time_in_force: 'day',
+        trail_percent: 2.5
+      });
+      expect(trailing).toMatchObject({ type: 'TRAILING_STOP', trailPercent: 2.5 });
+    });
+
+    test('should reject invalid order requests before calling the API', async () => {
+      // Act & Assert
+      await expect(provider.placeOrder({
+        symbol: 'AAPL',
+        side: 'BUY',
+        quantity: 10,
+        type: 'MARKET',
+        orderClass: 'BRACKET',
+        takeProfit: { limitPrice: 140 },
+        stopLoss: { stopPrice: 150 }
+      })).rejects.toThrow('Invalid order: Take-profit 140 must be above the stop-loss 150');
+      await expect(provider.placeOrder({
+        symbol: 'AAPL',
+        side: 'BUY',
+        quantity: 10,
+        type: 'MARKET',
+        extendedHours: true
+      })).rejects.toThrow('Extended hours orders must be simple LIMIT orders with DAY time in force');
+      expect(mockAlpacaClient.createOrder).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Position Management', () => {
     test('should get positions correctly', async () => {
       // Arrange
@@ -0,0 +1,40 @@
+/**
+ * Recorded HTTP fixture replay for provider tests
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface RecordedInteraction {
+  request: { method: string; url: string };
+  response: { status: number; body: any };
+}
+
+/**
+ * Fetch stand-in that replays recorded interactions in order and rejects unrecorded requests
+ * Requests are matched on path and query, so one fixture set can serve several hosts.
+ */
+export const createFixtureFetch = (provider: string, ...fixtures: string[]) => {
+  const interactions: RecordedInteraction[] = fixtures.flatMap(name =>
+    JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'fixtures', provider, `${name}.json`), 'utf8'))
+  );
+  const used = new Set<number>();
+
+  return jest.fn(async (input: string, init?: { headers?: Record<string, string> }) => {
+    const url = new URL(input);
+    const requested = url.pathname + url.search;
+    const index = interactions.findIndex((interaction, i) => !used.has(i) && interaction.request.url === requested);
+    if (index === -1) {
+      throw new Error(`No recorded response for GET ${requested}`);
+    }
+    used.add(index);
+
+    const { status, body } = interactions[index].response;
+    return {
+      ok: status >= 200 && status < 300,
+      status,
+      statusText: status === 429 ? 'Too Many Requests' : 'OK',
+      json: async () => body
+    };
+  });
+};
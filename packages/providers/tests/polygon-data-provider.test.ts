@@ -0,0 +1,242 @@
+/**
+ * Tests for Polygon Data Provider
+ * Requests are answered from recorded Polygon responses in fixtures/polygon
+ */
+
+import { PolygonDataProvider } from '../src/polygon/polygon-data-provider';
+import { HttpError } from '../src/common/http';
+import { createFixtureFetch } from './helpers/fixture-fetch';
+
+describe('PolygonDataProvider', () => {
+  let provider: PolygonDataProvider;
+  let fixtureFetch: jest.Mock;
+
+  const testConfig = {
+    apiKey: 'test-polygon-key',
+    rateLimit: {
+      requestsPerMinute: 1000,
+      requestsPerDay: 10000
+    }
+  };
+
+  const useFixtures = (...fixtures: string[]) => {
+    fixtureFetch = createFixtureFetch('polygon', ...fixtures);
+    // Inject recorded HTTP responses
+    provider['fetchFn'] = fixtureFetch as any;
+  };
+
+  beforeEach(() => {
+    provider = new PolygonDataProvider(testConfig);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Historical Data', () => {
+    test('should follow next_url pages and normalize aggregates', async () => {
+      useFixtures('aggregates');
+
+      const bars = await provider.getHistoricalData(
+        'aapl', '1d', new Date(Date.UTC(2024, 0, 2)), new Date(Date.UTC(2024, 0, 6))
+      );
+
+      expect(fixtureFetch).toHaveBeenCalledTimes(2);
+      expect(bars.map(bar => bar.close)).toEqual([185.64, 184.25, 181.91, 181.18]);
+      expect(bars[0]).toEqual({
+        timestamp: new Date(1704171600000),
+        open: 187.15,
+        high: 188.44,
+        low: 183.885,
+        close: 185.64,
+        volume: 82488674,
+        vwap: 185.9465,
+        tradeCount: 1008871
+      });
+      expect(fixtureFetch.mock.calls[0][1]).toEqual({ headers: { Authorization: 'Bearer test-polygon-key' } });
+    });
+
+    test('should stop paginating once the limit is reached', async () => {
+      useFixtures('aggregates');
+
+      const bars = await provider.getHistoricalData(
+        'AAPL', '1d', new Date(Date.UTC(2024, 0, 2)), new Date(Date.UTC(2024, 0, 6)), { limit: 1 }
+      );
+
+      expect(bars).toHaveLength(1);
+      expect(fixtureFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('should drop pre- and post-market bars when extended hours are excluded', async () => {
+      useFixtures('aggregates', 'aggregates');
+      const start = new Date(1704205740000);
+      const end = new Date(1704229200000);
+
+      const all = await provider.getHistoricalData('AAPL', '1m', start, end);
+      const regular = await provider.getHistoricalData('AAPL', '1m', start, end, { includeExtendedHours: false });
+
+      expect(all).toHaveLength(4);
+      // 09:30 and 15:59 New York time
+      expect(regular.map(bar => bar.timestamp.getTime())).toEqual([1704205800000, 1704229140000]);
+    });
+
+    test('should request crypto pairs with the X: prefix', async () => {
+      useFixtures('aggregates');
+
+      const bars = await provider.getHistoricalData(
+        'BTCUSD', '4h', new Date(1704067200000), new Date(1704081600000)
+      );
+
+      expect(bars.map(bar => bar.close)).toEqual([42500.01, 42676.43]);
+    });
+
+    test('should reject reversed date ranges', async () => {
+      useFixtures();
+      await expect(provider.getHistoricalData('AAPL', '1d', new Date(Date.UTC(2024, 0, 5)), new Date(Date.UTC(2024, 0, 1))))
+        .rejects.toThrow('Start date must be before end date');
+      expect(fixtureFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Quotes', () => {
+    test('should build a quote from the stock snapshot', async () => {
+      useFixtures('snapshots');
+
+      const quote = await provider.getRealTimeQuote('AAPL');
+
+      expect(quote).toEqual({
+        symbol: 'AAPL',
+        bid: 185.64,
+        ask: 185.66,
+        last: 185.65,
+        bidSize: 2,
+        askSize: 3,
+        lastSize: 100,
+        timestamp: new Date(1704229200000),
+        spread: expect.closeTo(0.02, 10)
+      });
+    });
+
+    test('should fall back to the last trade when a crypto snapshot has no quote', async () => {
+      useFixtures('snapshots');
+
+      const quote = await provider.getRealTimeQuote('BTCUSD');
+
+      expect(quote.symbol).toBe('BTCUSD');
+      expect(quote.bid).toBe(42676.43);
+      expect(quote.ask).toBe(42676.43);
+      expect(quote.spread).toBe(0);
+    });
+  });
+
+  describe('Reference Data', () => {
+    test('should normalize ticker details into symbol info', async () => {
+      useFixtures('reference');
+
+      const info = await provider.getSymbolInfo('AAPL');
+
+      expect(info).toMatchObject({
+        symbol: 'AAPL',
+        name: 'Apple Inc.',
+        type: 'STOCK',
+        exchange: 'XNAS',
+        currency: 'USD',
+        tickSize: 0.01,
+        minQuantity: 1,
+        tradeable: true,
+        description: 'Apple designs a wide variety of consumer electronic devices.',
+        marketHours: { open: '09:30', close: '16:00', timezone: 'America/New_York' }
+      });
+    });
+
+    test('should report unknown symbols', async () => {
+      useFixtures('reference');
+      await expect(provider.getSymbolInfo('NOPE')).rejects.toThrow('Symbol not found: NOPE');
+    });
+
+    test('should search across markets', async () => {
+      useFixtures('reference');
+
+      const results = await provider.searchSymbols('bitcoin', 2);
+
+      expect(results.map(info => [info.symbol, info.type, info.currency])).toEqual([
+        ['BTCUSD', 'CRYPTO', 'USD'],
+        ['GBTC', 'STOCK', 'USD']
+      ]);
+      expect(results[0].tickSize).toBe(0.00000001);
+    });
+  });
+
+  describe('Connection Management', () => {
+    test('should surface Polygon errors when the API key is rejected', async () => {
+      useFixtures('reference');
+
+      await expect(provider.connect()).rejects.toThrow('Polygon request failed (401): Unknown API Key');
+      expect(provider.isConnected()).toBe(false);
+    });
+
+    test('should require an API key', () => {
+      expect(() => new PolygonDataProvider({ apiKey: '' })).toThrow('API key is required');
+    });
+  });
+
+  describe('Rate Limiting', () => {
+    test('should wait for the per-minute window and enforce the daily cap', async () => {
+      jest.useFakeTimers();
+      provider = new PolygonDataProvider({ apiKey: 'test-polygon-key', rateLimit: { requestsPerMinute: 2, requestsPerDay: 3 } });
+      useFixtures('snapshots', 'snapshots');
+
+      const quotes = Promise.all([
+        provider.getRealTimeQuote('AAPL'),
+        provider.getRealTimeQuote('BTCUSD'),
+        provider.getRealTimeQuote('AAPL')
+      ]);
+
+      await jest.advanceTimersByTimeAsync(59 * 1000);
+      expect(fixtureFetch).toHaveBeenCalledTimes(2);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(await quotes).toHaveLength(3);
+      expect(fixtureFetch).toHaveBeenCalledTimes(3);
+
+      await expect(provider.getRealTimeQuote('BTCUSD')).rejects.toThrow('daily request limit of 3 reached');
+    });
+
+    test('should retry requests rejected with 429', async () => {
+      jest.useFakeTimers();
+      fixtureFetch = jest.fn()
+        .mockResolvedValueOnce({ ok: false, status: 429, statusText: 'Too Many Requests', json: async () => ({}) })
+        .mockImplementation(createFixtureFetch('polygon', 'snapshots'));
+      provider['fetchFn'] = fixtureFetch as any;
+
+      const quote = provider.getRealTimeQuote('AAPL');
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect((await quote).last).toBe(185.65);
+      expect(fixtureFetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should reject other failed responses with their status', async () => {
+      provider['fetchFn'] = jest.fn().mockResolvedValue({
+        ok: false,
+        status: 403,
+        statusText: 'Forbidden',
+        json: async () => ({ error: 'Not entitled to this data' })
+      }) as any;
+
+      const error = await provider.getRealTimeQuote('AAPL').catch(caught => caught);
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error).toMatchObject({ status: 403, message: 'Polygon request failed (403): Not entitled to this data' });
+    });
+  });
+
+  test('should describe its capabilities', () => {
+    const capabilities = provider.getCapabilities();
+
+    expect(capabilities.timeframes).toEqual(['1m', '5m', '15m', '1h', '4h', '1d', '1w', '1M']);
+    expect(capabilities.historicalData).toBe(true);
+    expect(capabilities.realTimeData).toBe(false);
+    expect(capabilities.rateLimit.requestsPerMinute).toBe(1000);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for the Replay Data Provider
+ */
+
+import { ReplayDataProvider } from '../src/replay/replay-data-provider';
+import { MarketDataEvent, OHLCV, Timeframe } from '@jware-trader8/types';
+
+describe('ReplayDataProvider', () => {
+  const HOUR = 60 * 60 * 1000;
+  const start = new Date('2024-03-04T14:00:00Z');
+  const stored: OHLCV[] = Array.from({ length: 6 }, (_, i) => ({
+    timestamp: new Date(start.getTime() + (i - 3) * HOUR),
+    open: 100 + i,
+    high: 101 + i,
+    low: 99 + i,
+    close: 100.5 + i,
+    volume: 1000
+  }));
+  const source = {
+    getHistoricalData: jest.fn(async (_symbol: string, _timeframe: Timeframe, startDate: Date, endDate: Date) =>
+      stored.filter(bar => bar.timestamp >= startDate && bar.timestamp <= endDate)
+    )
+  };
+  let provider: ReplayDataProvider;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    provider = new ReplayDataProvider({ source, symbol: 'aapl', timeframe: '1h', startDate: start, barIntervalMs: 100 });
+    await provider.connect();
+  });
+
+  afterEach(async () => {
+    await provider.disconnect();
+    jest.useRealTimers();
+  });
+
+  test('should stream the bars from the start date to bar subscribers', async () => {
+    const events: MarketDataEvent[] = [];
+    await provider.subscribe(['AAPL'], ['bars'], event => events.push(event));
+    await provider.subscribe(['AAPL'], ['trades'], () => {
+      throw new Error('Only bars are replayed');
+    });
+
+    provider.startReplay();
+    jest.advanceTimersByTime(250);
+
+    expect(events.map(event => event.data)).toEqual(stored.slice(3, 5));
+    expect(events[0]).toMatchObject({ type: 'BAR', symbol: 'AAPL' });
+
+    jest.advanceTimersByTime(200);
+    expect(events).toHaveLength(3);
+    expect(provider.isFinished()).toBe(true);
+  });
+
+  test('should read history and quotes from the replay clock', async () => {
+    const now = Date.now();
+    const warmup = await provider.getHistoricalData('AAPL', '1h', new Date(now - 10 * HOUR), new Date(now));
+    expect(warmup).toEqual(stored.slice(0, 3));
+    expect(provider.now()).toBe(start.getTime() - 1);
+    expect(await provider.getRealTimeQuote('AAPL')).toMatchObject({ bid: 103, ask: 103, last: 103 });
+
+    provider.startReplay();
+    jest.advanceTimersByTime(100);
+
+    const recent = await provider.getHistoricalData('AAPL', '1h', new Date(Date.now() - 2 * HOUR), new Date(Date.now()));
+    expect(recent).toEqual(stored.slice(1, 4));
+    expect((await provider.getRealTimeQuote('AAPL')).last).toBe(103.5);
+    expect(provider.now()).toBe(start.getTime());
+    await expect(provider.getRealTimeQuote('MSFT')).rejects.toThrow('No replayed bars for MSFT');
+  });
+
+  test('should refuse to connect without bars in the replay range', async () => {
+    const empty = new ReplayDataProvider({ source, symbol: 'AAPL', timeframe: '1h', startDate: new Date('2025-01-01') });
+
+    await expect(empty.connect()).rejects.toThrow('No stored 1h bars for AAPL');
+  });
+});
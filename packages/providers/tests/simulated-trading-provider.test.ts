@@ -0,0 +1,337 @@
+/**
+ * Tests for the Simulated Trading Provider
+ */
+
+import { SimulatedTradingProvider, SimulatorConfig } from '../src/simulator/simulated-trading-provider';
+import { ISimulatedAccountStore, OHLCV, Quote, SimulatedAccountState } from '@jware-trader8/types';
+
+describe('SimulatedTradingProvider', () => {
+  let provider: SimulatedTradingProvider;
+
+  const quote = (bid: number, ask: number, sizes: Partial<Quote> = {}): Quote => ({
+    symbol: 'AAPL',
+    bid,
+    ask,
+    last: (bid + ask) / 2,
+    timestamp: new Date(),
+    ...sizes
+  });
+
+  const bar = (open: number, high: number, low: number, close: number, volume: number = 1000): OHLCV => ({
+    timestamp: new Date(),
+    open,
+    high,
+    low,
+    close,
+    volume
+  });
+
+  const createProvider = async (config: SimulatorConfig = {}) => {
+    provider = new SimulatedTradingProvider({ initialCash: 10000, ...config });
+    await provider.connect();
+    return provider;
+  };
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await provider?.disconnect();
+  });
+
+  describe('Order Matching', () => {
+    test('should fill market orders at the ask and settle cash and positions', async () => {
+      await createProvider({ commissionRate: 0.001 });
+      provider.updateQuote(quote(99.9, 100));
+
+      const order = await provider.placeBuyOrder('AAPL', 10, 'MARKET');
+
+      expect(order).toMatchObject({ status: 'FILLED', filledQuantity: 10, averagePrice: 100, commission: 1 });
+      expect(await provider.getPositions()).toEqual([
+        expect.objectContaining({ symbol: 'AAPL', quantity: 10, averagePrice: 100, side: 'LONG' })
+      ]);
+      expect(await provider.getBuyingPower()).toBe(8999);
+    });
+
+    test('should rest limit orders until the market reaches them', async () => {
+      await createProvider();
+      provider.updateQuote(quote(99.9, 100));
+
+      const order = await provider.placeBuyOrder('AAPL', 10, 'LIMIT', 98);
+      expect(order.status).toBe('PENDING');
+      // Open buys hold back the cash they could spend
+      expect(await provider.getBuyingPower()).toBe(9020);
+
+      provider.updateBar('AAPL', bar(99, 99.5, 97.5, 98.5));
+
+      expect(await provider.getOrderStatus(order.id)).toMatchObject({ status: 'FILLED', averagePrice: 98 });
+      expect((await provider.getAccount()).balance).toBe(9020);
+    });
+
+    test('should fill stops at the gapped price with slippage', async () => {
+      await createProvider({ slippage: { type: 'FIXED', amount: 0.05 } });
+      provider.updateQuote(quote(99.9, 100));
+      await provider.placeBuyOrder('AAPL', 10, 'MARKET');
+
+      const stop = await provider.placeSellOrder('AAPL', 10, 'STOP', 95);
+      provider.updateBar('AAPL', bar(93, 94, 92, 93.5));
+
+      expect(await provider.getOrderStatus(stop.id)).toMatchObject({ status: 'FILLED', averagePrice: 92.95 });
+      expect(await provider.getPositions()).toEqual([]);
+    });
+
+    test('should follow the market with trailing stops', async () => {
+      await createProvider();
+      provider.updateQuote(quote(99.9, 100));
+      await provider.placeBuyOrder('AAPL', 10, 'MARKET');
+
+      const trailing = await provider.placeOrder({
+        symbol: 'AAPL',
+        side: 'SELL',
+        quantity: 10,
+        type: 'TRAILING_STOP',
+        trailPrice: 2,
+        timeInForce: 'GTC'
+      });
+      provider.updateBar('AAPL', bar(100, 105, 100, 104));
+      expect(await provider.getOrderStatus(trailing.id)).toMatchObject({ status: 'PENDING', stopPrice: 103 });
+
+      provider.updateBar('AAPL', bar(104, 104.5, 102, 102.5));
+      expect(await provider.getOrderStatus(trailing.id)).toMatchObject({ status: 'FILLED', averagePrice: 103 });
+    });
+
+    test('should partially fill against the available size', async () => {
+      await createProvider({ maxVolumeParticipation: 0.5 });
+      provider.updateQuote(quote(99.9, 100, { askSize: 8, bidSize: 8 }));
+
+      const order = await provider.placeBuyOrder('AAPL', 10, 'MARKET');
+      expect(order).toMatchObject({ status: 'PARTIALLY_FILLED', filledQuantity: 4 });
+
+      provider.updateQuote(quote(99.9, 101, { askSize: 20, bidSize: 20 }));
+      const filled = await provider.getOrderStatus(order.id);
+      expect(filled).toMatchObject({ status: 'FILLED', filledQuantity: 10 });
+      expect(filled.averagePrice).toBeCloseTo(100.6, 8);
+    });
+
+    test('should cancel the rest of IOC orders and leave FOK orders unfilled', async () => {
+      await createProvider({ maxVolumeParticipation: 1 });
+      provider.updateQuote(quote(99.9, 100, { askSize: 4, bidSize: 4 }));
+
+      const ioc = await provider.placeOrder({ symbol: 'AAPL', side: 'BUY', quantity: 10, type: 'MARKET', timeInForce: 'IOC' });
+      const fok = await provider.placeOrder({ symbol: 'AAPL', side: 'BUY', quantity: 10, type: 'MARKET', timeInForce: 'FOK' });
+
+      expect(ioc).toMatchObject({ status: 'CANCELLED', filledQuantity: 4 });
+      expect(fok).toMatchObject({ status: 'CANCELLED', filledQuantity: 0 });
+    });
+  });
+
+  describe('Order Classes', () => {
+    test('should release bracket legs after the entry fills and cancel the other leg on exit', async () => {
+      await createProvider();
+      provider.updateQuote(quote(99.9, 100));
+
+      const entry = await provider.placeOrder({
+        symbol: 'AAPL',
+        side: 'BUY',
+        quantity: 10,
+        type: 'LIMIT',
+        limitPrice: 99,
+        orderClass: 'BRACKET',
+        timeInForce: 'GTC',
+        takeProfit: { limitPrice: 105 },
+        stopLoss: { stopPrice: 95 }
+      });
+      const [takeProfit, stopLoss] = entry.legs!;
+
+      // The legs cannot fill before the entry, even when the market trades through them
+      provider.updateQuote(quote(105.5, 106));
+      expect(await provider.getOrderStatus(takeProfit.id)).toMatchObject({ status: 'PENDING' });
+
+      provider.updateBar('AAPL', bar(100, 100, 98, 99));
+      provider.updateBar('AAPL', bar(103, 106, 102, 105));
+
+      expect(await provider.getOrderStatus(takeProfit.id)).toMatchObject({ status: 'FILLED', averagePrice: 105 });
+      expect(await provider.getOrderStatus(stopLoss.id)).toMatchObject({ status: 'CANCELLED' });
+      expect((await provider.getAccount()).balance).toBe(10060);
+    });
+
+    test('should cancel bracket legs with their entry', async () => {
+      await createProvider();
+      provider.updateQuote(quote(99.9, 100));
+      const entry = await provider.placeOrder({
+        symbol: 'AAPL',
+        side: 'BUY',
+        quantity: 10,
+        type: 'LIMIT',
+        limitPrice: 99,
+        orderClass: 'BRACKET',
+        takeProfit: { limitPrice: 105 },
+        stopLoss: { stopPrice: 95 }
+      });
+
+      expect(await provider.cancelOrder(entry.id)).toEqual({ success: true, orderId: entry.id });
+      expect((await provider.getOrderStatus(entry.id)).legs!.map(leg => leg.status)).toEqual(['CANCELLED', 'CANCELLED']);
+      expect((await provider.cancelOrder(entry.id)).success).toBe(false);
+    });
+  });
+
+  describe('Account Rules', () => {
+    test('should refuse orders the account cannot cover', async () => {
+      await createProvider();
+      provider.updateQuote(quote(99.9, 100));
+
+      await expect(provider.placeBuyOrder('AAPL', 200, 'MARKET')).rejects.toThrow('Insufficient buying power');
+      await expect(provider.placeSellOrder('AAPL', 1, 'MARKET')).rejects.toThrow('Insufficient position to sell');
+      await expect(provider.placeBuyOrder('AAPL', 1, 'LIMIT')).rejects.toThrow('Invalid order');
+    });
+
+    test('should require a connection', async () => {
+      provider = new SimulatedTradingProvider();
+
+      await expect(provider.getAccount()).rejects.toThrow('Not connected to trading provider');
+    });
+  });
+
+  describe('Latency and Rejections', () => {
+    test('should reach the market only after the configured latency', async () => {
+      jest.useFakeTimers();
+      await createProvider({ latencyMs: 250 });
+      provider.updateQuote(quote(99.9, 100));
+
+      const order = await provider.placeBuyOrder('AAPL', 10, 'MARKET');
+      expect(order.status).toBe('PENDING');
+
+      provider.updateQuote(quote(100.9, 101));
+      jest.advanceTimersByTime(250);
+
+      expect(await provider.getOrderStatus(order.id)).toMatchObject({ status: 'FILLED', averagePrice: 101 });
+    });
+
+    test('should reject orders at the configured rate', async () => {
+      await createProvider({ rejectionRate: 0.5, random: () => 0.2 });
+      provider.updateQuote(quote(99.9, 100));
+
+      const order = await provider.placeBuyOrder('AAPL', 10, 'MARKET');
+
+      expect(order.status).toBe('REJECTED');
+      expect((await provider.getAccount()).balance).toBe(10000);
+    });
+  });
+
+  describe('Persistence', () => {
+    const createStore = () => {
+      const saved = new Map<string, SimulatedAccountState>();
+      const store: ISimulatedAccountStore = {
+        loadAccount: jest.fn(async (id: string) => saved.get(id) ?? null),
+        saveAccount: jest.fn(async (id: string, state: SimulatedAccountState) => {
+          // Orders are upserted like SimulatedAccountStore does
+          const orders = new Map((saved.get(id)?.orders ?? []).map(order => [order.id, order]));
+          state.orders.forEach(order => orders.set(order.id, order));
+          saved.set(id, { ...state, orders: Array.from(orders.values()) });
+        }),
+        deleteAccount: jest.fn(async (id: string) => saved.delete(id))
+      };
+      return store;
+    };
+
+    test('should restore cash, positions and open orders from the store', async () => {
+      const store = createStore();
+      await createProvider({ store });
+      provider.updateQuote(quote(99.9, 100));
+      await provider.placeBuyOrder('AAPL', 10, 'MARKET');
+      const exit = await provider.placeSellOrder('AAPL', 10, 'LIMIT', 110);
+      await provider.disconnect();
+
+      await createProvider({ store, initialCash: 50000 });
+
+      expect((await provider.getAccount()).balance).toBe(9000);
+      expect(await provider.getPositions()).toEqual([expect.objectContaining({ symbol: 'AAPL', quantity: 10 })]);
+      provider.updateQuote(quote(110, 110.1));
+      expect(await provider.getOrderStatus(exit.id)).toMatchObject({ status: 'FILLED', averagePrice: 110 });
+    });
+
+    test('should save only orders that have not been saved in a final state', async () => {
+      const store = createStore();
+      await createProvider({ store });
+      provider.updateQuote(quote(99.9, 100));
+      const entry = await provider.placeBuyOrder('AAPL', 10, 'MARKET');
+      const exit = await provider.placeSellOrder('AAPL', 10, 'LIMIT', 110);
+      await provider.disconnect();
+
+      const saves = (store.saveAccount as jest.Mock).mock.calls;
+      const lastSaved = saves[saves.length - 1][1] as SimulatedAccountState;
+      expect(lastSaved.orders.map(order => order.id)).toEqual([exit.id]);
+      expect((await store.loadAccount('simulator'))!.orders.map(order => order.id)).toEqual([entry.id, exit.id]);
+    });
+  });
+
+  describe('Market Data Feed', () => {
+    test('should poll quotes when the data provider cannot stream', async () => {
+      await createProvider();
+      const dataProvider = {
+        subscribe: jest.fn().mockRejectedValue(new Error('Provider does not support real-time subscriptions')),
+        unsubscribe: jest.fn(),
+        getRealTimeQuote: jest.fn().mockResolvedValue(quote(99.9, 100))
+      };
+
+      await provider.startFeed(dataProvider, ['AAPL'], 60 * 1000);
+      const order = await provider.placeBuyOrder('AAPL', 10, 'MARKET');
+
+      expect(dataProvider.getRealTimeQuote).toHaveBeenCalledWith('AAPL');
+      expect(order).toMatchObject({ status: 'FILLED', averagePrice: 100 });
+    });
+
+    test('should wait for each quote poll and space polls by the rate limit', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      await createProvider();
+      let resolveQuote: (value: Quote) => void = () => undefined;
+      const dataProvider = {
+        subscribe: jest.fn().mockRejectedValue(new Error('Provider does not support real-time subscriptions')),
+        unsubscribe: jest.fn(),
+        getRealTimeQuote: jest.fn().mockResolvedValueOnce(quote(99.9, 100))
+          .mockImplementation(() => new Promise<Quote>(resolve => { resolveQuote = resolve; })),
+        getCapabilities: () => ({ rateLimit: { requestsPerMinute: 5 } }) as any
+      };
+      const flush = () => new Promise(resolve => setImmediate(resolve));
+
+      await provider.startFeed(dataProvider, ['AAPL']);
+
+      // 5 requests a minute leaves one quote poll a minute
+      jest.advanceTimersByTime(59 * 1000);
+      expect(dataProvider.getRealTimeQuote).toHaveBeenCalledTimes(1);
+      jest.advanceTimersByTime(1000);
+      expect(dataProvider.getRealTimeQuote).toHaveBeenCalledTimes(2);
+
+      // A slow poll holds back the next one
+      jest.advanceTimersByTime(5 * 60 * 1000);
+      expect(dataProvider.getRealTimeQuote).toHaveBeenCalledTimes(2);
+
+      resolveQuote(quote(100.9, 101));
+      await flush();
+      jest.advanceTimersByTime(60 * 1000);
+      expect(dataProvider.getRealTimeQuote).toHaveBeenCalledTimes(3);
+
+      resolveQuote(quote(100.9, 101));
+      await provider.stopFeed();
+    });
+
+    test('should match orders against streamed bars', async () => {
+      await createProvider();
+      let listener: (event: any) => void = () => undefined;
+      const dataProvider = {
+        subscribe: jest.fn(async (_symbols: string[], _types: string[], callback: (event: any) => void) => {
+          listener = callback;
+          return { id: 'sub-1', symbols: ['AAPL'], dataTypes: ['bars'], callback, active: true };
+        }),
+        unsubscribe: jest.fn().mockResolvedValue(undefined),
+        getRealTimeQuote: jest.fn()
+      };
+
+      await provider.startFeed(dataProvider as any, ['AAPL']);
+      const order = await provider.placeBuyOrder('AAPL', 10, 'LIMIT', 98);
+      listener({ type: 'BAR', symbol: 'AAPL', data: bar(99, 99, 97, 98), timestamp: new Date() });
+      await provider.stopFeed();
+
+      expect(await provider.getOrderStatus(order.id)).toMatchObject({ status: 'FILLED', averagePrice: 98 });
+      expect(dataProvider.unsubscribe).toHaveBeenCalledWith('sub-1');
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Rolling bar history
+ * Fixed-capacity ring buffer of recent OHLCV bars for a compiled strategy
+ */
+
+import { IBarHistory, OHLCV } from '@jware-trader8/types';
+
+/**
+ * Ring buffer implementation of the strategy bar window
+ */
+export class BarHistory implements IBarHistory {
+  readonly capacity: number;
+  private bars: (OHLCV | undefined)[];
+  private start: number = 0;
+  private count: number = 0;
+
+  constructor(capacity: number) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error('Bar history capacity must be a positive integer');
+    }
+    this.capacity = capacity;
+    this.bars = new Array(capacity);
+  }
+
+  /**
+   * Number of bars currently retained
+   */
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Append a bar, evicting the oldest when full
+   */
+  push(bar: OHLCV): void {
+    if (this.count < this.capacity) {
+      this.bars[(this.start + this.count) % this.capacity] = bar;
+      this.count++;
+    } else {
+      this.bars[this.start] = bar;
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  /**
+   * Get a bar by offset (0 = newest, 1 = previous, etc.)
+   */
+  get(offset: number = 0): OHLCV | undefined {
+    if (offset < 0 || offset >= this.count) {
+      return undefined;
+    }
+    return this.bars[(this.start + this.count - 1 - offset) % this.capacity];
+  }
+
+  /**
+   * Get retained bars, oldest first
+   */
+  toArray(): OHLCV[] {
+    const result: OHLCV[] = [];
+    for (let i = 0; i < this.count; i++) {
+      result.push(this.bars[(this.start + i) % this.capacity]!);
+    }
+    return result;
+  }
+
+  /**
+   * Remove all bars
+   */
+  clear(): void {
+    this.bars = new Array(this.capacity);
+    this.start = 0;
+    this.count = 0;
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Indicator dependency graph
+ * Orders indicators so that each one is updated after the indicator it takes as `input`
+ */
+
+import { IndicatorConfig } from '@jware-trader8/core';
+import { splitOutputReference } from '../evaluator/condition-evaluator';
+
+/**
+ * Name of the indicator an indicator reads from, without any `.output` suffix
+ */
+export function getInputIndicatorName(config: IndicatorConfig): string | undefined {
+  return config.input ? splitOutputReference(config.input)[0] : undefined;
+}
+
+/**
+ * Find a dependency cycle among indicator inputs
+ * @returns Indicator names forming the cycle (first name repeated at the end), or null
+ */
+export function findIndicatorCycle(configs: IndicatorConfig[]): string[] | null {
+  const byName = new Map(configs.map(config => [config.name, config]));
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  for (const config of configs) {
+    const path: string[] = [];
+    let current: IndicatorConfig | undefined = config;
+
+    // Each indicator has at most one input, so dependencies form chains
+    while (current && state.get(current.name) !== 'done') {
+      if (state.get(current.name) === 'visiting') {
+        return [...path.slice(path.indexOf(current.name)), current.name];
+      }
+      state.set(current.name, 'visiting');
+      path.push(current.name);
+
+      const inputName = getInputIndicatorName(current);
+      current = inputName ? byName.get(inputName) : undefined;
+    }
+
+    path.forEach(name => state.set(name, 'done'));
+  }
+
+  return null;
+}
+
+/**
+ * Sort indicators so every input is updated before the indicators that read it
+ * @throws Error when the inputs form a cycle
+ */
+export function orderIndicators(configs: IndicatorConfig[]): IndicatorConfig[] {
+  const cycle = findIndicatorCycle(configs);
+  if (cycle) {
+    throw new Error(`Indicator inputs form a cycle: ${cycle.join(' -> ')}`);
+  }
+
+  const byName = new Map(configs.map(config => [config.name, config]));
+  const ordered: IndicatorConfig[] = [];
+  const placed = new Set<string>();
+
+  const place = (config: IndicatorConfig): void => {
+    if (placed.has(config.name)) {
+      return;
+    }
+    const inputName = getInputIndicatorName(config);
+    const input = inputName ? byName.get(inputName) : undefined;
+    if (input) {
+      place(input);
+    }
+    placed.add(config.name);
+    ordered.push(config);
+  };
+
+  configs.forEach(place);
+  return ordered;
+}
@@ -3,7 +3,7 @@
  * Based on pseudocode from PSEUDOCODE_MODULES.md
  */
 
-import { IStrategyEngine, IIndicator, IndicatorConfig, StrategyExecutionStats } from '@jware-trader8/core';
+import { IStrategyEngine, IIndicator, IndicatorClass, IndicatorConfig, StrategyExecutionStats } from '@jware-trader8/core';
 import {
   StrategyConfig,
   CompiledStrategy,
@@ -12,20 +12,51 @@ import {
   ValidationError,
   OHLCV,
   StrategyContext,
-  CompiledCondition
+  CompiledCondition,
+  SignalCondition,
+  SignalType,
+  StrategyParameters,
+  ValidationWarning
 } from '@jware-trader8/types';
 import { Logger } from '@jware-trader8/utils';
+import { ConditionEvaluator, splitOutputReference } from '../evaluator/condition-evaluator';
+import { findIndicatorCycle, getInputIndicatorName, orderIndicators } from './indicator-graph';
+import { BarHistory } from './bar-history';
 
 // Import indicators
 import { SimpleMovingAverage } from '../indicators/simple-moving-average';
 import { ExponentialMovingAverage } from '../indicators/exponential-moving-average';
 import { RelativeStrengthIndex } from '../indicators/relative-strength-index';
+import { BollingerBands } from '../indicators/bollinger-bands';
+import { MovingAverageConvergenceDivergence } from '../indicators/moving-average-convergence-divergence';
+import { StochasticOscillator } from '../indicators/stochastic-oscillator';
+import { KeltnerChannels } from '../indicators/keltner-channels';
+import { AverageTrueRange } from '../indicators/average-true-range';
+import { AverageDirectionalIndex } from '../indicators/average-directional-index';
+import { VolumeWeightedAveragePrice } from '../indicators/volume-weighted-average-price';
+import { OnBalanceVolume } from '../indicators/on-balance-volume';
+import { CommodityChannelIndex } from '../indicators/commodity-channel-index';
+import { WilliamsPercentR } from '../indicators/williams-percent-r';
+import { ParabolicSAR } from '../indicators/parabolic-sar';
+import {
+  getParameterSchema,
+  getParameterValue,
+  resolveIndicatorArguments,
+  checkParameterValue
+} from '../indicators/parameter-schema';
+
+import { isMultiOutputIndicator } from '../indicators/multi-output-indicator';
+
+/**
+ * Template referencing a strategy parameter: `{{ parameters.name }}` or `{{name}}`
+ */
+const PARAMETER_TEMPLATE = /\{\{\s*(?:parameters\.)?(\w+)\s*\}\}/g;
 
 /**
  * Strategy execution engine implementation
  */
 export class StrategyEngine implements IStrategyEngine {
-  private indicatorLibrary: Map<string, new (...args: any[]) => IIndicator>;
+  private indicatorLibrary: Map<string, IndicatorClass>;
   private logger: Logger;
   private executionStats: Map<string, StrategyExecutionStats>;
 
@@ -57,31 +88,36 @@ export class StrategyEngine implements IStrategyEngine {
     // Process parameters and resolve templating
     const processedConfig = this.processParameterTemplating(strategyConfig);
 
-    // Initialize indicators
+    // Initialize indicators in dependency order so inputs update first
     const indicators = new Map<string, IIndicator>();
-    for (const indicatorConfig of processedConfig.indicators) {
+    for (const indicatorConfig of orderIndicators(processedConfig.indicators)) {
+      if (indicatorConfig.input) {
+        this.checkInputOutput(indicators, indicatorConfig);
+      }
       const indicator = this.createIndicator(indicatorConfig);
       indicators.set(indicatorConfig.name, indicator);
     }
 
     // Compile signal conditions
+    const evaluator = new ConditionEvaluator(indicators);
     const buyConditions = processedConfig.signals.buy.map(condition => 
-      this.compileCondition(condition, indicators)
+      this.compileCondition(condition, evaluator)
     );
     const sellConditions = processedConfig.signals.sell.map(condition => 
-      this.compileCondition(condition, indicators)
+      this.compileCondition(condition, evaluator)
+    );
+    const shortConditions = (processedConfig.signals.short || []).map(condition =>
+      this.compileCondition(condition, evaluator)
+    );
+    const coverConditions = (processedConfig.signals.cover || []).map(condition =>
+      this.compileCondition(condition, evaluator)
     );
 
-    const compiledStrategy: CompiledStrategy = {
-      config: processedConfig,
-      indicators,
-      buyConditions,
-      sellConditions,
-      metadata: {
-        compiledAt: new Date(),
-        compilerVersion: '1.0.0'
-      }
-    };
+    // Size the rolling bar window from the deepest lookback of indicators and conditions
+    const history = new BarHistory(this.calculateHistoryCapacity(processedConfig, indicators, evaluator));
+    for (const indicator of indicators.values()) {
+      indicator.setBarHistory?.(history);
+    }
 
     // Initialize execution stats
     const strategyId = this.generateStrategyId(processedConfig);
@@ -97,8 +133,20 @@ export class StrategyEngine implements IStrategyEngine {
       successRate: 1.0
     });
 
-    // Add ID to strategy for tracking
-    (compiledStrategy as any).id = strategyId;
+    const compiledStrategy: CompiledStrategy = {
+      id: strategyId,
+      config: processedConfig,
+      indicators,
+      buyConditions,
+      sellConditions,
+      shortConditions,
+      coverConditions,
+      history,
+      metadata: {
+        compiledAt: new Date(),
+        compilerVersion: '1.0.0'
+      }
+    };
 
     this.logger.info('Strategy compiled successfully', { 
       name: strategyConfig.name,
@@ -115,19 +163,32 @@ export class StrategyEngine implements IStrategyEngine {
    */
   async executeStrategy(strategy: CompiledStrategy, marketData: OHLCV): Promise<TradeSignal[]> {
     const startTime = Date.now();
-    const strategyId = (strategy as any).id;
+    const strategyId = strategy.id;
     const stats = this.executionStats.get(strategyId);
 
     try {
-      // Update all indicators with new market data
+      strategy.history?.push(marketData);
+
+      // Update all indicators with new market data (map order is dependency order)
+      const inputs = new Map(strategy.config.indicators.map(config => [config.name, config.input]));
       for (const [name, indicator] of strategy.indicators) {
-        indicator.update(marketData);
+        const input = inputs.get(name);
+        if (!input) {
+          indicator.update(marketData);
+          continue;
+        }
+
+        // Composed indicators see their input's value as every price field
+        const value = this.getInputValue(strategy.indicators, input);
+        if (value !== null) {
+          indicator.update({ ...marketData, open: value, high: value, low: value, close: value, volume: value });
+        }
       }
 
       // Create strategy context
       const context: StrategyContext = {
         currentData: marketData,
-        historicalData: [marketData], // Simplified - would normally maintain history
+        historicalData: strategy.history ? strategy.history.toArray() : [marketData],
         indicators: this.getCurrentIndicatorValues(strategy.indicators),
         config: strategy.config,
         timestamp: marketData.timestamp
@@ -135,42 +196,32 @@ export class StrategyEngine implements IStrategyEngine {
 
       const signals: TradeSignal[] = [];
 
-      // Evaluate buy conditions
-      for (const condition of strategy.buyConditions) {
-        if (this.evaluateCondition(condition, context)) {
-          const signal: TradeSignal = {
-            type: 'BUY',
-            symbol: strategy.config.parameters.symbol,
-            price: marketData.close,
-            timestamp: marketData.timestamp,
-            quantity: strategy.config.parameters.positionSize,
-            reason: condition.original.description,
-            strategyName: strategy.config.name,
-            metadata: {
-              conditionId: condition.original.id,
-              priority: condition.original.priority
-            }
-          };
-          signals.push(signal);
-        }
-      }
-
-      // Evaluate sell conditions
-      for (const condition of strategy.sellConditions) {
-        if (this.evaluateCondition(condition, context)) {
-          const signal: TradeSignal = {
-            type: 'SELL',
-            symbol: strategy.config.parameters.symbol,
-            price: marketData.close,
-            timestamp: marketData.timestamp,
-            reason: condition.original.description,
-            strategyName: strategy.config.name,
-            metadata: {
-              conditionId: condition.original.id,
-              priority: condition.original.priority
-            }
-          };
-          signals.push(signal);
+      // Evaluate signal conditions; entries carry the configured position size
+      const conditionSets: Array<[SignalType, CompiledCondition[]]> = [
+        ['BUY', strategy.buyConditions],
+        ['SELL', strategy.sellConditions],
+        ['SHORT', strategy.shortConditions || []],
+        ['COVER', strategy.coverConditions || []]
+      ];
+
+      for (const [type, conditions] of conditionSets) {
+        for (const condition of conditions) {
+          if (this.evaluateCondition(condition, context)) {
+            const signal: TradeSignal = {
+              type,
+              symbol: strategy.config.parameters.symbol,
+              price: marketData.close,
+              timestamp: marketData.timestamp,
+              ...(type === 'BUY' || type === 'SHORT' ? { quantity: strategy.config.parameters.positionSize } : {}),
+              reason: condition.original.description,
+              strategyName: strategy.config.name,
+              metadata: {
+                conditionId: condition.original.id,
+                priority: condition.original.priority
+              }
+            };
+            signals.push(signal);
+          }
         }
       }
 
@@ -215,6 +266,7 @@ export class StrategyEngine implements IStrategyEngine {
    */
   validateStrategy(strategyConfig: StrategyConfig): ValidationResult {
     const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
 
     // Validate metadata
     if (!strategyConfig.name || strategyConfig.name.trim().length === 0) {
@@ -254,6 +306,9 @@ export class StrategyEngine implements IStrategyEngine {
       }
     }
 
+    // Indicators whose parameters are valid, so conditions can be checked against their outputs
+    const created = new Map<string, IIndicator>();
+
     // Validate indicators
     if (!strategyConfig.indicators || strategyConfig.indicators.length === 0) {
       errors.push({
@@ -265,7 +320,7 @@ export class StrategyEngine implements IStrategyEngine {
     } else {
       const indicatorNames = new Set<string>();
       
-      for (const indicator of strategyConfig.indicators) {
+      strategyConfig.indicators.forEach((indicator, index) => {
         if (indicatorNames.has(indicator.name)) {
           errors.push({
             code: 'DUPLICATE_INDICATOR',
@@ -276,15 +331,23 @@ export class StrategyEngine implements IStrategyEngine {
         }
         indicatorNames.add(indicator.name);
 
-        if (!this.indicatorLibrary.has(indicator.type)) {
+        const indicatorClass = this.indicatorLibrary.get(indicator.type);
+        if (!indicatorClass) {
           errors.push({
             code: 'UNSUPPORTED_INDICATOR',
             message: `Unsupported indicator type: ${indicator.type}`,
             field: 'indicators',
             severity: 'ERROR'
           });
+        } else {
+          const instance = this.validateIndicatorParameters(indicator, indicatorClass, `indicators[${index}]`, strategyConfig.parameters, errors, warnings);
+          if (instance) {
+            created.set(indicator.name, instance);
+          }
         }
-      }
+      });
+
+      errors.push(...this.validateIndicatorInputs(strategyConfig.indicators, created));
     }
 
     // Validate signals
@@ -295,12 +358,20 @@ export class StrategyEngine implements IStrategyEngine {
         field: 'signals',
         severity: 'ERROR'
       });
+    } else {
+      const indicatorNames = new Set((strategyConfig.indicators || []).map(indicator => indicator.name));
+      errors.push(
+        ...this.validateConditions(strategyConfig.signals.buy, 'signals.buy', indicatorNames, created, strategyConfig.parameters),
+        ...this.validateConditions(strategyConfig.signals.sell, 'signals.sell', indicatorNames, created, strategyConfig.parameters),
+        ...this.validateConditions(strategyConfig.signals.short || [], 'signals.short', indicatorNames, created, strategyConfig.parameters),
+        ...this.validateConditions(strategyConfig.signals.cover || [], 'signals.cover', indicatorNames, created, strategyConfig.parameters)
+      );
     }
 
     return {
       isValid: errors.length === 0,
       errors,
-      warnings: []
+      warnings
     };
   }
 
@@ -314,7 +385,7 @@ export class StrategyEngine implements IStrategyEngine {
   /**
    * Register a new indicator
    */
-  registerIndicator(name: string, indicatorClass: new (...args: any[]) => IIndicator): void {
+  registerIndicator(name: string, indicatorClass: IndicatorClass): void {
     this.indicatorLibrary.set(name, indicatorClass);
     this.logger.info('Indicator registered', { name });
   }
@@ -327,6 +398,16 @@ export class StrategyEngine implements IStrategyEngine {
     this.logger.info('Indicator unregistered', { name });
   }
 
+  /**
+   * Clear bar history and indicator state, e.g. between backtests
+   */
+  resetStrategy(strategy: CompiledStrategy): void {
+    strategy.history?.clear();
+    for (const indicator of strategy.indicators.values()) {
+      indicator.reset();
+    }
+  }
+
   /**
    * Get strategy execution statistics
    */
@@ -346,78 +427,245 @@ export class StrategyEngine implements IStrategyEngine {
     this.registerIndicator('SMA', SimpleMovingAverage);
     this.registerIndicator('EMA', ExponentialMovingAverage);
     this.registerIndicator('RSI', RelativeStrengthIndex);
+    this.registerIndicator('BB', BollingerBands);
+    this.registerIndicator('MACD', MovingAverageConvergenceDivergence);
+    this.registerIndicator('STOCH', StochasticOscillator);
+    this.registerIndicator('KELTNER', KeltnerChannels);
+    this.registerIndicator('ATR', AverageTrueRange);
+    this.registerIndicator('ADX', AverageDirectionalIndex);
+    this.registerIndicator('VWAP', VolumeWeightedAveragePrice);
+    this.registerIndicator('OBV', OnBalanceVolume);
+    this.registerIndicator('CCI', CommodityChannelIndex);
+    this.registerIndicator('WILLR', WilliamsPercentR);
+    this.registerIndicator('PSAR', ParabolicSAR);
+  }
+
+  /**
+   * Check indicator parameters one by one, then together by constructing the indicator
+   * @returns The constructed indicator, or undefined when its parameters are invalid
+   */
+  private validateIndicatorParameters(
+    indicator: IndicatorConfig,
+    indicatorClass: IndicatorClass,
+    field: string,
+    parameters: StrategyParameters | undefined,
+    errors: ValidationError[],
+    warnings: ValidationWarning[]
+  ): IIndicator | undefined {
+    const schema = getParameterSchema(indicatorClass);
+    const resolved = this.resolveIndicatorTemplates(indicator, parameters);
+    let valid = true;
+
+    for (const definition of schema) {
+      const problem = checkParameterValue(definition, getParameterValue(resolved, definition.name));
+      if (problem) {
+        valid = false;
+        errors.push({
+          code: 'INVALID_INDICATOR_PARAMETER',
+          message: `Indicator "${indicator.name}": ${problem}`,
+          field: definition.name === 'source' ? `${field}.source` : `${field}.parameters.${definition.name}`,
+          severity: 'ERROR'
+        });
+      }
+    }
+
+    const known = new Set(schema.map(definition => definition.name));
+    for (const name of Object.keys(indicator.parameters || {})) {
+      if (!known.has(name)) {
+        warnings.push({
+          code: 'UNKNOWN_INDICATOR_PARAMETER',
+          message: `Indicator "${indicator.name}" (${indicator.type}) does not use parameter '${name}'`,
+          field: `${field}.parameters.${name}`
+        });
+      }
+    }
+
+    if (!valid) {
+      return undefined;
+    }
+
+    // Constructors enforce rules that span parameters, such as RSI oversold below overbought
+    try {
+      return new indicatorClass(...resolveIndicatorArguments(indicatorClass, resolved));
+    } catch (error) {
+      errors.push({
+        code: 'INVALID_INDICATOR_PARAMETER',
+        message: `Indicator "${indicator.name}": ${error instanceof Error ? error.message : 'Invalid parameters'}`,
+        field: `${field}.parameters`,
+        severity: 'ERROR'
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Check indicator inputs name existing indicators and outputs, without cycles
+   * @param created - Indicators whose parameters are valid, used to look up their outputs
+   */
+  private validateIndicatorInputs(indicators: IndicatorConfig[], created: Map<string, IIndicator>): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const names = new Set(indicators.map(indicator => indicator.name));
+
+    indicators.forEach((indicator, index) => {
+      const inputName = getInputIndicatorName(indicator);
+      if (inputName && !names.has(inputName)) {
+        errors.push({
+          code: 'UNKNOWN_INDICATOR_INPUT',
+          message: `Indicator "${indicator.name}" uses unknown input: ${indicator.input}`,
+          field: `indicators[${index}].input`,
+          severity: 'ERROR'
+        });
+        return;
+      }
+
+      const [, output] = indicator.input ? splitOutputReference(indicator.input) : [];
+      const input = inputName ? created.get(inputName) : undefined;
+      if (output && input && !(isMultiOutputIndicator(input) && input.outputs.includes(output))) {
+        errors.push({
+          code: 'UNKNOWN_INDICATOR_OUTPUT',
+          message: `Indicator "${indicator.name}" input ${indicator.input} is not an output of ${inputName}`,
+          field: `indicators[${index}].input`,
+          severity: 'ERROR'
+        });
+      }
+    });
+
+    const cycle = findIndicatorCycle(indicators);
+    if (cycle) {
+      errors.push({
+        code: 'INDICATOR_CYCLE',
+        message: `Indicator inputs form a cycle: ${cycle.join(' -> ')}`,
+        field: 'indicators',
+        severity: 'ERROR'
+      });
+    }
+
+    return errors;
+  }
+
+  private validateConditions(
+    conditions: SignalCondition[],
+    field: string,
+    indicatorNames: Set<string>,
+    created: Map<string, IIndicator>,
+    parameters?: StrategyParameters
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    // Known indicators let the parser reject outputs they do not publish
+    const evaluator = new ConditionEvaluator(created);
+
+    conditions.forEach((condition, index) => {
+      const conditionField = `${field}[${index}].condition`;
+      const expression = this.resolveConditionTemplates(condition.condition || '', parameters);
+      const parsed = evaluator.parseCondition(expression);
+
+      if (!parsed.isValid) {
+        errors.push({
+          code: 'INVALID_CONDITION',
+          message: `Invalid condition "${condition.id}": ${parsed.errors.join(', ')}`,
+          field: conditionField,
+          column: parsed.errorColumn,
+          severity: 'ERROR'
+        });
+        return;
+      }
+
+      for (const name of parsed.requiredIndicators) {
+        if (!indicatorNames.has(name)) {
+          errors.push({
+            code: 'UNKNOWN_INDICATOR',
+            message: `Condition "${condition.id}" references unknown indicator: ${name}`,
+            field: conditionField,
+            severity: 'ERROR'
+          });
+        }
+      }
+    });
+
+    return errors;
+  }
+
+  private resolveConditionTemplates(condition: string, parameters?: StrategyParameters): string {
+    if (!parameters) {
+      return condition;
+    }
+    return condition.replace(PARAMETER_TEMPLATE, (match, paramName: string) =>
+      parameters[paramName] !== undefined ? String(parameters[paramName]) : match
+    );
+  }
+
+  private resolveIndicatorTemplates(indicator: IndicatorConfig, parameters?: StrategyParameters): IndicatorConfig {
+    const resolved: IndicatorConfig = { ...indicator, parameters: { ...(indicator.parameters || {}) } };
+    if (!parameters) {
+      return resolved;
+    }
+
+    for (const [key, value] of Object.entries(resolved.parameters)) {
+      if (typeof value === 'string' && value.includes('{{')) {
+        const templateMatch = value.match(new RegExp(PARAMETER_TEMPLATE.source));
+        if (templateMatch && parameters[templateMatch[1]] !== undefined) {
+          resolved.parameters[key] = parameters[templateMatch[1]];
+        }
+      }
+    }
+    return resolved;
   }
 
   private processParameterTemplating(config: StrategyConfig): StrategyConfig {
     // Simple parameter templating - replace {{ parameters.key }} with actual values
     const processedConfig = JSON.parse(JSON.stringify(config));
-    
-    for (const indicator of processedConfig.indicators) {
-      for (const [key, value] of Object.entries(indicator.parameters)) {
-        if (typeof value === 'string' && value.includes('{{')) {
-          const templateMatch = value.match(/\{\{\s*parameters\.(\w+)\s*\}\}/);
-          if (templateMatch) {
-            const paramName = templateMatch[1];
-            if (config.parameters[paramName] !== undefined) {
-              indicator.parameters[key] = config.parameters[paramName];
-            }
-          }
-        }
-      }
+
+    for (const condition of this.getSignalConditions(processedConfig)) {
+      condition.condition = this.resolveConditionTemplates(condition.condition, config.parameters);
     }
+
+    processedConfig.indicators = processedConfig.indicators.map((indicator: IndicatorConfig) =>
+      this.resolveIndicatorTemplates(indicator, config.parameters)
+    );
     
     return processedConfig;
   }
 
+  private getSignalConditions(config: StrategyConfig): SignalCondition[] {
+    const { buy, sell, short = [], cover = [] } = config.signals;
+    return [...buy, ...sell, ...short, ...cover];
+  }
+
+  private calculateHistoryCapacity(
+    config: StrategyConfig,
+    indicators: Map<string, IIndicator>,
+    evaluator: ConditionEvaluator
+  ): number {
+    let capacity = 1;
+    for (const indicator of indicators.values()) {
+      capacity = Math.max(capacity, indicator.getLookback?.() ?? 1);
+    }
+    for (const condition of this.getSignalConditions(config)) {
+      // A lookback of n bars needs the current bar plus n previous ones
+      capacity = Math.max(capacity, evaluator.getMaxLookback(condition.condition) + 1);
+    }
+    return capacity;
+  }
+
   private createIndicator(config: IndicatorConfig): IIndicator {
     const IndicatorClass = this.indicatorLibrary.get(config.type);
     if (!IndicatorClass) {
       throw new Error(`Unknown indicator type: ${config.type}`);
     }
 
-    // Extract period from parameters for indicators that need it
-    const period = config.parameters.period as number || config.period;
-    return new IndicatorClass(period);
+    // Constructor arguments follow the class's declared parameter schema
+    return new IndicatorClass(...resolveIndicatorArguments(IndicatorClass, config));
   }
 
-  private compileCondition(condition: any, indicators: Map<string, IIndicator>): CompiledCondition {
-    // Simplified condition compilation - in a real implementation, this would parse the expression
+  private compileCondition(condition: SignalCondition, evaluator: ConditionEvaluator): CompiledCondition {
+    const parsed = evaluator.parseCondition(condition.condition);
     return {
       original: condition,
-      evaluate: (context: StrategyContext) => {
-        // Simplified evaluation - just check for basic crossover patterns
-        if (condition.condition.includes('sma_fast > sma_slow AND sma_fast[-1] <= sma_slow[-1]')) {
-          // Check for bullish crossover
-          const fastSMA = indicators.get('sma_fast');
-          const slowSMA = indicators.get('sma_slow');
-          
-          if (fastSMA && slowSMA && fastSMA.isReady() && slowSMA.isReady()) {
-            const currentFast = fastSMA.getValue(0);
-            const currentSlow = slowSMA.getValue(0);
-            const prevFast = fastSMA.getValue(1);
-            const prevSlow = slowSMA.getValue(1);
-            
-            return currentFast !== null && currentSlow !== null && 
-                   prevFast !== null && prevSlow !== null &&
-                   currentFast > currentSlow && prevFast <= prevSlow;
-          }
-        }
-        
-        // For other conditions, return false for now
-        return false;
-      },
-      requiredIndicators: this.extractRequiredIndicators(condition.condition)
+      evaluate: evaluator.compile(condition.condition),
+      requiredIndicators: parsed.requiredIndicators
     };
   }
 
-  private extractRequiredIndicators(condition: string): string[] {
-    // Simple regex to find indicator names - in reality would need proper parsing
-    const matches = condition.match(/\b[a-zA-Z_][a-zA-Z0-9_]*\b/g) || [];
-    return matches.filter(match => 
-      !['AND', 'OR', 'NOT', 'close', 'open', 'high', 'low', 'volume'].includes(match)
-    );
-  }
-
   private evaluateCondition(condition: CompiledCondition, context: StrategyContext): boolean {
     try {
       return condition.evaluate(context);
@@ -430,10 +678,35 @@ export class StrategyEngine implements IStrategyEngine {
     }
   }
 
+  private checkInputOutput(indicators: Map<string, IIndicator>, config: IndicatorConfig): void {
+    const [name, output] = splitOutputReference(config.input!);
+    const input = indicators.get(name);
+    if (output && !(input && isMultiOutputIndicator(input) && input.outputs.includes(output))) {
+      throw new Error(`Indicator "${config.name}" input ${config.input} is not an output of ${name}`);
+    }
+  }
+
+  private getInputValue(indicators: Map<string, IIndicator>, input: string): number | null {
+    const [name, output] = splitOutputReference(input);
+    const indicator = indicators.get(name);
+    if (!indicator) {
+      return null;
+    }
+    if (output && isMultiOutputIndicator(indicator)) {
+      return indicator.getOutputValue(output);
+    }
+    return indicator.getValue();
+  }
+
   private getCurrentIndicatorValues(indicators: Map<string, IIndicator>): Map<string, number | null> {
     const values = new Map<string, number | null>();
     for (const [name, indicator] of indicators) {
       values.set(name, indicator.getValue());
+      if (isMultiOutputIndicator(indicator)) {
+        for (const output of indicator.outputs) {
+          values.set(`${name}.${output}`, indicator.getOutputValue(output));
+        }
+      }
     }
     return values;
   }
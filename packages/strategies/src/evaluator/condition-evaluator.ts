@@ -0,0 +1,334 @@
+/**
+ * Condition Evaluator
+ * Compiles strategy signal condition expressions into executable functions
+ */
+
+import { IConditionEvaluator, IIndicator, ParsedCondition } from '@jware-trader8/core';
+import { OHLCV, StrategyContext } from '@jware-trader8/types';
+import { CallNode, ExpressionNode, parseExpression } from './parser';
+import { ConditionSyntaxError } from './tokenizer';
+import { CONDITION_FUNCTIONS } from './functions';
+import { isMultiOutputIndicator } from '../indicators/multi-output-indicator';
+
+/**
+ * Value produced while evaluating an expression.
+ * `null` means "unknown" (e.g. an indicator that is not ready yet) and
+ * propagates through arithmetic and comparisons.
+ */
+export type ConditionValue = number | boolean | null;
+
+/**
+ * Compiled expression evaluated against a context, `shift` bars in the past
+ */
+export type CompiledExpression = (context: StrategyContext, shift: number) => ConditionValue;
+
+/**
+ * OHLCV fields that can be referenced directly in conditions
+ */
+export const PRICE_FIELDS = ['open', 'high', 'low', 'close', 'volume'] as const;
+
+type PriceField = typeof PRICE_FIELDS[number];
+
+/**
+ * Condition evaluator implementation
+ */
+export class ConditionEvaluator implements IConditionEvaluator {
+  private indicators: Map<string, IIndicator>;
+  private compiled: Map<string, (context: StrategyContext) => boolean>;
+
+  /**
+   * @param indicators - Indicator instances used to resolve history lookbacks
+   */
+  constructor(indicators: Map<string, IIndicator> = new Map()) {
+    this.indicators = indicators;
+    this.compiled = new Map();
+  }
+
+  /**
+   * Evaluate a condition expression
+   */
+  evaluate(condition: string, context: StrategyContext): boolean {
+    let evaluate = this.compiled.get(condition);
+    if (!evaluate) {
+      evaluate = this.compile(condition);
+      this.compiled.set(condition, evaluate);
+    }
+    return evaluate(context);
+  }
+
+  /**
+   * Parse and validate condition syntax
+   */
+  parseCondition(condition: string): ParsedCondition {
+    try {
+      const ast = parseExpression(condition);
+      this.compileNode(ast);
+      const identifiers = new Set<string>();
+      const functions = new Set<string>();
+      this.collectReferences(ast, identifiers, functions);
+
+      return {
+        expression: condition,
+        requiredIndicators: Array.from(new Set(
+          Array.from(identifiers)
+            .filter(name => !isPriceField(name))
+            .map(name => splitOutputReference(name)[0])
+        )),
+        functions: Array.from(functions),
+        isValid: true,
+        errors: []
+      };
+    } catch (error) {
+      return {
+        expression: condition,
+        requiredIndicators: [],
+        functions: [],
+        isValid: false,
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        errorColumn: error instanceof ConditionSyntaxError ? error.column : undefined
+      };
+    }
+  }
+
+  /**
+   * Get available functions for conditions
+   */
+  getAvailableFunctions(): string[] {
+    return Object.keys(CONDITION_FUNCTIONS);
+  }
+
+  /**
+   * Number of past bars of OHLCV history a condition reads (0 = current bar only)
+   * @throws ConditionSyntaxError when the expression is malformed
+   */
+  getMaxLookback(condition: string): number {
+    return this.lookbackOf(parseExpression(condition), 0);
+  }
+
+  /**
+   * Compile a condition into a predicate over the strategy context
+   * @throws ConditionSyntaxError when the expression is malformed
+   */
+  compile(condition: string): (context: StrategyContext) => boolean {
+    const expression = this.compileNode(parseExpression(condition));
+    return (context: StrategyContext) => expression(context, 0) === true;
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private compileNode(node: ExpressionNode): CompiledExpression {
+    switch (node.kind) {
+      case 'number':
+      case 'boolean': {
+        const value = node.value;
+        return () => value;
+      }
+
+      case 'identifier': {
+        const { name, offset } = node;
+        if (isPriceField(name)) {
+          return (context, shift) => this.getPriceValue(context, name, offset + shift);
+        }
+        const [indicatorName, output] = splitOutputReference(name);
+        if (output) {
+          this.checkOutput(indicatorName, output, node.column);
+        }
+        return (context, shift) => this.getIndicatorValue(context, name, offset + shift);
+      }
+
+      case 'unary': {
+        const operand = this.compileNode(node.operand);
+        if (node.operator === 'NOT') {
+          return (context, shift) => {
+            const value = operand(context, shift);
+            return typeof value === 'boolean' ? !value : null;
+          };
+        }
+        return (context, shift) => {
+          const value = operand(context, shift);
+          return typeof value === 'number' ? -value : null;
+        };
+      }
+
+      case 'call':
+        return this.compileCall(node);
+
+      case 'binary': {
+        const left = this.compileNode(node.left);
+        const right = this.compileNode(node.right);
+
+        switch (node.operator) {
+          case 'AND':
+            return (context, shift) => {
+              const a = left(context, shift);
+              if (a === false) return false;
+              const b = right(context, shift);
+              if (b === false) return false;
+              return a === true && b === true ? true : null;
+            };
+          case 'OR':
+            return (context, shift) => {
+              const a = left(context, shift);
+              if (a === true) return true;
+              const b = right(context, shift);
+              if (b === true) return true;
+              return a === false && b === false ? false : null;
+            };
+          case '==':
+          case '!=': {
+            const negate = node.operator === '!=';
+            return (context, shift) => {
+              const a = left(context, shift);
+              const b = right(context, shift);
+              if (a === null || b === null) return null;
+              return negate ? a !== b : a === b;
+            };
+          }
+          default: {
+            const apply = binaryNumeric(node.operator);
+            return (context, shift) => {
+              const a = left(context, shift);
+              const b = right(context, shift);
+              if (typeof a !== 'number' || typeof b !== 'number') return null;
+              return apply(a, b);
+            };
+          }
+        }
+      }
+    }
+  }
+
+  private compileCall(node: CallNode): CompiledExpression {
+    const fn = CONDITION_FUNCTIONS[node.name];
+    if (!fn) {
+      throw new ConditionSyntaxError(`Unknown function '${node.name}'`, node.column);
+    }
+    if (node.args.length < fn.minArgs || node.args.length > fn.maxArgs) {
+      const expected = fn.maxArgs === Infinity
+        ? `at least ${fn.minArgs}`
+        : fn.minArgs === fn.maxArgs ? `${fn.minArgs}` : `${fn.minArgs} to ${fn.maxArgs}`;
+      throw new ConditionSyntaxError(
+        `Function '${node.name}' expects ${expected} arguments but got ${node.args.length}`,
+        node.column
+      );
+    }
+
+    const args = node.args.map(arg => this.compileNode(arg));
+    return (context, shift) => fn.evaluate(args, context, shift);
+  }
+
+  private getPriceValue(context: StrategyContext, field: PriceField, offset: number): number | null {
+    if (offset === 0) {
+      return context.currentData[field];
+    }
+
+    // The current bar is the last entry of the history
+    const bar: OHLCV | undefined = context.historicalData[context.historicalData.length - 1 - offset];
+    return bar ? bar[field] : null;
+  }
+
+  private getIndicatorValue(context: StrategyContext, name: string, offset: number): number | null {
+    const [indicatorName, output] = splitOutputReference(name);
+    const indicator = this.indicators.get(indicatorName);
+    if (indicator) {
+      if (output && isMultiOutputIndicator(indicator)) {
+        return indicator.getOutputValue(output, offset);
+      }
+      return indicator.getValue(offset);
+    }
+    return offset === 0 ? context.indicators.get(name) ?? null : null;
+  }
+
+  /**
+   * Reject references to outputs a known indicator does not publish
+   */
+  private checkOutput(indicatorName: string, output: string, column: number): void {
+    const indicator = this.indicators.get(indicatorName);
+    if (!indicator) {
+      return;
+    }
+    if (!isMultiOutputIndicator(indicator)) {
+      throw new ConditionSyntaxError(`Indicator '${indicatorName}' has no named outputs`, column);
+    }
+    if (!indicator.outputs.includes(output)) {
+      throw new ConditionSyntaxError(
+        `Indicator '${indicatorName}' has no output '${output}' (available: ${indicator.outputs.join(', ')})`,
+        column
+      );
+    }
+  }
+
+  /**
+   * Deepest price-field offset reachable from a node; indicator lookbacks use
+   * the indicators' own histories and are not counted
+   */
+  private lookbackOf(node: ExpressionNode, shift: number): number {
+    switch (node.kind) {
+      case 'identifier':
+        return isPriceField(node.name) ? shift + node.offset : 0;
+      case 'unary':
+        return this.lookbackOf(node.operand, shift);
+      case 'binary':
+        return Math.max(this.lookbackOf(node.left, shift), this.lookbackOf(node.right, shift));
+      case 'call': {
+        const fn = CONDITION_FUNCTIONS[node.name];
+        const extra = fn && fn.lookback ? Math.max(0, fn.lookback(node.args)) : 0;
+        return node.args.reduce((max, arg) => Math.max(max, this.lookbackOf(arg, shift + extra)), 0);
+      }
+      default:
+        return 0;
+    }
+  }
+
+  private collectReferences(node: ExpressionNode, identifiers: Set<string>, functions: Set<string>): void {
+    switch (node.kind) {
+      case 'identifier':
+        identifiers.add(node.name);
+        break;
+      case 'unary':
+        this.collectReferences(node.operand, identifiers, functions);
+        break;
+      case 'binary':
+        this.collectReferences(node.left, identifiers, functions);
+        this.collectReferences(node.right, identifiers, functions);
+        break;
+      case 'call':
+        functions.add(node.name);
+        node.args.forEach(arg => this.collectReferences(arg, identifiers, functions));
+        break;
+    }
+  }
+}
+
+/**
+ * Check whether an identifier refers to an OHLCV field
+ */
+export function isPriceField(name: string): name is PriceField {
+  return (PRICE_FIELDS as readonly string[]).includes(name);
+}
+
+/**
+ * Split `bb.upper` into the indicator name and output name
+ */
+export function splitOutputReference(name: string): [string, string | undefined] {
+  const dot = name.indexOf('.');
+  return dot === -1 ? [name, undefined] : [name.slice(0, dot), name.slice(dot + 1)];
+}
+
+function binaryNumeric(operator: string): (a: number, b: number) => ConditionValue {
+  switch (operator) {
+    case '>': return (a, b) => a > b;
+    case '<': return (a, b) => a < b;
+    case '>=': return (a, b) => a >= b;
+    case '<=': return (a, b) => a <= b;
+    case '+': return (a, b) => a + b;
+    case '-': return (a, b) => a - b;
+    case '*': return (a, b) => a * b;
+    case '/': return (a, b) => (b === 0 ? null : a / b);
+    case '%': return (a, b) => (b === 0 ? null : a % b);
+    default:
+      throw new Error(`Unsupported operator: ${operator}`);
+  }
+}
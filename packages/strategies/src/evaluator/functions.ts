@@ -0,0 +1,254 @@
+/**
+ * Built-in condition functions
+ * Series functions evaluate their arguments at earlier bars by increasing the
+ * evaluation shift, so they work on any expression backed by indicator
+ * history or OHLCV history.
+ */
+
+import { StrategyContext } from '@jware-trader8/types';
+import type { CompiledExpression, ConditionValue } from './condition-evaluator';
+import type { ExpressionNode } from './parser';
+
+/**
+ * Definition of a function callable from condition expressions
+ */
+export interface ConditionFunction {
+  name: string;
+  description: string;
+  minArgs: number;
+  maxArgs: number;
+  evaluate(args: CompiledExpression[], context: StrategyContext, shift: number): ConditionValue;
+  /** Extra bars of history the function reads beyond its arguments' own lookback */
+  lookback?(args: ExpressionNode[]): number;
+}
+
+/**
+ * Built-in function library keyed by function name
+ */
+export const CONDITION_FUNCTIONS: Record<string, ConditionFunction> = {};
+
+function register(fn: ConditionFunction, aliases: string[] = []): void {
+  CONDITION_FUNCTIONS[fn.name] = fn;
+  for (const alias of aliases) {
+    CONDITION_FUNCTIONS[alias] = { ...fn, name: alias };
+  }
+}
+
+register({
+  name: 'crosses_above',
+  description: 'True when a crosses above b on the current bar',
+  minArgs: 2,
+  maxArgs: 2,
+  evaluate: ([a, b], context, shift) => crossed(a, b, context, shift, 'above'),
+  lookback: () => 1
+}, ['crossover']);
+
+register({
+  name: 'crosses_below',
+  description: 'True when a crosses below b on the current bar',
+  minArgs: 2,
+  maxArgs: 2,
+  evaluate: ([a, b], context, shift) => crossed(a, b, context, shift, 'below'),
+  lookback: () => 1
+}, ['crossunder']);
+
+register({
+  name: 'highest',
+  description: 'Highest value of x over the last n bars',
+  minArgs: 2,
+  maxArgs: 2,
+  evaluate: ([x, n], context, shift) => {
+    const series = collect(x, n, context, shift);
+    return series ? Math.max(...series) : null;
+  },
+  lookback: args => literalArg(args[1], 1) - 1
+});
+
+register({
+  name: 'lowest',
+  description: 'Lowest value of x over the last n bars',
+  minArgs: 2,
+  maxArgs: 2,
+  evaluate: ([x, n], context, shift) => {
+    const series = collect(x, n, context, shift);
+    return series ? Math.min(...series) : null;
+  },
+  lookback: args => literalArg(args[1], 1) - 1
+});
+
+register({
+  name: 'change',
+  description: 'Difference between x now and x n bars ago (default 1)',
+  minArgs: 1,
+  maxArgs: 2,
+  evaluate: ([x, n], context, shift) => {
+    const bars = n ? toBarCount(n(context, shift)) : 1;
+    if (bars === null) return null;
+    const current = x(context, shift);
+    const previous = x(context, shift + bars);
+    if (typeof current !== 'number' || typeof previous !== 'number') return null;
+    return current - previous;
+  },
+  lookback: args => literalArg(args[1], 1)
+});
+
+register({
+  name: 'pct_change',
+  description: 'Fractional change of x versus n bars ago (default 1)',
+  minArgs: 1,
+  maxArgs: 2,
+  evaluate: ([x, n], context, shift) => {
+    const bars = n ? toBarCount(n(context, shift)) : 1;
+    if (bars === null) return null;
+    const current = x(context, shift);
+    const previous = x(context, shift + bars);
+    if (typeof current !== 'number' || typeof previous !== 'number' || previous === 0) return null;
+    return (current - previous) / previous;
+  },
+  lookback: args => literalArg(args[1], 1)
+});
+
+register({
+  name: 'rising',
+  description: 'True when x has risen on each of the last n bars (default 1)',
+  minArgs: 1,
+  maxArgs: 2,
+  evaluate: ([x, n], context, shift) => trending(x, n, context, shift, (a, b) => a > b),
+  lookback: args => literalArg(args[1], 1)
+});
+
+register({
+  name: 'falling',
+  description: 'True when x has fallen on each of the last n bars (default 1)',
+  minArgs: 1,
+  maxArgs: 2,
+  evaluate: ([x, n], context, shift) => trending(x, n, context, shift, (a, b) => a < b),
+  lookback: args => literalArg(args[1], 1)
+});
+
+register({
+  name: 'abs',
+  description: 'Absolute value of x',
+  minArgs: 1,
+  maxArgs: 1,
+  evaluate: ([x], context, shift) => {
+    const value = x(context, shift);
+    return typeof value === 'number' ? Math.abs(value) : null;
+  }
+});
+
+register({
+  name: 'min',
+  description: 'Smallest of the given values',
+  minArgs: 2,
+  maxArgs: Infinity,
+  evaluate: (args, context, shift) => {
+    const values = numbers(args, context, shift);
+    return values ? Math.min(...values) : null;
+  }
+});
+
+register({
+  name: 'max',
+  description: 'Largest of the given values',
+  minArgs: 2,
+  maxArgs: Infinity,
+  evaluate: (args, context, shift) => {
+    const values = numbers(args, context, shift);
+    return values ? Math.max(...values) : null;
+  }
+});
+
+/**
+ * Private helper functions
+ */
+
+function crossed(
+  a: CompiledExpression,
+  b: CompiledExpression,
+  context: StrategyContext,
+  shift: number,
+  direction: 'above' | 'below'
+): ConditionValue {
+  const current = numbers([a, b], context, shift);
+  const previous = numbers([a, b], context, shift + 1);
+  if (!current || !previous) return null;
+
+  const [a0, b0] = current;
+  const [a1, b1] = previous;
+  return direction === 'above'
+    ? a0 > b0 && a1 <= b1
+    : a0 < b0 && a1 >= b1;
+}
+
+function trending(
+  x: CompiledExpression,
+  n: CompiledExpression | undefined,
+  context: StrategyContext,
+  shift: number,
+  compare: (newer: number, older: number) => boolean
+): ConditionValue {
+  const bars = n ? toBarCount(n(context, shift)) : 1;
+  if (bars === null) return null;
+
+  // Need n + 1 points to observe n bar-to-bar moves
+  const series = collectBars(x, bars + 1, context, shift);
+  if (!series) return null;
+
+  for (let i = 0; i < bars; i++) {
+    if (!compare(series[i], series[i + 1])) return false;
+  }
+  return true;
+}
+
+function collect(
+  x: CompiledExpression,
+  n: CompiledExpression,
+  context: StrategyContext,
+  shift: number
+): number[] | null {
+  const bars = toBarCount(n(context, shift));
+  return bars === null ? null : collectBars(x, bars, context, shift);
+}
+
+/**
+ * Evaluate x over `bars` consecutive bars, newest first; null if any value is missing
+ */
+function collectBars(
+  x: CompiledExpression,
+  bars: number,
+  context: StrategyContext,
+  shift: number
+): number[] | null {
+  const series: number[] = [];
+  for (let i = 0; i < bars; i++) {
+    const value = x(context, shift + i);
+    if (typeof value !== 'number') return null;
+    series.push(value);
+  }
+  return series;
+}
+
+function numbers(args: CompiledExpression[], context: StrategyContext, shift: number): number[] | null {
+  const values: number[] = [];
+  for (const arg of args) {
+    const value = arg(context, shift);
+    if (typeof value !== 'number') return null;
+    values.push(value);
+  }
+  return values;
+}
+
+/**
+ * Value of a numeric literal argument, or the fallback when absent or not a literal
+ */
+function literalArg(arg: ExpressionNode | undefined, fallback: number): number {
+  return arg && arg.kind === 'number' ? Math.max(0, Math.floor(arg.value)) : fallback;
+}
+
+function toBarCount(value: ConditionValue): number | null {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    return null;
+  }
+  return value;
+}
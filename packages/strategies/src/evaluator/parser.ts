@@ -0,0 +1,299 @@
+/**
+ * Condition expression parser
+ * Recursive descent parser producing an AST for strategy signal conditions
+ *
+ * Grammar (lowest to highest precedence):
+ *   or         := and (OR and)*
+ *   and        := not (AND not)*
+ *   not        := NOT not | comparison
+ *   comparison := additive (('>' | '<' | '>=' | '<=' | '==' | '!=') additive)?
+ *   additive   := term (('+' | '-') term)*
+ *   term       := unary (('*' | '/' | '%') unary)*
+ *   unary      := '-' unary | primary
+ *   primary    := NUMBER | BOOLEAN | call | IDENTIFIER lookback? | '(' or ')'
+ *   call       := IDENTIFIER '(' (or (',' or)*)? ')'
+ *   lookback   := '[' '-'? NUMBER ']'
+ */
+
+import { Token, TokenType, ConditionSyntaxError, tokenize } from './tokenizer';
+
+export type ComparisonOperator = '>' | '<' | '>=' | '<=' | '==' | '!=';
+export type ArithmeticOperator = '+' | '-' | '*' | '/' | '%';
+export type LogicalOperator = 'AND' | 'OR';
+
+/**
+ * Expression AST node
+ */
+export type ExpressionNode =
+  | NumberNode
+  | BooleanNode
+  | IdentifierNode
+  | UnaryNode
+  | BinaryNode
+  | CallNode;
+
+export interface NumberNode {
+  kind: 'number';
+  value: number;
+  column: number;
+}
+
+export interface BooleanNode {
+  kind: 'boolean';
+  value: boolean;
+  column: number;
+}
+
+/**
+ * Reference to an OHLCV field or indicator, optionally looking back `offset` bars
+ */
+export interface IdentifierNode {
+  kind: 'identifier';
+  name: string;
+  offset: number;
+  column: number;
+}
+
+export interface UnaryNode {
+  kind: 'unary';
+  operator: '-' | 'NOT';
+  operand: ExpressionNode;
+  column: number;
+}
+
+export interface BinaryNode {
+  kind: 'binary';
+  operator: ComparisonOperator | ArithmeticOperator | LogicalOperator;
+  left: ExpressionNode;
+  right: ExpressionNode;
+  column: number;
+}
+
+/**
+ * Function call such as `crosses_above(sma_fast, sma_slow)`
+ */
+export interface CallNode {
+  kind: 'call';
+  name: string;
+  args: ExpressionNode[];
+  column: number;
+}
+
+const COMPARISON_OPERATORS = ['>', '<', '>=', '<=', '==', '!='];
+
+/**
+ * Parse a condition expression into an AST
+ * @throws ConditionSyntaxError when the expression is malformed
+ */
+export function parseExpression(expression: string): ExpressionNode {
+  if (!expression || expression.trim().length === 0) {
+    throw new ConditionSyntaxError('Condition expression is empty', 1);
+  }
+
+  const parser = new Parser(tokenize(expression));
+  return parser.parse();
+}
+
+/**
+ * Recursive descent parser over a token stream
+ */
+class Parser {
+  private tokens: Token[];
+  private position: number = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): ExpressionNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'EOF') {
+      throw this.unexpected(token);
+    }
+    return node;
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.peek().type === 'OR') {
+      const token = this.advance();
+      const right = this.parseAnd();
+      left = { kind: 'binary', operator: 'OR', left, right, column: token.column };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseNot();
+    while (this.peek().type === 'AND') {
+      const token = this.advance();
+      const right = this.parseNot();
+      left = { kind: 'binary', operator: 'AND', left, right, column: token.column };
+    }
+    return left;
+  }
+
+  private parseNot(): ExpressionNode {
+    if (this.peek().type === 'NOT') {
+      const token = this.advance();
+      const operand = this.parseNot();
+      return { kind: 'unary', operator: 'NOT', operand, column: token.column };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+    const token = this.peek();
+    if (token.type === 'OPERATOR' && COMPARISON_OPERATORS.includes(token.value)) {
+      this.advance();
+      const right = this.parseAdditive();
+      return {
+        kind: 'binary',
+        operator: token.value as ComparisonOperator,
+        left,
+        right,
+        column: token.column
+      };
+    }
+    return left;
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseTerm();
+    while (this.isOperator('+') || this.isOperator('-')) {
+      const token = this.advance();
+      const right = this.parseTerm();
+      left = { kind: 'binary', operator: token.value as ArithmeticOperator, left, right, column: token.column };
+    }
+    return left;
+  }
+
+  private parseTerm(): ExpressionNode {
+    let left = this.parseUnary();
+    while (this.isOperator('*') || this.isOperator('/') || this.isOperator('%')) {
+      const token = this.advance();
+      const right = this.parseUnary();
+      left = { kind: 'binary', operator: token.value as ArithmeticOperator, left, right, column: token.column };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isOperator('-')) {
+      const token = this.advance();
+      const operand = this.parseUnary();
+      return { kind: 'unary', operator: '-', operand, column: token.column };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'NUMBER':
+        this.advance();
+        return { kind: 'number', value: parseFloat(token.value), column: token.column };
+
+      case 'BOOLEAN':
+        this.advance();
+        return { kind: 'boolean', value: token.value === 'TRUE', column: token.column };
+
+      case 'IDENTIFIER': {
+        this.advance();
+        if (this.peek().type === 'LPAREN') {
+          return { kind: 'call', name: token.value, args: this.parseArguments(), column: token.column };
+        }
+        const offset = this.peek().type === 'LBRACKET' ? this.parseLookback() : 0;
+        return { kind: 'identifier', name: token.value, offset, column: token.column };
+      }
+
+      case 'LPAREN': {
+        this.advance();
+        const node = this.parseOr();
+        this.expect('RPAREN', "')'");
+        return node;
+      }
+
+      default:
+        throw this.unexpected(token);
+    }
+  }
+
+  /**
+   * Parse a parenthesised, comma separated argument list
+   */
+  private parseArguments(): ExpressionNode[] {
+    this.expect('LPAREN', "'('");
+    const args: ExpressionNode[] = [];
+    if (this.peek().type === 'RPAREN') {
+      this.advance();
+      return args;
+    }
+
+    args.push(this.parseOr());
+    while (this.peek().type === 'COMMA') {
+      this.advance();
+      args.push(this.parseOr());
+    }
+    this.expect('RPAREN', "')'");
+    return args;
+  }
+
+  /**
+   * Parse a `[-n]` history lookback; `[n]` is accepted as the same offset
+   */
+  private parseLookback(): number {
+    this.expect('LBRACKET', "'['");
+    if (this.isOperator('-')) {
+      this.advance();
+    }
+
+    const token = this.peek();
+    if (token.type !== 'NUMBER' || !/^\d+$/.test(token.value)) {
+      throw new ConditionSyntaxError('History lookback must be a whole number of bars', token.column);
+    }
+    this.advance();
+
+    this.expect('RBRACKET', "']'");
+    return parseInt(token.value, 10);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private advance(): Token {
+    const token = this.tokens[this.position];
+    if (token.type !== 'EOF') {
+      this.position++;
+    }
+    return token;
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'OPERATOR' && token.value === value;
+  }
+
+  private expect(type: TokenType, description: string): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      throw new ConditionSyntaxError(
+        `Expected ${description} but found ${this.describe(token)}`,
+        token.column
+      );
+    }
+    return this.advance();
+  }
+
+  private unexpected(token: Token): ConditionSyntaxError {
+    return new ConditionSyntaxError(`Unexpected ${this.describe(token)}`, token.column);
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'EOF' ? 'end of expression' : `token '${token.value}'`;
+  }
+}
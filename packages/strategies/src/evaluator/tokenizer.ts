@@ -0,0 +1,154 @@
+/**
+ * Condition expression tokenizer
+ * Splits strategy signal conditions into tokens for the parser
+ */
+
+/**
+ * Token types produced by the tokenizer
+ */
+export type TokenType =
+  | 'NUMBER'
+  | 'IDENTIFIER'
+  | 'BOOLEAN'
+  | 'AND'
+  | 'OR'
+  | 'NOT'
+  | 'OPERATOR'
+  | 'LPAREN'
+  | 'RPAREN'
+  | 'LBRACKET'
+  | 'RBRACKET'
+  | 'COMMA'
+  | 'EOF';
+
+/**
+ * Single token with its 1-based column in the source expression
+ */
+export interface Token {
+  type: TokenType;
+  value: string;
+  column: number;
+}
+
+/**
+ * Error raised for malformed condition expressions
+ */
+export class ConditionSyntaxError extends Error {
+  public column: number;
+
+  constructor(message: string, column: number) {
+    super(`${message} at column ${column}`);
+    this.name = 'ConditionSyntaxError';
+    this.column = column;
+  }
+}
+
+const KEYWORDS: Record<string, TokenType> = {
+  AND: 'AND',
+  OR: 'OR',
+  NOT: 'NOT',
+  TRUE: 'BOOLEAN',
+  FALSE: 'BOOLEAN'
+};
+
+const TWO_CHAR_OPERATORS = ['>=', '<=', '==', '!=', '&&', '||'];
+const ONE_CHAR_OPERATORS = ['>', '<', '+', '-', '*', '/', '%', '!'];
+
+/**
+ * Convert a condition expression into a list of tokens
+ */
+export function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < expression.length) {
+    const char = expression[position];
+    const column = position + 1;
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    // Numbers (integers and decimals)
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(expression[position + 1] || ''))) {
+      let end = position;
+      while (end < expression.length && /[0-9]/.test(expression[end])) end++;
+      if (expression[end] === '.') {
+        end++;
+        while (end < expression.length && /[0-9]/.test(expression[end])) end++;
+      }
+      tokens.push({ type: 'NUMBER', value: expression.slice(position, end), column });
+      position = end;
+      continue;
+    }
+
+    // Identifiers and keywords; `name.output` addresses a multi-output indicator
+    if (/[A-Za-z_]/.test(char)) {
+      let end = position;
+      while (end < expression.length && /[A-Za-z0-9_]/.test(expression[end])) end++;
+      if (expression[end] === '.' && /[A-Za-z_]/.test(expression[end + 1] || '')) {
+        end++;
+        while (end < expression.length && /[A-Za-z0-9_]/.test(expression[end])) end++;
+      }
+      const word = expression.slice(position, end);
+      const keyword = KEYWORDS[word.toUpperCase()];
+      tokens.push({
+        type: keyword || 'IDENTIFIER',
+        value: keyword ? word.toUpperCase() : word,
+        column
+      });
+      position = end;
+      continue;
+    }
+
+    const pair = expression.slice(position, position + 2);
+    if (TWO_CHAR_OPERATORS.includes(pair)) {
+      if (pair === '&&') {
+        tokens.push({ type: 'AND', value: 'AND', column });
+      } else if (pair === '||') {
+        tokens.push({ type: 'OR', value: 'OR', column });
+      } else {
+        tokens.push({ type: 'OPERATOR', value: pair, column });
+      }
+      position += 2;
+      continue;
+    }
+
+    if (ONE_CHAR_OPERATORS.includes(char)) {
+      if (char === '!') {
+        tokens.push({ type: 'NOT', value: 'NOT', column });
+      } else {
+        tokens.push({ type: 'OPERATOR', value: char, column });
+      }
+      position++;
+      continue;
+    }
+
+    switch (char) {
+      case '(':
+        tokens.push({ type: 'LPAREN', value: char, column });
+        break;
+      case ')':
+        tokens.push({ type: 'RPAREN', value: char, column });
+        break;
+      case '[':
+        tokens.push({ type: 'LBRACKET', value: char, column });
+        break;
+      case ']':
+        tokens.push({ type: 'RBRACKET', value: char, column });
+        break;
+      case ',':
+        tokens.push({ type: 'COMMA', value: char, column });
+        break;
+      case '=':
+        throw new ConditionSyntaxError(`Unexpected character '='; use '==' for equality`, column);
+      default:
+        throw new ConditionSyntaxError(`Unexpected character '${char}'`, column);
+    }
+    position++;
+  }
+
+  tokens.push({ type: 'EOF', value: '', column: expression.length + 1 });
+  return tokens;
+}
@@ -5,19 +5,65 @@
 
 // Strategy Engine
 export { StrategyEngine } from './engine/strategy-engine';
+export { BarHistory } from './engine/bar-history';
+export { orderIndicators, findIndicatorCycle, getInputIndicatorName } from './engine/indicator-graph';
+
+// Live Strategy Runner
+export { StrategyRunner } from './runner/strategy-runner';
+export type { StrategyRunnerOptions } from './runner/strategy-runner';
 
 // Technical Indicators
 export { BaseIndicator } from './indicators/base-indicator';
+export {
+  INDICATOR_SOURCES,
+  SOURCE_PARAMETER,
+  periodParameter,
+  getParameterSchema,
+  resolveIndicatorArguments,
+  checkParameterValue
+} from './indicators/parameter-schema';
+export type { IndicatorSource } from './indicators/base-indicator';
 export { SimpleMovingAverage } from './indicators/simple-moving-average';
 export { ExponentialMovingAverage } from './indicators/exponential-moving-average';
 export { RelativeStrengthIndex } from './indicators/relative-strength-index';
+export { MultiOutputIndicator, isMultiOutputIndicator } from './indicators/multi-output-indicator';
+export { BollingerBands } from './indicators/bollinger-bands';
+export { MovingAverageConvergenceDivergence } from './indicators/moving-average-convergence-divergence';
+export { StochasticOscillator } from './indicators/stochastic-oscillator';
+export { KeltnerChannels } from './indicators/keltner-channels';
+export { BarIndicator, trueRange, typicalPrice } from './indicators/bar-indicator';
+export { AverageTrueRange } from './indicators/average-true-range';
+export { AverageDirectionalIndex } from './indicators/average-directional-index';
+export { VolumeWeightedAveragePrice } from './indicators/volume-weighted-average-price';
+export { OnBalanceVolume } from './indicators/on-balance-volume';
+export { CommodityChannelIndex } from './indicators/commodity-channel-index';
+export { WilliamsPercentR } from './indicators/williams-percent-r';
+export { ParabolicSAR } from './indicators/parabolic-sar';
+export type { IndicatorOutputs } from './indicators/multi-output-indicator';
+
+// Condition Evaluator
+export { ConditionEvaluator, PRICE_FIELDS, isPriceField, splitOutputReference } from './evaluator/condition-evaluator';
+export { parseExpression } from './evaluator/parser';
+export { CONDITION_FUNCTIONS } from './evaluator/functions';
+export { tokenize, ConditionSyntaxError } from './evaluator/tokenizer';
+export type { ConditionValue, CompiledExpression } from './evaluator/condition-evaluator';
+export type { ConditionFunction } from './evaluator/functions';
+export type { ExpressionNode } from './evaluator/parser';
+export type { Token, TokenType } from './evaluator/tokenizer';
 
 // Re-export core interfaces for convenience
 export type {
   IStrategyEngine,
+  IStrategyRunner,
+  StrategyRunnerStatus,
   IIndicator,
+  IMultiOutputIndicator,
+  IndicatorClass,
+  IndicatorParameterDefinition,
   IndicatorConfig,
-  StrategyExecutionStats
+  StrategyExecutionStats,
+  IConditionEvaluator,
+  ParsedCondition
 } from '@jware-trader8/core';
 
 export type {
@@ -0,0 +1,101 @@
+/**
+ * Average Directional Index (ADX) / Directional Movement Index (DMI) Indicator
+ * Wilder's trend strength measure with +DI and -DI
+ */
+
+import { IndicatorParameterDefinition } from '@jware-trader8/core';
+import { OHLCV } from '@jware-trader8/types';
+import { MultiOutputIndicator, IndicatorOutputs } from './multi-output-indicator';
+import { trueRange } from './bar-indicator';
+import { periodParameter } from './parameter-schema';
+
+/**
+ * Average Directional Index implementation
+ * Outputs: adx (primary), plus_di, minus_di
+ */
+export class AverageDirectionalIndex extends MultiOutputIndicator {
+  static readonly parameters: IndicatorParameterDefinition[] = [periodParameter(14)];
+
+  private previousBar: OHLCV | null = null;
+  private changeCount: number = 0;
+  private smoothedTR: number = 0;
+  private smoothedPlusDM: number = 0;
+  private smoothedMinusDM: number = 0;
+  private initialDX: number[] = [];
+  private adx: number | null = null;
+
+  constructor(period: number = 14) {
+    super(period, 'ADX', 'ADX', ['adx', 'plus_di', 'minus_di'], 'adx');
+  }
+
+  /**
+   * Calculate directional indicators
+   * +DI/-DI = 100 * smoothed DM / smoothed TR, DX = 100 * |+DI - -DI| / (+DI + -DI), ADX = Wilder average of DX
+   */
+  protected calculateOutputs(data: OHLCV): IndicatorOutputs {
+    const previous = this.previousBar;
+    this.previousBar = data;
+    if (!previous) {
+      return { adx: null, plus_di: null, minus_di: null };
+    }
+
+    const upMove = data.high - previous.high;
+    const downMove = previous.low - data.low;
+    const plusDM = upMove > downMove && upMove > 0 ? upMove : 0;
+    const minusDM = downMove > upMove && downMove > 0 ? downMove : 0;
+    const range = trueRange(data, previous.close);
+
+    this.changeCount++;
+    if (this.changeCount <= this.period) {
+      // Wilder's initial smoothed values are plain sums over the first period
+      this.smoothedTR += range;
+      this.smoothedPlusDM += plusDM;
+      this.smoothedMinusDM += minusDM;
+      if (this.changeCount < this.period) {
+        return { adx: null, plus_di: null, minus_di: null };
+      }
+    } else {
+      this.smoothedTR = this.smoothedTR - this.smoothedTR / this.period + range;
+      this.smoothedPlusDM = this.smoothedPlusDM - this.smoothedPlusDM / this.period + plusDM;
+      this.smoothedMinusDM = this.smoothedMinusDM - this.smoothedMinusDM / this.period + minusDM;
+    }
+
+    const plusDI = this.smoothedTR === 0 ? 0 : 100 * this.smoothedPlusDM / this.smoothedTR;
+    const minusDI = this.smoothedTR === 0 ? 0 : 100 * this.smoothedMinusDM / this.smoothedTR;
+    const diSum = plusDI + minusDI;
+    const dx = diSum === 0 ? 0 : 100 * Math.abs(plusDI - minusDI) / diSum;
+
+    if (this.adx === null) {
+      this.initialDX.push(dx);
+      if (this.initialDX.length === this.period) {
+        this.adx = this.initialDX.reduce((sum, value) => sum + value, 0) / this.period;
+        this.initialDX = [];
+      }
+    } else {
+      this.adx = (this.adx * (this.period - 1) + dx) / this.period;
+    }
+
+    return { adx: this.adx, plus_di: plusDI, minus_di: minusDI };
+  }
+
+  /**
+   * Check if ADX is ready (has a full period of DX values)
+   */
+  isReady(): boolean {
+    return this.adx !== null;
+  }
+
+  /**
+   * Reset ADX state
+   */
+  reset(): void {
+    super.reset();
+    this.previousBar = null;
+    this.changeCount = 0;
+    this.smoothedTR = 0;
+    this.smoothedPlusDM = 0;
+    this.smoothedMinusDM = 0;
+    this.initialDX = [];
+    this.adx = null;
+  }
+}
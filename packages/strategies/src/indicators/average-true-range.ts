@@ -0,0 +1,64 @@
+/**
+ * Average True Range (ATR) Indicator
+ * Wilder's smoothed average of the true range
+ */
+
+import { IndicatorParameterDefinition } from '@jware-trader8/core';
+import { OHLCV } from '@jware-trader8/types';
+import { BarIndicator, trueRange } from './bar-indicator';
+import { periodParameter } from './parameter-schema';
+
+/**
+ * Average True Range implementation
+ * Measures volatility including gaps between bars
+ */
+export class AverageTrueRange extends BarIndicator {
+  static readonly parameters: IndicatorParameterDefinition[] = [periodParameter(14)];
+
+  private previousClose: number | null = null;
+  private initialRanges: number[] = [];
+  private atr: number | null = null;
+
+  constructor(period: number = 14) {
+    super(period, 'ATR', 'ATR');
+  }
+
+  /**
+   * Calculate ATR value
+   * First ATR = mean of the first `period` true ranges, then ATR = (prev * (n - 1) + TR) / n
+   */
+  protected calculateBar(data: OHLCV): number | null {
+    const range = trueRange(data, this.previousClose);
+    this.previousClose = data.close;
+
+    if (this.atr === null) {
+      this.initialRanges.push(range);
+      if (this.initialRanges.length < this.period) {
+        return null;
+      }
+      this.atr = this.initialRanges.reduce((sum, value) => sum + value, 0) / this.period;
+      this.initialRanges = [];
+      return this.atr;
+    }
+
+    this.atr = (this.atr * (this.period - 1) + range) / this.period;
+    return this.atr;
+  }
+
+  /**
+   * Check if ATR is ready (has a full period of true ranges)
+   */
+  isReady(): boolean {
+    return this.atr !== null;
+  }
+
+  /**
+   * Reset ATR state
+   */
+  reset(): void {
+    super.reset();
+    this.previousClose = null;
+    this.initialRanges = [];
+    this.atr = null;
+  }
+}
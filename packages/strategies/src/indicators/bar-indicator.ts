@@ -0,0 +1,57 @@
+/**
+ * Bar Technical Indicator Class
+ * Base for indicators that need the whole OHLCV bar rather than a single source field
+ */
+
+import { OHLCV } from '@jware-trader8/types';
+import { BaseIndicator } from './base-indicator';
+
+/**
+ * Abstract base class for range- and volume-based indicators
+ */
+export abstract class BarIndicator extends BaseIndicator {
+  /**
+   * Update indicator with new market data
+   */
+  update(data: OHLCV): void {
+    this.values.push(this.calculateBar(data));
+
+    // Limit history to prevent memory issues
+    if (this.values.length > this.maxHistory) {
+      this.values.shift();
+    }
+  }
+
+  /**
+   * Calculate indicator value from a full bar
+   */
+  protected abstract calculateBar(data: OHLCV): number | null;
+
+  /**
+   * Bar indicators calculate from the full bar in calculateBar()
+   */
+  protected calculate(_newValue: number): number | null {
+    throw new Error(`${this.config.type} calculates from full bars; use update()`);
+  }
+}
+
+/**
+ * True range of a bar given the previous close
+ */
+export function trueRange(data: OHLCV, previousClose: number | null): number {
+  if (previousClose === null) {
+    return data.high - data.low;
+  }
+  return Math.max(
+    data.high - data.low,
+    Math.abs(data.high - previousClose),
+    Math.abs(data.low - previousClose)
+  );
+}
+
+/**
+ * Typical price of a bar: (high + low + close) / 3
+ */
+export function typicalPrice(data: OHLCV): number {
+  return (data.high + data.low + data.close) / 3;
+}
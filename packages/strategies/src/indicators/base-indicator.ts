@@ -4,7 +4,12 @@
  */
 
 import { IIndicator, IndicatorConfig } from '@jware-trader8/core';
-import { OHLCV } from '@jware-trader8/types';
+import { IBarHistory, OHLCV } from '@jware-trader8/types';
+
+/**
+ * Price field an indicator is calculated from
+ */
+export type IndicatorSource = NonNullable<IndicatorConfig['source']>;
 
 /**
  * Abstract base class for all technical indicators
@@ -14,8 +19,9 @@ export abstract class BaseIndicator implements IIndicator {
   protected period: number;
   protected maxHistory: number;
   protected config: IndicatorConfig;
+  protected barHistory: IBarHistory | null = null;
 
-  constructor(period: number, name: string, type: string, source: 'open' | 'high' | 'low' | 'close' | 'volume' = 'close') {
+  constructor(period: number, name: string, type: string, source: IndicatorSource = 'close') {
     this.period = period;
     this.maxHistory = 1000; // Default max history length
     this.config = {
@@ -84,6 +90,21 @@ export abstract class BaseIndicator implements IIndicator {
     return [...this.values];
   }
 
+  /**
+   * Number of bars of price history the indicator needs
+   */
+  getLookback(): number {
+    return this.period;
+  }
+
+  /**
+   * Give the indicator access to the strategy's rolling bar history.
+   * The current bar is already in the history when update() runs.
+   */
+  setBarHistory(history: IBarHistory): void {
+    this.barHistory = history;
+  }
+
   /**
    * Abstract method to calculate indicator value
    */
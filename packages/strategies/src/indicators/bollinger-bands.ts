@@ -0,0 +1,79 @@
+/**
+ * Bollinger Bands Indicator
+ * Moving average envelope sized by standard deviation
+ */
+
+import { IndicatorParameterDefinition } from '@jware-trader8/core';
+import { OHLCV } from '@jware-trader8/types';
+import { MultiOutputIndicator, IndicatorOutputs } from './multi-output-indicator';
+import { IndicatorSource } from './base-indicator';
+import { periodParameter, SOURCE_PARAMETER } from './parameter-schema';
+
+/**
+ * Bollinger Bands implementation
+ * Outputs: upper, middle (SMA, primary), lower
+ */
+export class BollingerBands extends MultiOutputIndicator {
+  static readonly parameters: IndicatorParameterDefinition[] = [
+    periodParameter(20, 2),
+    { name: 'stdDev', type: 'number', default: 2, min: 0, description: 'Band width in standard deviations' },
+    SOURCE_PARAMETER
+  ];
+
+  private prices: number[] = [];
+  private stdDevMultiplier: number;
+
+  constructor(period: number = 20, stdDevMultiplier: number = 2, source: IndicatorSource = 'close') {
+    super(period, 'BB', 'BB', ['upper', 'middle', 'lower'], 'middle', source);
+    this.stdDevMultiplier = stdDevMultiplier;
+    this.config.parameters = { period, stdDev: stdDevMultiplier };
+  }
+
+  /**
+   * Calculate bands
+   * Middle = SMA(period), Upper/Lower = Middle ± multiplier * population standard deviation
+   */
+  protected calculateOutputs(data: OHLCV): IndicatorOutputs {
+    this.prices.push(this.getSourceValue(data));
+
+    if (this.prices.length > this.period) {
+      this.prices.shift();
+    }
+
+    if (this.prices.length < this.period) {
+      return { upper: null, middle: null, lower: null };
+    }
+
+    const middle = this.prices.reduce((sum, price) => sum + price, 0) / this.period;
+    const variance = this.prices.reduce((sum, price) => sum + Math.pow(price - middle, 2), 0) / this.period;
+    const width = Math.sqrt(variance) * this.stdDevMultiplier;
+
+    return {
+      upper: middle + width,
+      middle,
+      lower: middle - width
+    };
+  }
+
+  /**
+   * Check if bands are ready (have a full period of prices)
+   */
+  isReady(): boolean {
+    return this.prices.length >= this.period && this.getValue() !== null;
+  }
+
+  /**
+   * Reset Bollinger Bands state
+   */
+  reset(): void {
+    super.reset();
+    this.prices = [];
+  }
+
+  /**
+   * Get standard deviation multiplier
+   */
+  getStdDevMultiplier(): number {
+    return this.stdDevMultiplier;
+  }
+}
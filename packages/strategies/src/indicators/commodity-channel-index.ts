@@ -0,0 +1,64 @@
+/**
+ * Commodity Channel Index (CCI) Indicator
+ * Deviation of the typical price from its moving average
+ */
+
+import { IndicatorParameterDefinition } from '@jware-trader8/core';
+import { OHLCV } from '@jware-trader8/types';
+import { BarIndicator, typicalPrice } from './bar-indicator';
+import { periodParameter } from './parameter-schema';
+
+/**
+ * Commodity Channel Index implementation
+ * CCI = (TP - SMA(TP)) / (0.015 * mean deviation)
+ */
+export class CommodityChannelIndex extends BarIndicator {
+  static readonly parameters: IndicatorParameterDefinition[] = [periodParameter(20)];
+
+  private typicalPrices: number[] = [];
+
+  constructor(period: number = 20) {
+    super(period, 'CCI', 'CCI');
+  }
+
+  /**
+   * Calculate CCI value
+   */
+  protected calculateBar(data: OHLCV): number | null {
+    const price = typicalPrice(data);
+    this.typicalPrices.push(price);
+
+    if (this.typicalPrices.length > this.period) {
+      this.typicalPrices.shift();
+    }
+
+    if (this.typicalPrices.length < this.period) {
+      return null;
+    }
+
+    const mean = this.typicalPrices.reduce((sum, value) => sum + value, 0) / this.period;
+    const meanDeviation = this.typicalPrices.reduce((sum, value) => sum + Math.abs(value - mean), 0) / this.period;
+
+    // Handle division by zero for flat prices
+    if (meanDeviation === 0) {
+      return 0;
+    }
+
+    return (price - mean) / (0.015 * meanDeviation);
+  }
+
+  /**
+   * Check if CCI is ready (has a full period of prices)
+   */
+  isReady(): boolean {
+    return this.typicalPrices.length >= this.period && this.getValue() !== null;
+  }
+
+  /**
+   * Reset CCI state
+   */
+  reset(): void {
+    super.reset();
+    this.typicalPrices = [];
+  }
+}
@@ -3,19 +3,23 @@
  * Based on pseudocode from PSEUDOCODE_MODULES.md
  */
 
-import { BaseIndicator } from './base-indicator';
+import { IndicatorParameterDefinition } from '@jware-trader8/core';
+import { BaseIndicator, IndicatorSource } from './base-indicator';
+import { periodParameter, SOURCE_PARAMETER } from './parameter-schema';
 
 /**
  * Exponential Moving Average implementation
  * Gives more weight to recent prices with exponential decay
  */
 export class ExponentialMovingAverage extends BaseIndicator {
+  static readonly parameters: IndicatorParameterDefinition[] = [periodParameter(), SOURCE_PARAMETER];
+
   private smoothingFactor: number;
   private previousEMA: number | null = null;
   private isInitialized: boolean = false;
 
-  constructor(period: number) {
-    super(period, 'EMA', 'EMA');
+  constructor(period: number, source: IndicatorSource = 'close') {
+    super(period, 'EMA', 'EMA', source);
     // Calculate smoothing factor: 2 / (period + 1)
     this.smoothingFactor = 2 / (period + 1);
   }
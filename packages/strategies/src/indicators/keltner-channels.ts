@@ -0,0 +1,78 @@
+/**
+ * Keltner Channels Indicator
+ * EMA envelope sized by Average True Range
+ */
+
+import { IndicatorParameterDefinition } from '@jware-trader8/core';
+import { OHLCV } from '@jware-trader8/types';
+import { MultiOutputIndicator, IndicatorOutputs } from './multi-output-indicator';
+import { AverageTrueRange } from './average-true-range';
+import { periodParameter } from './parameter-schema';
+
+/**
+ * Keltner Channels implementation
+ * Outputs: upper, middle (EMA, primary), lower
+ */
+export class KeltnerChannels extends MultiOutputIndicator {
+  static readonly parameters: IndicatorParameterDefinition[] = [
+    periodParameter(20),
+    { name: 'multiplier', type: 'number', default: 2, min: 0, description: 'Channel width in ATRs' },
+    { name: 'atrPeriod', type: 'integer', default: 10, min: 1, description: 'ATR period' }
+  ];
+
+  private multiplier: number;
+  private atr: AverageTrueRange;
+  private ema: number | null = null;
+  private barCount: number = 0;
+
+  constructor(period: number = 20, multiplier: number = 2, atrPeriod: number = 10) {
+    super(period, 'KELTNER', 'KELTNER', ['upper', 'middle', 'lower'], 'middle');
+    this.multiplier = multiplier;
+    this.atr = new AverageTrueRange(atrPeriod);
+    this.config.parameters = { period, multiplier, atrPeriod };
+  }
+
+  /**
+   * Calculate channels
+   * Middle = EMA(period) of close, Upper/Lower = Middle ± multiplier * ATR(atrPeriod)
+   */
+  protected calculateOutputs(data: OHLCV): IndicatorOutputs {
+    this.barCount++;
+
+    const smoothingFactor = 2 / (this.period + 1);
+    this.ema = this.ema === null
+      ? data.close
+      : (data.close * smoothingFactor) + (this.ema * (1 - smoothingFactor));
+
+    this.atr.update(data);
+    const atr = this.atr.getValue();
+
+    if (atr === null || this.barCount < this.period) {
+      return { upper: null, middle: null, lower: null };
+    }
+
+    const width = atr * this.multiplier;
+    return {
+      upper: this.ema + width,
+      middle: this.ema,
+      lower: this.ema - width
+    };
+  }
+
+  /**
+   * Check if channels are ready (EMA period and ATR both filled)
+   */
+  isReady(): boolean {
+    return this.getValue() !== null;
+  }
+
+  /**
+   * Reset Keltner Channels state
+   */
+  reset(): void {
+    super.reset();
+    this.atr.reset();
+    this.ema = null;
+    this.barCount = 0;
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Moving Average Convergence Divergence (MACD) Indicator
+ * Difference of two EMAs with a signal line
+ */
+
+import { IndicatorParameterDefinition } from '@jware-trader8/core';
+import { OHLCV } from '@jware-trader8/types';
+import { MultiOutputIndicator, IndicatorOutputs } from './multi-output-indicator';
+import { IndicatorSource } from './base-indicator';
+import { SOURCE_PARAMETER } from './parameter-schema';
+
+/**
+ * MACD implementation
+ * Outputs: line (primary), signal, histogram
+ */
+export class MovingAverageConvergenceDivergence extends MultiOutputIndicator {
+  static readonly parameters: IndicatorParameterDefinition[] = [
+    { name: 'fastPeriod', type: 'integer', default: 12, min: 1, description: 'Fast EMA period' },
+    { name: 'slowPeriod', type: 'integer', default: 26, min: 2, description: 'Slow EMA period' },
+    { name: 'signalPeriod', type: 'integer', default: 9, min: 1, description: 'Signal line EMA period' },
+    SOURCE_PARAMETER
+  ];
+
+  private fastPeriod: number;
+  private signalPeriod: number;
+  private fastEMA: number | null = null;
+  private slowEMA: number | null = null;
+  private signalEMA: number | null = null;
+  private priceCount: number = 0;
+  private lineCount: number = 0;
+
+  constructor(
+    fastPeriod: number = 12,
+    slowPeriod: number = 26,
+    signalPeriod: number = 9,
+    source: IndicatorSource = 'close'
+  ) {
+    super(slowPeriod, 'MACD', 'MACD', ['line', 'signal', 'histogram'], 'line', source);
+    if (fastPeriod >= slowPeriod) {
+      throw new Error('MACD fast period must be shorter than slow period');
+    }
+    this.fastPeriod = fastPeriod;
+    this.signalPeriod = signalPeriod;
+    this.config.parameters = { fastPeriod, slowPeriod, signalPeriod };
+  }
+
+  /**
+   * Calculate MACD outputs
+   * Line = EMA(fast) - EMA(slow), Signal = EMA(signal) of Line, Histogram = Line - Signal
+   */
+  protected calculateOutputs(data: OHLCV): IndicatorOutputs {
+    const price = this.getSourceValue(data);
+    this.priceCount++;
+
+    this.fastEMA = emaStep(this.fastEMA, price, this.fastPeriod);
+    this.slowEMA = emaStep(this.slowEMA, price, this.period);
+
+    // The slow EMA needs a full period before the line is meaningful
+    if (this.priceCount < this.period) {
+      return { line: null, signal: null, histogram: null };
+    }
+
+    const line = this.fastEMA - this.slowEMA;
+    this.lineCount++;
+    this.signalEMA = emaStep(this.signalEMA, line, this.signalPeriod);
+
+    if (this.lineCount < this.signalPeriod) {
+      return { line, signal: null, histogram: null };
+    }
+
+    return {
+      line,
+      signal: this.signalEMA,
+      histogram: line - this.signalEMA
+    };
+  }
+
+  /**
+   * Check if MACD is ready (signal line available)
+   */
+  isReady(): boolean {
+    return this.getOutputValue('signal') !== null;
+  }
+
+  /**
+   * Reset MACD state
+   */
+  reset(): void {
+    super.reset();
+    this.fastEMA = null;
+    this.slowEMA = null;
+    this.signalEMA = null;
+    this.priceCount = 0;
+    this.lineCount = 0;
+  }
+}
+
+/**
+ * Advance an EMA seeded with its first value, matching ExponentialMovingAverage
+ */
+function emaStep(previous: number | null, value: number, period: number): number {
+  if (previous === null) {
+    return value;
+  }
+  const smoothingFactor = 2 / (period + 1);
+  return (value * smoothingFactor) + (previous * (1 - smoothingFactor));
+}
@@ -0,0 +1,111 @@
+/**
+ * Multi-Output Technical Indicator Class
+ * Base for indicators that publish several named values per bar
+ */
+
+import { IIndicator, IMultiOutputIndicator } from '@jware-trader8/core';
+import { OHLCV } from '@jware-trader8/types';
+import { BaseIndicator, IndicatorSource } from './base-indicator';
+
+/**
+ * Values produced for a single bar, keyed by output name
+ */
+export type IndicatorOutputs = Record<string, number | null>;
+
+/**
+ * Abstract base class for indicators with named outputs
+ */
+export abstract class MultiOutputIndicator extends BaseIndicator implements IMultiOutputIndicator {
+  readonly outputs: string[];
+  readonly primaryOutput: string;
+  protected outputValues: Map<string, (number | null)[]>;
+
+  constructor(
+    period: number,
+    name: string,
+    type: string,
+    outputs: string[],
+    primaryOutput: string,
+    source: IndicatorSource = 'close'
+  ) {
+    super(period, name, type, source);
+    this.outputs = outputs;
+    this.primaryOutput = primaryOutput;
+    this.outputValues = new Map(outputs.map(output => [output, []]));
+  }
+
+  /**
+   * Update indicator with new market data
+   */
+  update(data: OHLCV): void {
+    const result = this.calculateOutputs(data);
+
+    for (const output of this.outputs) {
+      const history = this.outputValues.get(output)!;
+      history.push(result[output] ?? null);
+      if (history.length > this.maxHistory) {
+        history.shift();
+      }
+    }
+
+    this.values.push(result[this.primaryOutput] ?? null);
+    if (this.values.length > this.maxHistory) {
+      this.values.shift();
+    }
+  }
+
+  /**
+   * Get a named output value (0 = current, 1 = previous, etc.)
+   */
+  getOutputValue(output: string, index: number = 0): number | null {
+    const history = this.outputValues.get(output);
+    if (!history) {
+      throw new Error(`Unknown output '${output}' for indicator ${this.config.type}`);
+    }
+    if (index >= history.length) {
+      return null;
+    }
+    return history[history.length - 1 - index];
+  }
+
+  /**
+   * Get all historical values of a named output
+   */
+  getOutputHistory(output: string): (number | null)[] {
+    const history = this.outputValues.get(output);
+    if (!history) {
+      throw new Error(`Unknown output '${output}' for indicator ${this.config.type}`);
+    }
+    return [...history];
+  }
+
+  /**
+   * Reset indicator state
+   */
+  reset(): void {
+    super.reset();
+    for (const output of this.outputs) {
+      this.outputValues.set(output, []);
+    }
+  }
+
+  /**
+   * Calculate all outputs from the latest bar
+   */
+  protected abstract calculateOutputs(data: OHLCV): IndicatorOutputs;
+
+  /**
+   * Multi-output indicators calculate from the full bar in calculateOutputs()
+   */
+  protected calculate(_newValue: number): number | null {
+    throw new Error(`${this.config.type} calculates from full bars; use update()`);
+  }
+}
+
+/**
+ * Check whether an indicator publishes named outputs
+ */
+export function isMultiOutputIndicator(indicator: IIndicator): indicator is IMultiOutputIndicator {
+  return Array.isArray((indicator as IMultiOutputIndicator).outputs) &&
+    typeof (indicator as IMultiOutputIndicator).getOutputValue === 'function';
+}
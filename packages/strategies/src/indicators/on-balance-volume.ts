@@ -0,0 +1,54 @@
+/**
+ * On-Balance Volume (OBV) Indicator
+ * Running total of volume signed by close-to-close direction
+ */
+
+import { IndicatorParameterDefinition } from '@jware-trader8/core';
+import { OHLCV } from '@jware-trader8/types';
+import { BarIndicator } from './bar-indicator';
+
+/**
+ * On-Balance Volume implementation
+ * Adds volume on up closes, subtracts it on down closes, starting from zero
+ */
+export class OnBalanceVolume extends BarIndicator {
+  static readonly parameters: IndicatorParameterDefinition[] = [];
+
+  private previousClose: number | null = null;
+  private obv: number = 0;
+
+  constructor() {
+    super(1, 'OBV', 'OBV');
+  }
+
+  /**
+   * Calculate OBV value
+   */
+  protected calculateBar(data: OHLCV): number | null {
+    if (this.previousClose !== null) {
+      if (data.close > this.previousClose) {
+        this.obv += data.volume;
+      } else if (data.close < this.previousClose) {
+        this.obv -= data.volume;
+      }
+    }
+    this.previousClose = data.close;
+    return this.obv;
+  }
+
+  /**
+   * Check if OBV is ready (has seen at least one bar)
+   */
+  isReady(): boolean {
+    return this.previousClose !== null;
+  }
+
+  /**
+   * Reset OBV state
+   */
+  reset(): void {
+    super.reset();
+    this.previousClose = null;
+    this.obv = 0;
+  }
+}
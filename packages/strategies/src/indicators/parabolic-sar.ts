@@ -0,0 +1,117 @@
+/**
+ * Parabolic SAR Indicator
+ * Wilder's stop-and-reverse trailing level
+ */
+
+import { IndicatorParameterDefinition } from '@jware-trader8/core';
+import { OHLCV } from '@jware-trader8/types';
+import { BarIndicator } from './bar-indicator';
+
+/**
+ * Parabolic SAR implementation
+ * SAR(next) = SAR + AF * (EP - SAR), with AF growing by `step` up to `maxStep`
+ * each time a new extreme point is made
+ */
+export class ParabolicSAR extends BarIndicator {
+  static readonly parameters: IndicatorParameterDefinition[] = [
+    { name: 'step', type: 'number', default: 0.02, min: 0, max: 1, description: 'Acceleration factor increment' },
+    { name: 'maxStep', type: 'number', default: 0.2, min: 0, max: 1, description: 'Maximum acceleration factor' }
+  ];
+
+  private step: number;
+  private maxStep: number;
+  private bars: OHLCV[] = [];
+  private isLong: boolean = true;
+  private sar: number | null = null;
+  private extremePoint: number = 0;
+  private accelerationFactor: number;
+
+  constructor(step: number = 0.02, maxStep: number = 0.2) {
+    super(1, 'PSAR', 'PSAR');
+    this.step = step;
+    this.maxStep = maxStep;
+    this.accelerationFactor = step;
+    this.config.parameters = { step, maxStep };
+  }
+
+  /**
+   * Calculate SAR value for the current bar
+   */
+  protected calculateBar(data: OHLCV): number | null {
+    this.bars.push(data);
+    if (this.bars.length > 3) {
+      this.bars.shift();
+    }
+
+    if (this.bars.length < 2) {
+      return null;
+    }
+
+    const previous = this.bars[this.bars.length - 2];
+
+    // Seed the trend from the first two bars
+    if (this.sar === null) {
+      this.isLong = data.close >= previous.close;
+      this.sar = this.isLong ? Math.min(previous.low, data.low) : Math.max(previous.high, data.high);
+      this.extremePoint = this.isLong ? Math.max(previous.high, data.high) : Math.min(previous.low, data.low);
+      this.accelerationFactor = this.step;
+      return this.sar;
+    }
+
+    let sar = this.sar + this.accelerationFactor * (this.extremePoint - this.sar);
+
+    if (this.isLong) {
+      // SAR may not move into the prior two bars' range
+      sar = Math.min(sar, previous.low, this.bars[0].low);
+      if (data.low < sar) {
+        this.isLong = false;
+        sar = this.extremePoint;
+        this.extremePoint = data.low;
+        this.accelerationFactor = this.step;
+      } else if (data.high > this.extremePoint) {
+        this.extremePoint = data.high;
+        this.accelerationFactor = Math.min(this.accelerationFactor + this.step, this.maxStep);
+      }
+    } else {
+      sar = Math.max(sar, previous.high, this.bars[0].high);
+      if (data.high > sar) {
+        this.isLong = true;
+        sar = this.extremePoint;
+        this.extremePoint = data.high;
+        this.accelerationFactor = this.step;
+      } else if (data.low < this.extremePoint) {
+        this.extremePoint = data.low;
+        this.accelerationFactor = Math.min(this.accelerationFactor + this.step, this.maxStep);
+      }
+    }
+
+    this.sar = sar;
+    return sar;
+  }
+
+  /**
+   * Check if SAR is ready (trend seeded)
+   */
+  isReady(): boolean {
+    return this.sar !== null;
+  }
+
+  /**
+   * Reset Parabolic SAR state
+   */
+  reset(): void {
+    super.reset();
+    this.bars = [];
+    this.isLong = true;
+    this.sar = null;
+    this.extremePoint = 0;
+    this.accelerationFactor = this.step;
+  }
+
+  /**
+   * Check whether the SAR is currently below price (long trend)
+   */
+  isLongTrend(): boolean {
+    return this.isLong;
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Indicator parameter schema helpers
+ * Shared definitions and validation for indicator constructor parameters
+ */
+
+import { IndicatorClass, IndicatorConfig, IndicatorParameterDefinition } from '@jware-trader8/core';
+
+/**
+ * Price fields an indicator can be calculated from
+ */
+export const INDICATOR_SOURCES = ['open', 'high', 'low', 'close', 'volume'];
+
+/**
+ * `source` parameter, read from `IndicatorConfig.source`
+ */
+export const SOURCE_PARAMETER: IndicatorParameterDefinition = {
+  name: 'source',
+  type: 'string',
+  default: 'close',
+  options: INDICATOR_SOURCES,
+  description: 'Price field the indicator is calculated from'
+};
+
+/**
+ * Build a `period` parameter definition
+ */
+export function periodParameter(defaultValue?: number, min: number = 1): IndicatorParameterDefinition {
+  return {
+    name: 'period',
+    type: 'integer',
+    default: defaultValue,
+    min,
+    description: 'Number of bars in the calculation window'
+  };
+}
+
+/**
+ * Schema assumed for indicator classes that do not declare one
+ */
+const DEFAULT_SCHEMA: IndicatorParameterDefinition[] = [periodParameter()];
+
+/**
+ * Get the parameter schema declared by an indicator class
+ */
+export function getParameterSchema(indicatorClass: IndicatorClass): IndicatorParameterDefinition[] {
+  return indicatorClass.parameters || DEFAULT_SCHEMA;
+}
+
+/**
+ * Read a parameter value from an indicator configuration.
+ * `period` and `source` may also be given at the top level of the configuration.
+ */
+export function getParameterValue(config: IndicatorConfig, name: string): unknown {
+  const parameters = config.parameters || {};
+  if (name === 'source') {
+    return config.source ?? parameters.source;
+  }
+  if (name === 'period') {
+    return parameters.period ?? config.period;
+  }
+  return parameters[name];
+}
+
+/**
+ * Resolve constructor arguments in schema order, applying defaults
+ */
+export function resolveIndicatorArguments(indicatorClass: IndicatorClass, config: IndicatorConfig): unknown[] {
+  return getParameterSchema(indicatorClass).map(definition => {
+    const value = getParameterValue(config, definition.name);
+    return value === undefined ? definition.default : value;
+  });
+}
+
+/**
+ * Check a single parameter value against its definition
+ * @returns Problem description, or null when the value is acceptable
+ */
+export function checkParameterValue(definition: IndicatorParameterDefinition, value: unknown): string | null {
+  if (value === undefined) {
+    return definition.default === undefined ? `Parameter '${definition.name}' is required` : null;
+  }
+
+  switch (definition.type) {
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `Parameter '${definition.name}' must be a number`;
+      }
+      if (definition.type === 'integer' && !Number.isInteger(value)) {
+        return `Parameter '${definition.name}' must be a whole number`;
+      }
+      if (definition.min !== undefined && value < definition.min) {
+        return `Parameter '${definition.name}' must be at least ${definition.min}`;
+      }
+      if (definition.max !== undefined && value > definition.max) {
+        return `Parameter '${definition.name}' must be at most ${definition.max}`;
+      }
+      return null;
+
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `Parameter '${definition.name}' must be true or false`;
+
+    case 'string':
+      if (typeof value !== 'string') {
+        return `Parameter '${definition.name}' must be a string`;
+      }
+      if (definition.options && !definition.options.includes(value)) {
+        return `Parameter '${definition.name}' must be one of: ${definition.options.join(', ')}`;
+      }
+      return null;
+  }
+}
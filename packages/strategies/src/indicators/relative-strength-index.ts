@@ -3,20 +3,37 @@
  * Based on pseudocode from PSEUDOCODE_MODULES.md
  */
 
-import { BaseIndicator } from './base-indicator';
+import { IndicatorParameterDefinition } from '@jware-trader8/core';
+import { BaseIndicator, IndicatorSource } from './base-indicator';
+import { periodParameter, SOURCE_PARAMETER } from './parameter-schema';
 
 /**
  * Relative Strength Index implementation
  * Measures the magnitude of recent price changes to evaluate overbought/oversold conditions
  */
 export class RelativeStrengthIndex extends BaseIndicator {
+  static readonly parameters: IndicatorParameterDefinition[] = [
+    periodParameter(14, 2),
+    { name: 'overbought', type: 'number', default: 70, min: 0, max: 100, description: 'Overbought threshold' },
+    { name: 'oversold', type: 'number', default: 30, min: 0, max: 100, description: 'Oversold threshold' },
+    SOURCE_PARAMETER
+  ];
+
+  private overbought: number;
+  private oversold: number;
   private gains: number[] = [];
   private losses: number[] = [];
   private lastPrice: number | null = null;
   private priceCount: number = 0;
 
-  constructor(period: number = 14) {
-    super(period, 'RSI', 'RSI');
+  constructor(period: number = 14, overbought: number = 70, oversold: number = 30, source: IndicatorSource = 'close') {
+    super(period, 'RSI', 'RSI', source);
+    if (oversold >= overbought) {
+      throw new Error('RSI oversold threshold must be below overbought threshold');
+    }
+    this.overbought = overbought;
+    this.oversold = oversold;
+    this.config.parameters = { period, overbought, oversold };
   }
 
   /**
@@ -88,6 +105,22 @@ export class RelativeStrengthIndex extends BaseIndicator {
     this.priceCount = 0;
   }
 
+  /**
+   * Check if RSI is above the overbought threshold
+   */
+  isOverbought(): boolean {
+    const value = this.getValue();
+    return value !== null && value > this.overbought;
+  }
+
+  /**
+   * Check if RSI is below the oversold threshold
+   */
+  isOversold(): boolean {
+    const value = this.getValue();
+    return value !== null && value < this.oversold;
+  }
+
   /**
    * Get current gains array
    */
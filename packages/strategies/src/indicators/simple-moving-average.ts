@@ -3,17 +3,21 @@
  * Based on pseudocode from PSEUDOCODE_MODULES.md
  */
 
-import { BaseIndicator } from './base-indicator';
+import { IndicatorParameterDefinition } from '@jware-trader8/core';
+import { BaseIndicator, IndicatorSource } from './base-indicator';
+import { periodParameter, SOURCE_PARAMETER } from './parameter-schema';
 
 /**
  * Simple Moving Average implementation
  * Calculates the arithmetic mean of prices over a specified period
  */
 export class SimpleMovingAverage extends BaseIndicator {
+  static readonly parameters: IndicatorParameterDefinition[] = [periodParameter(), SOURCE_PARAMETER];
+
   private prices: number[] = [];
 
-  constructor(period: number) {
-    super(period, 'SMA', 'SMA');
+  constructor(period: number, source: IndicatorSource = 'close') {
+    super(period, 'SMA', 'SMA', source);
   }
 
   /**
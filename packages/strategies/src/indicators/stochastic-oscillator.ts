@@ -0,0 +1,82 @@
+/**
+ * Stochastic Oscillator Indicator
+ * Position of the close within the recent high/low range
+ */
+
+import { IndicatorParameterDefinition } from '@jware-trader8/core';
+import { OHLCV } from '@jware-trader8/types';
+import { MultiOutputIndicator, IndicatorOutputs } from './multi-output-indicator';
+
+/**
+ * Stochastic Oscillator implementation
+ * Outputs: k (primary), d
+ */
+export class StochasticOscillator extends MultiOutputIndicator {
+  static readonly parameters: IndicatorParameterDefinition[] = [
+    { name: 'kPeriod', type: 'integer', default: 14, min: 1, description: '%K lookback period' },
+    { name: 'dPeriod', type: 'integer', default: 3, min: 1, description: '%D smoothing period' }
+  ];
+
+  private dPeriod: number;
+  private highs: number[] = [];
+  private lows: number[] = [];
+  private kValues: number[] = [];
+
+  constructor(kPeriod: number = 14, dPeriod: number = 3) {
+    super(kPeriod, 'STOCH', 'STOCH', ['k', 'd'], 'k');
+    this.dPeriod = dPeriod;
+    this.config.parameters = { kPeriod, dPeriod };
+  }
+
+  /**
+   * Calculate %K and %D
+   * %K = 100 * (close - lowest low) / (highest high - lowest low), %D = SMA(dPeriod) of %K
+   */
+  protected calculateOutputs(data: OHLCV): IndicatorOutputs {
+    this.highs.push(data.high);
+    this.lows.push(data.low);
+
+    if (this.highs.length > this.period) {
+      this.highs.shift();
+      this.lows.shift();
+    }
+
+    if (this.highs.length < this.period) {
+      return { k: null, d: null };
+    }
+
+    const highest = Math.max(...this.highs);
+    const lowest = Math.min(...this.lows);
+    // A flat range has no meaningful position; report the midpoint
+    const k = highest === lowest ? 50 : 100 * (data.close - lowest) / (highest - lowest);
+
+    this.kValues.push(k);
+    if (this.kValues.length > this.dPeriod) {
+      this.kValues.shift();
+    }
+
+    if (this.kValues.length < this.dPeriod) {
+      return { k, d: null };
+    }
+
+    const d = this.kValues.reduce((sum, value) => sum + value, 0) / this.dPeriod;
+    return { k, d };
+  }
+
+  /**
+   * Check if oscillator is ready (%D available)
+   */
+  isReady(): boolean {
+    return this.getOutputValue('d') !== null;
+  }
+
+  /**
+   * Reset Stochastic state
+   */
+  reset(): void {
+    super.reset();
+    this.highs = [];
+    this.lows = [];
+    this.kValues = [];
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Volume Weighted Average Price (VWAP) Indicator
+ * Session VWAP that restarts at each new UTC trading day
+ */
+
+import { IndicatorParameterDefinition } from '@jware-trader8/core';
+import { OHLCV } from '@jware-trader8/types';
+import { BarIndicator, typicalPrice } from './bar-indicator';
+
+/**
+ * Session VWAP implementation
+ * VWAP = cumulative(typical price * volume) / cumulative(volume) since the session start
+ */
+export class VolumeWeightedAveragePrice extends BarIndicator {
+  static readonly parameters: IndicatorParameterDefinition[] = [];
+
+  private session: string | null = null;
+  private cumulativePriceVolume: number = 0;
+  private cumulativeVolume: number = 0;
+
+  constructor() {
+    super(1, 'VWAP', 'VWAP');
+  }
+
+  /**
+   * Calculate VWAP value, resetting accumulators when the session changes
+   */
+  protected calculateBar(data: OHLCV): number | null {
+    const session = new Date(data.timestamp).toISOString().slice(0, 10);
+    if (session !== this.session) {
+      this.session = session;
+      this.cumulativePriceVolume = 0;
+      this.cumulativeVolume = 0;
+    }
+
+    this.cumulativePriceVolume += typicalPrice(data) * data.volume;
+    this.cumulativeVolume += data.volume;
+
+    if (this.cumulativeVolume === 0) {
+      return null;
+    }
+    return this.cumulativePriceVolume / this.cumulativeVolume;
+  }
+
+  /**
+   * Check if VWAP is ready (session has traded volume)
+   */
+  isReady(): boolean {
+    return this.getValue() !== null;
+  }
+
+  /**
+   * Reset VWAP state
+   */
+  reset(): void {
+    super.reset();
+    this.session = null;
+    this.cumulativePriceVolume = 0;
+    this.cumulativeVolume = 0;
+  }
+}
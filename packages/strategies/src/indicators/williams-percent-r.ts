@@ -0,0 +1,67 @@
+/**
+ * Williams %R Indicator
+ * Position of the close relative to the recent high, from -100 to 0
+ */
+
+import { IndicatorParameterDefinition } from '@jware-trader8/core';
+import { OHLCV } from '@jware-trader8/types';
+import { BarIndicator } from './bar-indicator';
+import { periodParameter } from './parameter-schema';
+
+/**
+ * Williams %R implementation
+ * %R = -100 * (highest high - close) / (highest high - lowest low)
+ */
+export class WilliamsPercentR extends BarIndicator {
+  static readonly parameters: IndicatorParameterDefinition[] = [periodParameter(14)];
+
+  private highs: number[] = [];
+  private lows: number[] = [];
+
+  constructor(period: number = 14) {
+    super(period, 'WILLR', 'WILLR');
+  }
+
+  /**
+   * Calculate Williams %R value
+   */
+  protected calculateBar(data: OHLCV): number | null {
+    this.highs.push(data.high);
+    this.lows.push(data.low);
+
+    if (this.highs.length > this.period) {
+      this.highs.shift();
+      this.lows.shift();
+    }
+
+    if (this.highs.length < this.period) {
+      return null;
+    }
+
+    const highest = Math.max(...this.highs);
+    const lowest = Math.min(...this.lows);
+
+    // A flat range has no meaningful position; report the midpoint
+    if (highest === lowest) {
+      return -50;
+    }
+
+    return -100 * (highest - data.close) / (highest - lowest);
+  }
+
+  /**
+   * Check if Williams %R is ready (has a full period of bars)
+   */
+  isReady(): boolean {
+    return this.highs.length >= this.period && this.getValue() !== null;
+  }
+
+  /**
+   * Reset Williams %R state
+   */
+  reset(): void {
+    super.reset();
+    this.highs = [];
+    this.lows = [];
+  }
+}
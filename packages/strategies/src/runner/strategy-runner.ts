@@ -0,0 +1,450 @@
+/**
+ * Live strategy runner
+ * Feeds closed bars from a data provider through the strategy engine and routes the signals to orders
+ */
+
+import {
+  IStrategyEngine,
+  IStrategyRunner,
+  StrategyRunnerStatus,
+  IDataProvider,
+  ITradingProvider,
+  OrderExecutionContext,
+  OrderManager,
+  RiskRejectedError
+} from '@jware-trader8/core';
+import { CompiledStrategy, MarketDataEvent, OHLCV, OrderSide, Timeframe, TradeSignal } from '@jware-trader8/types';
+import { Logger, MARKET_SESSIONS, getMarketSessionForSymbol, timeframeToMilliseconds } from '@jware-trader8/utils';
+
+const DEFAULT_WARMUP_BARS = 100;
+const DEFAULT_MAX_CONSECUTIVE_ERRORS = 5;
+const MAX_POLL_INTERVAL_MS = 60 * 1000;
+const CRYPTO_QUANTITY_PRECISION = 1e8;
+
+/**
+ * Strategy runner options
+ */
+export interface StrategyRunnerOptions {
+  /** Route for orders; defaults to an OrderManager on the trading provider */
+  orderManager?: OrderManager;
+  /** Periods of history replayed through the strategy before it trades (default 100) */
+  warmupBars?: number;
+  /** Poll interval when the data provider cannot stream bars (default: the timeframe, at most a minute) */
+  pollIntervalMs?: number;
+  /** Failed bars in a row before the strategy is halted with ERROR status (default 5) */
+  maxConsecutiveErrors?: number;
+}
+
+/**
+ * State of one strategy in the runner
+ */
+interface StrategyRun {
+  strategy: CompiledStrategy;
+  status: StrategyRunnerStatus;
+  symbol: string;
+  timeframe: Timeframe;
+  timeframeMs: number;
+  lastBarTime: number;
+  subscriptionId?: string;
+  pollTimer?: ReturnType<typeof setInterval>;
+  // Bars are processed one at a time, in arrival order
+  queue: Promise<void>;
+  consecutiveErrors: number;
+  stoppedAt?: Date;
+}
+
+/**
+ * Strategy Runner
+ * Implements IStrategyRunner for live and paper trading
+ */
+export class StrategyRunner implements IStrategyRunner {
+  private strategyEngine: IStrategyEngine;
+  private dataProvider: IDataProvider;
+  private tradingProvider: ITradingProvider;
+  private orderManager: OrderManager;
+  private options: StrategyRunnerOptions;
+  private runs: Map<string, StrategyRun> = new Map();
+  private logger: Logger;
+
+  constructor(
+    strategyEngine: IStrategyEngine,
+    dataProvider: IDataProvider,
+    tradingProvider: ITradingProvider,
+    options: StrategyRunnerOptions = {}
+  ) {
+    this.strategyEngine = strategyEngine;
+    this.dataProvider = dataProvider;
+    this.tradingProvider = tradingProvider;
+    this.orderManager = options.orderManager || new OrderManager(tradingProvider);
+    this.options = options;
+    this.logger = new Logger({
+      level: 'info',
+      console: true,
+      format: 'text'
+    });
+  }
+
+  /**
+   * Warm the strategy up on recent history, then trade each new closed bar
+   * Uses a bar subscription when the data provider streams, otherwise polls for closed bars.
+   */
+  async start(strategy: CompiledStrategy): Promise<void> {
+    const strategyId = strategy.id;
+    const existing = this.runs.get(strategyId);
+    if (existing && existing.status.status !== 'STOPPED' && existing.status.status !== 'ERROR') {
+      throw new Error(`Strategy ${strategyId} is already running`);
+    }
+
+    const timeframe = strategy.config.parameters.timeframe as Timeframe;
+    const run: StrategyRun = {
+      strategy,
+      status: {
+        strategyId,
+        strategyName: strategy.config.name,
+        status: 'STARTING',
+        startTime: new Date(),
+        totalSignals: 0,
+        errorCount: 0,
+        uptime: 0
+      },
+      symbol: strategy.config.parameters.symbol.toUpperCase(),
+      timeframe,
+      timeframeMs: timeframeToMilliseconds(timeframe),
+      lastBarTime: 0,
+      queue: Promise.resolve(),
+      consecutiveErrors: 0
+    };
+    this.runs.set(strategyId, run);
+
+    try {
+      this.strategyEngine.resetStrategy(strategy);
+      await this.warmUp(run);
+
+      run.status.status = 'RUNNING';
+      await this.startBarFeed(run);
+
+      this.logger.info('Strategy started', { strategyId, symbol: run.symbol, timeframe });
+    } catch (error) {
+      run.status.status = 'ERROR';
+      run.status.errorCount++;
+      run.stoppedAt = new Date();
+      await this.stopBarFeed(run);
+      this.logger.error('Failed to start strategy', {
+        strategyId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Stop the bar feed and wait for the bar in progress; bars still queued are dropped
+   */
+  async stop(strategyId: string): Promise<void> {
+    const run = this.getRun(strategyId);
+    if (run.status.status === 'STOPPED') {
+      return;
+    }
+
+    run.status.status = 'STOPPING';
+    await this.stopBarFeed(run);
+    await run.queue;
+
+    run.status.status = 'STOPPED';
+    run.stoppedAt = new Date();
+    this.logger.info('Strategy stopped', { strategyId });
+  }
+
+  /**
+   * Stop acting on signals; the strategy keeps processing bars so its indicators stay current
+   * Bars received before the pause are still traded, including any still queued when it is called.
+   */
+  async pause(strategyId: string): Promise<void> {
+    const run = this.getRun(strategyId);
+    if (run.status.status !== 'RUNNING') {
+      throw new Error(`Strategy ${strategyId} is not running`);
+    }
+
+    await run.queue;
+    if (run.status.status !== 'RUNNING') {
+      throw new Error(`Strategy ${strategyId} is not running`);
+    }
+    run.status.status = 'PAUSED';
+    this.logger.info('Strategy paused', { strategyId });
+  }
+
+  /**
+   * Resume acting on signals
+   */
+  async resume(strategyId: string): Promise<void> {
+    const run = this.getRun(strategyId);
+    if (run.status.status !== 'PAUSED') {
+      throw new Error(`Strategy ${strategyId} is not paused`);
+    }
+
+    run.status.status = 'RUNNING';
+    this.logger.info('Strategy resumed', { strategyId });
+  }
+
+  /**
+   * Get running strategy status
+   */
+  getStatus(strategyId: string): StrategyRunnerStatus {
+    const run = this.getRun(strategyId);
+    const startTime = run.status.startTime?.getTime();
+
+    return {
+      ...run.status,
+      uptime: startTime !== undefined ? (run.stoppedAt?.getTime() ?? Date.now()) - startTime : 0
+    };
+  }
+
+  /**
+   * Get all strategies that have not been stopped
+   */
+  getRunningStrategies(): StrategyRunnerStatus[] {
+    return Array.from(this.runs.keys())
+      .map(strategyId => this.getStatus(strategyId))
+      .filter(status => status.status !== 'STOPPED');
+  }
+
+  /**
+   * Get the order manager signals are routed through
+   */
+  getOrderManager(): OrderManager {
+    return this.orderManager;
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private getRun(strategyId: string): StrategyRun {
+    const run = this.runs.get(strategyId);
+    if (!run) {
+      throw new Error(`Strategy not found: ${strategyId}`);
+    }
+    return run;
+  }
+
+  /**
+   * Replay the closed bars of the last warmupBars periods without trading them
+   */
+  private async warmUp(run: StrategyRun): Promise<void> {
+    const warmupBars = this.options.warmupBars ?? DEFAULT_WARMUP_BARS;
+    if (warmupBars <= 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const bars = await this.dataProvider.getHistoricalData(
+      run.symbol,
+      run.timeframe,
+      new Date(now - warmupBars * run.timeframeMs),
+      new Date(now)
+    );
+
+    for (const bar of bars) {
+      if (bar.timestamp.getTime() + run.timeframeMs > now) {
+        break;
+      }
+      await this.strategyEngine.executeStrategy(run.strategy, bar);
+      run.lastBarTime = bar.timestamp.getTime();
+    }
+  }
+
+  private async startBarFeed(run: StrategyRun): Promise<void> {
+    try {
+      const subscription = await this.dataProvider.subscribe(
+        [run.symbol],
+        ['bars'],
+        event => this.handleMarketDataEvent(run, event)
+      );
+      run.subscriptionId = subscription.id;
+    } catch (error) {
+      // REST-only providers cannot stream bars
+      const interval = this.options.pollIntervalMs ?? Math.min(run.timeframeMs, MAX_POLL_INTERVAL_MS);
+      this.logger.info('Bar subscription unavailable, polling for closed bars', {
+        strategyId: run.status.strategyId,
+        intervalMs: interval,
+        reason: error instanceof Error ? error.message : 'Unknown error'
+      });
+      run.pollTimer = setInterval(() => this.enqueue(run, () => this.pollClosedBars(run)), interval);
+    }
+  }
+
+  private async stopBarFeed(run: StrategyRun): Promise<void> {
+    if (run.pollTimer) {
+      clearInterval(run.pollTimer);
+      run.pollTimer = undefined;
+    }
+
+    if (run.subscriptionId) {
+      const subscriptionId = run.subscriptionId;
+      run.subscriptionId = undefined;
+      try {
+        await this.dataProvider.unsubscribe(subscriptionId);
+      } catch (error) {
+        this.logger.warn('Failed to unsubscribe from bars', {
+          strategyId: run.status.strategyId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+
+  private handleMarketDataEvent(run: StrategyRun, event: MarketDataEvent): void {
+    if (event.type !== 'BAR' || event.symbol.toUpperCase() !== run.symbol) {
+      return;
+    }
+    const bar = event.data as OHLCV;
+    const trading = run.status.status === 'RUNNING';
+    this.enqueue(run, () => this.processBar(run, bar, trading));
+  }
+
+  private async pollClosedBars(run: StrategyRun): Promise<void> {
+    const now = Date.now();
+    const trading = run.status.status === 'RUNNING';
+    const start = run.lastBarTime > 0 ? run.lastBarTime + 1 : now - 2 * run.timeframeMs;
+    const bars = await this.dataProvider.getHistoricalData(run.symbol, run.timeframe, new Date(start), new Date(now));
+
+    for (const bar of bars) {
+      // The bar still forming is picked up by a later poll
+      if (bar.timestamp.getTime() + run.timeframeMs > now) {
+        break;
+      }
+      await this.processBar(run, bar, trading);
+    }
+  }
+
+  private enqueue(run: StrategyRun, task: () => Promise<void>): void {
+    run.queue = run.queue
+      .then(task)
+      .catch(error => this.recordError(run, error));
+  }
+
+  /**
+   * Execute the strategy on a closed bar and act on its signals
+   * Signals are only traded for bars that arrived while running, as captured in `trading`, even when
+   * the strategy has been paused since; bars at or before the last processed bar are ignored.
+   */
+  private async processBar(run: StrategyRun, bar: OHLCV, trading: boolean): Promise<void> {
+    if (run.status.status !== 'RUNNING' && run.status.status !== 'PAUSED') {
+      return;
+    }
+    if (bar.timestamp.getTime() <= run.lastBarTime) {
+      return;
+    }
+    run.lastBarTime = bar.timestamp.getTime();
+
+    const signals = await this.strategyEngine.executeStrategy(run.strategy, bar);
+
+    for (const signal of signals) {
+      if (signal.type === 'HOLD' || !trading) {
+        continue;
+      }
+
+      run.status.totalSignals++;
+      run.status.lastSignal = new Date();
+
+      const context = await this.createOrderContext(run, signal);
+      if (context) {
+        await this.submitOrder(context);
+      }
+    }
+
+    run.consecutiveErrors = 0;
+  }
+
+  /**
+   * Size an order for a signal, mirroring the backtester
+   * Entries spend the signal's position size as a fraction of the account and are skipped while a
+   * position is open; exits close the whole position on the matching side. Cash accounts cannot
+   * borrow shares, so short entries are skipped on them rather than rejected by the provider.
+   */
+  private async createOrderContext(run: StrategyRun, signal: TradeSignal): Promise<OrderExecutionContext | null> {
+    const symbol = signal.symbol.toUpperCase();
+    const positions = await this.tradingProvider.getPositions();
+    const position = positions.find(p => p.symbol === symbol && p.quantity !== 0);
+    const side: OrderSide = signal.type === 'BUY' || signal.type === 'COVER' ? 'BUY' : 'SELL';
+
+    let quantity: number;
+    if (signal.type === 'BUY' || signal.type === 'SHORT') {
+      if (position) {
+        this.logger.info('Position already open, ignoring entry signal', { symbol, signal: signal.type });
+        return null;
+      }
+
+      const account = await this.tradingProvider.getAccount();
+      if (signal.type === 'SHORT' && account.accountType === 'CASH') {
+        this.logger.info('Cash account cannot sell short, ignoring entry signal', { symbol });
+        return null;
+      }
+      const fraction = signal.quantity ?? run.strategy.config.parameters.positionSize;
+      const value = Math.min(account.balance * fraction, account.buyingPower);
+      quantity = this.roundQuantity(symbol, value / signal.price);
+    } else {
+      if (!position || position.side !== (signal.type === 'SELL' ? 'LONG' : 'SHORT')) {
+        return null;
+      }
+      quantity = Math.abs(position.quantity);
+    }
+
+    if (quantity <= 0) {
+      this.logger.warn('Order quantity rounds to zero, ignoring signal', { symbol, signal: signal.type });
+      return null;
+    }
+
+    return {
+      symbol,
+      side,
+      quantity,
+      orderType: signal.orderType || 'MARKET',
+      // Market orders carry the signal price as a reference for risk checks
+      price: signal.orderType === 'LIMIT' ? signal.limitPrice : signal.price,
+      stopPrice: signal.stopPrice,
+      strategyName: signal.strategyName,
+      reason: signal.reason,
+      metadata: { ...signal.metadata, strategyId: run.status.strategyId, signalType: signal.type }
+    };
+  }
+
+  private async submitOrder(context: OrderExecutionContext): Promise<void> {
+    try {
+      await this.orderManager.submitOrder(context);
+    } catch (error) {
+      // Risk rejections are decisions, already logged by the risk manager, not failures
+      if (!(error instanceof RiskRejectedError)) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Whole shares for equities, satoshi precision for crypto
+   */
+  private roundQuantity(symbol: string, quantity: number): number {
+    if (getMarketSessionForSymbol(symbol) === MARKET_SESSIONS.CRYPTO) {
+      return Math.floor(quantity * CRYPTO_QUANTITY_PRECISION) / CRYPTO_QUANTITY_PRECISION;
+    }
+    return Math.floor(quantity);
+  }
+
+  private async recordError(run: StrategyRun, error: unknown): Promise<void> {
+    run.status.errorCount++;
+    run.consecutiveErrors++;
+    this.logger.error('Strategy bar processing failed', {
+      strategyId: run.status.strategyId,
+      consecutiveErrors: run.consecutiveErrors,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+
+    const maxConsecutiveErrors = this.options.maxConsecutiveErrors ?? DEFAULT_MAX_CONSECUTIVE_ERRORS;
+    if (run.consecutiveErrors >= maxConsecutiveErrors && run.status.status !== 'STOPPING') {
+      run.status.status = 'ERROR';
+      run.stoppedAt = new Date();
+      await this.stopBarFeed(run);
+      this.logger.error('Strategy halted after repeated failures', { strategyId: run.status.strategyId });
+    }
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Tests for the rolling bar history
+ */
+
+import { BarHistory } from '../src/engine/bar-history';
+import { StrategyEngine } from '../src/engine/strategy-engine';
+import { ConditionEvaluator } from '../src/evaluator/condition-evaluator';
+import { BarIndicator } from '../src/indicators/bar-indicator';
+import { IndicatorParameterDefinition } from '@jware-trader8/core';
+import { OHLCV, StrategyConfig } from '@jware-trader8/types';
+
+describe('Bar History', () => {
+  const createOHLCV = (close: number): OHLCV => ({
+    timestamp: new Date(),
+    open: close,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 1000
+  });
+
+  describe('BarHistory', () => {
+    test('should keep the newest bars up to capacity', () => {
+      const history = new BarHistory(3);
+      [1, 2, 3, 4, 5].forEach(close => history.push(createOHLCV(close)));
+
+      expect(history.size).toBe(3);
+      expect(history.toArray().map(bar => bar.close)).toEqual([3, 4, 5]);
+      expect(history.get()!.close).toBe(5);
+      expect(history.get(2)!.close).toBe(3);
+      expect(history.get(3)).toBeUndefined();
+    });
+
+    test('should clear all bars', () => {
+      const history = new BarHistory(2);
+      history.push(createOHLCV(1));
+      history.clear();
+
+      expect(history.size).toBe(0);
+      expect(history.toArray()).toEqual([]);
+    });
+
+    test('should reject invalid capacity', () => {
+      expect(() => new BarHistory(0)).toThrow('Bar history capacity must be a positive integer');
+    });
+  });
+
+  describe('ConditionEvaluator.getMaxLookback', () => {
+    const evaluator = new ConditionEvaluator();
+
+    test('should include price lookbacks and series functions', () => {
+      expect(evaluator.getMaxLookback('close > open')).toBe(0);
+      expect(evaluator.getMaxLookback('close > close[-3]')).toBe(3);
+      expect(evaluator.getMaxLookback('close > highest(high[-1], 10)')).toBe(10);
+      expect(evaluator.getMaxLookback('rising(close, 4) AND crosses_above(close, sma)')).toBe(4);
+      expect(evaluator.getMaxLookback('sma[-20] > 0')).toBe(0);
+    });
+  });
+
+  describe('StrategyEngine', () => {
+    // Custom indicator reading the previous bar's high from the shared history
+    class PreviousHigh extends BarIndicator {
+      static readonly parameters: IndicatorParameterDefinition[] = [];
+
+      constructor() {
+        super(2, 'PREV_HIGH', 'PREV_HIGH');
+      }
+
+      protected calculateBar(): number | null {
+        const previous = this.barHistory?.get(1);
+        return previous ? previous.high : null;
+      }
+
+      isReady(): boolean {
+        return this.getValue() !== null;
+      }
+    }
+
+    const strategyConfig: StrategyConfig = {
+      name: 'History Test',
+      description: 'Conditions over prior bars',
+      version: '1.0.0',
+      parameters: {
+        symbol: 'BTCUSD',
+        timeframe: '1h',
+        positionSize: 0.1
+      },
+      indicators: [
+        { name: 'sma', type: 'SMA', parameters: { period: 4 } },
+        { name: 'prev_high', type: 'PREV_HIGH', parameters: {} }
+      ],
+      signals: {
+        buy: [{
+          id: 'breakout',
+          description: 'Close above the high of two bars ago',
+          condition: 'close > high[-2] AND close > prev_high',
+          action: 'BUY',
+          priority: 1
+        }],
+        sell: [{ id: 'sell', description: 'Sell', condition: 'close < lowest(low, 6)', action: 'SELL', priority: 1 }]
+      },
+      riskManagement: {
+        maxPositionSize: 0.1,
+        stopLoss: 0.02,
+        takeProfit: 0.05
+      }
+    };
+
+    let engine: StrategyEngine;
+
+    beforeEach(() => {
+      engine = new StrategyEngine();
+      engine.registerIndicator('PREV_HIGH', PreviousHigh);
+    });
+
+    test('should size the history from indicators and conditions', () => {
+      const strategy = engine.loadStrategy(strategyConfig);
+
+      // lowest(low, 6) reads the current bar plus five previous ones
+      expect(strategy.history!.capacity).toBe(6);
+    });
+
+    test('should expose prior bars to conditions and indicators', async () => {
+      const strategy = engine.loadStrategy(strategyConfig);
+      const signals = [];
+
+      for (const close of [10, 10, 10, 15]) {
+        signals.push(...await engine.executeStrategy(strategy, createOHLCV(close)));
+      }
+
+      expect(strategy.indicators.get('prev_high').getValue()).toBe(11);
+      expect(signals.map(signal => signal.type)).toEqual(['BUY']);
+    });
+
+    test('should reset history and indicators between runs', async () => {
+      const strategy = engine.loadStrategy(strategyConfig);
+      for (const close of [10, 11, 12, 13]) {
+        await engine.executeStrategy(strategy, createOHLCV(close));
+      }
+
+      engine.resetStrategy(strategy);
+
+      expect(strategy.history!.size).toBe(0);
+      expect(strategy.indicators.get('sma').getValue()).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Tests for the condition expression parser and evaluator
+ */
+
+import { ConditionEvaluator } from '../src/evaluator/condition-evaluator';
+import { parseExpression } from '../src/evaluator/parser';
+import { tokenize, ConditionSyntaxError } from '../src/evaluator/tokenizer';
+import { SimpleMovingAverage } from '../src/indicators/simple-moving-average';
+import { StrategyEngine } from '../src/engine/strategy-engine';
+import { IIndicator } from '@jware-trader8/core';
+import { OHLCV, StrategyConfig, StrategyContext } from '@jware-trader8/types';
+
+describe('Condition Evaluator', () => {
+  const createOHLCV = (close: number, timestamp: Date = new Date()): OHLCV => ({
+    timestamp,
+    open: close - 1,
+    high: close + 2,
+    low: close - 2,
+    close,
+    volume: 1000
+  });
+
+  const createContext = (
+    closes: number[],
+    indicators: Record<string, number | null> = {}
+  ): StrategyContext => {
+    const historicalData = closes.map(close => createOHLCV(close));
+    return {
+      currentData: historicalData[historicalData.length - 1],
+      historicalData,
+      indicators: new Map(Object.entries(indicators)),
+      config: {} as StrategyConfig,
+      timestamp: historicalData[historicalData.length - 1].timestamp
+    };
+  };
+
+  describe('tokenize', () => {
+    test('should tokenize operators, keywords and lookbacks', () => {
+      const tokens = tokenize('sma_fast[-1] >= 10.5 and !rising');
+
+      expect(tokens.map(token => token.type)).toEqual([
+        'IDENTIFIER', 'LBRACKET', 'OPERATOR', 'NUMBER', 'RBRACKET',
+        'OPERATOR', 'NUMBER', 'AND', 'NOT', 'IDENTIFIER', 'EOF'
+      ]);
+      expect(tokens[5]).toEqual({ type: 'OPERATOR', value: '>=', column: 14 });
+    });
+
+    test('should report the column of unexpected characters', () => {
+      expect(() => tokenize('close > 10 $ 2')).toThrow(ConditionSyntaxError);
+      try {
+        tokenize('close > 10 $ 2');
+      } catch (error) {
+        expect((error as ConditionSyntaxError).column).toBe(12);
+      }
+    });
+
+    test('should suggest == for a single equals sign', () => {
+      expect(() => tokenize('close = 10')).toThrow("use '==' for equality at column 7");
+    });
+  });
+
+  describe('parseExpression', () => {
+    test('should respect operator precedence', () => {
+      const ast = parseExpression('close > open + 2 * 3 AND NOT volume < 5 OR TRUE');
+
+      expect(ast.kind).toBe('binary');
+      expect(ast.kind === 'binary' && ast.operator).toBe('OR');
+    });
+
+    test('should reject empty expressions', () => {
+      expect(() => parseExpression('   ')).toThrow('Condition expression is empty at column 1');
+    });
+
+    test('should report missing closing parenthesis', () => {
+      expect(() => parseExpression('(close > open')).toThrow("Expected ')' but found end of expression at column 14");
+    });
+
+    test('should report dangling operators', () => {
+      expect(() => parseExpression('close >')).toThrow('Unexpected end of expression at column 8');
+    });
+
+    test('should reject fractional lookbacks', () => {
+      expect(() => parseExpression('close[-1.5] > 0')).toThrow(ConditionSyntaxError);
+    });
+  });
+
+  describe('evaluate', () => {
+    let evaluator: ConditionEvaluator;
+
+    beforeEach(() => {
+      evaluator = new ConditionEvaluator();
+    });
+
+    test('should evaluate comparisons and arithmetic', () => {
+      const context = createContext([100]);
+
+      expect(evaluator.evaluate('close > open', context)).toBe(true);
+      expect(evaluator.evaluate('high - low == 4', context)).toBe(true);
+      expect(evaluator.evaluate('close * 2 / 4 == 50', context)).toBe(true);
+      expect(evaluator.evaluate('-close < 0', context)).toBe(true);
+      expect(evaluator.evaluate('close % 3 != 1', context)).toBe(false);
+    });
+
+    test('should evaluate logical operators', () => {
+      const context = createContext([100]);
+
+      expect(evaluator.evaluate('close > 50 AND close < 150', context)).toBe(true);
+      expect(evaluator.evaluate('close > 150 OR close < 50', context)).toBe(false);
+      expect(evaluator.evaluate('NOT (close > 150)', context)).toBe(true);
+      expect(evaluator.evaluate('close > 50 && !(volume < 10) || FALSE', context)).toBe(true);
+    });
+
+    test('should look back through historical data', () => {
+      const context = createContext([90, 95, 100]);
+
+      expect(evaluator.evaluate('close[-1] == 95', context)).toBe(true);
+      expect(evaluator.evaluate('close[2] == 90', context)).toBe(true);
+      expect(evaluator.evaluate('close > close[-1] AND close[-1] > close[-2]', context)).toBe(true);
+    });
+
+    test('should treat missing values as unknown', () => {
+      const context = createContext([100], { sma: null });
+
+      expect(evaluator.evaluate('sma > 10', context)).toBe(false);
+      expect(evaluator.evaluate('NOT (sma > 10)', context)).toBe(false);
+      expect(evaluator.evaluate('sma > 10 OR close > 10', context)).toBe(true);
+      expect(evaluator.evaluate('close[-5] < 1000', context)).toBe(false);
+      expect(evaluator.evaluate('close / 0 > 1', context)).toBe(false);
+    });
+
+    test('should read indicator history from indicator instances', () => {
+      const sma = new SimpleMovingAverage(2);
+      [10, 20, 30].forEach(close => sma.update(createOHLCV(close)));
+      const indicators = new Map<string, IIndicator>([['sma', sma]]);
+      const context = createContext([30], { sma: sma.getValue() });
+
+      evaluator = new ConditionEvaluator(indicators);
+
+      expect(evaluator.evaluate('sma == 25 AND sma[-1] == 15', context)).toBe(true);
+    });
+  });
+
+  describe('built-in functions', () => {
+    let evaluator: ConditionEvaluator;
+
+    beforeEach(() => {
+      evaluator = new ConditionEvaluator();
+    });
+
+    test('should expose the function library', () => {
+      expect(evaluator.getAvailableFunctions()).toEqual(expect.arrayContaining([
+        'crosses_above', 'crosses_below', 'highest', 'lowest', 'change',
+        'pct_change', 'abs', 'min', 'max', 'rising', 'falling'
+      ]));
+    });
+
+    test('should detect crossovers on indicator history', () => {
+      const fast = new SimpleMovingAverage(1);
+      const slow = new SimpleMovingAverage(2);
+      const indicators = new Map<string, IIndicator>([['fast', fast], ['slow', slow]]);
+      evaluator = new ConditionEvaluator(indicators);
+
+      const results: boolean[] = [];
+      const closes = [10, 8, 6, 12, 14, 9];
+      closes.forEach((close, index) => {
+        fast.update(createOHLCV(close));
+        slow.update(createOHLCV(close));
+        const context = createContext(closes.slice(0, index + 1));
+        results.push(
+          evaluator.evaluate('crosses_above(fast, slow)', context) ||
+          evaluator.evaluate('crosses_below(fast, slow)', context)
+        );
+      });
+
+      // slow: null, 9, 7, 9, 13, 11.5 / fast: 10, 8, 6, 12, 14, 9
+      expect(results).toEqual([false, false, false, true, false, true]);
+    });
+
+    test('should evaluate series functions on OHLCV history', () => {
+      const context = createContext([10, 12, 11, 15, 18]);
+
+      expect(evaluator.evaluate('highest(close, 3) == 18', context)).toBe(true);
+      expect(evaluator.evaluate('lowest(close, 4) == 11', context)).toBe(true);
+      expect(evaluator.evaluate('change(close) == 3', context)).toBe(true);
+      expect(evaluator.evaluate('change(close, 4) == 8', context)).toBe(true);
+      expect(evaluator.evaluate('pct_change(close, 3) == 0.5', context)).toBe(true);
+      expect(evaluator.evaluate('rising(close, 2)', context)).toBe(true);
+      expect(evaluator.evaluate('rising(close, 3)', context)).toBe(false);
+      expect(evaluator.evaluate('falling(close[-2])', context)).toBe(true);
+      expect(evaluator.evaluate('highest(close, 10) > 0', context)).toBe(false);
+    });
+
+    test('should evaluate math functions', () => {
+      const context = createContext([100]);
+
+      expect(evaluator.evaluate('abs(open - close) == 1', context)).toBe(true);
+      expect(evaluator.evaluate('min(open, close, low) == 98', context)).toBe(true);
+      expect(evaluator.evaluate('max(open, close, high) == 102', context)).toBe(true);
+    });
+
+    test('should reject unknown functions and wrong arity', () => {
+      const unknown = evaluator.parseCondition('close > median(close, 5)');
+      const arity = evaluator.parseCondition('crosses_above(close)');
+
+      expect(unknown.isValid).toBe(false);
+      expect(unknown.errorColumn).toBe(9);
+      expect(arity.errors[0]).toContain("Function 'crosses_above' expects 2 arguments but got 1");
+    });
+
+    test('should list functions used by a condition', () => {
+      const parsed = evaluator.parseCondition('crosses_above(sma_fast, sma_slow) AND rising(rsi, 2)');
+
+      expect(parsed.functions).toEqual(['crosses_above', 'rising']);
+      expect(parsed.requiredIndicators).toEqual(['sma_fast', 'sma_slow', 'rsi']);
+    });
+  });
+
+  describe('parseCondition', () => {
+    test('should list required indicators', () => {
+      const parsed = new ConditionEvaluator().parseCondition('sma_fast > sma_slow AND close > sma_fast[-1]');
+
+      expect(parsed.isValid).toBe(true);
+      expect(parsed.requiredIndicators).toEqual(['sma_fast', 'sma_slow']);
+    });
+
+    test('should return the error column for invalid conditions', () => {
+      const parsed = new ConditionEvaluator().parseCondition('close > > open');
+
+      expect(parsed.isValid).toBe(false);
+      expect(parsed.errorColumn).toBe(9);
+      expect(parsed.errors[0]).toContain("Unexpected token '>'");
+    });
+  });
+
+  describe('StrategyEngine integration', () => {
+    const strategyConfig: StrategyConfig = {
+      name: 'Threshold Strategy',
+      description: 'Buys above a parameterised threshold',
+      version: '1.0.0',
+      parameters: {
+        symbol: 'BTCUSD',
+        timeframe: '1h',
+        positionSize: 0.1,
+        threshold: 105
+      },
+      indicators: [
+        { name: 'sma_fast', type: 'SMA', parameters: { period: 2 }, source: 'close' }
+      ],
+      signals: {
+        buy: [
+          {
+            id: 'breakout',
+            description: 'Close above threshold',
+            condition: 'close > {{ parameters.threshold }} AND sma_fast > sma_fast[-1]',
+            action: 'BUY',
+            priority: 1
+          }
+        ],
+        sell: [
+          {
+            id: 'breakdown',
+            description: 'Close below fast SMA',
+            condition: 'close < sma_fast',
+            action: 'SELL',
+            priority: 1
+          }
+        ]
+      },
+      riskManagement: {
+        maxPositionSize: 0.1,
+        stopLoss: 0.02,
+        takeProfit: 0.05
+      }
+    };
+
+    test('should report invalid conditions with field and column', () => {
+      const engine = new StrategyEngine();
+      const config: StrategyConfig = JSON.parse(JSON.stringify(strategyConfig));
+      config.signals.sell[0].condition = 'close < (sma_fast';
+
+      const result = engine.validateStrategy(config);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContainEqual(expect.objectContaining({
+        code: 'INVALID_CONDITION',
+        field: 'signals.sell[0].condition',
+        column: 18
+      }));
+    });
+
+    test('should report unknown indicators in conditions', () => {
+      const engine = new StrategyEngine();
+      const config: StrategyConfig = JSON.parse(JSON.stringify(strategyConfig));
+      config.signals.sell[0].condition = 'close < sma_slow';
+
+      const result = engine.validateStrategy(config);
+
+      expect(result.errors).toContainEqual(expect.objectContaining({
+        code: 'UNKNOWN_INDICATOR',
+        field: 'signals.sell[0].condition'
+      }));
+    });
+
+    test('should generate signals from templated conditions', async () => {
+      const engine = new StrategyEngine();
+      const strategy = engine.loadStrategy(strategyConfig);
+
+      expect(strategy.buyConditions[0].requiredIndicators).toEqual(['sma_fast']);
+
+      const signals = [];
+      for (const close of [100, 102, 110]) {
+        signals.push(...await engine.executeStrategy(strategy, createOHLCV(close)));
+      }
+
+      expect(signals).toHaveLength(1);
+      expect(signals[0].type).toBe('BUY');
+      expect(signals[0].price).toBe(110);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Tests for indicator-of-indicator composition
+ */
+
+import { StrategyEngine } from '../src/engine/strategy-engine';
+import { findIndicatorCycle, orderIndicators } from '../src/engine/indicator-graph';
+import { IndicatorConfig } from '@jware-trader8/core';
+import { OHLCV, StrategyConfig } from '@jware-trader8/types';
+
+describe('Indicator Composition', () => {
+  const createOHLCV = (close: number, volume: number = 1000): OHLCV => ({
+    timestamp: new Date(),
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume
+  });
+
+  const createStrategy = (indicators: StrategyConfig['indicators']): StrategyConfig => ({
+    name: 'Composition Test',
+    description: 'Indicators reading other indicators',
+    version: '1.0.0',
+    parameters: {
+      symbol: 'BTCUSD',
+      timeframe: '1h',
+      positionSize: 0.1
+    },
+    indicators,
+    signals: {
+      buy: [{ id: 'buy', description: 'Buy', condition: 'close > 0', action: 'BUY', priority: 1 }],
+      sell: [{ id: 'sell', description: 'Sell', condition: 'close < 0', action: 'SELL', priority: 1 }]
+    },
+    riskManagement: {
+      maxPositionSize: 0.1,
+      stopLoss: 0.02,
+      takeProfit: 0.05
+    }
+  });
+
+  describe('indicator graph', () => {
+    const configs: IndicatorConfig[] = [
+      { name: 'signal', type: 'SMA', parameters: { period: 2 }, input: 'smooth' },
+      { name: 'smooth', type: 'SMA', parameters: { period: 2 }, input: 'rsi' },
+      { name: 'rsi', type: 'RSI', parameters: { period: 2 } },
+      { name: 'ema', type: 'EMA', parameters: { period: 2 } }
+    ];
+
+    test('should order inputs before the indicators that read them', () => {
+      expect(orderIndicators(configs).map(config => config.name)).toEqual(['rsi', 'smooth', 'signal', 'ema']);
+    });
+
+    test('should detect cycles', () => {
+      const cyclic: IndicatorConfig[] = [
+        { name: 'a', type: 'SMA', parameters: { period: 2 }, input: 'b' },
+        { name: 'b', type: 'SMA', parameters: { period: 2 }, input: 'c' },
+        { name: 'c', type: 'SMA', parameters: { period: 2 }, input: 'a' }
+      ];
+
+      expect(findIndicatorCycle(configs)).toBeNull();
+      expect(findIndicatorCycle(cyclic)).toEqual(['a', 'b', 'c', 'a']);
+      expect(() => orderIndicators(cyclic)).toThrow('Indicator inputs form a cycle: a -> b -> c -> a');
+    });
+  });
+
+  describe('StrategyEngine', () => {
+    let engine: StrategyEngine;
+
+    beforeEach(() => {
+      engine = new StrategyEngine();
+    });
+
+    test('should reject cycles during validation', () => {
+      const result = engine.validateStrategy(createStrategy([
+        { name: 'a', type: 'SMA', parameters: { period: 2 }, input: 'b' },
+        { name: 'b', type: 'EMA', parameters: { period: 2 }, input: 'a' }
+      ]));
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContainEqual(expect.objectContaining({ code: 'INDICATOR_CYCLE' }));
+    });
+
+    test('should reject unknown inputs', () => {
+      const result = engine.validateStrategy(createStrategy([
+        { name: 'smooth', type: 'SMA', parameters: { period: 2 }, input: 'rsi' }
+      ]));
+
+      expect(result.errors).toContainEqual(expect.objectContaining({
+        code: 'UNKNOWN_INDICATOR_INPUT',
+        field: 'indicators[0].input'
+      }));
+    });
+
+    test('should calculate an SMA of another indicator', async () => {
+      // Declared before its input to exercise dependency ordering
+      const strategy = engine.loadStrategy(createStrategy([
+        { name: 'smooth', type: 'SMA', parameters: { period: 2 }, input: 'fast' },
+        { name: 'fast', type: 'SMA', parameters: { period: 2 } }
+      ]));
+
+      for (const close of [10, 20, 30, 40]) {
+        await engine.executeStrategy(strategy, createOHLCV(close));
+      }
+
+      // fast: null, 15, 25, 35 -> smooth over non-null inputs: null, 30
+      expect(Array.from(strategy.indicators.keys())).toEqual(['fast', 'smooth']);
+      expect(strategy.indicators.get('smooth').getValue()).toBe(30);
+    });
+
+    test('should read named outputs of multi-output inputs', async () => {
+      const strategy = engine.loadStrategy(createStrategy([
+        { name: 'bb', type: 'BB', parameters: { period: 2 } },
+        { name: 'upper_avg', type: 'SMA', parameters: { period: 2 }, input: 'bb.upper' }
+      ]));
+
+      for (const close of [10, 10, 10]) {
+        await engine.executeStrategy(strategy, createOHLCV(close));
+      }
+
+      expect(strategy.indicators.get('upper_avg').getValue()).toBe(10);
+    });
+
+    test('should reject inputs naming a missing output', () => {
+      const result = engine.validateStrategy(createStrategy([
+        { name: 'bb', type: 'BB', parameters: { period: 2 } },
+        { name: 'avg', type: 'SMA', parameters: { period: 2 }, input: 'bb.signal' },
+        { name: 'smooth', type: 'SMA', parameters: { period: 2 }, input: 'avg.value' }
+      ]));
+
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          code: 'UNKNOWN_INDICATOR_OUTPUT',
+          message: 'Indicator "avg" input bb.signal is not an output of bb',
+          field: 'indicators[1].input'
+        }),
+        expect.objectContaining({ code: 'UNKNOWN_INDICATOR_OUTPUT', field: 'indicators[2].input' })
+      ]);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for indicator parameter schemas
+ */
+
+import { StrategyEngine } from '../src/engine/strategy-engine';
+import { RelativeStrengthIndex } from '../src/indicators/relative-strength-index';
+import { ExponentialMovingAverage } from '../src/indicators/exponential-moving-average';
+import { checkParameterValue, periodParameter, resolveIndicatorArguments } from '../src/indicators/parameter-schema';
+import { IndicatorConfig } from '@jware-trader8/core';
+import { OHLCV, StrategyConfig } from '@jware-trader8/types';
+
+describe('Indicator Parameters', () => {
+  const createOHLCV = (close: number, high: number = close): OHLCV => ({
+    timestamp: new Date(),
+    open: close,
+    high,
+    low: close,
+    close,
+    volume: 1000
+  });
+
+  const createStrategy = (indicators: StrategyConfig['indicators'], condition: string = 'close > 0'): StrategyConfig => ({
+    name: 'Parameter Test',
+    description: 'Indicator parameter handling',
+    version: '1.0.0',
+    parameters: {
+      symbol: 'BTCUSD',
+      timeframe: '1h',
+      positionSize: 0.1,
+      fast_period: 3
+    },
+    indicators,
+    signals: {
+      buy: [{ id: 'buy', description: 'Buy', condition, action: 'BUY', priority: 1 }],
+      sell: [{ id: 'sell', description: 'Sell', condition: 'close < 0', action: 'SELL', priority: 1 }]
+    },
+    riskManagement: {
+      maxPositionSize: 0.1,
+      stopLoss: 0.02,
+      takeProfit: 0.05
+    }
+  });
+
+  describe('checkParameterValue', () => {
+    test('should enforce type and range', () => {
+      const period = periodParameter(undefined, 2);
+
+      expect(checkParameterValue(period, 5)).toBeNull();
+      expect(checkParameterValue(period, undefined)).toBe("Parameter 'period' is required");
+      expect(checkParameterValue(period, 2.5)).toBe("Parameter 'period' must be a whole number");
+      expect(checkParameterValue(period, 1)).toBe("Parameter 'period' must be at least 2");
+      expect(checkParameterValue(period, '10')).toBe("Parameter 'period' must be a number");
+    });
+
+    test('should enforce string options', () => {
+      const [, source] = ExponentialMovingAverage.parameters;
+
+      expect(checkParameterValue(source, 'high')).toBeNull();
+      expect(checkParameterValue(source, 'median')).toContain('must be one of: open, high, low, close, volume');
+    });
+  });
+
+  describe('resolveIndicatorArguments', () => {
+    test('should order arguments by schema and apply defaults', () => {
+      const config: IndicatorConfig = { name: 'rsi', type: 'RSI', parameters: { overbought: 80 }, source: 'high' };
+
+      expect(resolveIndicatorArguments(RelativeStrengthIndex, config)).toEqual([14, 80, 30, 'high']);
+    });
+
+    test('should read top-level period and source inside parameters', () => {
+      const config: IndicatorConfig = { name: 'ema', type: 'EMA', parameters: { source: 'open' }, period: 5 };
+
+      expect(resolveIndicatorArguments(ExponentialMovingAverage, config)).toEqual([5, 'open']);
+    });
+  });
+
+  describe('StrategyEngine', () => {
+    let engine: StrategyEngine;
+
+    beforeEach(() => {
+      engine = new StrategyEngine();
+    });
+
+    test('should report invalid parameters with their field', () => {
+      const result = engine.validateStrategy(createStrategy([
+        { name: 'rsi', type: 'RSI', parameters: { period: 1, overbought: 120 } }
+      ]));
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual(expect.arrayContaining([
+        expect.objectContaining({ code: 'INVALID_INDICATOR_PARAMETER', field: 'indicators[0].parameters.period' }),
+        expect.objectContaining({ code: 'INVALID_INDICATOR_PARAMETER', field: 'indicators[0].parameters.overbought' })
+      ]));
+    });
+
+    test('should report parameters that conflict with each other', () => {
+      const result = engine.validateStrategy(createStrategy([
+        { name: 'rsi', type: 'RSI', parameters: { period: 14, overbought: 30, oversold: 70 } }
+      ]));
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContainEqual(expect.objectContaining({
+        code: 'INVALID_INDICATOR_PARAMETER',
+        message: 'Indicator "rsi": RSI oversold threshold must be below overbought threshold',
+        field: 'indicators[0].parameters'
+      }));
+    });
+
+    test('should require parameters without defaults', () => {
+      const result = engine.validateStrategy(createStrategy([
+        { name: 'sma', type: 'SMA', parameters: {} }
+      ]));
+
+      expect(result.errors).toContainEqual(expect.objectContaining({
+        code: 'INVALID_INDICATOR_PARAMETER',
+        message: "Indicator \"sma\": Parameter 'period' is required"
+      }));
+    });
+
+    test('should reject unknown sources', () => {
+      const result = engine.validateStrategy(createStrategy([
+        { name: 'ema', type: 'EMA', parameters: { period: 3 }, source: 'median' as any }
+      ]));
+
+      expect(result.errors).toContainEqual(expect.objectContaining({ field: 'indicators[0].source' }));
+    });
+
+    test('should warn about unused parameters', () => {
+      const result = engine.validateStrategy(createStrategy([
+        { name: 'atr', type: 'ATR', parameters: { period: 3, smoothing: 'wilder' } }
+      ]));
+
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).toContainEqual(expect.objectContaining({
+        code: 'UNKNOWN_INDICATOR_PARAMETER',
+        field: 'indicators[0].parameters.smoothing'
+      }));
+    });
+
+    test('should validate templated parameters after resolution', () => {
+      const result = engine.validateStrategy(createStrategy([
+        { name: 'sma', type: 'SMA', parameters: { period: '{{fast_period}}' } },
+        { name: 'ema', type: 'EMA', parameters: { period: '{{ parameters.missing }}' } }
+      ]));
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].field).toBe('indicators[1].parameters.period');
+    });
+
+    test('should construct indicators with all parameters and source', async () => {
+      const strategy = engine.loadStrategy(createStrategy([
+        { name: 'ema_high', type: 'EMA', parameters: { period: '{{fast_period}}' }, source: 'high' },
+        { name: 'rsi', type: 'RSI', parameters: { period: 2, overbought: 60, oversold: 40 } }
+      ]));
+
+      const ema = strategy.indicators.get('ema_high')!;
+      const rsi = strategy.indicators.get('rsi') as RelativeStrengthIndex;
+
+      expect(ema.getConfig()).toEqual(expect.objectContaining({ source: 'high', parameters: { period: 3 } }));
+      expect(rsi.getConfig().parameters).toEqual({ period: 2, overbought: 60, oversold: 40 });
+
+      for (const close of [10, 11, 12]) {
+        await engine.executeStrategy(strategy, createOHLCV(close, close + 5));
+      }
+
+      expect(ema.getValue()).toBeGreaterThan(15);
+      expect(rsi.isOverbought()).toBe(true);
+    });
+  });
+});
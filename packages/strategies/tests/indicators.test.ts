@@ -6,6 +6,13 @@
 import { SimpleMovingAverage } from '../src/indicators/simple-moving-average';
 import { ExponentialMovingAverage } from '../src/indicators/exponential-moving-average';
 import { RelativeStrengthIndex } from '../src/indicators/relative-strength-index';
+import { AverageTrueRange } from '../src/indicators/average-true-range';
+import { AverageDirectionalIndex } from '../src/indicators/average-directional-index';
+import { VolumeWeightedAveragePrice } from '../src/indicators/volume-weighted-average-price';
+import { OnBalanceVolume } from '../src/indicators/on-balance-volume';
+import { CommodityChannelIndex } from '../src/indicators/commodity-channel-index';
+import { WilliamsPercentR } from '../src/indicators/williams-percent-r';
+import { ParabolicSAR } from '../src/indicators/parabolic-sar';
 import { OHLCV } from '@jware-trader8/types';
 
 describe('Technical Indicators', () => {
@@ -152,6 +159,98 @@ describe('Technical Indicators', () => {
     });
   });
 
+  describe('OHLCV Indicators', () => {
+    // [high, low, close, volume]; first five bars on one session, last five on the next
+    const rawBars = [
+      [10, 8, 9, 100], [11, 9, 10, 150], [12, 10, 11, 200], [12, 9, 9, 120], [11, 8, 8, 180],
+      [13, 9, 12, 250], [14, 11, 13, 300], [15, 12, 14, 220], [14, 11, 12, 160], [13, 10, 11, 140]
+    ];
+    const bars: OHLCV[] = rawBars.map(([high, low, close, volume], index) => ({
+      timestamp: new Date(Date.UTC(2024, 0, index < 5 ? 2 : 3, 14 + (index % 5))),
+      open: close,
+      high,
+      low,
+      close,
+      volume
+    }));
+
+    const run = (indicator: { update(data: OHLCV): void; getValue(): number | null }): (number | null)[] =>
+      bars.map(bar => {
+        indicator.update(bar);
+        return indicator.getValue();
+      });
+
+    const expectSeries = (actual: (number | null)[], expected: (number | null)[]) => {
+      expect(actual).toHaveLength(expected.length);
+      expected.forEach((value, index) => {
+        if (value === null) {
+          expect(actual[index]).toBeNull();
+        } else {
+          expect(actual[index]).toBeCloseTo(value, 4);
+        }
+      });
+    };
+
+    test('should calculate ATR with Wilder smoothing', () => {
+      expectSeries(run(new AverageTrueRange(3)), [
+        null, null, 2, 2.3333, 2.5556, 3.3704, 3.2469, 3.1646, 3.1097, 3.0732
+      ]);
+    });
+
+    test('should calculate ADX and directional indicators', () => {
+      const adx = new AverageDirectionalIndex(3);
+      expectSeries(run(adx), [
+        null, null, null, null, null, 29.6296, 39.6184, 50.1877, 39.9087, 32.5975
+      ]);
+      expectSeries(adx.getOutputHistory('plus_di'), [
+        null, null, null, 28.5714, 17.3913, 28.5714, 30.038, 31.0793, 21.0851, 14.2241
+      ]);
+      expectSeries(adx.getOutputHistory('minus_di'), [
+        null, null, null, 14.2857, 21.7391, 10.989, 7.6046, 5.2016, 14.2479, 20.4583
+      ]);
+    });
+
+    test('should calculate session VWAP and reset on a new day', () => {
+      expectSeries(run(new VolumeWeightedAveragePrice()), [
+        9, 9.6, 10.2222, 10.1754, 9.8933, 11.3333, 12.0606, 12.5195, 12.4875, 12.3364
+      ]);
+    });
+
+    test('should calculate On-Balance Volume', () => {
+      expect(run(new OnBalanceVolume())).toEqual([0, 150, 350, 230, 50, 300, 600, 820, 660, 520]);
+    });
+
+    test('should calculate CCI', () => {
+      expectSeries(run(new CommodityChannelIndex(3)), [
+        null, null, 100, -50, -100, 100, 83.3333, 90.9091, -71.4286, -90.9091
+      ]);
+    });
+
+    test('should calculate Williams %R', () => {
+      expectSeries(run(new WilliamsPercentR(3)), [
+        null, null, -25, -100, -100, -20, -16.6667, -16.6667, -75, -80
+      ]);
+    });
+
+    test('should calculate Parabolic SAR with reversals', () => {
+      const psar = new ParabolicSAR(0.02, 0.2);
+      expectSeries(run(psar), [
+        null, 8, 8, 8.16, 12, 8, 8, 8.24, 8.6456, 9.0269
+      ]);
+      expect(psar.isLongTrend()).toBe(true);
+    });
+
+    test('should reset bar indicator state', () => {
+      const atr = new AverageTrueRange(3);
+      run(atr);
+      atr.reset();
+
+      expect(atr.getValue()).toBeNull();
+      expect(atr.isReady()).toBe(false);
+      expectSeries(run(atr).slice(0, 3), [null, null, 2]);
+    });
+  });
+
   describe('Indicator Base Functionality', () => {
     test('should maintain correct history length', () => {
       const sma = new SimpleMovingAverage(3);
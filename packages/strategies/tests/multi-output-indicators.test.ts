@@ -0,0 +1,192 @@
+/**
+ * Tests for multi-output indicators
+ */
+
+import { BollingerBands } from '../src/indicators/bollinger-bands';
+import { MovingAverageConvergenceDivergence } from '../src/indicators/moving-average-convergence-divergence';
+import { StochasticOscillator } from '../src/indicators/stochastic-oscillator';
+import { KeltnerChannels } from '../src/indicators/keltner-channels';
+import { isMultiOutputIndicator } from '../src/indicators/multi-output-indicator';
+import { SimpleMovingAverage } from '../src/indicators/simple-moving-average';
+import { StrategyEngine } from '../src/engine/strategy-engine';
+import { OHLCV, StrategyConfig } from '@jware-trader8/types';
+
+describe('Multi-Output Indicators', () => {
+  const createOHLCV = (close: number, high: number = close, low: number = close): OHLCV => ({
+    timestamp: new Date(),
+    open: close,
+    high,
+    low,
+    close,
+    volume: 1000
+  });
+
+  const bars: OHLCV[] = [
+    createOHLCV(9, 10, 8),
+    createOHLCV(10, 11, 9),
+    createOHLCV(11, 12, 10),
+    createOHLCV(9, 12, 9)
+  ];
+
+  describe('BollingerBands', () => {
+    test('should calculate bands around the SMA', () => {
+      const bb = new BollingerBands(3, 2);
+      [1, 2, 3].forEach(price => bb.update(createOHLCV(price)));
+
+      expect(bb.getOutputValue('middle')).toBeCloseTo(2);
+      expect(bb.getOutputValue('upper')).toBeCloseTo(3.63299, 4);
+      expect(bb.getOutputValue('lower')).toBeCloseTo(0.36701, 4);
+      expect(bb.getValue()).toBeCloseTo(2);
+      expect(bb.isReady()).toBe(true);
+    });
+
+    test('should return null outputs until a full period is seen', () => {
+      const bb = new BollingerBands(3);
+      bb.update(createOHLCV(1));
+
+      expect(bb.getOutputValue('upper')).toBeNull();
+      expect(bb.isReady()).toBe(false);
+    });
+  });
+
+  describe('MovingAverageConvergenceDivergence', () => {
+    test('should calculate line, signal and histogram', () => {
+      const macd = new MovingAverageConvergenceDivergence(2, 3, 2);
+      [1, 2, 3, 4].forEach(price => macd.update(createOHLCV(price)));
+
+      expect(macd.getOutputValue('line')).toBeCloseTo(0.39352, 4);
+      expect(macd.getOutputValue('signal')).toBeCloseTo(0.36420, 4);
+      expect(macd.getOutputValue('histogram')).toBeCloseTo(0.02932, 4);
+      expect(macd.getOutputValue('line', 1)).toBeCloseTo(0.30556, 4);
+      expect(macd.getOutputValue('signal', 1)).toBeNull();
+    });
+
+    test('should reject a fast period longer than the slow period', () => {
+      expect(() => new MovingAverageConvergenceDivergence(26, 12, 9)).toThrow();
+    });
+  });
+
+  describe('StochasticOscillator', () => {
+    test('should calculate %K and %D from highs and lows', () => {
+      const stoch = new StochasticOscillator(3, 2);
+      bars.forEach(bar => stoch.update(bar));
+
+      expect(stoch.getOutputHistory('k')).toEqual([null, null, 75, 0]);
+      expect(stoch.getOutputValue('d')).toBeCloseTo(37.5);
+      expect(stoch.isReady()).toBe(true);
+    });
+  });
+
+  describe('KeltnerChannels', () => {
+    test('should calculate channels from EMA and ATR', () => {
+      const keltner = new KeltnerChannels(2, 1, 2);
+      bars.slice(0, 2).forEach(bar => keltner.update(bar));
+
+      expect(keltner.getOutputValue('middle')).toBeCloseTo(9.66667, 4);
+      expect(keltner.getOutputValue('upper')).toBeCloseTo(11.66667, 4);
+      expect(keltner.getOutputValue('lower')).toBeCloseTo(7.66667, 4);
+    });
+  });
+
+  describe('Output access', () => {
+    test('should reset all outputs', () => {
+      const bb = new BollingerBands(2);
+      [1, 2, 3].forEach(price => bb.update(createOHLCV(price)));
+      bb.reset();
+
+      expect(bb.getOutputHistory('upper')).toEqual([]);
+      expect(bb.getHistory()).toEqual([]);
+    });
+
+    test('should throw for unknown outputs', () => {
+      expect(() => new BollingerBands().getOutputValue('signal')).toThrow("Unknown output 'signal'");
+    });
+
+    test('should distinguish multi-output indicators', () => {
+      expect(isMultiOutputIndicator(new BollingerBands())).toBe(true);
+      expect(isMultiOutputIndicator(new SimpleMovingAverage(3))).toBe(false);
+    });
+  });
+
+  describe('Strategy conditions', () => {
+    const strategyConfig: StrategyConfig = {
+      name: 'Bollinger Reversion',
+      description: 'Buys below the lower band',
+      version: '1.0.0',
+      parameters: {
+        symbol: 'BTCUSD',
+        timeframe: '1h',
+        positionSize: 0.1
+      },
+      indicators: [
+        { name: 'bb', type: 'BB', parameters: { period: 3, stdDev: 1 }, source: 'close' }
+      ],
+      signals: {
+        buy: [
+          {
+            id: 'below_lower',
+            description: 'Close below lower band',
+            condition: 'close < bb.lower',
+            action: 'BUY',
+            priority: 1
+          }
+        ],
+        sell: [
+          {
+            id: 'above_upper',
+            description: 'Close above upper band',
+            condition: 'close > bb.upper',
+            action: 'SELL',
+            priority: 1
+          }
+        ]
+      },
+      riskManagement: {
+        maxPositionSize: 0.1,
+        stopLoss: 0.02,
+        takeProfit: 0.05
+      }
+    };
+
+    test('should evaluate named outputs in conditions', async () => {
+      const engine = new StrategyEngine();
+      const strategy = engine.loadStrategy(strategyConfig);
+
+      expect(strategy.buyConditions[0].requiredIndicators).toEqual(['bb']);
+
+      const signals = [];
+      for (const close of [10, 10, 10, 10, 4]) {
+        signals.push(...await engine.executeStrategy(strategy, createOHLCV(close)));
+      }
+
+      expect(signals).toHaveLength(1);
+      expect(signals[0].type).toBe('BUY');
+    });
+
+    test('should reject outputs the indicator does not publish', () => {
+      const engine = new StrategyEngine();
+      const config: StrategyConfig = JSON.parse(JSON.stringify(strategyConfig));
+      config.signals.buy[0].condition = 'close < bb.histogram';
+
+      expect(() => engine.loadStrategy(config)).toThrow("Indicator 'bb' has no output 'histogram'");
+    });
+
+    test('should report unknown outputs as invalid conditions when validating', () => {
+      const engine = new StrategyEngine();
+      const config: StrategyConfig = JSON.parse(JSON.stringify(strategyConfig));
+      config.signals.sell[0].condition = 'close > bb.uppr';
+
+      const validation = engine.validateStrategy(config);
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toEqual([
+        expect.objectContaining({
+          code: 'INVALID_CONDITION',
+          field: 'signals.sell[0].condition',
+          column: 9,
+          message: expect.stringContaining("Indicator 'bb' has no output 'uppr' (available: upper, middle, lower)")
+        })
+      ]);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Tests for short entry and cover signals
+ */
+
+import { StrategyEngine } from '../src/engine/strategy-engine';
+import { OHLCV, StrategyConfig } from '@jware-trader8/types';
+
+describe('Short Signals', () => {
+  const createOHLCV = (close: number): OHLCV => ({
+    timestamp: new Date(),
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 1000
+  });
+
+  const createStrategy = (signals: Partial<StrategyConfig['signals']>): StrategyConfig => ({
+    name: 'Short Test',
+    description: 'Short entries and covers',
+    version: '1.0.0',
+    parameters: {
+      symbol: 'ETHUSD',
+      timeframe: '1h',
+      positionSize: 0.2
+    },
+    indicators: [{ name: 'sma', type: 'SMA', parameters: { period: 2 } }],
+    signals: {
+      buy: [],
+      sell: [],
+      ...signals
+    },
+    riskManagement: {
+      maxPositionSize: 0.2
+    }
+  });
+
+  let engine: StrategyEngine;
+
+  beforeEach(() => {
+    engine = new StrategyEngine();
+  });
+
+  test('should emit SHORT and COVER signals', async () => {
+    const strategy = engine.loadStrategy(createStrategy({
+      short: [{ id: 'breakdown', description: 'Falling close', condition: 'close < close[-1]', action: 'SHORT', priority: 1 }],
+      cover: [{ id: 'rebound', description: 'Rising close', condition: 'close > close[-1]', action: 'COVER', priority: 2 }]
+    }));
+
+    const signals = [];
+    for (const close of [100, 90, 95]) {
+      signals.push(...await engine.executeStrategy(strategy, createOHLCV(close)));
+    }
+
+    expect(signals).toEqual([
+      expect.objectContaining({ type: 'SHORT', price: 90, quantity: 0.2, reason: 'Falling close' }),
+      expect.objectContaining({ type: 'COVER', price: 95, reason: 'Rising close' })
+    ]);
+    expect(signals[1].quantity).toBeUndefined();
+  });
+
+  test('should validate short and cover conditions', () => {
+    const result = engine.validateStrategy(createStrategy({
+      cover: [{ id: 'cover', description: 'Cover', condition: 'close > missing', action: 'COVER' }]
+    }));
+
+    expect(result.errors).toContainEqual(expect.objectContaining({
+      code: 'UNKNOWN_INDICATOR',
+      field: 'signals.cover[0].condition'
+    }));
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Tests for Strategy Runner
+ * Runs a compiled strategy end to end against a replayed bar feed and the mock trading provider
+ */
+
+import { StrategyRunner } from '../src/runner/strategy-runner';
+import { StrategyEngine } from '../src/engine/strategy-engine';
+import { IDataProvider, MockTradingProvider, OrderManager, RiskManager } from '@jware-trader8/core';
+import { CompiledStrategy, MarketDataEvent, OHLCV, StrategyConfig } from '@jware-trader8/types';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 2, 0, 0, 0);
+
+const createBar = (index: number, close: number): OHLCV => ({
+  timestamp: new Date(START + index * HOUR),
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: 1000
+});
+
+/**
+ * Data provider replaying bars: history from a fixed series and a bar stream pushed by the test
+ */
+class ReplayDataProvider {
+  history: OHLCV[] = [];
+  streaming = true;
+  unsubscribed: string[] = [];
+  private callback?: (event: MarketDataEvent) => void;
+
+  async getHistoricalData(symbol: string, timeframe: string, startDate: Date, endDate: Date): Promise<OHLCV[]> {
+    return this.history.filter(bar => bar.timestamp >= startDate && bar.timestamp <= endDate);
+  }
+
+  async subscribe(symbols: string[], dataTypes: string[], callback: (event: MarketDataEvent) => void) {
+    if (!this.streaming) {
+      throw new Error('ReplayDataProvider does not support real-time subscriptions');
+    }
+    this.callback = callback;
+    return { id: 'replay-1', symbols, dataTypes, status: 'ACTIVE', timestamp: new Date() };
+  }
+
+  async unsubscribe(subscriptionId: string): Promise<void> {
+    this.unsubscribed.push(subscriptionId);
+    this.callback = undefined;
+  }
+
+  emit(bar: OHLCV, symbol: string = 'TEST'): void {
+    this.callback?.({ type: 'BAR', symbol, data: bar, timestamp: bar.timestamp });
+  }
+}
+
+describe('StrategyRunner', () => {
+  let engine: StrategyEngine;
+  let dataProvider: ReplayDataProvider;
+  let tradingProvider: MockTradingProvider;
+  let runner: StrategyRunner;
+  let strategy: CompiledStrategy;
+  let strategyId: string;
+
+  const strategyConfig: StrategyConfig = {
+    name: 'Breakout',
+    parameters: {
+      symbol: 'TEST',
+      timeframe: '1h',
+      positionSize: 0.5
+    },
+    indicators: [
+      { name: 'sma_fast', type: 'SMA', parameters: { period: 2 }, source: 'close' }
+    ],
+    signals: {
+      buy: [{ id: 'breakout', description: 'Close above 105', condition: 'close > 105', action: 'BUY' }],
+      sell: [{ id: 'breakdown', description: 'Close below 95', condition: 'close < 95', action: 'SELL' }]
+    },
+    riskManagement: { maxPositionSize: 0.5 }
+  };
+
+  beforeEach(async () => {
+    engine = new StrategyEngine();
+    dataProvider = new ReplayDataProvider();
+    tradingProvider = new MockTradingProvider({ name: 'mock', apiConfig: { apiKey: 'test' } });
+    await tradingProvider.connect();
+    runner = new StrategyRunner(engine, dataProvider as unknown as IDataProvider, tradingProvider, { warmupBars: 0 });
+    strategy = engine.loadStrategy(strategyConfig);
+    strategyId = strategy.id;
+  });
+
+  afterEach(async () => {
+    for (const status of runner.getRunningStrategies()) {
+      await runner.stop(status.strategyId);
+    }
+    jest.useRealTimers();
+    await tradingProvider.disconnect();
+  });
+
+  test('should turn streamed bars into orders on the trading provider', async () => {
+    await runner.start(strategy);
+    expect(runner.getStatus(strategyId).status).toBe('RUNNING');
+
+    [100, 106, 104, 107, 94].forEach((close, i) => dataProvider.emit(createBar(i, close)));
+    // Pausing waits for the bars already received
+    await runner.pause(strategyId);
+
+    const orders = runner.getOrderManager().getOrders();
+    expect(orders.map(managed => [managed.context.side, managed.context.quantity])).toEqual([
+      ['BUY', 47], // 10000 * 0.5 / 106
+      ['SELL', 47]
+    ]);
+    expect(orders[0].context).toMatchObject({ orderType: 'MARKET', strategyName: 'Breakout', reason: 'Close above 105' });
+    expect(await tradingProvider.getPositions()).toEqual([]);
+
+    const status = runner.getStatus(strategyId);
+    // The second breakout is ignored while the position is open
+    expect(status.totalSignals).toBe(3);
+    expect(status.errorCount).toBe(0);
+    expect(status.lastSignal).toBeInstanceOf(Date);
+  });
+
+  test('should keep indicators current but not trade while paused', async () => {
+    await runner.start(strategy);
+    await runner.pause(strategyId);
+
+    dataProvider.emit(createBar(0, 106));
+    await runner.resume(strategyId);
+    dataProvider.emit(createBar(1, 100));
+    await runner.pause(strategyId);
+
+    expect(runner.getOrderManager().getOrders()).toHaveLength(0);
+    expect(strategy.history?.size).toBe(2);
+  });
+
+  test('should trade bars received before a pause even if they are still queued', async () => {
+    await runner.start(strategy);
+
+    dataProvider.emit(createBar(0, 100));
+    const paused = runner.pause(strategyId);
+    dataProvider.emit(createBar(1, 106));
+    await paused;
+    dataProvider.emit(createBar(2, 94));
+    // Stopping waits for the bar in progress
+    await runner.stop(strategyId);
+
+    // The breakout was received while running; the breakdown arrived once paused
+    expect(runner.getOrderManager().getOrders().map(managed => managed.context.side)).toEqual(['BUY']);
+  });
+
+  test('should skip short entries on cash accounts', async () => {
+    const shortStrategy = engine.loadStrategy({
+      ...strategyConfig,
+      name: 'Breakdown',
+      signals: {
+        ...strategyConfig.signals,
+        short: [{ id: 'short', description: 'Close below 95', condition: 'close < 95', action: 'SHORT' }],
+        cover: [{ id: 'cover', description: 'Close above 105', condition: 'close > 105', action: 'COVER' }]
+      }
+    });
+    const account = await tradingProvider.getAccount();
+    jest.spyOn(tradingProvider, 'getAccount').mockResolvedValue({ ...account, accountType: 'CASH' });
+    await runner.start(shortStrategy);
+
+    dataProvider.emit(createBar(0, 94));
+    await runner.pause(shortStrategy.id);
+
+    const status = runner.getStatus(shortStrategy.id);
+    expect(runner.getOrderManager().getOrders()).toEqual([]);
+    expect(status.errorCount).toBe(0);
+  });
+
+  test('should ignore duplicate, stale and foreign bars', async () => {
+    await runner.start(strategy);
+
+    dataProvider.emit(createBar(1, 106));
+    dataProvider.emit(createBar(1, 106));
+    dataProvider.emit(createBar(0, 106));
+    dataProvider.emit(createBar(2, 106), 'OTHER');
+    await runner.pause(strategyId);
+
+    expect(strategy.history?.size).toBe(1);
+    expect(runner.getStatus(strategyId).totalSignals).toBe(1);
+  });
+
+  test('should warm up on history without trading it', async () => {
+    jest.useFakeTimers({ now: START + 10 * HOUR, doNotFake: ['nextTick', 'setImmediate'] });
+    dataProvider.history = [100, 106, 107].map((close, i) => createBar(i + 7, close));
+    runner = new StrategyRunner(engine, dataProvider as unknown as IDataProvider, tradingProvider, { warmupBars: 5 });
+    const execute = jest.spyOn(engine, 'executeStrategy');
+
+    await runner.start(strategy);
+    // Replaying the last warm-up bar again is ignored
+    dataProvider.emit(createBar(9, 107));
+    await runner.pause(strategyId);
+
+    expect(execute).toHaveBeenCalledTimes(3);
+    expect(strategy.indicators.get('sma_fast').getValue()).toBe(106.5);
+    expect(runner.getOrderManager().getOrders()).toHaveLength(0);
+  });
+
+  test('should poll for closed bars when the provider cannot stream', async () => {
+    jest.useFakeTimers({ now: START + 2 * HOUR, doNotFake: ['nextTick', 'setImmediate'] });
+    dataProvider.streaming = false;
+    dataProvider.history = [100, 106, 104].map((close, i) => createBar(i, close));
+    runner = new StrategyRunner(engine, dataProvider as unknown as IDataProvider, tradingProvider, { warmupBars: 0 });
+
+    await runner.start(strategy);
+    // The first poll looks back two periods: bar 1 has closed and bar 2 is still forming
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+    expect(strategy.history?.size).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(HOUR);
+    await runner.pause(strategyId);
+
+    expect(strategy.history?.size).toBe(2);
+    expect(runner.getOrderManager().getOrders().map(managed => managed.context.side)).toEqual(['BUY']);
+  });
+
+  test('should stop the feed and report the strategy as stopped', async () => {
+    await runner.start(strategy);
+    await expect(runner.start(strategy)).rejects.toThrow('is already running');
+
+    await runner.stop(strategyId);
+    dataProvider.emit(createBar(0, 106));
+
+    expect(dataProvider.unsubscribed).toEqual(['replay-1']);
+    expect(runner.getStatus(strategyId).status).toBe('STOPPED');
+    expect(runner.getRunningStrategies()).toEqual([]);
+    await expect(runner.pause(strategyId)).rejects.toThrow('is not running');
+    expect(() => runner.getStatus('unknown')).toThrow('Strategy not found: unknown');
+  });
+
+  test('should skip signals rejected by risk checks without counting errors', async () => {
+    const orderManager = new OrderManager(tradingProvider, new RiskManager(tradingProvider, { maxPositions: 0 }));
+    runner = new StrategyRunner(engine, dataProvider as unknown as IDataProvider, tradingProvider, {
+      warmupBars: 0,
+      orderManager
+    });
+
+    await runner.start(strategy);
+    dataProvider.emit(createBar(0, 106));
+    await runner.pause(strategyId);
+
+    expect(orderManager.getOrders()).toHaveLength(0);
+    expect(runner.getStatus(strategyId)).toMatchObject({ status: 'PAUSED', totalSignals: 1, errorCount: 0 });
+  });
+
+  test('should halt with ERROR status after repeated order failures', async () => {
+    runner = new StrategyRunner(engine, dataProvider as unknown as IDataProvider, tradingProvider, {
+      warmupBars: 0,
+      maxConsecutiveErrors: 2
+    });
+    tradingProvider.setMockBalance(10000, 10);
+    jest.spyOn(tradingProvider, 'getAccount').mockResolvedValue({
+      id: 'mock', balance: 1000000, buyingPower: 1000000, positions: []
+    });
+
+    await runner.start(strategy);
+    dataProvider.emit(createBar(0, 106));
+    dataProvider.emit(createBar(1, 107));
+    await runner.pause(strategyId).catch(() => undefined);
+
+    const status = runner.getStatus(strategyId);
+    expect(status.status).toBe('ERROR');
+    expect(status.errorCount).toBe(2);
+    expect(dataProvider.unsubscribed).toEqual(['replay-1']);
+  });
+});
@@ -17,8 +17,22 @@ export interface PortfolioConfig {
   slippageRate?: number;
   /** Maximum position size as percentage of portfolio */
   maxPositionSize?: number;
+  /** Maximum number of concurrently open positions */
+  maxPositions?: number;
   /** Risk management settings */
   riskManagement?: RiskManagementConfig;
+  /** Short selling settings; shorts are rejected when absent */
+  shortSelling?: ShortSellingConfig;
+}
+
+/**
+ * Short selling configuration
+ */
+export interface ShortSellingConfig {
+  /** Margin held against short positions as a fraction of their market value (e.g. 0.5) */
+  marginRequirement: number;
+  /** Annual borrow fee rate charged daily on short market value */
+  borrowFeeRate?: number;
 }
 
 /**
@@ -35,6 +49,36 @@ export interface RiskManagementConfig {
   positionSizing?: 'FIXED' | 'PERCENT' | 'VOLATILITY';
 }
 
+/**
+ * When market orders are filled relative to the bar that produced the signal
+ */
+export type FillTiming = 'SIGNAL_CLOSE' | 'NEXT_BAR_OPEN';
+
+/**
+ * Slippage model configuration
+ */
+export interface SlippageModelConfig {
+  /** Slippage method */
+  type: 'NONE' | 'FIXED' | 'PERCENT' | 'VOLUME';
+  /**
+   * Price units per fill for FIXED, fraction of price for PERCENT,
+   * fraction of price per unit of bar volume participation for VOLUME
+   */
+  amount: number;
+}
+
+/**
+ * Order fill simulation settings
+ */
+export interface FillModelConfig {
+  /** Market order fill timing (default SIGNAL_CLOSE) */
+  timing?: FillTiming;
+  /** Slippage applied to market and stop fills (default from portfolio slippageRate) */
+  slippage?: SlippageModelConfig;
+  /** Maximum fraction of bar volume a single fill may take; the rest stays pending */
+  maxVolumeParticipation?: number;
+}
+
 /**
  * Backtesting execution configuration
  */
@@ -47,10 +91,24 @@ export interface BacktestExecutionConfig {
   endDate: Date;
   /** Benchmark symbol for comparison */
   benchmark?: string;
+  /** Benchmark bars used to build a buy-and-hold comparison curve */
+  benchmarkData?: OHLCV[];
   /** Whether to include transaction costs */
   includeCosts: boolean;
+  /** Order fill simulation settings */
+  fillModel?: FillModelConfig;
 }
 
+/**
+ * Historical bars for a basket of instruments, keyed by symbol
+ */
+export type MultiSymbolData = Record<string, OHLCV[]>;
+
+/**
+ * Creates an independent strategy instance for one symbol of a basket
+ */
+export type StrategyFactory = (symbol: string) => any;
+
 /**
  * Portfolio state snapshot
  */
@@ -103,6 +161,50 @@ export interface PerformanceMetrics {
   averageLoss: number;
   /** Volatility (annual) */
   volatility: number;
+  /** Sortino ratio */
+  sortinoRatio: number;
+  /** Calmar ratio (annualized return / max drawdown) */
+  calmarRatio: number;
+  /** Omega ratio at a zero return threshold */
+  omegaRatio: number;
+  /** Ulcer index (root mean square drawdown) */
+  ulcerIndex: number;
+  /** Ratio of the 95th to the absolute 5th percentile return */
+  tailRatio: number;
+  /** Historical 95% value at risk per period */
+  valueAtRisk: number;
+  /** Historical 95% conditional value at risk per period */
+  conditionalValueAtRisk: number;
+  /** Longest time from a peak to a new high (days) */
+  longestDrawdownDuration: number;
+  /** Longest time from a drawdown trough back to its peak (days) */
+  longestRecoveryTime: number;
+  /** Expected P&L per trade */
+  expectancy: number;
+  /** System quality number */
+  systemQualityNumber: number;
+  /** Longest winning streak */
+  maxConsecutiveWins: number;
+  /** Longest losing streak */
+  maxConsecutiveLosses: number;
+  /** Average trade holding period (days) */
+  averageHoldingPeriod: number;
+  /** Fraction of the backtest with an open position */
+  exposure: number;
+  /** Annualized excess return over the beta-adjusted benchmark return (percentage) */
+  alpha?: number;
+  /** Sensitivity of strategy returns to benchmark returns */
+  beta?: number;
+  /** Correlation of strategy and benchmark returns */
+  correlation?: number;
+  /** Annualized standard deviation of active returns (percentage) */
+  trackingError?: number;
+  /** Annualized active return divided by tracking error */
+  informationRatio?: number;
+  /** Strategy return captured in rising benchmark periods (percentage) */
+  upCapture?: number;
+  /** Strategy return captured in falling benchmark periods (percentage) */
+  downCapture?: number;
 }
 
 /**
@@ -125,6 +227,58 @@ export interface EquityCurvePoint {
   drawdown: number;
 }
 
+/**
+ * Benchmark buy-and-hold value aligned to an equity curve point
+ */
+export interface BenchmarkCurvePoint {
+  /** Timestamp of the matching equity curve point */
+  timestamp: Date;
+  /** Latest benchmark close at or before the timestamp */
+  price: number;
+  /** Value of the initial capital held in the benchmark */
+  totalValue: number;
+}
+
+/**
+ * Benchmark comparison data
+ */
+export interface BenchmarkResult {
+  /** Benchmark symbol */
+  symbol: string;
+  /** Buy-and-hold curve aligned to the strategy equity curve */
+  equityCurve: BenchmarkCurvePoint[];
+  /** Benchmark total return percentage */
+  totalReturn: number;
+}
+
+/**
+ * Per-symbol performance breakdown
+ */
+export interface SymbolPerformance {
+  /** Trading symbol */
+  symbol: string;
+  /** Bars processed for the symbol */
+  dataPoints: number;
+  /** Number of closed trades */
+  totalTrades: number;
+  /** Number of winning trades */
+  winningTrades: number;
+  /** Number of losing trades */
+  losingTrades: number;
+  /** Win rate percentage */
+  winRate: number;
+  /** Net P&L after commissions */
+  totalPnL: number;
+  /** Commissions paid */
+  totalCommission: number;
+  /** Average trade P&L */
+  averageTradeReturn: number;
+  /** Best trade P&L */
+  bestTrade: number;
+  /** Worst trade P&L */
+  worstTrade: number;
+}
+
 /**
  * Backtest result
  */
@@ -137,6 +291,12 @@ export interface BacktestResult {
   equityCurve: EquityCurvePoint[];
   /** Final portfolio state */
   finalPortfolio: PortfolioSnapshot;
+  /** Performance broken down by symbol */
+  symbolBreakdown: SymbolPerformance[];
+  /** Fill model used, with defaults resolved */
+  fillModel: FillModelConfig;
+  /** Benchmark comparison, present when benchmark data was supplied */
+  benchmark?: BenchmarkResult;
   /** Backtest configuration used */
   config: BacktestExecutionConfig;
   /** Metadata */
@@ -147,6 +307,8 @@ export interface BacktestResult {
     executionTime: number;
     /** Data points processed */
     dataPoints: number;
+    /** Symbols traded */
+    symbols: string[];
     /** Start date */
     startDate: Date;
     /** End date */
@@ -154,6 +316,136 @@ export interface BacktestResult {
   };
 }
 
+/**
+ * Calendar returns for one year
+ */
+export interface CalendarYearReturns {
+  /** Calendar year */
+  year: number;
+  /** Return per month as decimal, January first; null for months outside the backtest */
+  months: Array<number | null>;
+  /** Compounded return for the year as decimal */
+  total: number;
+}
+
+/**
+ * Drawdown period with calendar dates
+ */
+export interface DrawdownReportEntry {
+  /** Peak the drawdown started from */
+  start: Date;
+  /** Lowest point of the drawdown */
+  trough: Date;
+  /** Date the peak was regained, null if never recovered */
+  recovery: Date | null;
+  /** Depth as decimal (0-1) */
+  depth: number;
+  /** Days from peak to recovery, or to the end of the backtest */
+  length: number;
+}
+
+/**
+ * Rolling Sharpe ratio series for one window length
+ */
+export interface RollingSharpeSeries {
+  /** Window length in days */
+  windowDays: number;
+  /** Annualized Sharpe ratio at each day once the window is filled */
+  points: Array<{ timestamp: Date; sharpeRatio: number | null }>;
+}
+
+/**
+ * Backtest report options
+ */
+export interface BacktestReportOptions {
+  /** Number of drawdown periods to list (default 5) */
+  topDrawdowns?: number;
+  /** Rolling Sharpe window lengths in days (default 30 and 90) */
+  rollingWindows?: number[];
+}
+
+/**
+ * Report derived from a backtest equity curve
+ */
+export interface BacktestReport {
+  /** Month-by-year returns */
+  calendarReturns: CalendarYearReturns[];
+  /** Deepest drawdown periods, deepest first */
+  drawdowns: DrawdownReportEntry[];
+  /** Rolling Sharpe ratios per window */
+  rollingSharpe: RollingSharpeSeries[];
+}
+
+/**
+ * Monte Carlo trade resampling options
+ */
+export interface MonteCarloOptions {
+  /** Number of simulated trade sequences (default 1000) */
+  iterations?: number;
+  /** shuffle reorders the trades without replacement, bootstrap draws them with replacement (default shuffle) */
+  method?: 'shuffle' | 'bootstrap';
+  /** Fraction of trades randomly left out of each sequence (0-1, default 0) */
+  skipRate?: number;
+  /** Loss from initial capital that counts as ruin (0-1, default 0.5) */
+  ruinThreshold?: number;
+  /** Percentiles to report as fractions (default 0.05, 0.25, 0.5, 0.75, 0.95) */
+  percentiles?: number[];
+  /** Random seed for reproducible runs */
+  seed?: number;
+}
+
+/**
+ * Distribution of one simulated statistic
+ */
+export interface MonteCarloDistribution {
+  /** Mean across simulations */
+  mean: number;
+  /** Standard deviation across simulations */
+  standardDeviation: number;
+  /** Lowest simulated value */
+  min: number;
+  /** Highest simulated value */
+  max: number;
+  /** Value at each requested percentile, in the order requested */
+  percentiles: Array<{ percentile: number; value: number }>;
+}
+
+/**
+ * Equity percentiles after a number of simulated trades
+ */
+export interface MonteCarloEquityBand {
+  /** Trades taken so far */
+  trade: number;
+  /** Equity at each requested percentile, in the order requested */
+  values: number[];
+}
+
+/**
+ * Monte Carlo simulation result
+ */
+export interface MonteCarloResult {
+  /** Simulations run */
+  iterations: number;
+  /** Resampling method used */
+  method: 'shuffle' | 'bootstrap';
+  /** Trades in each simulated sequence */
+  tradeCount: number;
+  /** Starting capital of every sequence */
+  initialCapital: number;
+  /** Final equity across simulations */
+  finalEquity: MonteCarloDistribution;
+  /** Maximum drawdown (0-1) across simulations */
+  maxDrawdown: MonteCarloDistribution;
+  /** Share of simulations that lost ruinThreshold of the initial capital */
+  riskOfRuin: number;
+  /** 95% confidence interval of the risk of ruin */
+  riskOfRuinInterval: { lower: number; upper: number };
+  /** Equity percentile bands by trade number, starting at 0, from at most the first 10,000 simulations */
+  equityBands: MonteCarloEquityBand[];
+  /** The backtest's own trade sequence, for comparison */
+  original: { finalEquity: number; maxDrawdown: number };
+}
+
 /**
  * Trade execution context
  */
@@ -184,14 +476,20 @@ export interface IPortfolio {
   /** Check if can buy given symbol/quantity */
   canBuy(symbol: string, price: number, quantity: number): boolean;
   
+  /** Check if can sell short given symbol/quantity */
+  canShort(symbol: string, price: number, quantity: number): boolean;
+  
   /** Check if has position in symbol */
   hasPosition(symbol: string): boolean;
   
   /** Open a new position */
   openPosition(symbol: string, price: number, quantity: number, timestamp: Date): Trade;
   
-  /** Close an existing position */
-  closePosition(symbol: string, price: number, timestamp: Date): Trade;
+  /** Open or add to a short position */
+  openShortPosition(symbol: string, price: number, quantity: number, timestamp: Date): Trade;
+  
+  /** Close an existing position, or part of it when quantity is given */
+  closePosition(symbol: string, price: number, timestamp: Date, quantity?: number): Trade;
   
   /** Apply risk management rules */
   applyRiskManagement(currentPrices: Map<string, number>, timestamp: Date): Trade[];
@@ -204,17 +502,97 @@ export interface IPortfolio {
  * Backtesting engine interface
  */
 export interface IBacktestEngine {
-  /** Run backtest with strategy and historical data */
+  /**
+   * Run backtest with strategy and historical data
+   * Multi-symbol data needs a strategy factory so each symbol keeps its own state
+   */
   runBacktest(
-    strategy: any,
-    historicalData: OHLCV[],
+    strategy: any | StrategyFactory,
+    historicalData: OHLCV[] | MultiSymbolData,
     config: BacktestExecutionConfig
   ): Promise<BacktestResult>;
   
-  /** Calculate performance metrics from trades and equity curve */
+  /** Calculate performance metrics from trades and equity curve, relative to a benchmark when given */
   calculatePerformanceMetrics(
     trades: Trade[],
     equityCurve: EquityCurvePoint[],
-    initialValue: number
+    initialValue: number,
+    benchmarkCurve?: BenchmarkCurvePoint[]
   ): PerformanceMetrics;
-}
\ No newline at end of file
+}
+/**
+ * Saved backtest run as listed, without trades or equity curve
+ */
+export interface BacktestRunSummary {
+  /** Run identifier */
+  id: string;
+  /** Strategy name */
+  strategyName: string;
+  /** SHA-256 of the strategy file the run used */
+  strategyHash: string;
+  /** Symbols traded */
+  symbols: string[];
+  /** Bar timeframe, if known */
+  timeframe?: string;
+  /** First date of the backtest */
+  startDate: Date;
+  /** Last date of the backtest */
+  endDate: Date;
+  /** Starting capital */
+  initialCapital: number;
+  /** Summary performance metrics */
+  summary: PerformanceMetrics;
+  /** When the run was saved */
+  createdAt: Date;
+}
+
+/**
+ * Saved backtest run with its configuration, trades and equity curve
+ */
+export interface StoredBacktestRun extends BacktestRunSummary {
+  /** Backtest configuration, without benchmark bars */
+  config: BacktestExecutionConfig;
+  /** Closed trades */
+  trades: Trade[];
+  /** Equity curve, downsampled when saved */
+  equityCurve: EquityCurvePoint[];
+}
+
+/**
+ * Options for saving a backtest run
+ */
+export interface SaveBacktestOptions {
+  /** Bar timeframe of the data */
+  timeframe?: string;
+  /** Maximum equity curve points to keep (default 500) */
+  maxEquityPoints?: number;
+}
+
+/**
+ * Filter for listing saved backtest runs
+ */
+export interface BacktestRunFilter {
+  /** Filter by strategy name */
+  strategyName?: string;
+  /** Filter by traded symbol */
+  symbol?: string;
+  /** Maximum number of results */
+  limit?: number;
+}
+
+/**
+ * Backtest run store interface for persistence
+ */
+export interface IBacktestStore {
+  /** Save a backtest run with the strategy source it ran; returns the run id */
+  saveBacktest(result: BacktestResult, strategySource: string, options?: SaveBacktestOptions): Promise<string>;
+
+  /** List saved runs, newest first */
+  listBacktests(filter?: BacktestRunFilter): Promise<BacktestRunSummary[]>;
+
+  /** Get a saved run, or null if there is none with the id */
+  getBacktest(id: string): Promise<StoredBacktestRun | null>;
+
+  /** Delete a saved run; returns whether it existed */
+  deleteBacktest(id: string): Promise<boolean>;
+}
@@ -170,4 +170,67 @@ export interface MarketDataEvent {
   data: Quote | Trade | OHLCV;
   /** Event timestamp */
   timestamp: Date;
-}
\ No newline at end of file
+}
+/**
+ * Run of bars missing from a stored OHLCV series
+ */
+export interface OHLCVGap {
+  /** Expected timestamp of the first missing bar */
+  start: Date;
+  /** Expected timestamp of the last missing bar */
+  end: Date;
+  /** Number of bars missing */
+  missingBars: number;
+}
+
+/**
+ * Gap detection options
+ */
+export interface OHLCVGapOptions {
+  /** Also report missing bars between this date and the first stored bar */
+  startDate?: Date;
+  /** Also report missing bars between the last stored bar and this date */
+  endDate?: Date;
+  /** Ignore gaps shorter than this many bars, e.g. 3 to skip weekends in daily equity data */
+  minMissingBars?: number;
+}
+
+/**
+ * Summary of a stored OHLCV series
+ */
+export interface OHLCVSeriesInfo {
+  /** Trading symbol */
+  symbol: string;
+  /** Bar timeframe */
+  timeframe: Timeframe;
+  /** Number of stored bars */
+  bars: number;
+  /** Timestamp of the first stored bar */
+  firstTimestamp: Date;
+  /** Timestamp of the last stored bar */
+  lastTimestamp: Date;
+}
+
+/**
+ * Local OHLCV storage interface
+ * Serves historical bars the same way a data provider does, so backtests can run offline.
+ */
+export interface IOHLCVStore {
+  /** Insert bars, replacing any already stored at the same timestamps; returns the number written */
+  saveBars(symbol: string, timeframe: Timeframe, bars: OHLCV[]): Promise<number>;
+
+  /** Get stored bars between two dates, inclusive and oldest first */
+  getHistoricalData(
+    symbol: string,
+    timeframe: Timeframe,
+    startDate: Date,
+    endDate: Date,
+    options?: { limit?: number }
+  ): Promise<OHLCV[]>;
+
+  /** Find runs of missing bars in a stored series */
+  findGaps(symbol: string, timeframe: Timeframe, options?: OHLCVGapOptions): Promise<OHLCVGap[]>;
+
+  /** List stored series */
+  listSeries(): Promise<OHLCVSeriesInfo[]>;
+}
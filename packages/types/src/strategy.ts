@@ -3,12 +3,13 @@
  */
 
 import { OHLCV } from './data';
-import { OrderSide } from './trading';
+import { OrderSide, OrderType } from './trading';
 
 /**
  * Trade signal types
+ * SHORT opens or adds to a short position and COVER buys it back
  */
-export type SignalType = 'BUY' | 'SELL' | 'HOLD';
+export type SignalType = 'BUY' | 'SELL' | 'SHORT' | 'COVER' | 'HOLD';
 
 /**
  * Risk management rule types
@@ -34,6 +35,8 @@ export interface IndicatorConfig {
   period?: number;
   /** Source data field (close, high, low, etc.) */
   source?: 'open' | 'high' | 'low' | 'close' | 'volume';
+  /** Indicator name (or `name.output`) used as input instead of price data */
+  input?: string;
 }
 
 /**
@@ -108,6 +111,10 @@ export interface StrategyConfig {
     buy: SignalCondition[];
     /** Sell signal conditions */
     sell: SignalCondition[];
+    /** Short entry signal conditions */
+    short?: SignalCondition[];
+    /** Short cover signal conditions */
+    cover?: SignalCondition[];
   };
   /** Risk management rules */
   riskManagement: RiskConfig;
@@ -138,6 +145,12 @@ export interface TradeSignal {
   timestamp: Date;
   /** Recommended position size */
   quantity?: number;
+  /** Order type used to act on the signal (defaults to MARKET) */
+  orderType?: OrderType;
+  /** Limit price for LIMIT orders */
+  limitPrice?: number;
+  /** Trigger price for STOP orders */
+  stopPrice?: number;
   /** Signal strength (0-1) */
   strength?: number;
   /** Signal reason/description */
@@ -170,6 +183,8 @@ export interface ValidationError {
   message: string;
   /** Field that caused the error */
   field?: string;
+  /** Column (1-based) within the field value, for expression errors */
+  column?: number;
   /** Error severity */
   severity: 'ERROR' | 'WARNING';
 }
@@ -186,6 +201,24 @@ export interface ValidationWarning {
   field?: string;
 }
 
+/**
+ * Bounded window of recent bars kept by a compiled strategy
+ */
+export interface IBarHistory {
+  /** Maximum number of bars retained */
+  readonly capacity: number;
+  /** Number of bars currently retained */
+  readonly size: number;
+  /** Append a bar, evicting the oldest when full */
+  push(bar: OHLCV): void;
+  /** Get a bar by offset (0 = newest) */
+  get(offset?: number): OHLCV | undefined;
+  /** Get retained bars, oldest first */
+  toArray(): OHLCV[];
+  /** Remove all bars */
+  clear(): void;
+}
+
 /**
  * Strategy execution context
  */
@@ -230,6 +263,8 @@ export interface StrategyMetrics {
  * Compiled strategy ready for execution
  */
 export interface CompiledStrategy {
+  /** Id the engine tracks the strategy's execution under */
+  id: string;
   /** Original configuration */
   config: StrategyConfig;
   /** Compiled indicators */
@@ -238,6 +273,12 @@ export interface CompiledStrategy {
   buyConditions: CompiledCondition[];
   /** Compiled sell conditions */
   sellConditions: CompiledCondition[];
+  /** Compiled short entry conditions */
+  shortConditions?: CompiledCondition[];
+  /** Compiled short cover conditions */
+  coverConditions?: CompiledCondition[];
+  /** Rolling window of recent bars exposed to conditions and indicators */
+  history?: IBarHistory;
   /** Strategy metadata */
   metadata: {
     /** Compilation timestamp */
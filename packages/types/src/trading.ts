@@ -10,13 +10,24 @@ export type OrderSide = 'BUY' | 'SELL';
 /**
  * Order type enumeration
  */
-export type OrderType = 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT';
+export type OrderType = 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT' | 'TRAILING_STOP';
 
 /**
  * Order status enumeration
  */
 export type OrderStatus = 'PENDING' | 'FILLED' | 'PARTIALLY_FILLED' | 'CANCELLED' | 'REJECTED';
 
+/**
+ * Time in force enumeration
+ */
+export type TimeInForce = 'DAY' | 'GTC' | 'IOC' | 'FOK';
+
+/**
+ * Order class enumeration
+ * BRACKET attaches take-profit and stop-loss legs to an entry; OCO pairs the two legs alone.
+ */
+export type OrderClass = 'SIMPLE' | 'BRACKET' | 'OCO';
+
 /**
  * Position side enumeration
  */
@@ -74,6 +85,57 @@ export interface Order {
   expiresAt?: Date;
   /** Client order ID */
   clientOrderId?: string;
+  /** Time in force */
+  timeInForce?: TimeInForce;
+  /** Eligible for pre- and post-market execution */
+  extendedHours?: boolean;
+  /** Order class */
+  orderClass?: OrderClass;
+  /** Trailing distance in price (for trailing stops) */
+  trailPrice?: number;
+  /** Trailing distance in percent (for trailing stops) */
+  trailPercent?: number;
+  /** Take-profit and stop-loss legs of bracket and OCO orders */
+  legs?: Order[];
+}
+
+/**
+ * Order placement request
+ */
+export interface OrderRequest {
+  /** Trading symbol */
+  symbol: string;
+  /** Order side (BUY/SELL) */
+  side: OrderSide;
+  /** Order quantity */
+  quantity: number;
+  /** Order type; OCO pairs use LIMIT */
+  type: OrderType;
+  /** Limit price (LIMIT and STOP_LIMIT) */
+  limitPrice?: number;
+  /** Trigger price (STOP and STOP_LIMIT) */
+  stopPrice?: number;
+  /** Trailing distance in price (TRAILING_STOP, exclusive with trailPercent) */
+  trailPrice?: number;
+  /** Trailing distance in percent, e.g. 2 for 2% (TRAILING_STOP, exclusive with trailPrice) */
+  trailPercent?: number;
+  /** Time in force (defaults to DAY) */
+  timeInForce?: TimeInForce;
+  /** Allow pre- and post-market execution (LIMIT orders with DAY time in force only) */
+  extendedHours?: boolean;
+  /** Client order ID for idempotent submission and reconciliation */
+  clientOrderId?: string;
+  /** Order class (defaults to SIMPLE) */
+  orderClass?: OrderClass;
+  /** Take-profit leg of BRACKET and OCO orders */
+  takeProfit?: {
+    limitPrice: number;
+  };
+  /** Stop-loss leg of BRACKET and OCO orders; a limit price makes it a stop-limit */
+  stopLoss?: {
+    stopPrice: number;
+    limitPrice?: number;
+  };
 }
 
 /**
@@ -124,6 +186,8 @@ export interface Trade {
   pnl?: number;
   /** Commission paid */
   commission: number;
+  /** Borrow fees paid on short positions */
+  borrowFees?: number;
   /** Entry reason/signal */
   entryReason?: string;
   /** Exit reason/signal */
@@ -134,6 +198,34 @@ export interface Trade {
   status: 'OPEN' | 'CLOSED';
 }
 
+/**
+ * Saved state of a simulated trading account
+ */
+export interface SimulatedAccountState {
+  /** Cash balance */
+  cash: number;
+  /** Open positions */
+  positions: Position[];
+  /** Every order placed, bracket and OCO legs included; a save may pass only the orders that changed */
+  orders: Order[];
+  /** When the state was saved */
+  updatedAt: Date;
+}
+
+/**
+ * Storage for simulated trading accounts
+ */
+export interface ISimulatedAccountStore {
+  /** Load an account, or null if none has been saved under the id */
+  loadAccount(accountId: string): Promise<SimulatedAccountState | null>;
+
+  /** Save an account, replacing its cash and positions and inserting or updating the given orders */
+  saveAccount(accountId: string, state: SimulatedAccountState): Promise<void>;
+
+  /** Delete an account; returns whether it existed */
+  deleteAccount(accountId: string): Promise<boolean>;
+}
+
 /**
  * Connection result for trading providers
  */
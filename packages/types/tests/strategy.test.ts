@@ -302,6 +302,7 @@ describe('Strategy Types', () => {
 
   test('should validate CompiledStrategy interface', () => {
     const compiledStrategy: CompiledStrategy = {
+      id: 'compiled_strategy',
       config: {
         name: 'Compiled Strategy',
         parameters: {
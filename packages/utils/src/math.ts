@@ -239,6 +239,413 @@ export function calculateKellyCriterion(winRate: number, avgWin: number, avgLoss
   return clamp(kellyCriterion, 0, 0.25);
 }
 
+/**
+ * Drawdown period measured in equity curve indices
+ */
+export interface DrawdownPeriod {
+  /** Index of the peak the drawdown started from */
+  peakIndex: number;
+  /** Index of the lowest value within the drawdown */
+  troughIndex: number;
+  /** Index where the peak was regained, null if never recovered */
+  recoveryIndex: number | null;
+  /** Depth of the drawdown as percentage (0-1) */
+  depth: number;
+}
+
+/**
+ * Calculate a percentile using linear interpolation
+ * @param values - Array of numbers
+ * @param percentile - Percentile as fraction (0-1)
+ * @returns Percentile value
+ */
+export function calculatePercentile(values: number[], percentile: number): number {
+  if (values.length === 0) {
+    throw new Error('Values array cannot be empty');
+  }
+  if (percentile < 0 || percentile > 1) {
+    throw new Error('Percentile must be between 0 and 1');
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * percentile;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Calculate Sortino ratio for a series of returns
+ * @param returns - Array of return values
+ * @param targetReturn - Minimum acceptable return (default: 0)
+ * @returns Sortino ratio (mean excess return / downside deviation)
+ */
+export function calculateSortinoRatio(returns: number[], targetReturn: number = 0): number {
+  if (returns.length === 0) {
+    throw new Error('Returns array cannot be empty');
+  }
+
+  const excessReturns = returns.map(r => r - targetReturn);
+  const meanExcessReturn = calculateMean(excessReturns);
+  const downsideDeviation = Math.sqrt(calculateMean(excessReturns.map(r => Math.pow(Math.min(0, r), 2))));
+
+  if (downsideDeviation === 0) {
+    return meanExcessReturn > 0 ? Infinity : 0;
+  }
+
+  return meanExcessReturn / downsideDeviation;
+}
+
+/**
+ * Calculate Calmar ratio
+ * @param annualizedReturn - Annualized return as decimal
+ * @param maxDrawdown - Maximum drawdown as percentage (0-1)
+ * @returns Calmar ratio (annualized return / max drawdown)
+ */
+export function calculateCalmarRatio(annualizedReturn: number, maxDrawdown: number): number {
+  if (maxDrawdown === 0) {
+    return annualizedReturn > 0 ? Infinity : 0;
+  }
+  return annualizedReturn / Math.abs(maxDrawdown);
+}
+
+/**
+ * Calculate Omega ratio for a series of returns
+ * @param returns - Array of return values
+ * @param threshold - Return threshold (default: 0)
+ * @returns Omega ratio (gains above threshold / losses below threshold)
+ */
+export function calculateOmegaRatio(returns: number[], threshold: number = 0): number {
+  if (returns.length === 0) {
+    throw new Error('Returns array cannot be empty');
+  }
+
+  const gains = returns.reduce((sum, r) => sum + Math.max(0, r - threshold), 0);
+  const losses = returns.reduce((sum, r) => sum + Math.max(0, threshold - r), 0);
+
+  if (losses === 0) {
+    return gains > 0 ? Infinity : 1;
+  }
+
+  return gains / losses;
+}
+
+/**
+ * Calculate ulcer index from equity curve
+ * @param equityCurve - Array of portfolio values over time
+ * @returns Ulcer index (root mean square drawdown, 0-1)
+ */
+export function calculateUlcerIndex(equityCurve: number[]): number {
+  if (equityCurve.length === 0) {
+    throw new Error('Equity curve cannot be empty');
+  }
+
+  let peak = equityCurve[0];
+  const squaredDrawdowns = equityCurve.map(value => {
+    peak = Math.max(peak, value);
+    const drawdown = peak > 0 ? (peak - value) / peak : 0;
+    return drawdown * drawdown;
+  });
+
+  return Math.sqrt(calculateMean(squaredDrawdowns));
+}
+
+/**
+ * Calculate tail ratio for a series of returns
+ * @param returns - Array of return values
+ * @param percentile - Upper tail percentile (default: 0.95)
+ * @returns Ratio of the upper tail to the absolute lower tail
+ */
+export function calculateTailRatio(returns: number[], percentile: number = 0.95): number {
+  const upperTail = Math.abs(calculatePercentile(returns, percentile));
+  const lowerTail = Math.abs(calculatePercentile(returns, 1 - percentile));
+
+  if (lowerTail === 0) {
+    return upperTail > 0 ? Infinity : 1;
+  }
+
+  return upperTail / lowerTail;
+}
+
+/**
+ * Calculate historical value at risk
+ * @param returns - Array of return values
+ * @param confidence - Confidence level (default: 0.95)
+ * @returns Loss not exceeded with the given confidence, as a positive decimal
+ */
+export function calculateValueAtRisk(returns: number[], confidence: number = 0.95): number {
+  return Math.max(0, -calculatePercentile(returns, 1 - confidence));
+}
+
+/**
+ * Calculate historical conditional value at risk (expected shortfall)
+ * @param returns - Array of return values
+ * @param confidence - Confidence level (default: 0.95)
+ * @returns Average loss beyond the value at risk, as a positive decimal
+ */
+export function calculateConditionalValueAtRisk(returns: number[], confidence: number = 0.95): number {
+  const cutoff = calculatePercentile(returns, 1 - confidence);
+  const tailReturns = returns.filter(r => r <= cutoff);
+
+  return Math.max(0, -calculateMean(tailReturns));
+}
+
+/**
+ * Find drawdown periods in an equity curve
+ * @param equityCurve - Array of portfolio values over time
+ * @returns Drawdown periods in chronological order
+ */
+export function calculateDrawdownPeriods(equityCurve: number[]): DrawdownPeriod[] {
+  const periods: DrawdownPeriod[] = [];
+  let peakIndex = 0;
+  let current: DrawdownPeriod | null = null;
+
+  for (let i = 1; i < equityCurve.length; i++) {
+    const value = equityCurve[i];
+    const peak = equityCurve[peakIndex];
+
+    if (value >= peak) {
+      if (current) {
+        current.recoveryIndex = i;
+        periods.push(current);
+        current = null;
+      }
+      peakIndex = i;
+      continue;
+    }
+
+    const depth = peak > 0 ? (peak - value) / peak : 0;
+    if (!current) {
+      current = { peakIndex, troughIndex: i, recoveryIndex: null, depth };
+    } else if (depth > current.depth) {
+      current.troughIndex = i;
+      current.depth = depth;
+    }
+  }
+
+  if (current) {
+    periods.push(current);
+  }
+
+  return periods;
+}
+
+/**
+ * Calculate expectancy from P&L values
+ * @param pnlValues - Array of profit/loss values
+ * @returns Expected P&L per trade (win rate * average win - loss rate * average loss)
+ */
+export function calculateExpectancy(pnlValues: number[]): number {
+  if (pnlValues.length === 0) {
+    return 0;
+  }
+
+  const wins = pnlValues.filter(pnl => pnl > 0);
+  const losses = pnlValues.filter(pnl => pnl < 0);
+  const averageWin = wins.length > 0 ? calculateMean(wins) : 0;
+  const averageLoss = losses.length > 0 ? Math.abs(calculateMean(losses)) : 0;
+
+  return (wins.length / pnlValues.length) * averageWin - (losses.length / pnlValues.length) * averageLoss;
+}
+
+/**
+ * Calculate system quality number (SQN)
+ * @param pnlValues - Array of profit/loss values
+ * @returns Square root of trade count times mean P&L over P&L standard deviation
+ */
+export function calculateSystemQualityNumber(pnlValues: number[]): number {
+  if (pnlValues.length < 2) {
+    return 0;
+  }
+
+  const stdDeviation = calculateStandardDeviation(pnlValues);
+  if (stdDeviation === 0) {
+    return 0;
+  }
+
+  return Math.sqrt(pnlValues.length) * calculateMean(pnlValues) / stdDeviation;
+}
+
+/**
+ * Calculate the longest winning and losing streaks
+ * @param pnlValues - Array of profit/loss values in trade order
+ * @returns Maximum consecutive wins and losses
+ */
+export function calculateMaxConsecutive(pnlValues: number[]): { wins: number; losses: number } {
+  let wins = 0;
+  let losses = 0;
+  let currentWins = 0;
+  let currentLosses = 0;
+
+  for (const pnl of pnlValues) {
+    currentWins = pnl > 0 ? currentWins + 1 : 0;
+    currentLosses = pnl < 0 ? currentLosses + 1 : 0;
+    wins = Math.max(wins, currentWins);
+    losses = Math.max(losses, currentLosses);
+  }
+
+  return { wins, losses };
+}
+
+/**
+ * Calculate market exposure
+ * @param positionValues - Array of position values over time
+ * @returns Fraction of periods with an open position (0-1)
+ */
+export function calculateExposure(positionValues: number[]): number {
+  if (positionValues.length === 0) {
+    return 0;
+  }
+  return positionValues.filter(value => value !== 0).length / positionValues.length;
+}
+
+/**
+ * Calculate covariance between two return series
+ * @param returns - Array of return values
+ * @param benchmarkReturns - Array of benchmark return values (same length)
+ * @returns Population covariance
+ */
+export function calculateCovariance(returns: number[], benchmarkReturns: number[]): number {
+  assertPairedSeries(returns, benchmarkReturns);
+
+  const mean = calculateMean(returns);
+  const benchmarkMean = calculateMean(benchmarkReturns);
+  const products = returns.map((r, i) => (r - mean) * (benchmarkReturns[i] - benchmarkMean));
+
+  return calculateMean(products);
+}
+
+/**
+ * Calculate correlation between two return series
+ * @param returns - Array of return values
+ * @param benchmarkReturns - Array of benchmark return values (same length)
+ * @returns Pearson correlation (-1 to 1), 0 when either series is constant
+ */
+export function calculateCorrelation(returns: number[], benchmarkReturns: number[]): number {
+  const covariance = calculateCovariance(returns, benchmarkReturns);
+  const deviations = calculateStandardDeviation(returns) * calculateStandardDeviation(benchmarkReturns);
+
+  return deviations === 0 ? 0 : covariance / deviations;
+}
+
+/**
+ * Calculate beta of a return series relative to a benchmark
+ * @param returns - Array of return values
+ * @param benchmarkReturns - Array of benchmark return values (same length)
+ * @returns Beta, 0 when the benchmark does not move
+ */
+export function calculateBeta(returns: number[], benchmarkReturns: number[]): number {
+  const covariance = calculateCovariance(returns, benchmarkReturns);
+  const benchmarkVariance = Math.pow(calculateStandardDeviation(benchmarkReturns), 2);
+
+  return benchmarkVariance === 0 ? 0 : covariance / benchmarkVariance;
+}
+
+/**
+ * Calculate Jensen's alpha per period
+ * @param returns - Array of return values
+ * @param benchmarkReturns - Array of benchmark return values (same length)
+ * @param riskFreeRate - Risk-free rate per period (default: 0)
+ * @returns Mean excess return not explained by benchmark exposure
+ */
+export function calculateAlpha(
+  returns: number[],
+  benchmarkReturns: number[],
+  riskFreeRate: number = 0
+): number {
+  const beta = calculateBeta(returns, benchmarkReturns);
+  const meanExcessReturn = calculateMean(returns) - riskFreeRate;
+  const meanBenchmarkExcessReturn = calculateMean(benchmarkReturns) - riskFreeRate;
+
+  return meanExcessReturn - beta * meanBenchmarkExcessReturn;
+}
+
+/**
+ * Calculate tracking error against a benchmark
+ * @param returns - Array of return values
+ * @param benchmarkReturns - Array of benchmark return values (same length)
+ * @returns Standard deviation of active returns per period
+ */
+export function calculateTrackingError(returns: number[], benchmarkReturns: number[]): number {
+  assertPairedSeries(returns, benchmarkReturns);
+  return calculateStandardDeviation(returns.map((r, i) => r - benchmarkReturns[i]));
+}
+
+/**
+ * Calculate information ratio against a benchmark
+ * @param returns - Array of return values
+ * @param benchmarkReturns - Array of benchmark return values (same length)
+ * @returns Mean active return divided by tracking error, per period
+ */
+export function calculateInformationRatio(returns: number[], benchmarkReturns: number[]): number {
+  assertPairedSeries(returns, benchmarkReturns);
+
+  const activeReturns = returns.map((r, i) => r - benchmarkReturns[i]);
+  const meanActiveReturn = calculateMean(activeReturns);
+  const trackingError = calculateStandardDeviation(activeReturns);
+
+  if (trackingError === 0) {
+    return meanActiveReturn > 0 ? Infinity : meanActiveReturn < 0 ? -Infinity : 0;
+  }
+
+  return meanActiveReturn / trackingError;
+}
+
+/**
+ * Calculate up and down capture ratios against a benchmark
+ * @param returns - Array of return values
+ * @param benchmarkReturns - Array of benchmark return values (same length)
+ * @returns Mean return in up/down benchmark periods relative to the benchmark's (1 = 100%)
+ */
+export function calculateCaptureRatios(
+  returns: number[],
+  benchmarkReturns: number[]
+): { upCapture: number; downCapture: number } {
+  assertPairedSeries(returns, benchmarkReturns);
+
+  const capture = (inPeriod: (benchmarkReturn: number) => boolean): number => {
+    const indices = benchmarkReturns
+      .map((r, i) => (inPeriod(r) ? i : -1))
+      .filter(i => i >= 0);
+    if (indices.length === 0) {
+      return 0;
+    }
+    const benchmarkMean = calculateMean(indices.map(i => benchmarkReturns[i]));
+    return calculateMean(indices.map(i => returns[i])) / benchmarkMean;
+  };
+
+  return {
+    upCapture: capture(r => r > 0),
+    downCapture: capture(r => r < 0)
+  };
+}
+
+function assertPairedSeries(returns: number[], benchmarkReturns: number[]): void {
+  if (returns.length === 0) {
+    throw new Error('Returns array cannot be empty');
+  }
+  if (returns.length !== benchmarkReturns.length) {
+    throw new Error('Returns and benchmark returns must have the same length');
+  }
+}
+
+/**
+ * Create a seeded pseudo-random number generator (mulberry32)
+ * @param seed - Integer seed; the same seed always yields the same sequence
+ * @returns Function returning numbers in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
 /**
  * Generate a unique identifier
  * @param prefix - Optional prefix for the ID
@@ -2,6 +2,8 @@
  * Time utilities for market hours and timezone handling
  */
 
+import { Timeframe } from '@jware-trader8/types';
+
 export interface MarketSession {
   name: string;
   open: string;  // HH:MM format
@@ -311,6 +313,84 @@ export function getTimeFromMarketOpen(marketSession: MarketSession, currentTime?
   return marketTime.getTime() - marketOpen.getTime();
 }
 
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+const TIMEFRAME_MILLISECONDS: Record<Timeframe, number> = {
+  '1m': MS_PER_MINUTE,
+  '5m': 5 * MS_PER_MINUTE,
+  '15m': 15 * MS_PER_MINUTE,
+  '1h': 60 * MS_PER_MINUTE,
+  '4h': 4 * 60 * MS_PER_MINUTE,
+  '1d': MS_PER_DAY,
+  '1w': 7 * MS_PER_DAY,
+  '1M': 30.436875 * MS_PER_DAY
+};
+
+/**
+ * Nominal length of a bar in milliseconds
+ * Months are taken as an average Gregorian month, so spacing between monthly bars
+ * should be rounded to whole bars rather than compared exactly.
+ */
+export function timeframeToMilliseconds(timeframe: Timeframe): number {
+  const milliseconds = TIMEFRAME_MILLISECONDS[timeframe];
+  if (milliseconds === undefined) {
+    throw new Error(`Unknown timeframe: ${timeframe}`);
+  }
+  return milliseconds;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const sessionTimeFormats = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Whether a market session expects a bar of this timeframe to start at a timestamp
+ * Daily bars follow trading days by calendar date, intraday bars must also overlap
+ * session hours, and weekly or longer bars are always expected.
+ */
+export function isSessionBar(marketSession: MarketSession, timestamp: Date, timeframe: Timeframe): boolean {
+  const interval = timeframeToMilliseconds(timeframe);
+  if (interval >= 7 * MS_PER_DAY || marketSession.daysOfWeek.length === 7) {
+    return true;
+  }
+
+  const isUSMarket = marketSession.timezone === 'America/New_York';
+  if (interval >= MS_PER_DAY) {
+    return marketSession.daysOfWeek.includes(timestamp.getUTCDay()) && !(isUSMarket && isUSMarketHoliday(timestamp));
+  }
+
+  let format = sessionTimeFormats.get(marketSession.timezone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone: marketSession.timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    });
+    sessionTimeFormats.set(marketSession.timezone, format);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of format.formatToParts(timestamp)) {
+    parts[part.type] = part.value;
+  }
+
+  const localDate = `${parts.year}-${parts.month}-${parts.day}`;
+  if (!marketSession.daysOfWeek.includes(WEEKDAYS.indexOf(parts.weekday)) ||
+      (isUSMarket && US_MARKET_HOLIDAYS_2024.includes(localDate))) {
+    return false;
+  }
+
+  const [openHour, openMinute] = marketSession.open.split(':').map(Number);
+  const [closeHour, closeMinute] = marketSession.close.split(':').map(Number);
+  const minutes = Number(parts.hour) * 60 + Number(parts.minute);
+  return minutes < closeHour * 60 + closeMinute && minutes + interval / MS_PER_MINUTE > openHour * 60 + openMinute;
+}
+
 /**
  * Sleep for specified milliseconds (useful for rate limiting)
  */
@@ -2,7 +2,7 @@
  * Input validation and sanitization utilities
  */
 
-import { StrategyConfig, OrderSide, OrderType } from '@jware-trader8/types';
+import { StrategyConfig, OrderSide, OrderType, OrderRequest } from '@jware-trader8/types';
 
 export interface ValidationError {
   field: string;
@@ -182,7 +182,7 @@ export function validateOrderSide(side: string): ValidationResult {
  */
 export function validateOrderType(type: string): ValidationResult {
   const errors: ValidationError[] = [];
-  const validTypes: OrderType[] = ['MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT'];
+  const validTypes: OrderType[] = ['MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT', 'TRAILING_STOP'];
   
   if (!validTypes.includes(type as OrderType)) {
     errors.push({
@@ -196,6 +196,137 @@ export function validateOrderType(type: string): ValidationResult {
   return { isValid: errors.length === 0, errors };
 }
 
+/**
+ * Validate an order request
+ * Checks that each order type and class carries the prices it needs and no conflicting settings.
+ */
+export function validateOrderRequest(request: OrderRequest): ValidationResult {
+  const errors: ValidationError[] = [];
+  const checkPrice = (field: string, value: number | undefined, requiredMessage?: string) => {
+    if (value === undefined) {
+      if (requiredMessage) {
+        errors.push({ field, message: requiredMessage, code: 'REQUIRED_FIELD' });
+      }
+    } else if (typeof value !== 'number' || !(value > 0)) {
+      errors.push({ field, message: `${field} must be positive`, code: 'INVALID_RANGE', value });
+    }
+  };
+  const type = request.type;
+  const orderClass = request.orderClass ?? 'SIMPLE';
+  const timeInForce = request.timeInForce ?? 'DAY';
+
+  const base = combineValidationResults(
+    validateQuantity(request.quantity, Number.MIN_VALUE),
+    validateOrderSide(request.side),
+    validateOrderType(type)
+  );
+  errors.push(...base.errors);
+
+  // OCO pairs take their prices from the legs
+  const needsLimit = orderClass !== 'OCO' && (type === 'LIMIT' || type === 'STOP_LIMIT');
+  const needsStop = type === 'STOP' || type === 'STOP_LIMIT';
+  checkPrice('limitPrice', request.limitPrice, needsLimit ? `${type} orders require a limit price` : undefined);
+  checkPrice('stopPrice', request.stopPrice, needsStop ? `${type} orders require a stop price` : undefined);
+  checkPrice('trailPrice', request.trailPrice);
+  checkPrice('trailPercent', request.trailPercent);
+
+  if (type === 'TRAILING_STOP' && (request.trailPrice === undefined) === (request.trailPercent === undefined)) {
+    errors.push({
+      field: 'trailPrice',
+      message: 'TRAILING_STOP orders require exactly one of trailPrice or trailPercent',
+      code: 'INVALID_VALUE'
+    });
+  } else if (type !== 'TRAILING_STOP' && (request.trailPrice !== undefined || request.trailPercent !== undefined)) {
+    errors.push({
+      field: 'trailPrice',
+      message: 'Trailing distances only apply to TRAILING_STOP orders',
+      code: 'INVALID_VALUE'
+    });
+  }
+
+  if (request.extendedHours && (type !== 'LIMIT' || timeInForce !== 'DAY' || orderClass !== 'SIMPLE')) {
+    errors.push({
+      field: 'extendedHours',
+      message: 'Extended hours orders must be simple LIMIT orders with DAY time in force',
+      code: 'INVALID_VALUE',
+      value: request.extendedHours
+    });
+  }
+
+  if (request.clientOrderId !== undefined && (request.clientOrderId.length === 0 || request.clientOrderId.length > 128)) {
+    errors.push({
+      field: 'clientOrderId',
+      message: 'Client order ID must be between 1 and 128 characters',
+      code: 'INVALID_LENGTH',
+      value: request.clientOrderId
+    });
+  }
+
+  if (orderClass === 'SIMPLE') {
+    if (request.takeProfit || request.stopLoss) {
+      errors.push({
+        field: 'orderClass',
+        message: 'Take-profit and stop-loss legs require a BRACKET or OCO order class',
+        code: 'INVALID_VALUE',
+        value: orderClass
+      });
+    }
+    return { isValid: errors.length === 0, errors };
+  }
+
+  if (!request.takeProfit || !request.stopLoss) {
+    errors.push({
+      field: orderClass === 'BRACKET' ? 'takeProfit' : 'stopLoss',
+      message: `${orderClass} orders require both a take-profit and a stop-loss leg`,
+      code: 'REQUIRED_FIELD'
+    });
+  } else {
+    checkPrice('takeProfit.limitPrice', request.takeProfit.limitPrice, 'Take-profit leg requires a limit price');
+    checkPrice('stopLoss.stopPrice', request.stopLoss.stopPrice, 'Stop-loss leg requires a stop price');
+    checkPrice('stopLoss.limitPrice', request.stopLoss.limitPrice);
+
+    // Legs exit the position: above and below the market for longs, the reverse for shorts
+    const exitsLong = orderClass === 'BRACKET' ? request.side === 'BUY' : request.side === 'SELL';
+    const { limitPrice } = request.takeProfit;
+    const { stopPrice } = request.stopLoss;
+    if (exitsLong ? limitPrice <= stopPrice : limitPrice >= stopPrice) {
+      errors.push({
+        field: 'takeProfit.limitPrice',
+        message: `Take-profit ${limitPrice} must be ${exitsLong ? 'above' : 'below'} the stop-loss ${stopPrice}`,
+        code: 'INVALID_RANGE',
+        value: limitPrice
+      });
+    }
+  }
+
+  if (orderClass === 'BRACKET' && type !== 'MARKET' && type !== 'LIMIT') {
+    errors.push({
+      field: 'type',
+      message: 'BRACKET entries must be MARKET or LIMIT orders',
+      code: 'INVALID_VALUE',
+      value: type
+    });
+  }
+  if (orderClass === 'OCO' && type !== 'LIMIT') {
+    errors.push({
+      field: 'type',
+      message: 'OCO orders must use the LIMIT type',
+      code: 'INVALID_VALUE',
+      value: type
+    });
+  }
+  if (timeInForce !== 'DAY' && timeInForce !== 'GTC') {
+    errors.push({
+      field: 'timeInForce',
+      message: `${orderClass} orders must use DAY or GTC time in force`,
+      code: 'INVALID_VALUE',
+      value: timeInForce
+    });
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
 /**
  * Validate date range
  */
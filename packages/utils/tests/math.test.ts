@@ -13,7 +13,28 @@ import {
   calculateStandardDeviation,
   clamp,
   isValidNumber,
-  safeNumber
+  safeNumber,
+  calculateCovariance,
+  calculateCorrelation,
+  calculateBeta,
+  calculateAlpha,
+  calculateTrackingError,
+  calculateInformationRatio,
+  calculateCaptureRatios,
+  calculatePercentile,
+  calculateSortinoRatio,
+  calculateCalmarRatio,
+  calculateOmegaRatio,
+  calculateUlcerIndex,
+  calculateTailRatio,
+  calculateValueAtRisk,
+  calculateConditionalValueAtRisk,
+  calculateDrawdownPeriods,
+  calculateExpectancy,
+  calculateSystemQualityNumber,
+  calculateMaxConsecutive,
+  calculateExposure,
+  createSeededRandom
 } from '../src/math';
 
 describe('Math Utilities', () => {
@@ -154,4 +175,97 @@ describe('Math Utilities', () => {
     // We'll implement this function
     // expect(calculateCompoundReturn(returns)).toBeCloseTo(expected, 4);
   });
-});
\ No newline at end of file
+
+  test('should calculate benchmark-relative statistics', () => {
+    const benchmark = [0.01, -0.02, 0.03, -0.01];
+    const leveraged = benchmark.map(r => r * 2 + 0.001);
+
+    expect(calculateCovariance(benchmark, benchmark)).toBeCloseTo(Math.pow(calculateStandardDeviation(benchmark), 2), 10);
+    expect(calculateBeta(leveraged, benchmark)).toBeCloseTo(2, 10);
+    expect(calculateCorrelation(leveraged, benchmark)).toBeCloseTo(1, 10);
+    expect(calculateCorrelation(benchmark.map(r => -r), benchmark)).toBeCloseTo(-1, 10);
+    expect(calculateAlpha(leveraged, benchmark)).toBeCloseTo(0.001, 10);
+    expect(calculateTrackingError(benchmark, benchmark)).toBe(0);
+    expect(calculateTrackingError(leveraged, benchmark)).toBeCloseTo(calculateStandardDeviation(benchmark), 10);
+  });
+
+  test('should calculate information ratio and capture ratios', () => {
+    const benchmark = [0.02, -0.01, 0.01, -0.03];
+    const returns = [0.03, -0.005, 0.01, -0.01];
+
+    expect(calculateInformationRatio([0.02, 0.01], [0.01, 0.0])).toBe(Infinity);
+    expect(calculateInformationRatio(benchmark, benchmark)).toBe(0);
+
+    const { upCapture, downCapture } = calculateCaptureRatios(returns, benchmark);
+    expect(upCapture).toBeCloseTo(0.02 / 0.015, 10);
+    expect(downCapture).toBeCloseTo(0.0075 / 0.02, 10);
+  });
+
+  test('should reject mismatched benchmark series', () => {
+    expect(() => calculateBeta([0.01, 0.02], [0.01])).toThrow('same length');
+    expect(() => calculateCovariance([], [])).toThrow();
+    expect(calculateBeta([0.01, 0.02], [0.01, 0.01])).toBe(0);
+  });
+
+  test('should calculate percentiles with interpolation', () => {
+    expect(calculatePercentile([4, 1, 3, 2], 0)).toBe(1);
+    expect(calculatePercentile([4, 1, 3, 2], 1)).toBe(4);
+    expect(calculatePercentile([1, 2, 3, 4], 0.5)).toBe(2.5);
+    expect(() => calculatePercentile([1], 1.5)).toThrow();
+  });
+
+  test('should calculate downside risk ratios', () => {
+    const returns = [0.02, -0.01, 0.03, -0.02];
+
+    // Downside deviation = sqrt((0.01^2 + 0.02^2) / 4)
+    expect(calculateSortinoRatio(returns)).toBeCloseTo(0.005 / Math.sqrt(0.0005 / 4), 10);
+    expect(calculateSortinoRatio([0.01, 0.02])).toBe(Infinity);
+    expect(calculateOmegaRatio(returns)).toBeCloseTo(0.05 / 0.03, 10);
+    expect(calculateOmegaRatio([0.01])).toBe(Infinity);
+    expect(calculateCalmarRatio(0.2, 0.1)).toBeCloseTo(2, 10);
+    expect(calculateCalmarRatio(0.2, 0)).toBe(Infinity);
+  });
+
+  test('should calculate ulcer index and drawdown periods', () => {
+    const equityCurve = [100, 110, 99, 121, 115];
+
+    expect(calculateUlcerIndex([100, 110, 120])).toBe(0);
+    expect(calculateUlcerIndex(equityCurve)).toBeCloseTo(Math.sqrt((0.01 + Math.pow(6 / 121, 2)) / 5), 10);
+    expect(calculateDrawdownPeriods(equityCurve)).toEqual([
+      { peakIndex: 1, troughIndex: 2, recoveryIndex: 3, depth: expect.closeTo(0.1, 10) },
+      { peakIndex: 3, troughIndex: 4, recoveryIndex: null, depth: expect.closeTo(6 / 121, 10) }
+    ]);
+  });
+
+  test('should calculate tail risk from historical returns', () => {
+    const returns = Array.from({ length: 21 }, (_, i) => (i - 10) / 100);
+
+    expect(calculateValueAtRisk(returns)).toBeCloseTo(0.09, 10);
+    expect(calculateConditionalValueAtRisk(returns)).toBeCloseTo(0.095, 10);
+    expect(calculateTailRatio(returns)).toBeCloseTo(1, 10);
+    expect(calculateValueAtRisk([0.01, 0.02])).toBe(0);
+  });
+
+  test('should calculate trade quality statistics', () => {
+    const pnlValues = [10, -5, -3, 8, 6];
+
+    expect(calculateExpectancy(pnlValues)).toBeCloseTo(3.2, 10);
+    expect(calculateExpectancy([])).toBe(0);
+    expect(calculateSystemQualityNumber(pnlValues)).toBeCloseTo(
+      Math.sqrt(5) * 3.2 / calculateStandardDeviation(pnlValues), 10
+    );
+    expect(calculateSystemQualityNumber([5])).toBe(0);
+    expect(calculateMaxConsecutive(pnlValues)).toEqual({ wins: 2, losses: 2 });
+    expect(calculateExposure([0, 100, -50, 0])).toBe(0.5);
+  });
+
+  test('should create reproducible seeded random sequences', () => {
+    const first = createSeededRandom(42);
+    const second = createSeededRandom(42);
+    const sequence = Array.from({ length: 5 }, () => first());
+
+    expect(Array.from({ length: 5 }, () => second())).toEqual(sequence);
+    expect(sequence.every(value => value >= 0 && value < 1)).toBe(true);
+    expect(createSeededRandom(7)()).not.toBe(sequence[0]);
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Tests for market session helpers
+ */
+
+import { MARKET_SESSIONS, isSessionBar } from '../src/time';
+
+describe('isSessionBar', () => {
+  test('should expect daily equity bars on trading days only', () => {
+    // Tuesday, Saturday and the New Year's Day holiday
+    expect(isSessionBar(MARKET_SESSIONS.NYSE, new Date(Date.UTC(2024, 0, 2)), '1d')).toBe(true);
+    expect(isSessionBar(MARKET_SESSIONS.NYSE, new Date(Date.UTC(2024, 0, 6)), '1d')).toBe(false);
+    expect(isSessionBar(MARKET_SESSIONS.NYSE, new Date(Date.UTC(2024, 0, 1)), '1d')).toBe(false);
+  });
+
+  test('should expect intraday equity bars that overlap session hours', () => {
+    // 09:00 New York covers the 09:30 open; 16:00 starts after the close
+    expect(isSessionBar(MARKET_SESSIONS.NYSE, new Date(Date.UTC(2024, 0, 2, 14)), '1h')).toBe(true);
+    expect(isSessionBar(MARKET_SESSIONS.NYSE, new Date(Date.UTC(2024, 0, 2, 14, 15)), '5m')).toBe(false);
+    expect(isSessionBar(MARKET_SESSIONS.NYSE, new Date(Date.UTC(2024, 0, 2, 21)), '1h')).toBe(false);
+    // Summer time shifts the session an hour earlier in UTC
+    expect(isSessionBar(MARKET_SESSIONS.NYSE, new Date(Date.UTC(2024, 6, 2, 13, 30)), '5m')).toBe(true);
+  });
+
+  test('should expect every bar of round-the-clock markets and weekly bars', () => {
+    expect(isSessionBar(MARKET_SESSIONS.CRYPTO, new Date(Date.UTC(2024, 0, 6, 3)), '1h')).toBe(true);
+    expect(isSessionBar(MARKET_SESSIONS.NYSE, new Date(Date.UTC(2024, 0, 6)), '1w')).toBe(true);
+  });
+});